@@ -0,0 +1,287 @@
+import {
+	type ModerationActor,
+	type Page,
+	moderationService,
+} from "../services/ModerationService";
+import { stripeService } from "../../payment/services/StripeService";
+import { AuthenticationError, ValidationError } from "../../../shared/utils/errors";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+
+// Validation schemas
+const reasonSchema = z.object({
+	reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+const optionalReasonSchema = z.object({
+	reason: z.string().trim().max(500).optional(),
+});
+
+const roleSchema = z.object({
+	role: z.string().min(1, "Role is required"),
+});
+
+const webhookEventFiltersSchema = z.object({
+	status: z.enum(["processing", "processed", "failed"]).optional(),
+	type: z.string().trim().min(1).optional(),
+});
+
+export class AdminController {
+	listPerformances = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await moderationService.listPerformances(
+				{
+					moderationStatus: req.query.moderationStatus as
+						| "visible"
+						| "hidden"
+						| undefined,
+					status: req.query.status as string | undefined,
+				},
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	hidePerformance = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { reason } = this.validate(reasonSchema, req.body);
+			const performance = await moderationService.setPerformanceHidden(
+				this.getActor(req),
+				req.params.id,
+				true,
+				reason,
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	restorePerformance = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { reason } = this.validate(optionalReasonSchema, req.body ?? {});
+			const performance = await moderationService.setPerformanceHidden(
+				this.getActor(req),
+				req.params.id,
+				false,
+				reason,
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	listUsers = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await moderationService.listUsers(
+				{
+					role: req.query.role as string | undefined,
+					status: req.query.status as "active" | "suspended" | undefined,
+					search: req.query.search as string | undefined,
+				},
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	suspendUser = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { reason } = this.validate(reasonSchema, req.body);
+			const user = await moderationService.setUserSuspended(
+				this.getActor(req),
+				req.params.id,
+				true,
+				reason,
+			);
+
+			this.sendData(res, user);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	reinstateUser = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { reason } = this.validate(optionalReasonSchema, req.body ?? {});
+			const user = await moderationService.setUserSuspended(
+				this.getActor(req),
+				req.params.id,
+				false,
+				reason,
+			);
+
+			this.sendData(res, user);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	changeUserRole = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { role } = this.validate(roleSchema, req.body);
+			const user = await moderationService.changeUserRole(
+				this.getActor(req),
+				req.params.id,
+				role,
+			);
+
+			this.sendData(res, user);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getAuditLog = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await moderationService.getAuditLog(
+				{
+					targetType: req.query.targetType as
+						| "video"
+						| "performance"
+						| "user"
+						| undefined,
+					targetId: req.query.targetId as string | undefined,
+					actorId: req.query.actorId as string | undefined,
+				},
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	listWebhookEvents = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const filters = this.validate(webhookEventFiltersSchema, {
+				status: req.query.status,
+				type: req.query.type,
+			});
+			const { items, total } = await stripeService.getWebhookEvents(
+				filters,
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	replayWebhookEvent = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const event = await stripeService.replayWebhookEvent(
+				req.params.eventId,
+				this.getActor(req).userId,
+			);
+
+			this.sendData(res, event);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private getActor(req: Request): ModerationActor {
+		if (!req.user) {
+			throw new AuthenticationError();
+		}
+		return req.user;
+	}
+
+	private validate<T>(schema: z.ZodType<T>, body: unknown): T {
+		const validation = schema.safeParse(body);
+		if (!validation.success) {
+			throw new ValidationError(validation.error.errors[0].message);
+		}
+		return validation.data;
+	}
+
+	private parsePage(req: Request): Page {
+		const page = Math.max(Number.parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(
+			Math.max(Number.parseInt(req.query.limit as string) || 20, 1),
+			100,
+		);
+		return { page, limit };
+	}
+
+	private sendData(res: Response, data: unknown): void {
+		res.json({
+			success: true,
+			data,
+			meta: { timestamp: new Date().toISOString() },
+		});
+	}
+
+	private sendPage(
+		res: Response,
+		items: unknown[],
+		total: number,
+		{ page, limit }: Page,
+	): void {
+		res.json({
+			success: true,
+			data: items,
+			meta: {
+				pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+				timestamp: new Date().toISOString(),
+			},
+		});
+	}
+}
@@ -0,0 +1,81 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+export type ModerationTargetType = "video" | "performance" | "user";
+
+export type ModerationActionType =
+	| "approve"
+	| "reject"
+	| "hide"
+	| "restore"
+	| "suspend"
+	| "reinstate"
+	| "change_role";
+
+// Audit trail entry for every action taken from the moderation console
+export interface ModerationActionDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	actorId: string;
+	actorRole: string;
+	targetType: ModerationTargetType;
+	targetId: string;
+	action: ModerationActionType;
+	reason?: string;
+	metadata?: Record<string, unknown>;
+	createdAt: Date;
+}
+
+const moderationActionSchema = new Schema<ModerationActionDocument>(
+	{
+		actorId: {
+			type: String,
+			required: true,
+			index: true,
+		},
+		actorRole: {
+			type: String,
+			required: true,
+		},
+		targetType: {
+			type: String,
+			enum: ["video", "performance", "user"],
+			required: true,
+		},
+		targetId: {
+			type: String,
+			required: true,
+		},
+		action: {
+			type: String,
+			enum: [
+				"approve",
+				"reject",
+				"hide",
+				"restore",
+				"suspend",
+				"reinstate",
+				"change_role",
+			],
+			required: true,
+		},
+		reason: {
+			type: String,
+			maxlength: 500,
+		},
+		metadata: {
+			type: Schema.Types.Mixed,
+		},
+	},
+	{
+		// Audit entries are append-only
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "moderation_actions",
+	},
+);
+
+moderationActionSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+moderationActionSchema.index({ createdAt: -1 });
+
+export const ModerationActionModel = mongoose.model<ModerationActionDocument>(
+	"ModerationAction",
+	moderationActionSchema,
+);
@@ -0,0 +1,41 @@
+import { AdminController } from "../controllers/AdminController";
+import { authenticate, authorize } from "../../../shared/middleware/auth";
+import { type IRouter, Router } from "express";
+
+const router: IRouter = Router();
+const adminController = new AdminController();
+
+// Every moderation console route requires a staff account
+router.use(authenticate, authorize(["moderator", "admin"]));
+
+// Performance moderation
+router.get("/performances", adminController.listPerformances);
+router.post("/performances/:id/hide", adminController.hidePerformance);
+router.post("/performances/:id/restore", adminController.restorePerformance);
+
+// User moderation
+router.get("/users", adminController.listUsers);
+router.post("/users/:id/suspend", adminController.suspendUser);
+router.post("/users/:id/reinstate", adminController.reinstateUser);
+
+// Admin-only routes
+router.patch(
+	"/users/:id/role",
+	authorize(["admin"]),
+	adminController.changeUserRole,
+);
+router.get("/audit-log", authorize(["admin"]), adminController.getAuditLog);
+
+// Stripe webhook ledger
+router.get(
+	"/webhooks",
+	authorize(["admin"]),
+	adminController.listWebhookEvents,
+);
+router.post(
+	"/webhooks/:eventId/replay",
+	authorize(["admin"]),
+	adminController.replayWebhookEvent,
+);
+
+export { router as adminRoutes };
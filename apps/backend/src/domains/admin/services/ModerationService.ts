@@ -0,0 +1,282 @@
+import { PerformanceModel } from "../../performance/entities/Performance";
+import { UserModel } from "../../user/entities/User";
+import {
+	AuthorizationError,
+	NotFoundError,
+	ValidationError,
+} from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import {
+	type ModerationActionDocument,
+	ModerationActionModel,
+	type ModerationActionType,
+	type ModerationTargetType,
+} from "../entities/ModerationAction";
+import { USER_ROLES, type UserRole } from "@spm/shared-types";
+
+export interface ModerationActor {
+	userId: string;
+	role: string;
+}
+
+export interface Page {
+	page: number;
+	limit: number;
+}
+
+export interface PagedResult<T> {
+	items: T[];
+	total: number;
+}
+
+const STAFF: readonly string[] = ["moderator", "admin"];
+
+export class ModerationService {
+	private readonly logger = logger.child({ context: "ModerationService" });
+
+	/**
+	 * Append an entry to the moderation audit trail
+	 */
+	async recordAction(
+		actor: ModerationActor,
+		entry: {
+			targetType: ModerationTargetType;
+			targetId: string;
+			action: ModerationActionType;
+			reason?: string;
+			metadata?: Record<string, unknown>;
+		},
+	): Promise<void> {
+		await ModerationActionModel.create({
+			actorId: actor.userId,
+			actorRole: actor.role,
+			...entry,
+		});
+
+		this.logger.info("Moderation action recorded", {
+			actorId: actor.userId,
+			...entry,
+		});
+	}
+
+	async listPerformances(
+		filters: { moderationStatus?: "visible" | "hidden"; status?: string },
+		{ page, limit }: Page,
+	): Promise<PagedResult<unknown>> {
+		const query: Record<string, unknown> = {};
+		if (filters.moderationStatus === "hidden") {
+			query["moderation.status"] = "hidden";
+		} else if (filters.moderationStatus === "visible") {
+			query["moderation.status"] = { $ne: "hidden" };
+		}
+		if (filters.status) query.status = filters.status;
+
+		const [items, total] = await Promise.all([
+			PerformanceModel.find(query)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			PerformanceModel.countDocuments(query),
+		]);
+
+		return { items, total };
+	}
+
+	/**
+	 * Hide a performance from all public listings, or restore it
+	 */
+	async setPerformanceHidden(
+		actor: ModerationActor,
+		performanceId: string,
+		hidden: boolean,
+		reason?: string,
+	): Promise<unknown> {
+		if (hidden && !reason) {
+			throw new ValidationError("A reason is required to hide a performance", "reason");
+		}
+
+		const performance = await PerformanceModel.findByIdAndUpdate(
+			performanceId,
+			{
+				$set: {
+					moderation: {
+						status: hidden ? "hidden" : "visible",
+						reason,
+						updatedAt: new Date(),
+					},
+				},
+			},
+			{ new: true },
+		).lean();
+
+		if (!performance) {
+			throw new NotFoundError("Performance");
+		}
+
+		await this.recordAction(actor, {
+			targetType: "performance",
+			targetId: performanceId,
+			action: hidden ? "hide" : "restore",
+			reason,
+		});
+
+		return performance;
+	}
+
+	async listUsers(
+		filters: { role?: string; status?: "active" | "suspended"; search?: string },
+		{ page, limit }: Page,
+	): Promise<PagedResult<unknown>> {
+		const query: Record<string, unknown> = {};
+		if (filters.role) query.role = filters.role;
+		if (filters.status === "suspended") {
+			query["moderation.status"] = "suspended";
+		} else if (filters.status === "active") {
+			query["moderation.status"] = { $ne: "suspended" };
+		}
+		if (filters.search) {
+			const pattern = new RegExp(
+				filters.search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+				"i",
+			);
+			query.$or = [
+				{ email: pattern },
+				{ username: pattern },
+				{ "profile.displayName": pattern },
+			];
+		}
+
+		const [items, total] = await Promise.all([
+			UserModel.find(query)
+				.select("-password")
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			UserModel.countDocuments(query),
+		]);
+
+		return { items, total };
+	}
+
+	/**
+	 * Suspend or reinstate an account. Suspended users are rejected by
+	 * `authenticate` immediately and cannot log in again.
+	 */
+	async setUserSuspended(
+		actor: ModerationActor,
+		userId: string,
+		suspended: boolean,
+		reason?: string,
+	): Promise<unknown> {
+		if (suspended && !reason) {
+			throw new ValidationError("A reason is required to suspend a user", "reason");
+		}
+
+		if (userId === actor.userId) {
+			throw new ValidationError("You cannot change your own account status");
+		}
+
+		const target = await UserModel.findById(userId).select("role").lean();
+		if (!target) {
+			throw new NotFoundError("User");
+		}
+
+		// Only admins may act on other staff accounts
+		if (STAFF.includes(target.role) && actor.role !== "admin") {
+			throw new AuthorizationError("Only admins can suspend staff accounts");
+		}
+
+		const user = await UserModel.findByIdAndUpdate(
+			userId,
+			{
+				$set: {
+					moderation: {
+						status: suspended ? "suspended" : "active",
+						reason,
+						updatedAt: new Date(),
+					},
+				},
+			},
+			{ new: true },
+		)
+			.select("-password")
+			.lean();
+
+		await this.recordAction(actor, {
+			targetType: "user",
+			targetId: userId,
+			action: suspended ? "suspend" : "reinstate",
+			reason,
+		});
+
+		return user;
+	}
+
+	/**
+	 * Change a user's role (admin only, enforced by the route)
+	 */
+	async changeUserRole(
+		actor: ModerationActor,
+		userId: string,
+		role: string,
+	): Promise<unknown> {
+		if (!USER_ROLES.includes(role as UserRole)) {
+			throw new ValidationError(`Role must be one of: ${USER_ROLES.join(", ")}`, "role");
+		}
+
+		if (userId === actor.userId) {
+			throw new ValidationError("You cannot change your own role");
+		}
+
+		const existing = await UserModel.findById(userId).select("role").lean();
+		if (!existing) {
+			throw new NotFoundError("User");
+		}
+
+		const user = await UserModel.findByIdAndUpdate(
+			userId,
+			{ $set: { role } },
+			{ new: true, runValidators: true },
+		)
+			.select("-password")
+			.lean();
+
+		await this.recordAction(actor, {
+			targetType: "user",
+			targetId: userId,
+			action: "change_role",
+			metadata: { from: existing.role, to: role },
+		});
+
+		return user;
+	}
+
+	async getAuditLog(
+		filters: {
+			targetType?: ModerationTargetType;
+			targetId?: string;
+			actorId?: string;
+		},
+		{ page, limit }: Page,
+	): Promise<PagedResult<ModerationActionDocument>> {
+		const query: Record<string, unknown> = {};
+		if (filters.targetType) query.targetType = filters.targetType;
+		if (filters.targetId) query.targetId = filters.targetId;
+		if (filters.actorId) query.actorId = filters.actorId;
+
+		const [items, total] = await Promise.all([
+			ModerationActionModel.find(query)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean<ModerationActionDocument[]>(),
+			ModerationActionModel.countDocuments(query),
+		]);
+
+		return { items, total };
+	}
+}
+
+export const moderationService = new ModerationService();
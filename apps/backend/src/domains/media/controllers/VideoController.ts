@@ -1,5 +1,12 @@
 import type { NextFunction, Request, Response } from "express";
+import {
+	ApiError,
+	AuthenticationError,
+	NotFoundError,
+	ValidationError,
+} from "../../../shared/utils/errors";
 import { VideoService } from "../services/VideoService";
+import { moderationService } from "../../admin/services/ModerationService";
 // Define authenticated request interface
 interface AuthenticatedRequest extends Request {
 	user?: {
@@ -15,15 +22,10 @@ export class VideoController {
 		this.videoService = new VideoService();
 	}
 
-	private validateUserId(userId: string | undefined, res: Response): boolean {
+	private assertUserId(userId: string | undefined): asserts userId is string {
 		if (!userId) {
-			res.status(401).json({
-				success: false,
-				error: { message: "Authentication required" },
-			});
-			return false;
+			throw new AuthenticationError();
 		}
-		return true;
 	}
 
 	/**
@@ -40,17 +42,11 @@ export class VideoController {
 			const file = req.file;
 
 			if (!userId) {
-				return res.status(401).json({
-					success: false,
-					error: { message: "Authentication required" },
-				});
+				throw new AuthenticationError();
 			}
 
 			if (!file) {
-				return res.status(400).json({
-					success: false,
-					error: { message: "No video file provided" },
-				});
+				throw new ValidationError("No video file provided");
 			}
 
 			const result = await this.videoService.uploadVideo({
@@ -82,10 +78,7 @@ export class VideoController {
 			const limit = Number.parseInt(req.query.limit as string) || 20;
 
 			if (!userId) {
-				return res.status(401).json({
-					success: false,
-					error: { message: "Authentication required" },
-				});
+				throw new AuthenticationError();
 			}
 
 			const videos = await this.videoService.getUserVideos(userId, limit);
@@ -141,10 +134,7 @@ export class VideoController {
 			const video = await this.videoService.getVideo(videoId);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: { message: "Video not found" },
-				});
+				throw new NotFoundError("Video");
 			}
 
 			res.status(200).json({
@@ -167,10 +157,7 @@ export class VideoController {
 			const video = await this.videoService.recordView(videoId);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: { message: "Video not found" },
-				});
+				throw new NotFoundError("Video");
 			}
 
 			res.status(200).json({
@@ -192,19 +179,13 @@ export class VideoController {
 			const { seconds } = req.body;
 
 			if (!seconds || seconds < 0) {
-				return res.status(400).json({
-					success: false,
-					error: { message: "Valid seconds value is required" },
-				});
+				throw new ValidationError("Valid seconds value is required");
 			}
 
 			const video = await this.videoService.recordWatchTime(videoId, seconds);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: { message: "Video not found" },
-				});
+				throw new NotFoundError("Video");
 			}
 
 			res.status(200).json({
@@ -230,10 +211,7 @@ export class VideoController {
 			const { videoId } = req.params;
 
 			if (!userId) {
-				return res.status(401).json({
-					success: false,
-					error: { message: "Authentication required" },
-				});
+				throw new AuthenticationError();
 			}
 
 			await this.videoService.deleteVideo(videoId, userId);
@@ -260,14 +238,11 @@ export class VideoController {
 			const userId = req.user?.userId;
 			const videoData = req.body;
 
-			if (!this.validateUserId(userId, res)) return;
+			this.assertUserId(userId);
 
 			// Validate required fields
 			if (!videoData.cloudinaryPublicId || !videoData.filename) {
-				return res.status(400).json({
-					success: false,
-					error: { message: "Missing required video data" },
-				});
+				throw new ValidationError("Missing required video data");
 			}
 
 			const video = await this.videoService.saveClientUpload({
@@ -298,29 +273,23 @@ export class VideoController {
 			const { videoId } = req.params;
 			const { performanceId } = req.body;
 
-			if (!this.validateUserId(userId, res)) return;
+			this.assertUserId(userId);
 
 			if (!performanceId) {
-				return res.status(400).json({
-					success: false,
-					error: { message: "Performance ID is required" },
-				});
+				throw new ValidationError("Performance ID is required");
 			}
 
 			const video = await this.videoService.linkVideoToPerformance(
 				videoId,
 				performanceId,
-				userId!,
+				userId,
 			);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: {
-						message:
-							"Video not found or you do not have permission to modify it",
-					},
-				});
+				throw new ApiError(
+					404,
+					"Video not found or you do not have permission to modify it",
+				);
 			}
 
 			res.status(200).json({
@@ -344,11 +313,11 @@ export class VideoController {
 		try {
 			const userId = req.user?.userId;
 
-			if (!this.validateUserId(userId, res)) return;
+			this.assertUserId(userId);
 
 			const [canUpload, todayCount] = await Promise.all([
-				this.videoService.canUserUploadToday(userId!),
-				this.videoService.getUserTodayUploadCount(userId!),
+				this.videoService.canUserUploadToday(userId),
+				this.videoService.getUserTodayUploadCount(userId),
 			]);
 
 			res.status(200).json({
@@ -377,9 +346,9 @@ export class VideoController {
 		try {
 			const userId = req.user?.userId;
 
-			if (!this.validateUserId(userId, res)) return;
+			this.assertUserId(userId);
 
-			const analytics = await this.videoService.getUserVideoAnalytics(userId!);
+			const analytics = await this.videoService.getUserVideoAnalytics(userId);
 
 			res.status(200).json({
 				success: true,
@@ -402,9 +371,9 @@ export class VideoController {
 		try {
 			const userId = req.user?.userId;
 
-			if (!this.validateUserId(userId, res)) return;
+			this.assertUserId(userId);
 
-			const video = await this.videoService.getUserLatestVideo(userId!);
+			const video = await this.videoService.getUserLatestVideo(userId);
 
 			res.status(200).json({
 				success: true,
@@ -416,7 +385,7 @@ export class VideoController {
 		}
 	};
 
-	// Admin/Moderation endpoints (would need admin middleware)
+	// Admin/Moderation endpoints (staff only, see mediaRoutes)
 
 	/**
 	 * Get videos for moderation
@@ -455,12 +424,15 @@ export class VideoController {
 			const video = await this.videoService.approveVideo(videoId);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: { message: "Video not found" },
-				});
+				throw new NotFoundError("Video");
 			}
 
+			await moderationService.recordAction(req.user!, {
+				targetType: "video",
+				targetId: videoId,
+				action: "approve",
+			});
+
 			res.status(200).json({
 				success: true,
 				data: video,
@@ -480,21 +452,22 @@ export class VideoController {
 			const { reason } = req.body;
 
 			if (!reason) {
-				return res.status(400).json({
-					success: false,
-					error: { message: "Rejection reason is required" },
-				});
+				throw new ValidationError("Rejection reason is required");
 			}
 
 			const video = await this.videoService.rejectVideo(videoId, reason);
 
 			if (!video) {
-				return res.status(404).json({
-					success: false,
-					error: { message: "Video not found" },
-				});
+				throw new NotFoundError("Video");
 			}
 
+			await moderationService.recordAction(req.user!, {
+				targetType: "video",
+				targetId: videoId,
+				action: "reject",
+				reason,
+			});
+
 			res.status(200).json({
 				success: true,
 				data: video,
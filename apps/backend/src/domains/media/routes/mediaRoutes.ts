@@ -1,5 +1,5 @@
 import { type IRouter, Router } from "express";
-import { authenticate } from "../../../shared/middleware/auth";
+import { authenticate, authorize } from "../../../shared/middleware/auth";
 import { upload } from "../../../shared/services/cloudinary.service";
 import { VideoController } from "../controllers/VideoController";
 
@@ -48,10 +48,25 @@ router.get(
 router.post("/videos/:videoId/view", videoController.recordView);
 router.post("/videos/:videoId/watch-time", videoController.recordWatchTime);
 
-// Admin/Moderation routes (would need admin middleware in production)
-router.get("/admin/videos/moderation", videoController.getVideosForModeration);
-router.post("/admin/videos/:videoId/approve", videoController.approveVideo);
-router.post("/admin/videos/:videoId/reject", videoController.rejectVideo);
+// Admin/Moderation routes (staff only)
+router.get(
+	"/admin/videos/moderation",
+	authenticate,
+	authorize(["moderator", "admin"]),
+	videoController.getVideosForModeration,
+);
+router.post(
+	"/admin/videos/:videoId/approve",
+	authenticate,
+	authorize(["moderator", "admin"]),
+	videoController.approveVideo,
+);
+router.post(
+	"/admin/videos/:videoId/reject",
+	authenticate,
+	authorize(["moderator", "admin"]),
+	videoController.rejectVideo,
+);
 
 // Health check
 router.get("/health", (req, res) => {
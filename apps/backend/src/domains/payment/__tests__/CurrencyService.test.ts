@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { CurrencyService } from '../services/CurrencyService';
+
+describe('CurrencyService', () => {
+	const currencyService = new CurrencyService();
+
+	describe('isSupported', () => {
+		it('should only accept configured currency codes', () => {
+			expect(currencyService.isSupported('EUR')).toBe(true);
+			expect(currencyService.isSupported('JPY')).toBe(false);
+			expect(currencyService.isSupported('toString')).toBe(false);
+			expect(currencyService.isSupported('constructor')).toBe(false);
+		});
+	});
+
+	describe('getCurrencyForCountry', () => {
+		it('should map ISO codes and country names to their currency', () => {
+			expect(currencyService.getCurrencyForCountry('GB')).toBe('GBP');
+			expect(currencyService.getCurrencyForCountry('UK')).toBe('GBP');
+			expect(currencyService.getCurrencyForCountry('United States')).toBe('USD');
+		});
+
+		it('should default to euros', () => {
+			expect(currencyService.getCurrencyForCountry('Spain')).toBe('EUR');
+			expect(currencyService.getCurrencyForCountry(undefined)).toBe('EUR');
+		});
+	});
+
+	describe('tip limits', () => {
+		it('should apply the limits of the currency', () => {
+			expect(currencyService.isValidTipAmount(40, 'GBP')).toBe(true);
+			expect(currencyService.isValidTipAmount(40, 'EUR')).toBe(false);
+			expect(currencyService.isValidTipAmount(11000, 'USD')).toBe(true);
+			expect(currencyService.isValidTipAmount(11000, 'EUR')).toBe(false);
+		});
+
+		it('should describe the limits in the currency', () => {
+			expect(currencyService.describeTipLimits('EUR')).toBe('€0.50 and €100.00');
+			expect(currencyService.describeTipLimits('GBP')).toBe('£0.30 and £80.00');
+		});
+	});
+
+	describe('convert', () => {
+		it('should convert through the rate table', () => {
+			expect(currencyService.convert(1000, 'EUR', 'EUR')).toBe(1000);
+			expect(currencyService.convert(1000, 'EUR', 'USD')).toBe(1080);
+			expect(currencyService.convert(850, 'GBP', 'EUR')).toBe(1000);
+		});
+	});
+});
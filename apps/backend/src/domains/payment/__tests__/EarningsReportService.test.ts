@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+	earningsReportService,
+	type EarningsExportRow
+} from '../services/EarningsReportService';
+import { Transaction } from '../entities/Transaction';
+
+vi.mock('../entities/Transaction');
+
+const buildRow = (overrides: Partial<EarningsExportRow> = {}): EarningsExportRow => ({
+	date: '2024-06-01T20:00:00.000Z',
+	transactionId: 'trans_123',
+	status: 'completed',
+	performanceId: 'perf_123',
+	performanceTitle: 'Sunset Jazz',
+	currency: 'EUR',
+	gross: 5,
+	refunded: 0,
+	fees: 0.58,
+	platformFee: 0.25,
+	net: 4.42,
+	payoutId: '',
+	payoutDate: '',
+	paymentMethod: 'card',
+	tipperCountry: 'ES',
+	...overrides
+});
+
+describe('EarningsReportService', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('formatRow', () => {
+		it('should write amounts with two decimals in CSV', () => {
+			const line = earningsReportService.formatRow(buildRow(), 'csv');
+
+			expect(line).toBe(
+				'2024-06-01T20:00:00.000Z,trans_123,completed,perf_123,Sunset Jazz,EUR,5.00,0.00,0.58,0.25,4.42,,,card,ES\n'
+			);
+		});
+
+		it('should quote commas and defuse formulas in CSV text', () => {
+			const line = earningsReportService.formatRow(
+				buildRow({ performanceTitle: '=HYPERLINK("x"), live' }),
+				'csv'
+			);
+
+			expect(line).toContain(`"'=HYPERLINK(""x""), live"`);
+		});
+
+		it('should write one JSON object per line', () => {
+			const line = earningsReportService.formatRow(buildRow(), 'jsonl');
+
+			expect(line.endsWith('\n')).toBe(true);
+			expect(JSON.parse(line)).toMatchObject({ gross: 5, net: 4.42 });
+		});
+	});
+
+	describe('getTaxYear', () => {
+		it('should use 6 April to 5 April in the UK', () => {
+			const period = earningsReportService.getTaxYear('GB', 2024);
+
+			expect(period.label).toBe('2024/25');
+			// Midnight in London is 23:00 UTC during summer time
+			expect(period.start).toBe('2024-04-05T23:00:00.000Z');
+			expect(period.end).toBe('2025-04-05T23:00:00.000Z');
+		});
+
+		it('should use the calendar year in Spain', () => {
+			const period = earningsReportService.getTaxYear('ES', 2024);
+
+			expect(period.label).toBe('2024');
+			expect(period.start).toBe('2023-12-31T23:00:00.000Z');
+			expect(period.end).toBe('2024-12-31T23:00:00.000Z');
+		});
+	});
+
+	describe('getJurisdiction', () => {
+		it('should map country names and codes', () => {
+			expect(earningsReportService.getJurisdiction('Spain')).toBe('ES');
+			expect(earningsReportService.getJurisdiction('uk')).toBe('GB');
+			expect(earningsReportService.getJurisdiction('Netherlands')).toBe('OTHER');
+			expect(earningsReportService.getJurisdiction()).toBe('OTHER');
+		});
+	});
+
+	describe('getTaxReport', () => {
+		it('should total by currency and convert months to the reporting currency', async () => {
+			vi.mocked(Transaction.aggregate).mockResolvedValue([
+				{
+					_id: { currency: 'GBP', month: '2024-05' },
+					tipCount: 2,
+					gross: 1000,
+					refunded: 0,
+					fees: 100,
+					net: 900
+				},
+				{
+					_id: { currency: 'EUR', month: '2024-05' },
+					tipCount: 1,
+					gross: 1000,
+					refunded: 200,
+					fees: 100,
+					net: 720
+				}
+			] as any);
+
+			const report = await earningsReportService.getTaxReport('performer_123', 2024, 'United Kingdom');
+
+			expect(report.jurisdiction).toBe('GB');
+			expect(report.reportingCurrency).toBe('GBP');
+			expect(report.byCurrency).toEqual([
+				{ currency: 'GBP', tipCount: 2, gross: 1000, refunded: 0, fees: 100, net: 900 },
+				{ currency: 'EUR', tipCount: 1, gross: 1000, refunded: 200, fees: 100, net: 720 }
+			]);
+			// €10.00 at the default 0.85 rate
+			expect(report.totals).toMatchObject({ tipCount: 3, gross: 1850, converted: true });
+			expect(report.months).toEqual([
+				{ month: '2024-05', gross: 1850, refunded: 170, fees: 185, net: 1512 }
+			]);
+			expect(report.notes.some((note) => note.includes('approximate rates'))).toBe(true);
+		});
+
+		it('should reject years in the future', async () => {
+			await expect(
+				earningsReportService.getTaxReport('performer_123', new Date().getUTCFullYear() + 1, 'Spain')
+			).rejects.toThrow('year must be between 2000');
+		});
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { FeeService, regionalFeeModel } from '../services/FeeService';
+
+describe('FeeService', () => {
+	const feeService = new FeeService();
+
+	describe('estimateProcessingFee', () => {
+		it('should price cards by the region of the tipper', () => {
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR', country: 'ES' })).toBe(40);
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR', country: 'United Kingdom' })).toBe(50);
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR', country: 'US' })).toBe(58);
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR' })).toBe(58);
+		});
+
+		it('should use the rule of the payment method', () => {
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR', paymentMethod: 'ideal' })).toBe(29);
+			expect(feeService.estimateProcessingFee(1000, { currency: 'EUR', paymentMethod: 'bizum' })).toBe(30);
+			expect(
+				feeService.estimateProcessingFee(1000, { currency: 'EUR', paymentMethod: 'apple_pay', country: 'NL' })
+			).toBe(40);
+		});
+
+		it('should convert the fixed part to the charge currency', () => {
+			// 1.5% of 1000 + 25 euro cents in dollars
+			expect(feeService.estimateProcessingFee(1000, { currency: 'USD', country: 'DE' })).toBe(42);
+		});
+
+		it('should use registered fee models', () => {
+			const service = new FeeService();
+			service.register('ideal', regionalFeeModel({ default: { percent: 0, fixed: 10 } }));
+
+			expect(service.estimateProcessingFee(1000, { currency: 'EUR', paymentMethod: 'ideal' })).toBe(10);
+		});
+	});
+
+	describe('estimate', () => {
+		it('should only take the application fee when asked to', () => {
+			expect(feeService.estimate(1000, { currency: 'EUR', country: 'ES' })).toEqual({
+				processingFee: 40,
+				applicationFee: 0,
+				netAmount: 960
+			});
+			expect(
+				feeService.estimate(1000, { currency: 'EUR', country: 'ES' }, { withApplicationFee: true })
+			).toEqual({
+				processingFee: 40,
+				applicationFee: 50,
+				netAmount: 910
+			});
+		});
+	});
+
+	describe('describe', () => {
+		it('should derive the percent and fixed part from the model', () => {
+			expect(feeService.describe({ currency: 'EUR', country: 'ES' })).toEqual({ percent: 0.015, fixed: 0.25 });
+		});
+
+		it('should include the platform fee when asked to', () => {
+			expect(
+				feeService.describe({ currency: 'EUR', country: 'ES' }, { withApplicationFee: true })
+			).toEqual({ percent: 0.065, fixed: 0.25 });
+		});
+	});
+});
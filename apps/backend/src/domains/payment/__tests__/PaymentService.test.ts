@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { paymentService, type CreateTipRequest } from '../services/PaymentService';
 import { Transaction } from '../entities/Transaction';
 import { stripeService } from '../services/StripeService';
+import { UserModel } from '../../user/entities/User';
 
 // Mock dependencies
 vi.mock('../entities/Transaction');
@@ -86,7 +87,8 @@ describe('PaymentService', () => {
 				tipperId: 'tipper_123',
 				isAnonymous: false,
 				publicMessage: 'Great performance!',
-				paymentMethodTypes: ['card', 'ideal']
+				paymentMethodTypes: ['card', 'ideal'],
+				country: 'Netherlands'
 			});
 		});
 
@@ -234,8 +236,73 @@ describe('PaymentService', () => {
 			// Act
 			const result = await paymentService.updateTransactionStatus('pi_nonexistent', 'completed');
 
-			// Assert - should not throw, just return undefined
-			expect(result).toBeUndefined();
+			// Assert - should not throw, just return null
+			expect(result).toBeNull();
+		});
+
+		it('should not complete a transaction twice', async () => {
+			const completed = {
+				status: 'completed',
+				markCompleted: vi.fn().mockResolvedValue(true)
+			};
+			vi.mocked(Transaction.findOne).mockResolvedValue(completed as any);
+
+			const result = await paymentService.updateTransactionStatus('pi_test_123', 'completed', 'ch_test_123');
+
+			expect(result).toBeNull();
+			expect(completed.markCompleted).not.toHaveBeenCalled();
+		});
+
+		it('should let database errors reach the webhook ledger', async () => {
+			vi.mocked(Transaction.findOne).mockRejectedValue(new Error('connection reset'));
+
+			await expect(
+				paymentService.updateTransactionStatus('pi_test_123', 'completed', 'ch_test_123')
+			).rejects.toThrow('connection reset');
+		});
+	});
+
+	describe('countCompletedTip', () => {
+		const completed = { _id: 'trans_123', toUserId: 'performer_123', performanceId: 'perf_123', netAmount: 455 };
+
+		beforeEach(() => {
+			vi.spyOn(paymentService, 'adjustPerformerTotals').mockResolvedValue();
+			mockTransaction.updateOne = vi.fn().mockResolvedValue({ modifiedCount: 1 });
+		});
+
+		it('should claim a completed tip before adding it to the totals', async () => {
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(completed);
+
+			const result = await paymentService.countCompletedTip('pi_test_123');
+
+			expect(result).toBe(completed);
+			const [filter, update] = vi.mocked(mockTransaction.findOneAndUpdate).mock.calls[0] as any[];
+			expect(filter).toEqual({
+				stripePaymentIntentId: 'pi_test_123',
+				status: 'completed',
+				totalsCountedAt: { $exists: false }
+			});
+			expect(update.$set.totalsCountedAt).toBeInstanceOf(Date);
+			expect(paymentService.adjustPerformerTotals).toHaveBeenCalledWith(completed, 455, 1);
+		});
+
+		it('should not count a tip that is not completed or already counted', async () => {
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(null);
+
+			expect(await paymentService.countCompletedTip('pi_test_123')).toBeNull();
+			expect(paymentService.adjustPerformerTotals).not.toHaveBeenCalled();
+		});
+
+		it('should release the claim when the totals cannot be updated', async () => {
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(completed);
+			vi.mocked(paymentService.adjustPerformerTotals).mockRejectedValue(new Error('connection reset'));
+
+			await expect(paymentService.countCompletedTip('pi_test_123')).rejects.toThrow('connection reset');
+
+			expect(mockTransaction.updateOne).toHaveBeenCalledWith(
+				{ _id: 'trans_123' },
+				{ $unset: { totalsCountedAt: 1 } }
+			);
 		});
 	});
 
@@ -342,4 +409,325 @@ describe('PaymentService', () => {
 			});
 		});
 	});
-});
\ No newline at end of file
+
+	describe('refunds', () => {
+		const buildTransaction = (overrides: Record<string, unknown> = {}) => ({
+			_id: 'trans_123',
+			toUserId: 'performer_123',
+			performanceId: 'perf_123',
+			amount: 1000,
+			currency: 'EUR',
+			netAmount: 900,
+			refundedAmount: 0,
+			refundedNetAmount: 0,
+			status: 'completed',
+			stripePaymentIntentId: 'pi_test_123',
+			stripeTransferId: 'tr_test_123',
+			refundableAmount: vi.fn().mockReturnValue(1000),
+			save: vi.fn().mockResolvedValue(true),
+			...overrides
+		});
+
+		beforeEach(() => {
+			mockStripeService.createRefund = vi.fn().mockResolvedValue('re_test_123');
+			mockStripeService.reverseTransfer = vi.fn().mockResolvedValue('trr_test_123');
+			mockStripeService.createTransfer = vi.fn().mockResolvedValue('tr_resent_123');
+			mockTransaction.updateOne = vi.fn().mockResolvedValue({ modifiedCount: 1 });
+			vi.spyOn(paymentService, 'adjustPerformerTotals').mockResolvedValue();
+			vi.spyOn(UserModel, 'findById').mockResolvedValue({
+				stripe: { connectAccountId: 'acct_123' }
+			} as any);
+		});
+
+		it('should reject refunds from users other than the performer or an admin', async () => {
+			mockTransaction.findById = vi.fn().mockResolvedValue(buildTransaction());
+
+			await expect(
+				paymentService.refundTip({
+					transactionId: 'trans_123',
+					requesterId: 'someone_else',
+					requesterRole: 'audience'
+				})
+			).rejects.toThrow('Only the receiving performer can refund this tip');
+
+			expect(mockStripeService.createRefund).not.toHaveBeenCalled();
+		});
+
+		it('should apply a partial refund and reverse the performer share', async () => {
+			const transaction = buildTransaction();
+			const refunded = buildTransaction({ refundedAmount: 400, refundedNetAmount: 360 });
+			mockTransaction.findById = vi.fn().mockResolvedValue(transaction);
+			mockTransaction.findOne = vi.fn().mockResolvedValue(transaction);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(refunded);
+
+			await paymentService.refundTip({
+				transactionId: 'trans_123',
+				requesterId: 'performer_123',
+				requesterRole: 'performer',
+				amount: 4.00
+			});
+
+			expect(mockStripeService.createRefund).toHaveBeenCalledWith(
+				expect.objectContaining({ paymentIntentId: 'pi_test_123', amount: 400 })
+			);
+			const [filter, update] = vi.mocked(mockTransaction.findOneAndUpdate).mock.calls[0] as any[];
+			// Only applies if nothing else refunded the tip since it was read
+			expect(filter).toMatchObject({
+				_id: 'trans_123',
+				refundedAmount: { $in: [0, null] },
+				refundedNetAmount: { $in: [0, null] }
+			});
+			expect(update.$set).toMatchObject({ refundedAmount: 400, refundedNetAmount: 360 });
+			expect(update.$set.status).toBeUndefined();
+			expect(mockStripeService.reverseTransfer).toHaveBeenCalledWith('tr_test_123', 360);
+			expect(paymentService.adjustPerformerTotals).toHaveBeenCalledWith(refunded, -360, 0);
+		});
+
+		it('should not claw back twice when a concurrent refund claimed the amount first', async () => {
+			const stale = buildTransaction();
+			const current = buildTransaction({ refundedAmount: 400, refundedNetAmount: 360 });
+			// The webhook reads the tip before the performer's refund is saved
+			mockTransaction.findOne = vi.fn()
+				.mockResolvedValueOnce(stale)
+				.mockResolvedValueOnce(current);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(null);
+
+			const result = await paymentService.recordRefund({ chargeId: 'ch_test_123', totalRefunded: 400 });
+
+			expect(result).toBe(current);
+			expect(mockTransaction.findOneAndUpdate).toHaveBeenCalledTimes(1);
+			expect(mockStripeService.reverseTransfer).not.toHaveBeenCalled();
+			expect(paymentService.adjustPerformerTotals).not.toHaveBeenCalled();
+		});
+
+		it('should withhold and restore the same amount and tip count for a won dispute', async () => {
+			const transaction = buildTransaction();
+			const disputed = buildTransaction({
+				refundedNetAmount: 900,
+				dispute: { stripeDisputeId: 'dp_123', status: 'open', amount: 1000, withheldNetAmount: 900 }
+			});
+			mockTransaction.findOne = vi.fn()
+				.mockResolvedValueOnce(transaction)
+				.mockResolvedValueOnce(disputed);
+			mockTransaction.findOneAndUpdate = vi.fn()
+				.mockResolvedValueOnce(disputed)
+				.mockResolvedValueOnce(buildTransaction({ stripeTransferId: undefined }));
+
+			await paymentService.recordDisputeOpened({ chargeId: 'ch_test_123', disputeId: 'dp_123', amount: 1000 });
+			await paymentService.recordDisputeClosed({ chargeId: 'ch_test_123', disputeId: 'dp_123', won: true });
+
+			const opened = vi.mocked(mockTransaction.findOneAndUpdate).mock.calls[0] as any[];
+			expect(opened[1].$set.dispute.withheldNetAmount).toBe(900);
+			const closed = vi.mocked(mockTransaction.findOneAndUpdate).mock.calls[1] as any[];
+			expect(closed[0]).toMatchObject({ 'dispute.status': 'open', refundedNetAmount: 900 });
+			expect(closed[1].$set.refundedNetAmount).toBe(0);
+			expect(vi.mocked(paymentService.adjustPerformerTotals).mock.calls.map((call) => call.slice(1)))
+				.toEqual([[-900, -1], [900, 1]]);
+		});
+
+		it('should record the reversed amount and re-send exactly that when the dispute is won', async () => {
+			const transaction = buildTransaction();
+			const opened = buildTransaction({
+				refundedNetAmount: 900,
+				dispute: { stripeDisputeId: 'dp_123', status: 'open', amount: 1000, withheldNetAmount: 900 }
+			});
+			mockTransaction.findOne = vi.fn().mockResolvedValue(transaction);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(opened);
+
+			await paymentService.recordDisputeOpened({ chargeId: 'ch_test_123', disputeId: 'dp_123', amount: 1000 });
+
+			expect(mockStripeService.reverseTransfer).toHaveBeenCalledWith('tr_test_123', 900);
+			expect(mockTransaction.updateOne).toHaveBeenCalledWith(
+				{ _id: 'trans_123' },
+				{ $inc: { reversedNetAmount: 900, 'dispute.reversedNetAmount': 900 } }
+			);
+
+			const won = buildTransaction({
+				reversedNetAmount: 900,
+				dispute: { ...opened.dispute, status: 'won', reversedNetAmount: 900 }
+			});
+			mockTransaction.findOne = vi.fn().mockResolvedValue(opened);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(won);
+
+			await paymentService.recordDisputeClosed({ chargeId: 'ch_test_123', disputeId: 'dp_123', won: true });
+
+			expect(mockStripeService.createTransfer).toHaveBeenCalledWith(900, 'acct_123', 'tip_trans_123', {}, 'EUR');
+			expect(mockTransaction.updateOne).toHaveBeenLastCalledWith(
+				{ _id: 'trans_123' },
+				{ $set: { stripeTransferId: 'tr_resent_123' }, $inc: { reversedNetAmount: -900 } }
+			);
+		});
+
+		it('should not re-send a share whose reversal failed when the dispute is won', async () => {
+			mockStripeService.reverseTransfer = vi.fn().mockRejectedValue(new Error('Stripe unavailable'));
+			const opened = buildTransaction({
+				refundedNetAmount: 900,
+				dispute: { stripeDisputeId: 'dp_123', status: 'open', amount: 1000, withheldNetAmount: 900 }
+			});
+			mockTransaction.findOne = vi.fn().mockResolvedValue(buildTransaction());
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(opened);
+
+			await paymentService.recordDisputeOpened({ chargeId: 'ch_test_123', disputeId: 'dp_123', amount: 1000 });
+
+			expect(mockTransaction.updateOne).not.toHaveBeenCalled();
+
+			mockTransaction.findOne = vi.fn().mockResolvedValue(opened);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(
+				buildTransaction({ dispute: { ...opened.dispute, status: 'won' } })
+			);
+
+			await paymentService.recordDisputeClosed({ chargeId: 'ch_test_123', disputeId: 'dp_123', won: true });
+
+			// The performer was never charged back, so nothing is sent again
+			expect(mockStripeService.createTransfer).not.toHaveBeenCalled();
+			expect(paymentService.adjustPerformerTotals).toHaveBeenLastCalledWith(expect.anything(), 900, 1);
+		});
+
+		it('should not restore a tip count that a dispute never withheld', async () => {
+			const pending = buildTransaction({
+				status: 'pending',
+				dispute: { stripeDisputeId: 'dp_123', status: 'open', amount: 1000, withheldNetAmount: 0 }
+			});
+			mockTransaction.findOne = vi.fn().mockResolvedValue(pending);
+			mockTransaction.findOneAndUpdate = vi.fn().mockResolvedValue(pending);
+
+			await paymentService.recordDisputeClosed({ chargeId: 'ch_test_123', disputeId: 'dp_123', won: true });
+
+			expect(mockTransaction.findOneAndUpdate).toHaveBeenCalledTimes(1);
+			expect(paymentService.adjustPerformerTotals).not.toHaveBeenCalled();
+		});
+
+		it('should ignore refund webhooks that were already applied', async () => {
+			const transaction = buildTransaction({ refundedAmount: 1000, status: 'refunded' });
+			mockTransaction.findOne = vi.fn().mockResolvedValue(transaction);
+
+			await paymentService.recordRefund({ chargeId: 'ch_test_123', totalRefunded: 1000 });
+
+			expect(mockStripeService.reverseTransfer).not.toHaveBeenCalled();
+			expect(transaction.save).not.toHaveBeenCalled();
+			expect(paymentService.adjustPerformerTotals).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('getTipPaymentResult', () => {
+		it('should rebuild a tip response with the client secret fetched from Stripe', async () => {
+			mockTransaction.findById = vi.fn().mockResolvedValue({
+				_id: { toString: () => 'trans_123' },
+				stripePaymentIntentId: 'pi_test_123',
+				amount: 500,
+				processingFee: 45,
+				netAmount: 455
+			});
+			mockStripeService.getPaymentIntent.mockResolvedValue({ client_secret: 'pi_test_123_secret' } as any);
+
+			const result = await paymentService.getTipPaymentResult('trans_123');
+
+			expect(mockStripeService.getPaymentIntent).toHaveBeenCalledWith('pi_test_123');
+			expect(result).toEqual({
+				transactionId: 'trans_123',
+				paymentIntentId: 'pi_test_123',
+				clientSecret: 'pi_test_123_secret',
+				amount: 500,
+				processingFee: 45,
+				netAmount: 455
+			});
+		});
+
+		it('should fail the replay when Stripe cannot return the payment intent', async () => {
+			mockTransaction.findById = vi.fn().mockResolvedValue({
+				_id: { toString: () => 'trans_123' },
+				stripePaymentIntentId: 'pi_test_123'
+			});
+			mockStripeService.getPaymentIntent.mockResolvedValue(null);
+
+			await expect(paymentService.getTipPaymentResult('trans_123')).rejects.toThrow(
+				'Payment intent pi_test_123 could not be retrieved'
+			);
+		});
+	});
+
+	describe('guest tips', () => {
+		it('should create an anonymous tip with a receipt email and a claim token', async () => {
+			const save = vi.fn().mockResolvedValue(true);
+			mockStripeService.createTipPaymentIntent.mockResolvedValue({
+				paymentIntentId: 'pi_guest_123',
+				clientSecret: 'pi_guest_123_secret',
+				amount: 500,
+				processingFee: 45,
+				applicationFee: 0,
+				netAmount: 455
+			});
+			mockTransaction.findOne = vi.fn().mockResolvedValue(null);
+			mockTransaction.mockImplementation(() => ({ _id: 'trans_guest', save }));
+
+			const result = await paymentService.createGuestTip({
+				amount: 5.00,
+				performanceId: 'perf_123',
+				performerId: 'performer_123',
+				currency: 'EUR',
+				email: 'fan@example.com'
+			});
+
+			expect(result.claimToken).toMatch(/^[\w-]{43}$/);
+			expect(mockStripeService.createTipPaymentIntent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					tipperId: undefined,
+					isAnonymous: true,
+					receiptEmail: 'fan@example.com'
+				})
+			);
+
+			const transactionData = mockTransaction.mock.calls[0][0] as Record<string, unknown>;
+			expect(transactionData.fromUserId).toBeUndefined();
+			expect(transactionData.receiptEmail).toBe('fan@example.com');
+			// Only the hash of the token is stored
+			expect(transactionData.claimTokenHash).toMatch(/^[0-9a-f]{64}$/);
+			expect(transactionData.claimTokenHash).not.toBe(result.claimToken);
+		});
+
+		it('should claim only unclaimed guest tips for the signed-in user', async () => {
+			mockTransaction.updateMany = vi.fn().mockResolvedValue({ modifiedCount: 2 });
+
+			const claimed = await paymentService.claimGuestTips('user_123', ['token_a', 'token_b']);
+
+			expect(claimed).toBe(2);
+			const [filter, update] = vi.mocked(mockTransaction.updateMany).mock.calls[0] as any[];
+			expect(filter.fromUserId).toEqual({ $exists: false });
+			expect(filter.claimTokenHash.$in).toHaveLength(2);
+			expect(filter.claimTokenHash.$in).not.toContain('token_a');
+			expect(update.$set.fromUserId).toBe('user_123');
+			expect(update.$unset).toEqual({ claimTokenHash: 1 });
+		});
+
+		it('should issue a new claim token when a guest tip response is replayed', async () => {
+			mockTransaction.updateOne = vi.fn().mockResolvedValue({ matchedCount: 1 });
+			mockTransaction.findById = vi.fn().mockResolvedValue({
+				_id: { toString: () => 'trans_guest' },
+				stripePaymentIntentId: 'pi_guest_123',
+				amount: 500,
+				processingFee: 45,
+				netAmount: 455
+			});
+			mockStripeService.getPaymentIntent.mockResolvedValue({ client_secret: 'pi_guest_123_secret' } as any);
+
+			const result = await paymentService.getGuestTipPaymentResult('trans_guest');
+
+			expect(result.clientSecret).toBe('pi_guest_123_secret');
+			expect(result.claimToken).toMatch(/^[\w-]{43}$/);
+			const [filter, update] = vi.mocked(mockTransaction.updateOne).mock.calls[0] as any[];
+			expect(filter).toEqual({ _id: 'trans_guest', fromUserId: { $exists: false } });
+			expect(update.$set.claimTokenHash).toMatch(/^[0-9a-f]{64}$/);
+			expect(update.$set.claimTokenHash).not.toBe(result.claimToken);
+		});
+
+		it('should not replay a guest tip that was already claimed', async () => {
+			mockTransaction.updateOne = vi.fn().mockResolvedValue({ matchedCount: 0 });
+			mockTransaction.findById = vi.fn();
+
+			await expect(paymentService.getGuestTipPaymentResult('trans_guest')).rejects.toThrow(
+				'This guest tip was already claimed'
+			);
+			expect(mockTransaction.findById).not.toHaveBeenCalled();
+		});
+	});
+});
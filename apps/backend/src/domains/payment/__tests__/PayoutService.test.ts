@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { payoutService } from '../services/PayoutService';
+import { Payout } from '../entities/Payout';
+import { Transaction } from '../entities/Transaction';
+import { stripeService } from '../services/StripeService';
+import { UserModel } from '../../user/entities/User';
+
+vi.mock('../entities/Payout');
+vi.mock('../entities/Transaction');
+vi.mock('../services/StripeService');
+vi.mock('../../user/entities/User');
+
+const mockPayout = vi.mocked(Payout);
+const mockTransaction = vi.mocked(Transaction);
+const mockStripeService = vi.mocked(stripeService);
+
+const PAYOUT_ID = '64b7f0c2a1b2c3d4e5f60730';
+
+const buildPayout = () => ({
+	_id: { toString: () => PAYOUT_ID },
+	amount: 0,
+	tipCount: 0,
+	transactionIds: [] as string[],
+	status: 'pending',
+	stripeTransferId: undefined as string | undefined,
+	failureReason: undefined as string | undefined,
+	save: vi.fn().mockResolvedValue(true)
+});
+
+const buildTip = (id: string, netAmount: number, refundedNetAmount = 0) => ({
+	_id: { toString: () => id },
+	netAmount,
+	refundedNetAmount
+});
+
+describe('PayoutService', () => {
+	let payout: ReturnType<typeof buildPayout>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		payout = buildPayout();
+		mockPayout.mockImplementation((data: any) => Object.assign(payout, data) as any);
+		vi.mocked(UserModel.findById).mockResolvedValue({
+			stripe: { connectAccountId: 'acct_123' }
+		} as any);
+		mockTransaction.updateMany = vi.fn().mockResolvedValue({ modifiedCount: 0 });
+		mockTransaction.find = vi.fn().mockResolvedValue([]);
+		mockStripeService.createTransfer = vi.fn().mockResolvedValue('tr_batch_123');
+	});
+
+	describe('createPayoutForPerformer', () => {
+		it('should claim only completed, untransferred tips in the payout currency', async () => {
+			await payoutService.createPayoutForPerformer('performer_123', 'GBP');
+
+			const [filter, update] = vi.mocked(mockTransaction.updateMany).mock.calls[0] as any[];
+			expect(filter).toEqual({
+				toUserId: 'performer_123',
+				currency: 'GBP',
+				status: 'completed',
+				payoutStatus: 'pending',
+				payoutId: { $exists: false },
+				stripeTransferId: { $exists: false },
+				'dispute.status': { $ne: 'open' }
+			});
+			expect(update).toEqual({ $set: { payoutId: PAYOUT_ID, payoutStatus: 'processing' } });
+			expect(mockTransaction.find).toHaveBeenCalledWith({ payoutId: PAYOUT_ID });
+		});
+
+		it('should transfer the net total of the claimed tips less refunds', async () => {
+			mockTransaction.find = vi.fn().mockResolvedValue([
+				buildTip('tip_1', 455),
+				buildTip('tip_2', 900, 360)
+			]);
+
+			const result = await payoutService.createPayoutForPerformer('performer_123', 'EUR');
+
+			expect(result).toBe(payout);
+			expect(mockStripeService.createTransfer).toHaveBeenCalledWith(
+				995,
+				'acct_123',
+				`payout_${PAYOUT_ID}`,
+				{ payoutId: PAYOUT_ID },
+				'EUR',
+				`payout_${PAYOUT_ID}`
+			);
+			expect(payout).toMatchObject({
+				amount: 995,
+				tipCount: 2,
+				transactionIds: ['tip_1', 'tip_2'],
+				status: 'processing',
+				stripeTransferId: 'tr_batch_123'
+			});
+			// Refunds reverse the performer's share from the batch transfer
+			expect(mockTransaction.updateMany).toHaveBeenLastCalledWith(
+				{ payoutId: PAYOUT_ID },
+				{ $set: { stripeTransferId: 'tr_batch_123' } }
+			);
+		});
+
+		it('should mark the payout failed and release the tips when Stripe rejects the transfer', async () => {
+			mockTransaction.find = vi.fn().mockResolvedValue([buildTip('tip_1', 455)]);
+			mockStripeService.createTransfer = vi.fn().mockRejectedValue(
+				new Error('Insufficient platform balance', { cause: { type: 'StripeInvalidRequestError' } })
+			);
+
+			const result = await payoutService.createPayoutForPerformer('performer_123', 'EUR');
+
+			expect(result).toBe(payout);
+			expect(payout.status).toBe('failed');
+			expect(payout.failureReason).toBe('Insufficient platform balance');
+			expect(payout.stripeTransferId).toBeUndefined();
+			expect(mockTransaction.updateMany).toHaveBeenLastCalledWith(
+				{ payoutId: PAYOUT_ID },
+				{ $set: { payoutStatus: 'pending' }, $unset: { payoutId: 1 } }
+			);
+		});
+
+		it('should keep the payout pending with its tips when the transfer outcome is unknown', async () => {
+			mockTransaction.find = vi.fn().mockResolvedValue([buildTip('tip_1', 455)]);
+			mockStripeService.createTransfer = vi.fn().mockRejectedValue(
+				new Error('Request timed out', { cause: { type: 'StripeConnectionError' } })
+			);
+
+			const result = await payoutService.createPayoutForPerformer('performer_123', 'EUR');
+
+			expect(result).toBe(payout);
+			expect(payout.status).toBe('pending');
+			expect(payout.failureReason).toBe('Request timed out');
+			// Only the claim itself; the tips stay with this payout
+			expect(mockTransaction.updateMany).toHaveBeenCalledTimes(1);
+		});
+
+		it('should release the claim and skip the transfer when there is nothing to pay', async () => {
+			mockTransaction.find = vi.fn().mockResolvedValue([buildTip('tip_1', 455, 455)]);
+
+			const result = await payoutService.createPayoutForPerformer('performer_123', 'EUR');
+
+			expect(result).toBeNull();
+			expect(mockStripeService.createTransfer).not.toHaveBeenCalled();
+			expect(payout.save).not.toHaveBeenCalled();
+			expect(mockTransaction.updateMany).toHaveBeenLastCalledWith(
+				{ payoutId: PAYOUT_ID },
+				{ $set: { payoutStatus: 'pending' }, $unset: { payoutId: 1 } }
+			);
+		});
+
+		it('should not claim tips for a performer without a Connect account', async () => {
+			vi.mocked(UserModel.findById).mockResolvedValue({ stripe: {} } as any);
+
+			const result = await payoutService.createPayoutForPerformer('performer_123', 'EUR');
+
+			expect(result).toBeNull();
+			expect(mockTransaction.updateMany).not.toHaveBeenCalled();
+			expect(mockStripeService.createTransfer).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('processPendingPayouts', () => {
+		it('should retry stuck pending payouts with the same idempotency key', async () => {
+			const stuck = { ...buildPayout(), amount: 455, tipCount: 1, connectAccountId: 'acct_123', currency: 'EUR' };
+			mockPayout.find = vi.fn().mockResolvedValue([stuck]);
+			mockTransaction.aggregate = vi.fn().mockResolvedValue([]);
+
+			await payoutService.processPendingPayouts();
+
+			expect(vi.mocked(mockPayout.find).mock.calls[0][0]).toMatchObject({
+				status: 'pending',
+				stripeTransferId: { $exists: false }
+			});
+			expect(mockStripeService.createTransfer).toHaveBeenCalledWith(
+				455,
+				'acct_123',
+				`payout_${PAYOUT_ID}`,
+				{ payoutId: PAYOUT_ID },
+				'EUR',
+				`payout_${PAYOUT_ID}`
+			);
+			expect(stuck).toMatchObject({ status: 'processing', stripeTransferId: 'tr_batch_123' });
+		});
+	});
+});
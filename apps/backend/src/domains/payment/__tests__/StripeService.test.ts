@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { webhookEventRepository } from '../repositories/WebhookEventRepository';
+import { paymentService } from '../services/PaymentService';
+
+// Any keys work: nothing here reaches the Stripe API
+vi.hoisted(() => {
+	process.env.STRIPE_SECRET_KEY ||= 'sk_test_webhooks';
+	process.env.STRIPE_WEBHOOK_SECRET ||= 'whsec_webhooks';
+});
+
+vi.mock('../repositories/WebhookEventRepository');
+vi.mock('../services/PaymentService');
+
+const { stripeService } = await import('../services/StripeService');
+
+const mockLedger = vi.mocked(webhookEventRepository);
+const mockPaymentService = vi.mocked(paymentService);
+
+const succeededEvent = {
+	id: 'evt_123',
+	type: 'payment_intent.succeeded',
+	data: {
+		object: {
+			id: 'pi_test_123',
+			amount: 500,
+			currency: 'eur',
+			metadata: {}
+		}
+	}
+};
+
+const completedTransaction = {
+	_id: 'trans_123',
+	toUserId: 'performer_123',
+	performanceId: 'perf_123',
+	netAmount: 455
+};
+
+// Deliveries without a webhook secret are parsed without verification in development
+const deliver = (event: object) =>
+	stripeService.handleWebhookEvent(JSON.stringify(event), 'unsigned');
+
+const refundedEvent = {
+	id: 'evt_refund_123',
+	type: 'charge.refunded',
+	data: { object: { id: 'ch_test_123', amount_refunded: 500, currency: 'eur' } }
+};
+
+describe('StripeService webhooks', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.stubEnv('NODE_ENV', 'development');
+
+		(stripeService as any).stripe = {
+			charges: { list: vi.fn().mockResolvedValue({ data: [{ id: 'ch_test_123' }] }) }
+		};
+		(stripeService as any).webhookSecret = '';
+		mockLedger.claim.mockResolvedValue('claimed');
+		mockLedger.markProcessed.mockResolvedValue();
+		mockLedger.markFailed.mockResolvedValue();
+		mockPaymentService.updateTransactionStatus.mockResolvedValue(completedTransaction as any);
+		mockPaymentService.countCompletedTip.mockResolvedValue(completedTransaction as any);
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it('should complete the tip, count it once and mark the event processed', async () => {
+		await deliver(succeededEvent);
+
+		expect(mockPaymentService.updateTransactionStatus).toHaveBeenCalledWith(
+			'pi_test_123',
+			'completed',
+			'ch_test_123'
+		);
+		expect(mockPaymentService.countCompletedTip).toHaveBeenCalledWith('pi_test_123');
+		expect(mockLedger.markProcessed).toHaveBeenCalledWith('evt_123');
+		expect(mockLedger.markFailed).not.toHaveBeenCalled();
+	});
+
+	it('should skip events the ledger already processed', async () => {
+		mockLedger.claim.mockResolvedValue('processed');
+
+		await deliver(succeededEvent);
+
+		expect(mockPaymentService.updateTransactionStatus).not.toHaveBeenCalled();
+		expect(mockLedger.markProcessed).not.toHaveBeenCalled();
+	});
+
+	it('should fail deliveries of an event another delivery is handling', async () => {
+		mockLedger.claim.mockResolvedValue('in_progress');
+
+		await expect(deliver(succeededEvent)).rejects.toThrow('already being processed');
+
+		expect(mockPaymentService.updateTransactionStatus).not.toHaveBeenCalled();
+	});
+
+	it('should still count a tip an earlier attempt completed without counting', async () => {
+		mockPaymentService.updateTransactionStatus.mockResolvedValue(null);
+
+		await deliver(succeededEvent);
+
+		expect(mockPaymentService.countCompletedTip).toHaveBeenCalledWith('pi_test_123');
+		expect(mockLedger.markProcessed).toHaveBeenCalledWith('evt_123');
+	});
+
+	it('should fail the event so it is retried when counting the totals throws', async () => {
+		mockPaymentService.countCompletedTip.mockRejectedValue(new Error('connection reset'));
+
+		await expect(deliver(succeededEvent)).rejects.toThrow('connection reset');
+
+		expect(mockLedger.markFailed).toHaveBeenCalledWith('evt_123', expect.any(Error));
+		expect(mockLedger.markProcessed).not.toHaveBeenCalled();
+	});
+
+	it('should mark the event failed instead of processed when a handler throws', async () => {
+		const error = new Error('connection reset');
+		mockPaymentService.updateTransactionStatus.mockRejectedValue(error);
+
+		await expect(deliver(succeededEvent)).rejects.toThrow('connection reset');
+
+		expect(mockLedger.markFailed).toHaveBeenCalledWith('evt_123', error);
+		expect(mockLedger.markProcessed).not.toHaveBeenCalled();
+	});
+
+	it('should mark failed payment events failed when the status update throws', async () => {
+		mockPaymentService.updateTransactionStatus.mockRejectedValue(new Error('connection reset'));
+
+		await expect(
+			deliver({
+				...succeededEvent,
+				type: 'payment_intent.payment_failed',
+				data: { object: { ...succeededEvent.data.object, last_payment_error: { message: 'Card declined' } } }
+			})
+		).rejects.toThrow('connection reset');
+
+		expect(mockLedger.markFailed).toHaveBeenCalledWith('evt_123', expect.any(Error));
+		expect(mockLedger.markProcessed).not.toHaveBeenCalled();
+	});
+
+	it('should reject events whose signature does not verify', async () => {
+		const constructEvent = vi.fn(() => {
+			throw new Error('No signatures found matching the expected signature');
+		});
+		(stripeService as any).stripe = { webhooks: { constructEvent } };
+		(stripeService as any).webhookSecret = 'whsec_webhooks';
+
+		await expect(deliver(refundedEvent)).rejects.toThrow('Webhook verification failed');
+
+		expect(mockLedger.claim).not.toHaveBeenCalled();
+	});
+
+	it('should reject unsigned events outside development', async () => {
+		vi.stubEnv('NODE_ENV', 'production');
+
+		await expect(deliver(succeededEvent)).rejects.toThrow('Webhook verification is not configured');
+
+		expect(mockLedger.claim).not.toHaveBeenCalled();
+	});
+
+	it('should never handle unverified refunds, disputes, transfers or payouts', async () => {
+		const types = [
+			'charge.refunded',
+			'charge.dispute.created',
+			'charge.dispute.closed',
+			'transfer.created',
+			'transfer.reversed',
+			'payout.created',
+			'payout.paid',
+			'payout.failed',
+			'payout.canceled'
+		];
+		for (const type of types) {
+			await expect(deliver({ ...refundedEvent, type })).rejects.toThrow('must be signed');
+		}
+
+		expect(mockLedger.claim).not.toHaveBeenCalled();
+	});
+
+	it('should handle refunds whose signature verifies', async () => {
+		const constructEvent = vi.fn().mockReturnValue(refundedEvent);
+		(stripeService as any).stripe = { webhooks: { constructEvent } };
+		(stripeService as any).webhookSecret = 'whsec_webhooks';
+		mockPaymentService.recordRefund.mockResolvedValue(undefined as any);
+
+		await deliver(refundedEvent);
+
+		expect(constructEvent).toHaveBeenCalledWith(JSON.stringify(refundedEvent), 'unsigned', 'whsec_webhooks');
+		expect(mockLedger.markProcessed).toHaveBeenCalledWith('evt_refund_123');
+	});
+
+	it('should replay a failed event from its stored payload', async () => {
+		const record = { eventId: 'evt_123', type: succeededEvent.type, payload: succeededEvent, status: 'processing' };
+		const processed = { ...record, status: 'processed' };
+		mockLedger.claimForReplay.mockResolvedValue(record as any);
+		mockLedger.findById.mockResolvedValue(processed as any);
+
+		const result = await stripeService.replayWebhookEvent('evt_123', 'admin_123');
+
+		expect(mockLedger.claimForReplay).toHaveBeenCalledWith('evt_123', 'admin_123');
+		expect(mockPaymentService.countCompletedTip).toHaveBeenCalledWith('pi_test_123');
+		expect(mockLedger.markProcessed).toHaveBeenCalledWith('evt_123');
+		expect(result).toBe(processed);
+	});
+
+	it('should record a replay that fails again on the ledger entry', async () => {
+		const record = { eventId: 'evt_123', type: succeededEvent.type, payload: succeededEvent, status: 'processing' };
+		mockLedger.claimForReplay.mockResolvedValue(record as any);
+		mockLedger.findById.mockResolvedValue({ ...record, status: 'failed' } as any);
+		mockPaymentService.updateTransactionStatus.mockRejectedValue(new Error('still down'));
+
+		const result = await stripeService.replayWebhookEvent('evt_123', 'admin_123');
+
+		expect(mockLedger.markFailed).toHaveBeenCalledWith('evt_123', expect.any(Error));
+		expect(mockLedger.markProcessed).not.toHaveBeenCalled();
+		expect(result.status).toBe('failed');
+	});
+});
+
+describe('StripeService tip payment intents', () => {
+	const tipRequest = {
+		amount: 1000,
+		currency: 'EUR',
+		performanceId: 'perf_123',
+		performerId: 'performer_123',
+		country: 'ES',
+		idempotencyKey: 'tip:user_123:key_123'
+	};
+
+	let create: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		create = vi.fn().mockResolvedValue({ id: 'pi_test_123', client_secret: 'pi_test_123_secret' });
+		(stripeService as any).stripe = { paymentIntents: { create } };
+	});
+
+	it('should keep the platform application fee out of the net amount', async () => {
+		const result = await stripeService.createTipPaymentIntent(tipRequest);
+		const { applicationFee, processingFee, netAmount } = stripeService.calculateFees(
+			1000,
+			'EUR',
+			'card',
+			'ES',
+			{ withApplicationFee: true }
+		);
+
+		expect(applicationFee).toBeGreaterThan(0);
+		expect(result).toMatchObject({ applicationFee, processingFee, netAmount });
+		expect(result.netAmount).toBe(1000 - result.processingFee);
+		expect(create.mock.calls[0][0].metadata).toMatchObject({
+			applicationFee: String(applicationFee),
+			netAmount: String(netAmount)
+		});
+		expect(create.mock.calls[0][1]).toEqual({ idempotencyKey: 'tip:user_123:key_123' });
+	});
+
+	it('should pass the idempotency key through on Connect charges', async () => {
+		await stripeService.createTipPaymentIntentWithConnect({ ...tipRequest, stripeAccountId: 'acct_123' });
+
+		expect(create.mock.calls[0][0]).toMatchObject({ transfer_data: { destination: 'acct_123' } });
+		expect(create.mock.calls[0][1]).toEqual({ idempotencyKey: 'tip:user_123:key_123' });
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { tipHistoryService } from '../services/TipHistoryService';
+import { Transaction } from '../entities/Transaction';
+import { UserModel } from '../../user/entities/User';
+import { PerformanceModel } from '../../performance/entities/Performance';
+
+vi.mock('../entities/Transaction');
+vi.mock('../../user/entities/User');
+vi.mock('../../performance/entities/Performance');
+
+const TRANSACTION_ID = '64b7f0c2a1b2c3d4e5f60718';
+const PERFORMER_ID = '64b7f0c2a1b2c3d4e5f60719';
+const PERFORMANCE_ID = '64b7f0c2a1b2c3d4e5f60720';
+
+// Mongoose queries are chained and awaited via .lean()
+const query = (result: unknown) => {
+	const chain = {
+		select: vi.fn(() => chain),
+		sort: vi.fn(() => chain),
+		skip: vi.fn(() => chain),
+		limit: vi.fn(() => chain),
+		lean: vi.fn().mockResolvedValue(result),
+	};
+	return chain;
+};
+
+const buildTransaction = (overrides: Record<string, unknown> = {}) => ({
+	_id: TRANSACTION_ID,
+	amount: 500,
+	refundedAmount: 0,
+	currency: 'EUR',
+	status: 'completed',
+	paymentMethod: 'apple_pay',
+	isAnonymous: false,
+	publicMessage: 'Great set!',
+	fromUserId: 'tipper_123',
+	toUserId: PERFORMER_ID,
+	performanceId: PERFORMANCE_ID,
+	createdAt: new Date('2024-06-01T20:00:00Z'),
+	...overrides
+});
+
+describe('TipHistoryService', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		vi.mocked(UserModel.find).mockReturnValue(
+			query([{ _id: PERFORMER_ID, profile: { displayName: 'Busker <Bob>' } }]) as any
+		);
+		vi.mocked(PerformanceModel.find).mockReturnValue(
+			query([{ _id: PERFORMANCE_ID, title: 'Sunset Jazz' }]) as any
+		);
+	});
+
+	describe('getTips', () => {
+		it('should filter by tipper, performer and date and attach names', async () => {
+			vi.mocked(Transaction.find).mockReturnValue(query([buildTransaction()]) as any);
+			vi.mocked(Transaction.countDocuments).mockResolvedValue(1 as any);
+			const from = new Date('2024-01-01');
+
+			const { tips, total } = await tipHistoryService.getTips(
+				'tipper_123',
+				{ performerId: PERFORMER_ID, from },
+				1,
+				20
+			);
+
+			expect(Transaction.find).toHaveBeenCalledWith({
+				fromUserId: 'tipper_123',
+				toUserId: PERFORMER_ID,
+				createdAt: { $gte: from }
+			});
+			expect(total).toBe(1);
+			expect(tips[0]).toMatchObject({
+				_id: TRANSACTION_ID,
+				amount: 500,
+				performer: { _id: PERFORMER_ID, displayName: 'Busker <Bob>' },
+				performance: { _id: PERFORMANCE_ID, title: 'Sunset Jazz' }
+			});
+		});
+	});
+
+	describe('renderReceipt', () => {
+		it('should only look up tips given by the requesting user', async () => {
+			vi.mocked(Transaction.findOne).mockReturnValue(query(null) as any);
+
+			await expect(
+				tipHistoryService.renderReceipt(TRANSACTION_ID, 'someone_else')
+			).rejects.toThrow('Transaction not found');
+
+			expect(Transaction.findOne).toHaveBeenCalledWith({
+				_id: TRANSACTION_ID,
+				fromUserId: 'someone_else'
+			});
+		});
+
+		it('should not issue receipts for unpaid tips', async () => {
+			vi.mocked(Transaction.findOne).mockReturnValue(
+				query(buildTransaction({ status: 'pending' })) as any
+			);
+
+			await expect(
+				tipHistoryService.renderReceipt(TRANSACTION_ID, 'tipper_123')
+			).rejects.toThrow('Receipts are available once the payment has completed');
+		});
+
+		it('should render an escaped receipt including refunds', async () => {
+			vi.mocked(Transaction.findOne).mockReturnValue(
+				query(buildTransaction({ refundedAmount: 200 })) as any
+			);
+
+			const html = await tipHistoryService.renderReceipt(TRANSACTION_ID, 'tipper_123');
+
+			expect(html).toContain('Busker &lt;Bob&gt;');
+			expect(html).not.toContain('<Bob>');
+			expect(html).toContain('Sunset Jazz');
+			expect(html).toContain('apple pay');
+			expect(html).toContain('€3.00');
+		});
+	});
+});
@@ -0,0 +1,140 @@
+import type { NextFunction, Request, Response } from "express";
+import { ApiError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import {
+	getRequestTimeZone,
+	zonedTimeToUtc,
+} from "../../../shared/utils/timezone";
+import {
+	type EarningsExportFormat,
+	earningsReportService,
+} from "../services/EarningsReportService";
+
+const EXPORT_FORMATS: Record<EarningsExportFormat, string> = {
+	csv: "text/csv",
+	jsonl: "application/x-ndjson",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function requireUserId(req: Request): string {
+	const userId = req.user?.userId;
+	if (!userId) {
+		throw new ApiError(401, "Authentication required");
+	}
+	return userId;
+}
+
+// Start of a "YYYY-MM-DD" day in the timezone, optionally days later
+function parseDay(
+	value: unknown,
+	name: string,
+	timezone: string,
+	addDays = 0,
+): Date | undefined {
+	if (value === undefined || value === "") return undefined;
+	if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+		throw new ApiError(400, `${name} must be a date (YYYY-MM-DD)`);
+	}
+
+	const [year, month, day] = value.split("-").map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day + addDays));
+	if (Number.isNaN(date.getTime())) {
+		throw new ApiError(400, `${name} must be a date (YYYY-MM-DD)`);
+	}
+	return zonedTimeToUtc(date.toISOString().slice(0, 10), "00:00", timezone);
+}
+
+export class EarningsReportController {
+	/**
+	 * Download earning transactions as CSV or JSON lines. from/to are
+	 * inclusive days in the caller's timezone (X-Timezone, default UTC).
+	 * GET /api/payments/earnings/export?format=csv|jsonl&from=&to=
+	 */
+	async exportEarnings(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		let userId: string;
+		let format: EarningsExportFormat;
+		let from: Date | undefined;
+		let to: Date | undefined;
+
+		try {
+			userId = requireUserId(req);
+			format = (req.query.format || "csv") as EarningsExportFormat;
+			if (!(format in EXPORT_FORMATS)) {
+				throw new ApiError(400, "format must be csv or jsonl");
+			}
+
+			const timezone = getRequestTimeZone(req) ?? "UTC";
+			from = parseDay(req.query.from, "from", timezone);
+			to = parseDay(req.query.to, "to", timezone, 1);
+			if (from && to && from >= to) {
+				throw new ApiError(400, "from must not be after to");
+			}
+		} catch (error) {
+			next(error);
+			return;
+		}
+
+		const range = [req.query.from, req.query.to].filter(Boolean).join("_to_");
+		res.type(EXPORT_FORMATS[format]);
+		res.set("Cache-Control", "private, no-store");
+		res.attachment(`earnings${range ? `-${range}` : ""}.${format}`);
+
+		try {
+			if (format === "csv") {
+				res.write(earningsReportService.csvHeader());
+			}
+			for await (const row of earningsReportService.exportTransactions(userId, {
+				from,
+				to,
+			})) {
+				res.write(earningsReportService.formatRow(row, format));
+			}
+			res.end();
+		} catch (error) {
+			// Headers are already sent, so cut the download short instead
+			logger.error("❌ Export earnings stream error:", error);
+			res.destroy(error as Error);
+		}
+	}
+
+	/**
+	 * Yearly earnings summary for tax filing, by the performer's country
+	 * GET /api/payments/earnings/report?year=&country=
+	 */
+	async getTaxReport(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = requireUserId(req);
+			const year = req.query.year
+				? Number(req.query.year)
+				: new Date().getUTCFullYear() - 1;
+			const { country } = req.query;
+			if (country !== undefined && typeof country !== "string") {
+				throw new ApiError(400, "country must be a string");
+			}
+
+			const report = await earningsReportService.getTaxReport(
+				userId,
+				year,
+				country || undefined,
+			);
+
+			res.json({
+				success: true,
+				data: report,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
+
+export const earningsReportController = new EarningsReportController();
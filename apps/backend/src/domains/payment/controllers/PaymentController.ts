@@ -1,54 +1,125 @@
-import type { Request, Response } from "express";
+import type { NextFunction, Request, Response } from "express";
+import type { IdempotentResponse } from "../../../shared/middleware/idempotency";
 import { ApiError } from "../../../shared/utils/errors";
 import { logger } from "../../../shared/utils/logger";
+import { getRequestTimeZone } from "../../../shared/utils/timezone";
 import {
 	type CreateTipRequest,
 	paymentService,
 } from "../services/PaymentService";
+import {
+	currencyService,
+	DEFAULT_CURRENCY,
+} from "../services/CurrencyService";
+import { feeService } from "../services/FeeService";
+import { payoutService } from "../services/PayoutService";
 import { stripeService } from "../services/StripeService";
 import { UserModel } from "../../user/entities/User";
+import type { PaymentConfig } from "@spm/shared-types";
+
+// Loose check; Stripe rejects addresses it can't deliver to
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validate the tip fields shared by signed-in and guest tips
+ */
+async function parseTipRequest(req: Request): Promise<CreateTipRequest> {
+	const { amount, performanceId, performerId, publicMessage } = req.body;
+
+	// Validate required fields
+	if (!amount || !performanceId || !performerId) {
+		throw new ApiError(
+			400,
+			"Missing required fields: amount, performanceId, performerId",
+		);
+	}
+
+	// Validate amount against the performer's currency limits
+	const currency = await paymentService.getPerformerCurrency(performerId);
+	const numAmount = Number(amount);
+	if (
+		Number.isNaN(numAmount) ||
+		!currencyService.isValidTipAmount(Math.round(numAmount * 100), currency)
+	) {
+		throw new ApiError(
+			400,
+			`Amount must be between ${currencyService.describeTipLimits(currency)}`,
+		);
+	}
+
+	// Extract location from request headers or IP (optional)
+	const location = {
+		coordinates: [0, 0] as [number, number], // TODO: Get from IP geolocation
+		city: (req.headers["cf-ipcity"] as string) || undefined,
+		country: (req.headers["cf-ipcountry"] as string) || undefined,
+	};
+
+	return {
+		amount: numAmount,
+		performanceId,
+		performerId,
+		publicMessage,
+		currency,
+		location,
+		timezone: getRequestTimeZone(req),
+		idempotencyKey: req.idempotencyKey,
+	};
+}
+
+// Stored in place of a tip response, which carries the client secret
+interface StoredTipResponse {
+	transactionId: string;
+	paymentIntentId: string;
+}
+
+/**
+ * Tip responses are replayed without ever storing the PaymentIntent client
+ * secret: only the ids are kept and the secret is fetched again from Stripe
+ */
+export const tipIdempotency: IdempotentResponse = {
+	store: (body) => {
+		const { transactionId, paymentIntentId } = (
+			body as { data: StoredTipResponse }
+		).data;
+		return { transactionId, paymentIntentId };
+	},
+	replay: async (stored) => ({
+		success: true,
+		data: await paymentService.getTipPaymentResult(
+			(stored as StoredTipResponse).transactionId,
+		),
+	}),
+};
+
+/**
+ * Guest tip responses also carry the plaintext claim token, which is only
+ * ever stored hashed; a replay issues a new token instead
+ */
+export const guestTipIdempotency: IdempotentResponse = {
+	store: tipIdempotency.store,
+	replay: async (stored) => ({
+		success: true,
+		data: await paymentService.getGuestTipPaymentResult(
+			(stored as StoredTipResponse).transactionId,
+		),
+	}),
+};
 
 export class PaymentController {
 	/**
 	 * Create a tip payment intent
 	 * POST /api/payments/tip
 	 */
-	async createTip(req: Request, res: Response): Promise<void> {
+	async createTip(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
-			const { amount, performanceId, performerId, isAnonymous, publicMessage } =
-				req.body;
-			const userId = req.user?.userId; // From auth middleware
-
-			// Validate required fields
-			if (!amount || !performanceId || !performerId) {
-				throw new ApiError(
-					400,
-					"Missing required fields: amount, performanceId, performerId",
-				);
-			}
-
-			// Validate amount
-			const numAmount = Number(amount);
-			if (Number.isNaN(numAmount) || numAmount < 0.5 || numAmount > 100) {
-				throw new ApiError(400, "Amount must be between €0.50 and €100.00");
-			}
-
-			// Extract location from request headers or IP (optional)
-			const location = {
-				coordinates: [0, 0] as [number, number], // TODO: Get from IP geolocation
-				city: (req.headers["cf-ipcity"] as string) || undefined,
-				country: (req.headers["cf-ipcountry"] as string) || undefined,
-			};
-
 			const createTipRequest: CreateTipRequest = {
-				amount: numAmount,
-				performanceId,
-				performerId,
-				tipperId: userId, // Always store the tipper ID for transaction tracking
-				isAnonymous: Boolean(isAnonymous),
-				publicMessage,
-				currency: "EUR",
-				location,
+				...(await parseTipRequest(req)),
+				tipperId: req.user?.userId, // Always store the tipper ID for transaction tracking
+				isAnonymous: Boolean(req.body.isAnonymous),
 			};
 
 			const result = await paymentService.createTip(createTipRequest);
@@ -57,25 +128,77 @@ export class PaymentController {
 				success: true,
 				data: result,
 			});
-		} catch (error: any) {
-			logger.error("❌ Create tip error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-						code: error.code,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Create a tip without an account (rate limited and bot checked)
+	 * POST /api/payments/tip/guest
+	 */
+	async createGuestTip(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const { email } = req.body;
+			if (
+				email !== undefined &&
+				email !== "" &&
+				(typeof email !== "string" || !EMAIL_PATTERN.test(email))
+			) {
+				throw new ApiError(400, "Invalid email address");
 			}
+
+			const result = await paymentService.createGuestTip({
+				...(await parseTipRequest(req)),
+				email: email || undefined,
+			});
+
+			res.status(201).json({
+				success: true,
+				data: result,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Attach tips made as a guest to the signed-in account
+	 * POST /api/payments/guest-tips/claim
+	 */
+	async claimGuestTips(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = req.user?.userId;
+			if (!userId) {
+				throw new ApiError(401, "Authentication required");
+			}
+
+			const { claimTokens } = req.body;
+			if (
+				!Array.isArray(claimTokens) ||
+				claimTokens.length === 0 ||
+				claimTokens.length > 50 ||
+				!claimTokens.every((token) => typeof token === "string")
+			) {
+				throw new ApiError(400, "claimTokens must be a list of 1-50 tokens");
+			}
+
+			const claimed = await paymentService.claimGuestTips(userId, claimTokens);
+
+			res.json({
+				success: true,
+				data: { claimed },
+			});
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -83,7 +206,11 @@ export class PaymentController {
 	 * Get transaction details
 	 * GET /api/payments/transactions/:id
 	 */
-	async getTransaction(req: Request, res: Response): Promise<void> {
+	async getTransaction(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const { id } = req.params;
 			const userId = req.user?.userId;
@@ -106,24 +233,8 @@ export class PaymentController {
 				success: true,
 				data: transaction,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get transaction error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -131,7 +242,11 @@ export class PaymentController {
 	 * Confirm payment (for test mode)
 	 * POST /api/payments/confirm
 	 */
-	async confirmPayment(req: Request, res: Response): Promise<void> {
+	async confirmPayment(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const { paymentIntentId } = req.body;
 
@@ -150,24 +265,8 @@ export class PaymentController {
 				success: true,
 				message: "Payment confirmed successfully",
 			});
-		} catch (error: any) {
-			logger.error("❌ Confirm payment error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -175,7 +274,11 @@ export class PaymentController {
 	 * Get performer earnings
 	 * GET /api/payments/earnings
 	 */
-	async getEarnings(req: Request, res: Response): Promise<void> {
+	async getEarnings(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const userId = req.user?.userId;
 			const { startDate, endDate } = req.query;
@@ -192,6 +295,11 @@ export class PaymentController {
 				start,
 				end,
 			);
+			const byCurrency = await paymentService.getPerformerEarningsByCurrency(
+				userId,
+				start,
+				end,
+			);
 			const transactions = await paymentService.getPerformerTransactions(
 				userId,
 				"completed",
@@ -200,28 +308,105 @@ export class PaymentController {
 			res.json({
 				success: true,
 				data: {
-					earnings,
+					earnings, // Totals across all currencies
+					byCurrency,
 					transactions,
 				},
 			});
-		} catch (error: any) {
-			logger.error("❌ Get earnings error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Get performer payout history with the tips in each payout
+	 * GET /api/payments/payouts
+	 */
+	async getPayouts(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = req.user?.userId;
+
+			if (!userId) {
+				throw new ApiError(401, "Authentication required");
+			}
+
+			const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+			const limit = Math.min(
+				Math.max(parseInt(req.query.limit as string) || 20, 1),
+				100,
+			);
+
+			const { payouts, total } = await payoutService.getPerformerPayouts(
+				userId,
+				page,
+				limit,
+			);
+
+			res.json({
+				success: true,
+				data: payouts,
+				meta: {
+					pagination: {
+						page,
+						limit,
+						total,
+						pages: Math.ceil(total / limit),
 					},
-				});
+					timestamp: new Date().toISOString(),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Refund a tip (full or partial)
+	 * POST /api/payments/transactions/:id/refund
+	 */
+	async refundTransaction(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const { id } = req.params;
+			const { amount, reason } = req.body;
+			const userId = req.user?.userId;
+
+			if (!userId) {
+				throw new ApiError(401, "Authentication required");
 			}
+
+			if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+				throw new ApiError(400, "Refund amount must be a positive number");
+			}
+
+			if (
+				reason !== undefined &&
+				!["duplicate", "fraudulent", "requested_by_customer"].includes(reason)
+			) {
+				throw new ApiError(400, "Invalid refund reason");
+			}
+
+			const transaction = await paymentService.refundTip({
+				transactionId: id,
+				requesterId: userId,
+				requesterRole: req.user?.role || "",
+				amount,
+				reason,
+			});
+
+			res.json({
+				success: true,
+				data: transaction,
+			});
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -232,28 +417,29 @@ export class PaymentController {
 	async getPerformancePaymentSummary(
 		req: Request,
 		res: Response,
+		next: NextFunction,
 	): Promise<void> {
 		try {
 			const { id } = req.params;
 
+			const { tipGoalService } = await import(
+				"../../performance/services/TipGoalService"
+			);
+
 			const summary = await paymentService.getPerformancePaymentSummary(id);
 			const recentTips = await paymentService.getRecentPublicTips(id, 5);
+			const goal = await tipGoalService.getProgress(id);
 
 			res.json({
 				success: true,
 				data: {
 					summary,
 					recentTips,
+					goal,
 				},
 			});
-		} catch (error: any) {
-			logger.error("❌ Get performance payment summary error:", error);
-			res.status(500).json({
-				success: false,
-				error: {
-					message: "Internal server error",
-				},
-			});
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -261,7 +447,11 @@ export class PaymentController {
 	 * Handle Stripe webhooks
 	 * POST /api/payments/webhooks/stripe
 	 */
-	async handleStripeWebhook(req: Request & { rawBody?: Buffer }, res: Response): Promise<void> {
+	async handleStripeWebhook(
+		req: Request & { rawBody?: Buffer },
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const signature = req.headers["stripe-signature"] as string;
 
@@ -276,46 +466,60 @@ export class PaymentController {
 			await stripeService.handleWebhookEvent(body, signature);
 
 			res.json({ received: true });
-		} catch (error: any) {
-			logger.error("❌ Stripe webhook error:", error);
-			res.status(400).json({
-				success: false,
-				error: {
-					message: error.message,
-				},
-			});
+		} catch (error) {
+			// Events that fail verification or handling are rejected as bad requests
+			next(
+				error instanceof ApiError
+					? error
+					: new ApiError(400, (error as Error).message),
+			);
 		}
 	}
 
 	/**
 	 * Get payment configuration (for frontend)
-	 * GET /api/payments/config
+	 * GET /api/payments/config?performerId=...&displayCurrency=...
+	 *
+	 * Limits are in the performer's settlement currency; displayCurrency
+	 * (default: from the tipper's country) is only used to show conversions.
 	 */
-	async getPaymentConfig(req: Request, res: Response): Promise<void> {
+	async getPaymentConfig(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const country = (req.headers["cf-ipcountry"] as string) || "ES";
-
-			const config = {
-				currency: "EUR",
+			const { performerId, displayCurrency } = req.query;
+
+			const currency =
+				typeof performerId === "string" && performerId
+					? await paymentService.getPerformerCurrency(performerId)
+					: DEFAULT_CURRENCY;
+			const requestedDisplay =
+				typeof displayCurrency === "string" ? displayCurrency.toUpperCase() : "";
+			const tipperCurrency = currencyService.isSupported(requestedDisplay)
+				? requestedDisplay
+				: currencyService.getCurrencyForCountry(country);
+
+			const config: PaymentConfig = {
+				...currencyService.getTipConfig(currency),
 				paymentMethods: stripeService.getPaymentMethodTypes(country),
 				isConfigured: stripeService.isConfigured(),
-				minAmount: 0.5,
-				maxAmount: 100,
-				suggestedAmounts: [1, 3, 5, 10],
+				displayCurrency: tipperCurrency,
+				exchangeRate: currencyService.getExchangeRate(currency, tipperCurrency),
+				fee: feeService.describe(
+					{ currency, paymentMethod: "card", country },
+					{ withApplicationFee: true },
+				),
 			};
 
 			res.json({
 				success: true,
 				data: config,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get payment config error:", error);
-			res.status(500).json({
-				success: false,
-				error: {
-					message: "Internal server error",
-				},
-			});
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -323,7 +527,11 @@ export class PaymentController {
 	 * Create Stripe Connect account for performer
 	 * POST /api/payments/connect/account
 	 */
-	async createConnectAccount(req: Request, res: Response): Promise<void> {
+	async createConnectAccount(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const { email, country, businessType } = req.body;
 
@@ -390,24 +598,8 @@ export class PaymentController {
 					onboardingUrl: connectAccount.loginUrl // Return the onboarding URL from mock
 				},
 			});
-		} catch (error: any) {
-			logger.error("❌ Create Connect account error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -415,7 +607,11 @@ export class PaymentController {
 	 * Get Connect account details
 	 * GET /api/payments/connect/account
 	 */
-	async getConnectAccount(req: Request, res: Response): Promise<void> {
+	async getConnectAccount(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const userId = req.user?.userId;
 
@@ -453,24 +649,8 @@ export class PaymentController {
 				success: true,
 				data: connectAccount,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get Connect account error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -478,7 +658,11 @@ export class PaymentController {
 	 * Create account link for Connect account dashboard
 	 * POST /api/payments/connect/link
 	 */
-	async createAccountLink(req: Request, res: Response): Promise<void> {
+	async createAccountLink(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
 		try {
 			const { type = 'account_update' } = req.body;
 			const userId = req.user?.userId;
@@ -505,24 +689,8 @@ export class PaymentController {
 					url: accountLink
 				},
 			});
-		} catch (error: any) {
-			logger.error("❌ Create account link error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 }
@@ -0,0 +1,195 @@
+import type { NextFunction, Request, Response } from "express";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import { cursorQuerySchema } from "../../../shared/utils/pagination";
+import type { ITransaction } from "../entities/Transaction";
+import {
+	type TipHistoryFilters,
+	tipHistoryService,
+} from "../services/TipHistoryService";
+import { transactionService } from "../services/TransactionService";
+
+const TIP_STATUSES: ITransaction["status"][] = [
+	"pending",
+	"processing",
+	"completed",
+	"failed",
+	"refunded",
+];
+
+function requireUserId(req: Request): string {
+	const userId = req.user?.userId;
+	if (!userId) {
+		throw new ApiError(401, "Authentication required");
+	}
+	return userId;
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+	if (value === undefined || value === "") return undefined;
+	const date = new Date(String(value));
+	if (Number.isNaN(date.getTime())) {
+		throw new ApiError(400, `${name} must be a valid date`);
+	}
+	return date;
+}
+
+function parseFilters(query: Request["query"]): TipHistoryFilters {
+	const { status, performerId } = query;
+	if (
+		status !== undefined &&
+		!TIP_STATUSES.includes(status as ITransaction["status"])
+	) {
+		throw new ApiError(400, `status must be one of: ${TIP_STATUSES.join(", ")}`);
+	}
+	if (performerId !== undefined && typeof performerId !== "string") {
+		throw new ApiError(400, "performerId must be a string");
+	}
+
+	return {
+		status: status as ITransaction["status"] | undefined,
+		performerId: performerId || undefined,
+		from: parseDate(query.from, "from"),
+		to: parseDate(query.to, "to"),
+	};
+}
+
+export class TipHistoryController {
+	/**
+	 * Tips the signed-in user has given
+	 * GET /api/payments/my-tips?page=&limit=&status=&performerId=&from=&to=
+	 */
+	async getMyTips(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = requireUserId(req);
+			const filters = parseFilters(req.query);
+
+			const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+			const limit = Math.min(
+				Math.max(parseInt(req.query.limit as string) || 20, 1),
+				100,
+			);
+
+			const { tips, total } = await tipHistoryService.getTips(
+				userId,
+				filters,
+				page,
+				limit,
+			);
+
+			res.json({
+				success: true,
+				data: tips,
+				meta: {
+					pagination: {
+						page,
+						limit,
+						total,
+						pages: Math.ceil(total / limit),
+					},
+					timestamp: new Date().toISOString(),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Totals of the signed-in user's tips per performer
+	 * GET /api/payments/my-tips/performers
+	 */
+	async getMyTipsByPerformer(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = requireUserId(req);
+			const summaries = await tipHistoryService.getPerformerSummaries(userId);
+
+			res.json({
+				success: true,
+				data: summaries,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * HTML receipt of one of the user's tips, ?download=1 to save it
+	 * GET /api/payments/transactions/:id/receipt
+	 */
+	async getReceipt(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = requireUserId(req);
+			const { id } = req.params;
+
+			const receipt = await tipHistoryService.renderReceipt(id, userId);
+
+			res.type("html");
+			res.set("Cache-Control", "private, no-store");
+			if (req.query.download) {
+				res.attachment(`tip-receipt-${id}.html`);
+			}
+			res.send(receipt);
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Completed tips the signed-in performer has received, newest first
+	 * GET /api/payments/received-tips?cursor=&limit=&performanceId=&from=&to=
+	 */
+	async getReceivedTips(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = requireUserId(req);
+
+			const validation = cursorQuerySchema.safeParse(req.query);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const { performanceId } = req.query;
+			if (performanceId !== undefined && typeof performanceId !== "string") {
+				throw new ApiError(400, "performanceId must be a string");
+			}
+
+			const { items, pagination } = await transactionService.getPerformerTips(
+				userId,
+				{
+					performanceId: performanceId || undefined,
+					dateFrom: parseDate(req.query.from, "from"),
+					dateTo: parseDate(req.query.to, "to"),
+				},
+				validation.data,
+			);
+
+			res.json({
+				success: true,
+				data: items,
+				meta: {
+					pagination,
+					timestamp: new Date().toISOString(),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
+
+export const tipHistoryController = new TipHistoryController();
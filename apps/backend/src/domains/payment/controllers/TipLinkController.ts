@@ -0,0 +1,93 @@
+import type { NextFunction, Request, Response } from "express";
+import { ApiError } from "../../../shared/utils/errors";
+import {
+	type QrCodeFormat,
+	tipLinkService,
+} from "../services/TipLinkService";
+
+const QR_CODE_FORMATS: QrCodeFormat[] = ["png", "svg"];
+
+export class TipLinkController {
+	/**
+	 * Get (or create) the performer's tip link, or one for a performance
+	 * POST /api/payments/tip-links
+	 */
+	async createTipLink(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const userId = req.user?.userId;
+			if (!userId) {
+				throw new ApiError(401, "Authentication required");
+			}
+
+			const { performanceId } = req.body ?? {};
+			if (performanceId !== undefined && typeof performanceId !== "string") {
+				throw new ApiError(400, "performanceId must be a string");
+			}
+
+			const tipLink = await tipLinkService.getOrCreate(userId, performanceId);
+
+			res.json({
+				success: true,
+				data: tipLink,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Resolve a scanned code to the performer and performance to tip
+	 * GET /api/payments/tip-links/:code
+	 */
+	async resolveTipLink(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const target = await tipLinkService.resolve(req.params.code);
+
+			res.json({
+				success: true,
+				data: target,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * QR code image of a tip link, ?format=png|svg&download=1
+	 * GET /api/payments/tip-links/:code/qr
+	 */
+	async getQrCode(
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> {
+		try {
+			const { code } = req.params;
+			const format = (req.query.format || "png") as QrCodeFormat;
+			if (!QR_CODE_FORMATS.includes(format)) {
+				throw new ApiError(400, "format must be png or svg");
+			}
+
+			const image = await tipLinkService.renderQrCode(code, format);
+
+			res.type(format === "svg" ? "image/svg+xml" : "image/png");
+			res.set("Cache-Control", "public, max-age=86400"); // Codes never change
+			if (req.query.download) {
+				res.attachment(`tip-${code}.${format}`);
+			}
+			res.send(image);
+		} catch (error) {
+			next(error);
+		}
+	}
+}
+
+export const tipLinkController = new TipLinkController();
@@ -0,0 +1,60 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Stored response of a request sent with an Idempotency-Key header
+export interface IdempotencyKeyDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	key: string;
+	scope: string; // Endpoint the key was used on, e.g. "payments:tip"
+	userId: string; // Keys are unique per user, or per client for guests
+	requestHash: string;
+	status: "processing" | "completed";
+	responseStatus?: number;
+	responseBody?: unknown; // Or only what the route keeps of it, see IdempotentResponse
+	expiresAt: Date;
+	createdAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IdempotencyKeyDocument>(
+	{
+		key: {
+			type: String,
+			required: true,
+		},
+		scope: {
+			type: String,
+			required: true,
+		},
+		userId: {
+			type: String,
+			required: true,
+		},
+		requestHash: {
+			type: String,
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: ["processing", "completed"],
+			default: "processing",
+		},
+		responseStatus: Number,
+		responseBody: Schema.Types.Mixed,
+		expiresAt: {
+			type: Date,
+			required: true,
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "idempotency_keys",
+	},
+);
+
+idempotencyKeySchema.index({ userId: 1, scope: 1, key: 1 }, { unique: true });
+// Keys are only honored for 24 hours, matching Stripe
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKeyModel = mongoose.model<IdempotencyKeyDocument>(
+	"IdempotencyKey",
+	idempotencyKeySchema,
+);
@@ -0,0 +1,115 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Base entity interface
+interface BaseEntity {
+	_id: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export type PayoutStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface IPayout extends BaseEntity {
+	// Who gets paid
+	performerId: string;
+	connectAccountId: string;
+
+	// Batch contents
+	amount: number; // Sum of the tips' net amounts in cents
+	currency: string;
+	transactionIds: string[];
+	tipCount: number;
+
+	// Stripe references
+	stripeTransferId?: string; // Platform -> Connect account transfer
+	stripePayoutId?: string; // Connect account -> bank payout
+	reversedAmount: number; // Part of the transfer clawed back by refunds/disputes
+
+	// Lifecycle
+	// pending: batch created, processing: transferred to the Connect account,
+	// completed: paid out to the bank, failed: the transfer could not be made
+	status: PayoutStatus;
+	failureReason?: string; // Also records the last failed bank payout attempt
+	transferredAt?: Date;
+	paidAt?: Date; // Expected/actual arrival in the performer's bank account
+}
+
+export interface PayoutDocument extends Omit<IPayout, "_id">, Document {
+	_id: mongoose.Types.ObjectId;
+}
+
+const PayoutSchema = new Schema<PayoutDocument>(
+	{
+		// Who gets paid
+		performerId: {
+			type: String,
+			required: true,
+			index: true,
+		},
+		connectAccountId: {
+			type: String,
+			required: true,
+		},
+
+		// Batch contents
+		amount: {
+			type: Number,
+			required: true,
+			min: 1,
+		},
+		currency: {
+			type: String,
+			required: true,
+			default: "EUR",
+		},
+		transactionIds: {
+			type: [String],
+			default: [],
+		},
+		tipCount: {
+			type: Number,
+			required: true,
+		},
+
+		// Stripe references
+		stripeTransferId: {
+			type: String,
+			index: true,
+		},
+		stripePayoutId: {
+			type: String,
+			index: true,
+		},
+		reversedAmount: {
+			type: Number,
+			default: 0,
+		},
+
+		// Lifecycle
+		status: {
+			type: String,
+			required: true,
+			default: "pending",
+			enum: ["pending", "processing", "completed", "failed"],
+			index: true,
+		},
+		failureReason: {
+			type: String,
+		},
+		transferredAt: {
+			type: Date,
+		},
+		paidAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+		collection: "payouts",
+	},
+);
+
+PayoutSchema.index({ performerId: 1, createdAt: -1 }); // Payout history
+PayoutSchema.index({ connectAccountId: 1, status: 1, transferredAt: 1 }); // Webhook reconciliation
+
+export const Payout = mongoose.model<PayoutDocument>("Payout", PayoutSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Stable short code behind a printed tip URL/QR code (/t/:code)
+export interface TipLinkDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	code: string;
+	performerId: string;
+	performanceId?: string; // Unset for the performer's own link
+	scans: number; // Times the link was opened
+	createdAt: Date;
+}
+
+const tipLinkSchema = new Schema<TipLinkDocument>(
+	{
+		code: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		performerId: {
+			type: String,
+			required: true,
+		},
+		performanceId: {
+			type: String,
+		},
+		scans: {
+			type: Number,
+			default: 0,
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "tip_links",
+	},
+);
+
+// One link per performer and one per performance, so printed codes never change
+tipLinkSchema.index({ performerId: 1, performanceId: 1 }, { unique: true });
+
+export const TipLinkModel = mongoose.model<TipLinkDocument>(
+	"TipLink",
+	tipLinkSchema,
+);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, type Document } from "mongoose";
+import type { CurrencyEarnings } from "@spm/shared-types";
 
 // Base entity interface
 interface BaseEntity {
@@ -7,23 +8,43 @@ interface BaseEntity {
 	updatedAt: Date;
 }
 
+export const PAYMENT_METHODS = [
+	"card",
+	"apple_pay",
+	"google_pay",
+	"bizum",
+	"ideal",
+	"bancontact",
+	"giropay",
+	"sofort",
+	"sepa_debit",
+	"link",
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
 export interface ITransaction extends BaseEntity {
 	// Core transaction data
-	amount: number; // Amount in cents (e.g., 500 = €5.00)
-	currency: string; // EUR, USD, etc.
+	amount: number; // Amount in minor units (e.g., 500 = €5.00)
+	currency: string; // Performer's settlement currency (EUR, USD, GBP)
 
 	// User relationships
 	fromUserId?: string; // Tipper (optional for anonymous tips)
 	toUserId: string; // Performer receiving the tip
 	performanceId: string; // Performance being tipped
 
+	// Guest tips (no account when tipping)
+	receiptEmail?: string; // Where Stripe sends the receipt
+	claimTokenHash?: string; // SHA-256 of the token that attaches the tip to an account
+	claimedAt?: Date;
+
 	// Payment processing
 	stripePaymentIntentId: string;
 	stripeChargeId?: string;
-	paymentMethod: "card" | "apple_pay" | "google_pay" | "bizum";
+	paymentMethod: PaymentMethod; // Estimated as card until the charge succeeds
 
 	// Transaction status
 	status: "pending" | "processing" | "completed" | "failed" | "refunded";
+	totalsCountedAt?: Date; // When the completed tip was added to the performer totals
 
 	// Privacy & Display
 	isAnonymous: boolean; // Whether tip should be shown as anonymous
@@ -31,8 +52,14 @@ export interface ITransaction extends BaseEntity {
 
 	// Processing metadata
 	stripeClientSecret?: string;
-	processingFee: number; // Stripe fees in cents
+	processingFee: number; // Stripe fee plus applicationFee, in cents
+	applicationFee: number; // Platform cut on Connect charges
 	netAmount: number; // Amount after fees
+	feeReconciliation?: {
+		estimatedFee: number; // Stripe fee estimated when the intent was created
+		actualFee: number; // From the charge's balance transaction
+		reconciledAt: Date;
+	};
 
 	// Geographic data (for analytics)
 	location?: {
@@ -40,6 +67,7 @@ export interface ITransaction extends BaseEntity {
 		city?: string;
 		country?: string;
 	};
+	timezone?: string; // Tipper's IANA timezone
 
 	// Failure handling
 	failureReason?: string;
@@ -49,6 +77,24 @@ export interface ITransaction extends BaseEntity {
 	payoutId?: string; // Reference to payout batch
 	payoutDate?: Date;
 	payoutStatus: "pending" | "processing" | "completed" | "failed";
+	stripeTransferId?: string; // Transfer of netAmount to the performer's Connect account
+
+	// Refunds & disputes
+	refundedAmount: number; // Cumulative amount refunded to the tipper in cents
+	refundedNetAmount: number; // Share of netAmount clawed back from the performer
+	reversedNetAmount: number; // Part of that actually reversed from stripeTransferId
+	refundReason?: string;
+	refundedAt?: Date;
+	dispute?: {
+		stripeDisputeId: string;
+		status: "open" | "won" | "lost";
+		reason?: string;
+		amount: number;
+		withheldNetAmount?: number; // Net clawed back when the dispute opened
+		reversedNetAmount?: number; // Part of it reversed from the transfer, re-sent if won
+		openedAt: Date;
+		closedAt?: Date;
+	};
 }
 
 export interface TransactionDocument
@@ -58,6 +104,7 @@ export interface TransactionDocument
 	markCompleted(chargeId: string): Promise<TransactionDocument>;
 	markFailed(reason: string): Promise<TransactionDocument>;
 	canRetry(): boolean;
+	refundableAmount(): number;
 }
 
 const TransactionSchema = new Schema<TransactionDocument>(
@@ -66,8 +113,7 @@ const TransactionSchema = new Schema<TransactionDocument>(
 		amount: {
 			type: Number,
 			required: true,
-			min: 50, // Minimum €0.50
-			max: 10000, // Maximum €100.00
+			min: 1, // Per-currency tip limits are enforced by CurrencyService
 		},
 		currency: {
 			type: String,
@@ -93,6 +139,21 @@ const TransactionSchema = new Schema<TransactionDocument>(
 			index: true,
 		},
 
+		// Guest tips
+		receiptEmail: {
+			type: String,
+			lowercase: true,
+			trim: true,
+		},
+		claimTokenHash: {
+			type: String,
+			index: { unique: true, sparse: true },
+			select: false,
+		},
+		claimedAt: {
+			type: Date,
+		},
+
 		// Payment processing
 		stripePaymentIntentId: {
 			type: String,
@@ -106,7 +167,7 @@ const TransactionSchema = new Schema<TransactionDocument>(
 		paymentMethod: {
 			type: String,
 			required: true,
-			enum: ["card", "apple_pay", "google_pay", "bizum"],
+			enum: PAYMENT_METHODS,
 		},
 
 		// Transaction status
@@ -117,6 +178,9 @@ const TransactionSchema = new Schema<TransactionDocument>(
 			enum: ["pending", "processing", "completed", "failed", "refunded"],
 			index: true,
 		},
+		totalsCountedAt: {
+			type: Date,
+		},
 
 		// Privacy & Display
 		isAnonymous: {
@@ -137,10 +201,19 @@ const TransactionSchema = new Schema<TransactionDocument>(
 			required: true,
 			default: 0,
 		},
+		applicationFee: {
+			type: Number,
+			default: 0,
+		},
 		netAmount: {
 			type: Number,
 			required: true,
 		},
+		feeReconciliation: {
+			estimatedFee: Number,
+			actualFee: Number,
+			reconciledAt: Date,
+		},
 
 		// Geographic data
 		location: {
@@ -151,6 +224,9 @@ const TransactionSchema = new Schema<TransactionDocument>(
 			city: String,
 			country: String,
 		},
+		timezone: {
+			type: String,
+		},
 
 		// Failure handling
 		failureReason: {
@@ -175,6 +251,43 @@ const TransactionSchema = new Schema<TransactionDocument>(
 			enum: ["pending", "processing", "completed", "failed"],
 			index: true,
 		},
+		stripeTransferId: {
+			type: String,
+			index: true,
+		},
+
+		// Refunds & disputes
+		refundedAmount: {
+			type: Number,
+			default: 0,
+		},
+		refundedNetAmount: {
+			type: Number,
+			default: 0,
+		},
+		reversedNetAmount: {
+			type: Number,
+			default: 0,
+		},
+		refundReason: {
+			type: String,
+		},
+		refundedAt: {
+			type: Date,
+		},
+		dispute: {
+			stripeDisputeId: String,
+			status: {
+				type: String,
+				enum: ["open", "won", "lost"],
+			},
+			reason: String,
+			amount: Number,
+			withheldNetAmount: Number,
+			reversedNetAmount: Number,
+			openedAt: Date,
+			closedAt: Date,
+		},
 	},
 	{
 		timestamps: true,
@@ -228,6 +341,13 @@ TransactionSchema.methods.canRetry = function (): boolean {
 	return this.status === "failed" && this.retryCount < 3;
 };
 
+TransactionSchema.methods.refundableAmount = function (): number {
+	if (this.status !== "completed" || this.dispute?.status === "open") {
+		return 0;
+	}
+	return this.amount - (this.refundedAmount || 0);
+};
+
 // Static methods interface
 interface TransactionModel extends mongoose.Model<TransactionDocument> {
 	findByPerformer(
@@ -240,6 +360,11 @@ interface TransactionModel extends mongoose.Model<TransactionDocument> {
 		startDate?: Date,
 		endDate?: Date,
 	): Promise<any[]>;
+	getPerformerEarningsByCurrency(
+		performerId: string,
+		startDate?: Date,
+		endDate?: Date,
+	): Promise<CurrencyEarnings[]>;
 }
 
 // Static methods
@@ -290,6 +415,51 @@ TransactionSchema.statics.getPerformerEarnings = function (
 	]);
 };
 
+// Same totals as getPerformerEarnings, one row per currency (largest first)
+TransactionSchema.statics.getPerformerEarningsByCurrency = function (
+	performerId: string,
+	startDate?: Date,
+	endDate?: Date,
+) {
+	const match: Record<string, unknown> = {
+		toUserId: performerId,
+		status: "completed",
+	};
+
+	if (startDate || endDate) {
+		match.createdAt = {
+			...(startDate && { $gte: startDate }),
+			...(endDate && { $lte: endDate }),
+		};
+	}
+
+	return this.aggregate([
+		{ $match: match },
+		{
+			$group: {
+				_id: "$currency",
+				totalAmount: { $sum: "$amount" },
+				totalNet: { $sum: "$netAmount" },
+				totalFees: { $sum: "$processingFee" },
+				transactionCount: { $sum: 1 },
+				averageAmount: { $avg: "$amount" },
+			},
+		},
+		{
+			$project: {
+				_id: 0,
+				currency: "$_id",
+				totalAmount: 1,
+				totalNet: 1,
+				totalFees: 1,
+				transactionCount: 1,
+				averageAmount: { $round: ["$averageAmount", 0] },
+			},
+		},
+		{ $sort: { totalAmount: -1 } },
+	]);
+};
+
 export const Transaction = mongoose.model<
 	TransactionDocument,
 	TransactionModel
@@ -0,0 +1,79 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// processing: a handler is running, processed: done (never applied again),
+// failed: the handler threw; Stripe retries it or an admin replays it
+export type WebhookEventStatus = "processing" | "processed" | "failed";
+
+// Ledger entry for every Stripe webhook event received
+export interface WebhookEventDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	eventId: string; // Stripe event ID (evt_...)
+	type: string;
+	account?: string; // Connect account the event belongs to
+	livemode: boolean;
+	payload: Record<string, unknown>; // Full event, used for replays
+	status: WebhookEventStatus;
+	attempts: number;
+	lastError?: {
+		message: string;
+		stack?: string;
+		failedAt: Date;
+	};
+	processingStartedAt?: Date;
+	processedAt?: Date;
+	lastReplayedBy?: string; // Admin who last replayed the event
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const webhookEventSchema = new Schema<WebhookEventDocument>(
+	{
+		eventId: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		type: {
+			type: String,
+			required: true,
+		},
+		account: String,
+		livemode: {
+			type: Boolean,
+			default: false,
+		},
+		payload: {
+			type: Schema.Types.Mixed,
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: ["processing", "processed", "failed"],
+			default: "processing",
+		},
+		attempts: {
+			type: Number,
+			default: 0,
+		},
+		lastError: {
+			message: String,
+			stack: String,
+			failedAt: Date,
+		},
+		processingStartedAt: Date,
+		processedAt: Date,
+		lastReplayedBy: String,
+	},
+	{
+		timestamps: true,
+		collection: "webhook_events",
+	},
+);
+
+webhookEventSchema.index({ status: 1, createdAt: -1 }); // Admin listing
+webhookEventSchema.index({ type: 1, createdAt: -1 });
+
+export const WebhookEventModel = mongoose.model<WebhookEventDocument>(
+	"WebhookEvent",
+	webhookEventSchema,
+);
@@ -1,10 +1,12 @@
-import type { FilterQuery } from "mongoose";
+import { type FilterQuery, Types } from "mongoose";
 import { logger } from "../../../shared/utils/logger";
+import type { CursorPosition } from "../../../shared/utils/pagination";
 import type {
 	ITransaction,
 	TransactionDocument,
 } from "../entities/Transaction";
 import { Transaction } from "../entities/Transaction";
+import { currencyService } from "../services/CurrencyService";
 
 export interface TransactionFilters {
 	performerId?: string;
@@ -37,7 +39,7 @@ export class TransactionRepository {
 			await transaction.save();
 
 			logger.info(
-				`💰 Created tip transaction: ${transaction._id} for €${(transaction.amount / 100).toFixed(2)}`,
+				`💰 Created tip transaction: ${transaction._id} for ${currencyService.format(transaction.amount, transaction.currency)}`,
 				{
 					context: "TransactionRepository",
 				},
@@ -87,17 +89,18 @@ export class TransactionRepository {
 	}
 
 	/**
-	 * Get tips for a performer
+	 * Get completed tips for a performer, newest first. Pass the last tip of
+	 * the previous page as `after` to continue from it.
 	 */
 	async getPerformerTips(
 		performerId: string,
 		filters: TransactionFilters = {},
 		limit = 50,
-		offset = 0,
+		after?: CursorPosition,
 	): Promise<TransactionDocument[]> {
 		try {
 			const query: FilterQuery<TransactionDocument> = {
-				performerId,
+				toUserId: performerId,
 				status: "completed",
 			};
 
@@ -120,10 +123,17 @@ export class TransactionRepository {
 				}
 			}
 
+			if (after) {
+				const createdAt = new Date(after.key);
+				query.$or = [
+					{ createdAt: { $lt: createdAt } },
+					{ createdAt, _id: { $lt: new Types.ObjectId(after.id) } },
+				];
+			}
+
 			return await Transaction.find(query)
-				.sort({ createdAt: -1 })
+				.sort({ createdAt: -1, _id: -1 })
 				.limit(limit)
-				.skip(offset)
 				.populate("performanceId", "title location")
 				.exec();
 		} catch (error: any) {
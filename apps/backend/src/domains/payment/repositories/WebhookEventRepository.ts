@@ -0,0 +1,177 @@
+import type { FilterQuery } from "mongoose";
+import {
+	type WebhookEventDocument,
+	WebhookEventModel,
+	type WebhookEventStatus,
+} from "../entities/WebhookEvent";
+import { ConflictError, NotFoundError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import type Stripe from "stripe";
+
+export interface WebhookEventFilters {
+	status?: WebhookEventStatus;
+	type?: string;
+}
+
+// processed/in_progress events must not be handled again by this delivery
+export type WebhookClaimResult = "claimed" | "processed" | "in_progress";
+
+// A handler that has not finished after this long is assumed to have crashed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export class WebhookEventRepository {
+	/**
+	 * Record a delivered event and take the right to process it. New and failed
+	 * events are claimed; processed events and events another delivery is
+	 * still handling are not.
+	 */
+	async claim(event: Stripe.Event): Promise<WebhookClaimResult> {
+		const now = new Date();
+
+		try {
+			await WebhookEventModel.create({
+				eventId: event.id,
+				type: event.type,
+				account: event.account,
+				livemode: event.livemode,
+				payload: event,
+				status: "processing",
+				attempts: 1,
+				processingStartedAt: now,
+			});
+			return "claimed";
+		} catch (error) {
+			if ((error as { code?: number }).code !== 11000) {
+				logger.error("❌ Failed to record webhook event:", error, {
+					context: "WebhookEventRepository",
+					eventId: event.id,
+				});
+				throw error;
+			}
+		}
+
+		const retried = await this.startProcessing({ eventId: event.id }, now);
+		if (retried) return "claimed";
+
+		const existing = await WebhookEventModel.findOne({ eventId: event.id })
+			.select("status")
+			.lean();
+		return existing?.status === "processed" ? "processed" : "in_progress";
+	}
+
+	/**
+	 * Claim a stored event for an admin replay. Only failed (or crashed)
+	 * events can be replayed.
+	 */
+	async claimForReplay(
+		eventId: string,
+		replayedBy: string,
+	): Promise<WebhookEventDocument> {
+		const claimed = await this.startProcessing({ eventId }, new Date(), {
+			lastReplayedBy: replayedBy,
+		});
+		if (claimed) return claimed;
+
+		const existing = await WebhookEventModel.findOne({ eventId })
+			.select("status")
+			.lean();
+		if (!existing) {
+			throw new NotFoundError("Webhook event");
+		}
+
+		throw new ConflictError(
+			existing.status === "processed"
+				? "Webhook event was already processed"
+				: "Webhook event is being processed",
+		);
+	}
+
+	async markProcessed(eventId: string): Promise<void> {
+		await WebhookEventModel.updateOne(
+			{ eventId },
+			{ $set: { status: "processed", processedAt: new Date() } },
+		);
+	}
+
+	async markFailed(eventId: string, error: unknown): Promise<void> {
+		const failure = error instanceof Error ? error : new Error(String(error));
+
+		await WebhookEventModel.updateOne(
+			{ eventId },
+			{
+				$set: {
+					status: "failed",
+					lastError: {
+						message: failure.message,
+						stack: failure.stack,
+						failedAt: new Date(),
+					},
+				},
+			},
+		);
+	}
+
+	async findById(eventId: string): Promise<WebhookEventDocument | null> {
+		return WebhookEventModel.findOne({ eventId }).lean<WebhookEventDocument>();
+	}
+
+	/**
+	 * Newest first, without the stored payload
+	 */
+	async findMany(
+		filters: WebhookEventFilters,
+		{ page, limit }: { page: number; limit: number },
+	): Promise<{ items: WebhookEventDocument[]; total: number }> {
+		const query: FilterQuery<WebhookEventDocument> = {};
+		if (filters.status) query.status = filters.status;
+		if (filters.type) query.type = filters.type;
+
+		try {
+			const [items, total] = await Promise.all([
+				WebhookEventModel.find(query)
+					.select("-payload")
+					.sort({ createdAt: -1 })
+					.skip((page - 1) * limit)
+					.limit(limit)
+					.lean<WebhookEventDocument[]>(),
+				WebhookEventModel.countDocuments(query),
+			]);
+
+			return { items, total };
+		} catch (error) {
+			logger.error("❌ Failed to find webhook events:", error, {
+				context: "WebhookEventRepository",
+			});
+			throw error;
+		}
+	}
+
+	// Atomically move a failed or stale event back to processing
+	private async startProcessing(
+		filter: FilterQuery<WebhookEventDocument>,
+		now: Date,
+		extra: Partial<WebhookEventDocument> = {},
+	): Promise<WebhookEventDocument | null> {
+		return WebhookEventModel.findOneAndUpdate(
+			{
+				...filter,
+				$or: [
+					{ status: "failed" },
+					{
+						status: "processing",
+						processingStartedAt: {
+							$lt: new Date(now.getTime() - STALE_PROCESSING_MS),
+						},
+					},
+				],
+			},
+			{
+				$set: { status: "processing", processingStartedAt: now, ...extra },
+				$inc: { attempts: 1 },
+			},
+			{ new: true },
+		).lean<WebhookEventDocument>();
+	}
+}
+
+export const webhookEventRepository = new WebhookEventRepository();
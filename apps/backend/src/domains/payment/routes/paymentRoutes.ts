@@ -1,10 +1,35 @@
 import { type Router as ExpressRouter, Router } from "express";
 import express from "express";
-import { authenticate } from "../../../shared/middleware/auth";
-import { paymentController } from "../controllers/PaymentController";
+import rateLimit from "express-rate-limit";
+import { authenticate, authorize } from "../../../shared/middleware/auth";
+import { botProtection } from "../../../shared/middleware/botProtection";
+import { idempotent } from "../../../shared/middleware/idempotency";
+import { earningsReportController } from "../controllers/EarningsReportController";
+import {
+	guestTipIdempotency,
+	paymentController,
+	tipIdempotency,
+} from "../controllers/PaymentController";
+import { tipHistoryController } from "../controllers/TipHistoryController";
+import { tipLinkController } from "../controllers/TipLinkController";
+import { TooManyRequestsError } from "../../../shared/utils/errors";
 
 const router: ExpressRouter = Router();
 
+// Guests have no account to throttle, so cap tips per IP well below the API limit
+const guestTipLimiter = rateLimit({
+	windowMs: Number.parseInt(process.env.GUEST_TIP_RATE_LIMIT_WINDOW_MS || "900000"), // 15 minutes
+	max: Number.parseInt(process.env.GUEST_TIP_RATE_LIMIT_MAX || "10"),
+	handler: (_req, _res, next) =>
+		next(
+			new TooManyRequestsError(
+				"Too many tips from this IP, please try again later.",
+			),
+		),
+	standardHeaders: true,
+	legacyHeaders: false,
+});
+
 // Public routes
 router.get("/config", paymentController.getPaymentConfig);
 router.get(
@@ -12,14 +37,82 @@ router.get(
 	paymentController.getPerformancePaymentSummary,
 );
 
+// Short tip URLs and QR codes for in-person audiences
+router.post(
+	"/tip-links",
+	authenticate,
+	authorize(["performer"]),
+	tipLinkController.createTipLink,
+);
+router.get("/tip-links/:code", tipLinkController.resolveTipLink);
+router.get("/tip-links/:code/qr", tipLinkController.getQrCode);
+
+// Guest tipping: every request, retries included, must pass bot protection
+router.post(
+	"/tip/guest",
+	guestTipLimiter,
+	botProtection(),
+	idempotent("guest-tip", guestTipIdempotency),
+	paymentController.createGuestTip,
+);
+
 // Webhook route (no auth required, verified by Stripe signature)
 router.post("/webhooks/stripe", paymentController.handleStripeWebhook);
 
 // Protected routes (require authentication)
-router.post("/tip", authenticate, paymentController.createTip);
-router.post("/confirm", authenticate, paymentController.confirmPayment);
+// Idempotency-Key retries replay the first response instead of charging twice
+router.post(
+	"/tip",
+	authenticate,
+	idempotent("tip", tipIdempotency),
+	paymentController.createTip,
+);
+router.post(
+	"/confirm",
+	authenticate,
+	idempotent("confirm"),
+	paymentController.confirmPayment,
+);
+router.post(
+	"/guest-tips/claim",
+	authenticate,
+	paymentController.claimGuestTips,
+);
 router.get("/transactions/:id", authenticate, paymentController.getTransaction);
+router.get(
+	"/transactions/:id/receipt",
+	authenticate,
+	tipHistoryController.getReceipt,
+);
+router.post(
+	"/transactions/:id/refund",
+	authenticate,
+	paymentController.refundTransaction,
+);
+router.get("/my-tips", authenticate, tipHistoryController.getMyTips);
+router.get(
+	"/my-tips/performers",
+	authenticate,
+	tipHistoryController.getMyTipsByPerformer,
+);
+router.get(
+	"/received-tips",
+	authenticate,
+	authorize(["performer"]),
+	tipHistoryController.getReceivedTips,
+);
 router.get("/earnings", authenticate, paymentController.getEarnings);
+router.get(
+	"/earnings/export",
+	authenticate,
+	earningsReportController.exportEarnings,
+);
+router.get(
+	"/earnings/report",
+	authenticate,
+	earningsReportController.getTaxReport,
+);
+router.get("/payouts", authenticate, paymentController.getPayouts);
 
 // Stripe Connect routes 
 router.post("/connect/account", paymentController.createConnectAccount); // No auth - uses email lookup
@@ -0,0 +1,148 @@
+import { logger } from "../../../shared/utils/logger";
+import type { CurrencyCode, TipCurrencyConfig } from "@spm/shared-types";
+
+interface CurrencySettings {
+	minAmount: number; // Smallest tip in minor units (cents/pence)
+	maxAmount: number; // Largest tip in minor units
+	suggestedAmounts: number[]; // Quick-pick tips in major units
+}
+
+// Tip limits per settlement currency (fees are modelled by FeeService)
+const CURRENCIES: Record<CurrencyCode, CurrencySettings> = {
+	EUR: {
+		minAmount: 50,
+		maxAmount: 10000,
+		suggestedAmounts: [1, 3, 5, 10],
+	},
+	USD: {
+		minAmount: 50,
+		maxAmount: 12000,
+		suggestedAmounts: [1, 3, 5, 10],
+	},
+	GBP: {
+		minAmount: 30,
+		maxAmount: 8000,
+		suggestedAmounts: [1, 2, 5, 10],
+	},
+};
+
+export const DEFAULT_CURRENCY: CurrencyCode = "EUR";
+
+// Countries (ISO code or name, lowercase) that do not settle in euros
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+	us: "USD",
+	usa: "USD",
+	"united states": "USD",
+	gb: "GBP",
+	uk: "GBP",
+	"united kingdom": "GBP",
+	"great britain": "GBP",
+	england: "GBP",
+	scotland: "GBP",
+	wales: "GBP",
+	"northern ireland": "GBP",
+};
+
+// Units of each currency per euro, overridable with EXCHANGE_RATES
+const DEFAULT_EXCHANGE_RATES: Record<CurrencyCode, number> = {
+	EUR: 1,
+	USD: 1.08,
+	GBP: 0.85,
+};
+
+export class CurrencyService {
+	private readonly exchangeRates = this.loadExchangeRates();
+
+	isSupported(currency: string): currency is CurrencyCode {
+		return Object.hasOwn(CURRENCIES, currency);
+	}
+
+	/**
+	 * Currency used in a country, EUR for anything not listed
+	 */
+	getCurrencyForCountry(country?: string): CurrencyCode {
+		if (!country) return DEFAULT_CURRENCY;
+		return (
+			COUNTRY_CURRENCIES[country.trim().toLowerCase()] ?? DEFAULT_CURRENCY
+		);
+	}
+
+	/**
+	 * Limits and suggested amounts shown by the tip form
+	 */
+	getTipConfig(currency: CurrencyCode): TipCurrencyConfig {
+		const settings = CURRENCIES[currency];
+
+		return {
+			currency,
+			minAmount: settings.minAmount / 100,
+			maxAmount: settings.maxAmount / 100,
+			suggestedAmounts: settings.suggestedAmounts,
+		};
+	}
+
+	/**
+	 * Whether a tip in minor units is within the currency's limits
+	 */
+	isValidTipAmount(amount: number, currency: CurrencyCode): boolean {
+		const { minAmount, maxAmount } = CURRENCIES[currency];
+		return amount >= minAmount && amount <= maxAmount;
+	}
+
+	/**
+	 * "€0.50 and €100.00" style range for error messages
+	 */
+	describeTipLimits(currency: CurrencyCode): string {
+		const { minAmount, maxAmount } = CURRENCIES[currency];
+		return `${this.format(minAmount, currency)} and ${this.format(maxAmount, currency)}`;
+	}
+
+	/**
+	 * Convert an amount in minor units using the local rate table. Only for
+	 * display and estimates: charges happen in the performer's currency.
+	 */
+	convert(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+		if (from === to) return amount;
+		return Math.round(
+			(amount / this.exchangeRates[from]) * this.exchangeRates[to],
+		);
+	}
+
+	/**
+	 * Rate to multiply an amount in `from` by to get it in `to`
+	 */
+	getExchangeRate(from: CurrencyCode, to: CurrencyCode): number {
+		return this.exchangeRates[to] / this.exchangeRates[from];
+	}
+
+	/**
+	 * Format minor units for logs and notifications, e.g. "€5.00"
+	 */
+	format(amount: number, currency: string = DEFAULT_CURRENCY): string {
+		return new Intl.NumberFormat("en", {
+			style: "currency",
+			currency,
+		}).format(amount / 100);
+	}
+
+	// EXCHANGE_RATES=USD=1.08,GBP=0.85 (units per euro)
+	private loadExchangeRates(): Record<CurrencyCode, number> {
+		const rates = { ...DEFAULT_EXCHANGE_RATES };
+
+		for (const entry of (process.env.EXCHANGE_RATES ?? "").split(",")) {
+			if (!entry.trim()) continue;
+
+			const [code, value] = entry.split("=").map((part) => part.trim());
+			const rate = Number(value);
+			if (!this.isSupported(code) || !(rate > 0)) {
+				logger.warn(`⚠️ Ignoring invalid EXCHANGE_RATES entry: ${entry}`);
+				continue;
+			}
+			rates[code] = rate;
+		}
+
+		return rates;
+	}
+}
+
+export const currencyService = new CurrencyService();
@@ -0,0 +1,390 @@
+import type { FilterQuery } from "mongoose";
+import { ValidationError } from "../../../shared/utils/errors";
+import { zonedTimeToUtc } from "../../../shared/utils/timezone";
+import type {
+	CurrencyCode,
+	EarningsTaxReport,
+	EarningsTotals,
+	TaxJurisdiction,
+} from "@spm/shared-types";
+import {
+	type ITransaction,
+	Transaction,
+	type TransactionDocument,
+} from "../entities/Transaction";
+import { currencyService } from "./CurrencyService";
+
+export type EarningsExportFormat = "csv" | "jsonl";
+
+export interface EarningsExportRange {
+	from?: Date;
+	to?: Date; // Exclusive
+}
+
+// One exported transaction, amounts in major units
+export interface EarningsExportRow {
+	date: string;
+	transactionId: string;
+	status: ITransaction["status"];
+	performanceId: string;
+	performanceTitle: string;
+	currency: string;
+	gross: number;
+	refunded: number;
+	fees: number;
+	platformFee: number; // Included in fees
+	net: number;
+	payoutId: string;
+	payoutDate: string;
+	paymentMethod: string;
+	tipperCountry: string;
+}
+
+const EXPORT_COLUMNS: (keyof EarningsExportRow)[] = [
+	"date",
+	"transactionId",
+	"status",
+	"performanceId",
+	"performanceTitle",
+	"currency",
+	"gross",
+	"refunded",
+	"fees",
+	"platformFee",
+	"net",
+	"payoutId",
+	"payoutDate",
+	"paymentMethod",
+	"tipperCountry",
+];
+
+// Tips that were paid, including ones refunded afterwards
+const EARNING_STATUSES: ITransaction["status"][] = ["completed", "refunded"];
+
+interface TaxYearRules {
+	timezone: string;
+	startMonth: number; // 1-12
+	startDay: number;
+	currency: CurrencyCode;
+	notes: string[];
+}
+
+const TAX_YEAR_RULES: Record<TaxJurisdiction, TaxYearRules> = {
+	ES: {
+		timezone: "Europe/Madrid",
+		startMonth: 1,
+		startDay: 1,
+		currency: "EUR",
+		notes: [
+			"Tips are income from an economic activity (rendimientos de actividades económicas) for the IRPF return, Modelo 100.",
+			"Registered autónomos may also owe quarterly Modelo 130 payments; use the monthly figures to split the year into quarters.",
+		],
+	},
+	GB: {
+		timezone: "Europe/London",
+		startMonth: 4,
+		startDay: 6,
+		currency: "GBP",
+		notes: [
+			"The UK tax year runs from 6 April to 5 April.",
+			"Tips are self-employment income for Self Assessment (SA103); the £1,000 trading allowance may apply.",
+		],
+	},
+	OTHER: {
+		timezone: "UTC",
+		startMonth: 1,
+		startDay: 1,
+		currency: "EUR",
+		notes: [
+			"Calendar year totals; check your local rules for how to declare tips.",
+		],
+	},
+};
+
+// Country names and ISO codes (lowercase), as stored on the user's location
+const JURISDICTION_COUNTRIES: Record<string, TaxJurisdiction> = {
+	es: "ES",
+	spain: "ES",
+	españa: "ES",
+	gb: "GB",
+	uk: "GB",
+	"united kingdom": "GB",
+	"great britain": "GB",
+	england: "GB",
+	scotland: "GB",
+	wales: "GB",
+	"northern ireland": "GB",
+};
+
+const DISCLAIMER = "This summary is not tax advice.";
+
+const toMajorUnits = (amount: number): number => Math.round(amount) / 100;
+
+// Quote fields that need it and defuse spreadsheet formulas in free text
+const toCsvField = (value: string | number): string => {
+	if (typeof value === "number") return value.toFixed(2);
+
+	let field = value;
+	if (/^[=+\-@\t\r]/.test(field)) field = `'${field}`;
+	return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+const emptyTotals = (): EarningsTotals => ({
+	gross: 0,
+	refunded: 0,
+	fees: 0,
+	net: 0,
+});
+
+export class EarningsReportService {
+	/**
+	 * Earning transactions in the range, oldest first, for export
+	 */
+	async *exportTransactions(
+		performerId: string,
+		range: EarningsExportRange = {},
+	): AsyncGenerator<EarningsExportRow> {
+		const query: FilterQuery<TransactionDocument> = {
+			toUserId: performerId,
+			status: { $in: EARNING_STATUSES },
+		};
+		if (range.from || range.to) {
+			query.createdAt = {
+				...(range.from && { $gte: range.from }),
+				...(range.to && { $lt: range.to }),
+			};
+		}
+
+		const titles = await this.findPerformanceTitles(performerId);
+		const cursor = Transaction.find(query).sort({ createdAt: 1 }).lean().cursor();
+
+		for await (const transaction of cursor) {
+			yield {
+				date: transaction.createdAt.toISOString(),
+				transactionId: transaction._id.toString(),
+				status: transaction.status,
+				performanceId: transaction.performanceId,
+				performanceTitle: titles.get(transaction.performanceId) ?? "",
+				currency: transaction.currency,
+				gross: toMajorUnits(transaction.amount),
+				refunded: toMajorUnits(transaction.refundedAmount || 0),
+				fees: toMajorUnits(transaction.processingFee),
+				platformFee: toMajorUnits(transaction.applicationFee || 0),
+				net: toMajorUnits(
+					transaction.netAmount - (transaction.refundedNetAmount || 0),
+				),
+				payoutId: transaction.payoutId ?? "",
+				payoutDate: transaction.payoutDate?.toISOString() ?? "",
+				paymentMethod: transaction.paymentMethod,
+				tipperCountry: transaction.location?.country ?? "",
+			};
+		}
+	}
+
+	/**
+	 * First line of a CSV export
+	 */
+	csvHeader(): string {
+		return `${EXPORT_COLUMNS.join(",")}\n`;
+	}
+
+	/**
+	 * One exported row as a CSV or JSON-lines line
+	 */
+	formatRow(row: EarningsExportRow, format: EarningsExportFormat): string {
+		if (format === "jsonl") {
+			return `${JSON.stringify(row)}\n`;
+		}
+		return `${EXPORT_COLUMNS.map((column) => toCsvField(row[column])).join(",")}\n`;
+	}
+
+	/**
+	 * Tax jurisdiction of a profile country, OTHER when it has no specific rules
+	 */
+	getJurisdiction(country?: string): TaxJurisdiction {
+		if (!country) return "OTHER";
+		return JURISDICTION_COUNTRIES[country.trim().toLowerCase()] ?? "OTHER";
+	}
+
+	/**
+	 * Tax year starting in `year`, e.g. 2024 is 6 Apr 2024 - 5 Apr 2025 in the UK
+	 */
+	getTaxYear(
+		jurisdiction: TaxJurisdiction,
+		year: number,
+	): EarningsTaxReport["period"] {
+		const { timezone, startMonth, startDay } = TAX_YEAR_RULES[jurisdiction];
+		const startOf = (y: number) =>
+			zonedTimeToUtc(
+				`${y}-${String(startMonth).padStart(2, "0")}-${String(startDay).padStart(2, "0")}`,
+				"00:00",
+				timezone,
+			);
+		const spansTwoYears = startMonth !== 1 || startDay !== 1;
+
+		return {
+			label: spansTwoYears
+				? `${year}/${String((year + 1) % 100).padStart(2, "0")}`
+				: String(year),
+			start: startOf(year).toISOString(),
+			end: startOf(year + 1).toISOString(),
+			timezone,
+		};
+	}
+
+	/**
+	 * Yearly earnings summary for the performer's tax return. Uses the
+	 * performer's profile country unless `country` is given.
+	 */
+	async getTaxReport(
+		performerId: string,
+		year: number,
+		country?: string,
+	): Promise<EarningsTaxReport> {
+		const currentYear = new Date().getUTCFullYear();
+		if (!Number.isInteger(year) || year < 2000 || year > currentYear) {
+			throw new ValidationError(`year must be between 2000 and ${currentYear}`, "year");
+		}
+
+		const jurisdiction = this.getJurisdiction(
+			country ?? (await this.findPerformerCountry(performerId)),
+		);
+		const rules = TAX_YEAR_RULES[jurisdiction];
+		const period = this.getTaxYear(jurisdiction, year);
+		const reportingCurrency = rules.currency;
+
+		const groups = await Transaction.aggregate<{
+			_id: { currency: CurrencyCode; month: string };
+			tipCount: number;
+			gross: number;
+			refunded: number;
+			fees: number;
+			net: number;
+		}>([
+			{
+				$match: {
+					toUserId: performerId,
+					status: { $in: EARNING_STATUSES },
+					createdAt: { $gte: new Date(period.start), $lt: new Date(period.end) },
+				},
+			},
+			{
+				$group: {
+					_id: {
+						currency: "$currency",
+						month: {
+							$dateToString: {
+								format: "%Y-%m",
+								date: "$createdAt",
+								timezone: period.timezone,
+							},
+						},
+					},
+					tipCount: { $sum: 1 },
+					gross: { $sum: "$amount" },
+					refunded: { $sum: { $ifNull: ["$refundedAmount", 0] } },
+					fees: { $sum: "$processingFee" },
+					net: {
+						$sum: {
+							$subtract: ["$netAmount", { $ifNull: ["$refundedNetAmount", 0] }],
+						},
+					},
+				},
+			},
+			{ $sort: { "_id.month": 1 } },
+		]);
+
+		const byCurrency = new Map<
+			CurrencyCode,
+			EarningsTotals & { currency: CurrencyCode; tipCount: number }
+		>();
+		const months = new Map<string, EarningsTotals & { month: string }>();
+		const totals = { ...emptyTotals(), tipCount: 0, converted: false };
+
+		for (const { _id, tipCount, ...amounts } of groups) {
+			const currencyTotals = byCurrency.get(_id.currency) ?? {
+				currency: _id.currency,
+				tipCount: 0,
+				...emptyTotals(),
+			};
+			currencyTotals.tipCount += tipCount;
+			this.addTotals(currencyTotals, amounts);
+			byCurrency.set(_id.currency, currencyTotals);
+
+			const converted = this.convertTotals(amounts, _id.currency, reportingCurrency);
+			const monthTotals = months.get(_id.month) ?? { month: _id.month, ...emptyTotals() };
+			this.addTotals(monthTotals, converted);
+			months.set(_id.month, monthTotals);
+
+			totals.tipCount += tipCount;
+			this.addTotals(totals, converted);
+			if (_id.currency !== reportingCurrency) totals.converted = true;
+		}
+
+		const notes = [...rules.notes];
+		if (totals.converted) {
+			notes.push(
+				`Tips in other currencies are converted to ${reportingCurrency} at approximate rates; use the official rates for your return.`,
+			);
+		}
+		notes.push(DISCLAIMER);
+
+		return {
+			jurisdiction,
+			period,
+			reportingCurrency,
+			byCurrency: [...byCurrency.values()],
+			totals,
+			months: [...months.values()],
+			notes,
+		};
+	}
+
+	private addTotals(target: EarningsTotals, amounts: EarningsTotals): void {
+		target.gross += amounts.gross;
+		target.refunded += amounts.refunded;
+		target.fees += amounts.fees;
+		target.net += amounts.net;
+	}
+
+	private convertTotals(
+		amounts: EarningsTotals,
+		from: CurrencyCode,
+		to: CurrencyCode,
+	): EarningsTotals {
+		return {
+			gross: currencyService.convert(amounts.gross, from, to),
+			refunded: currencyService.convert(amounts.refunded, from, to),
+			fees: currencyService.convert(amounts.fees, from, to),
+			net: currencyService.convert(amounts.net, from, to),
+		};
+	}
+
+	private async findPerformerCountry(performerId: string): Promise<string | undefined> {
+		const { UserModel } = await import("../../user/entities/User");
+		const performer = await UserModel.findById(performerId)
+			.select("location.country")
+			.lean();
+		return performer?.location?.country;
+	}
+
+	private async findPerformanceTitles(
+		performerId: string,
+	): Promise<Map<string, string>> {
+		const { PerformanceModel } = await import(
+			"../../performance/entities/Performance"
+		);
+		const performances = await PerformanceModel.find({ performerId })
+			.select("title")
+			.lean();
+
+		return new Map(
+			performances.map((performance) => [
+				performance._id.toString(),
+				performance.title,
+			]),
+		);
+	}
+}
+
+export const earningsReportService = new EarningsReportService();
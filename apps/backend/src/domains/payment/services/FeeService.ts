@@ -0,0 +1,173 @@
+import { logger } from "../../../shared/utils/logger";
+import type { CurrencyCode } from "@spm/shared-types";
+import { currencyService } from "./CurrencyService";
+
+// Where the paying card or account is from; Stripe prices these differently
+export type FeeRegion = "eea" | "uk" | "international";
+
+export interface FeeContext {
+	currency: CurrencyCode;
+	paymentMethod?: string; // Stripe payment method type, defaults to card
+	country?: string; // Tipper's country (ISO code or name)
+}
+
+// Returns the Stripe processing fee for an amount, both in minor units
+export type FeeModel = (
+	amount: number,
+	context: FeeContext & { region: FeeRegion },
+) => number;
+
+export interface FeeRule {
+	percent: number; // e.g. 0.015 = 1.5%
+	fixed: number; // Euro cents, converted to the charge currency
+}
+
+export interface FeeBreakdown {
+	processingFee: number; // Stripe fee
+	applicationFee: number; // Platform cut, kept out of the performer's net
+	netAmount: number; // What the performer receives
+}
+
+const DEFAULT_PLATFORM_FEE_PERCENT = 5;
+
+// ISO codes and names of EEA countries, lowercase
+const EEA_COUNTRIES = new Set([
+	"at", "be", "bg", "hr", "cy", "cz", "dk", "ee", "fi", "fr", "de", "gr",
+	"hu", "is", "ie", "it", "lv", "li", "lt", "lu", "mt", "nl", "no", "pl",
+	"pt", "ro", "sk", "si", "es", "se",
+	"austria", "belgium", "croatia", "denmark", "finland", "france", "germany",
+	"greece", "ireland", "italy", "netherlands", "norway", "poland", "portugal",
+	"spain", "sweden",
+]);
+const UK_COUNTRIES = new Set(["gb", "uk", "united kingdom", "great britain"]);
+
+/**
+ * Fee model from a rule per region; regions without a rule use `default`
+ */
+export const regionalFeeModel = (
+	rules: Partial<Record<FeeRegion, FeeRule>> & { default: FeeRule },
+): FeeModel => {
+	return (amount, { currency, region }) => {
+		const { percent, fixed } = rules[region] ?? rules.default;
+		return Math.round(
+			amount * percent + currencyService.convert(fixed, "EUR", currency),
+		);
+	};
+};
+
+const cardFees = regionalFeeModel({
+	eea: { percent: 0.015, fixed: 25 },
+	uk: { percent: 0.025, fixed: 25 },
+	default: { percent: 0.0325, fixed: 25 },
+});
+
+// Stripe list prices for the payment methods getPaymentMethodTypes offers
+const DEFAULT_FEE_MODELS: Record<string, FeeModel> = {
+	card: cardFees,
+	apple_pay: cardFees, // Wallets are priced as the underlying card
+	google_pay: cardFees,
+	link: cardFees,
+	ideal: regionalFeeModel({ default: { percent: 0, fixed: 29 } }),
+	bancontact: regionalFeeModel({ default: { percent: 0.014, fixed: 25 } }),
+	giropay: regionalFeeModel({ default: { percent: 0.014, fixed: 25 } }),
+	sofort: regionalFeeModel({ default: { percent: 0.014, fixed: 25 } }),
+	bizum: regionalFeeModel({ default: { percent: 0.01, fixed: 20 } }),
+	sepa_debit: regionalFeeModel({ default: { percent: 0, fixed: 35 } }),
+};
+
+export class FeeService {
+	private readonly models = new Map(Object.entries(DEFAULT_FEE_MODELS));
+	private readonly platformFee = this.loadPlatformFee();
+
+	/**
+	 * Use a custom fee model for a payment method (replaces the default)
+	 */
+	register(paymentMethod: string, model: FeeModel): void {
+		this.models.set(paymentMethod, model);
+	}
+
+	getRegion(country?: string): FeeRegion {
+		const key = country?.trim().toLowerCase() ?? "";
+		if (UK_COUNTRIES.has(key)) return "uk";
+		if (EEA_COUNTRIES.has(key)) return "eea";
+		return "international";
+	}
+
+	/**
+	 * Estimated Stripe fee. Unknown payment methods are priced as cards.
+	 */
+	estimateProcessingFee(amount: number, context: FeeContext): number {
+		const method = context.paymentMethod ?? "card";
+		const model = this.models.get(method) ?? cardFees;
+
+		return model(amount, { ...context, region: this.getRegion(context.country) });
+	}
+
+	/**
+	 * Platform cut taken as the Connect application fee
+	 * (PLATFORM_FEE_PERCENT, plus PLATFORM_FEE_FIXED in euro cents)
+	 */
+	calculateApplicationFee(amount: number, currency: CurrencyCode): number {
+		const { percent, fixed } = this.platformFee;
+		return Math.round(
+			amount * percent + currencyService.convert(fixed, "EUR", currency),
+		);
+	}
+
+	/**
+	 * Full breakdown of a charge, optionally including the platform's
+	 * application fee
+	 */
+	estimate(
+		amount: number,
+		context: FeeContext,
+		{ withApplicationFee = false } = {},
+	): FeeBreakdown {
+		const processingFee = this.estimateProcessingFee(amount, context);
+		const applicationFee = withApplicationFee
+			? this.calculateApplicationFee(amount, context.currency)
+			: 0;
+
+		return {
+			processingFee,
+			applicationFee,
+			netAmount: amount - processingFee - applicationFee,
+		};
+	}
+
+	/**
+	 * Percent and fixed part (major units) of the fee for display, derived
+	 * from the model so custom models are described correctly
+	 */
+	describe(
+		context: FeeContext,
+		{ withApplicationFee = false } = {},
+	): { percent: number; fixed: number } {
+		const totalFee = (amount: number) => {
+			const fees = this.estimate(amount, context, { withApplicationFee });
+			return fees.processingFee + fees.applicationFee;
+		};
+		const fixed = totalFee(0);
+		const percent = (totalFee(10000) - fixed) / 10000;
+
+		return { percent, fixed: fixed / 100 };
+	}
+
+	private loadPlatformFee(): FeeRule {
+		const percent = Number(
+			process.env.PLATFORM_FEE_PERCENT ?? DEFAULT_PLATFORM_FEE_PERCENT,
+		);
+		const fixed = Number(process.env.PLATFORM_FEE_FIXED ?? 0);
+
+		if (!(percent >= 0 && percent < 100) || !(fixed >= 0)) {
+			logger.warn(
+				"⚠️ Invalid PLATFORM_FEE_PERCENT/PLATFORM_FEE_FIXED - using defaults",
+			);
+			return { percent: DEFAULT_PLATFORM_FEE_PERCENT / 100, fixed: 0 };
+		}
+
+		return { percent: percent / 100, fixed };
+	}
+}
+
+export const feeService = new FeeService();
@@ -1,23 +1,51 @@
+import {
+	AuthorizationError,
+	ConflictError,
+	NotFoundError,
+	ValidationError,
+} from "../../../shared/utils/errors";
 import { logger } from "../../../shared/utils/logger";
-import { type ITransaction, Transaction } from "../entities/Transaction";
+import { createHash, randomBytes } from "node:crypto";
+import type { CurrencyCode, CurrencyEarnings } from "@spm/shared-types";
+import {
+	type ITransaction,
+	PAYMENT_METHODS,
+	type PaymentMethod,
+	Transaction,
+	type TransactionDocument,
+} from "../entities/Transaction";
+import { currencyService } from "./CurrencyService";
 import {
 	type CreatePaymentIntentRequest,
+	type CreateRefundRequest,
 	stripeService,
 } from "./StripeService";
 
 export interface CreateTipRequest {
-	amount: number; // Amount in euros (e.g., 5.00)
+	amount: number; // Amount in major units (e.g., 5.00)
 	performanceId: string;
 	performerId: string;
 	tipperId?: string; // Optional for anonymous tips
 	isAnonymous?: boolean;
 	publicMessage?: string;
-	currency?: string;
+	currency?: string; // Defaults to the performer's settlement currency
 	location?: {
 		coordinates: [number, number];
 		city?: string;
 		country?: string;
 	};
+	timezone?: string; // Tipper's IANA timezone, for analytics
+	idempotencyKey?: string; // From the Idempotency-Key header
+	receiptEmail?: string;
+	claimTokenHash?: string; // Guest tips only, see createGuestTip
+}
+
+export interface CreateGuestTipRequest
+	extends Omit<
+		CreateTipRequest,
+		"tipperId" | "isAnonymous" | "receiptEmail" | "claimTokenHash"
+	> {
+	email?: string; // Optional receipt address
 }
 
 export interface TipPaymentResult {
@@ -29,6 +57,31 @@ export interface TipPaymentResult {
 	netAmount: number;
 }
 
+export interface GuestTipPaymentResult extends TipPaymentResult {
+	claimToken: string; // Shown once; redeem with claimGuestTips after signing up
+}
+
+export interface RefundTipRequest {
+	transactionId: string;
+	requesterId: string;
+	requesterRole: string;
+	amount?: number; // Amount in euros; defaults to the full refundable amount
+	reason?: CreateRefundRequest["reason"];
+}
+
+const hashClaimToken = (token: string): string =>
+	createHash("sha256").update(token).digest("hex");
+
+// Returned by a claim step whose conditional update lost a race
+const CLAIM_LOST = Symbol("claim lost");
+const MAX_CLAIM_ATTEMPTS = 3;
+
+// Identifies the transaction behind a charge-level webhook
+interface ChargeReference {
+	paymentIntentId?: string;
+	chargeId?: string;
+}
+
 export class PaymentService {
 	/**
 	 * Create a tip payment intent
@@ -41,16 +94,28 @@ export class PaymentService {
 			tipperId,
 			isAnonymous,
 			publicMessage,
-			currency = "EUR",
 			location,
+			timezone,
+			idempotencyKey,
+			receiptEmail,
+			claimTokenHash,
 		} = request;
 
-		// Convert euros to cents for Stripe
+		// Tips are charged in the performer's settlement currency
+		const currency =
+			request.currency ?? (await this.getPerformerCurrency(performerId));
+		if (!currencyService.isSupported(currency)) {
+			throw new Error(`Unsupported currency: ${currency}`);
+		}
+
+		// Convert to minor units (cents/pence) for Stripe
 		const amountInCents = Math.round(amount * 100);
 
 		// Validate amount
-		if (amount < 0.5 || amount > 100) {
-			throw new Error("Tip amount must be between €0.50 and €100.00");
+		if (!currencyService.isValidTipAmount(amountInCents, currency)) {
+			throw new Error(
+				`Tip amount must be between ${currencyService.describeTipLimits(currency)}`,
+			);
 		}
 
 		try {
@@ -69,11 +134,44 @@ export class PaymentService {
 				isAnonymous,
 				publicMessage,
 				paymentMethodTypes,
+				country: location?.country,
+				receiptEmail,
+				// Scoped per tipper so keys from different users never collide at Stripe
+				idempotencyKey: idempotencyKey
+					? `tip:${tipperId || "anonymous"}:${idempotencyKey}`
+					: undefined,
 			};
 
 			const paymentResult =
 				await stripeService.createTipPaymentIntent(stripeRequest);
 
+			// A retried key returns the same intent, so reuse its transaction
+			const existing = await Transaction.findOne({
+				stripePaymentIntentId: paymentResult.paymentIntentId,
+			});
+			if (existing) {
+				logger.info(
+					`🔁 Reusing tip transaction ${existing._id} for retried payment intent`,
+				);
+
+				// Only the latest guest's token can claim the tip
+				if (claimTokenHash && !existing.fromUserId) {
+					await Transaction.updateOne(
+						{ _id: existing._id },
+						{ $set: { claimTokenHash } },
+					);
+				}
+
+				return {
+					transactionId: existing._id.toString(),
+					paymentIntentId: paymentResult.paymentIntentId,
+					clientSecret: paymentResult.clientSecret,
+					amount: existing.amount,
+					processingFee: paymentResult.processingFee,
+					netAmount: paymentResult.netAmount,
+				};
+			}
+
 			// Create transaction record in database
 			// NOTE: We don't store clientSecret for security - it's ephemeral and only used client-side
 			const transactionData: Partial<ITransaction> = {
@@ -84,13 +182,17 @@ export class PaymentService {
 				performanceId,
 				stripePaymentIntentId: paymentResult.paymentIntentId,
 				// stripeClientSecret: removed for security - don't store ephemeral tokens
-				paymentMethod: "card", // Will be updated when payment is confirmed
+				paymentMethod: "card", // Will be updated when the charge succeeds
 				status: "pending",
 				isAnonymous: isAnonymous || false,
 				publicMessage,
 				processingFee: paymentResult.processingFee,
+				applicationFee: paymentResult.applicationFee,
 				netAmount: paymentResult.netAmount,
 				location,
+				timezone,
+				receiptEmail,
+				claimTokenHash,
 				retryCount: 0,
 				payoutStatus: "pending",
 			};
@@ -99,7 +201,7 @@ export class PaymentService {
 			await transaction.save();
 
 			logger.info(
-				`💰 Created tip transaction: ${transaction._id} for €${amount.toFixed(2)}`,
+				`💰 Created tip transaction: ${transaction._id} for ${currencyService.format(amountInCents, currency)}`,
 			);
 
 			return {
@@ -112,10 +214,114 @@ export class PaymentService {
 			};
 		} catch (error: any) {
 			logger.error("❌ Failed to create tip payment:", error);
-			throw new Error(`Tip payment creation failed: ${error.message}`);
+			throw new Error(`Tip payment creation failed: ${error.message}`, {
+				cause: error,
+			});
 		}
 	}
 
+	/**
+	 * Create a tip for someone without an account. Guest tips are always
+	 * anonymous; the returned claim token lets the tipper attach the tip to
+	 * an account they create later.
+	 */
+	async createGuestTip(
+		request: CreateGuestTipRequest,
+	): Promise<GuestTipPaymentResult> {
+		const { email, ...tip } = request;
+		const claimToken = randomBytes(32).toString("base64url");
+
+		const result = await this.createTip({
+			...tip,
+			isAnonymous: true,
+			receiptEmail: email,
+			claimTokenHash: hashClaimToken(claimToken),
+		});
+
+		logger.info(`👤 Created guest tip transaction: ${result.transactionId}`);
+
+		return { ...result, claimToken };
+	}
+
+	/**
+	 * Rebuild the response of an earlier tip request for an idempotent
+	 * retry. The client secret is never stored, so it is fetched from Stripe.
+	 */
+	async getTipPaymentResult(transactionId: string): Promise<TipPaymentResult> {
+		const transaction = await Transaction.findById(transactionId);
+		if (!transaction) {
+			throw new NotFoundError("Transaction");
+		}
+
+		const paymentIntent = await stripeService.getPaymentIntent(
+			transaction.stripePaymentIntentId,
+		);
+		if (!paymentIntent?.client_secret) {
+			throw new Error(
+				`Payment intent ${transaction.stripePaymentIntentId} could not be retrieved`,
+			);
+		}
+
+		return {
+			transactionId: transaction._id.toString(),
+			paymentIntentId: transaction.stripePaymentIntentId,
+			clientSecret: paymentIntent.client_secret,
+			amount: transaction.amount,
+			processingFee: transaction.processingFee,
+			netAmount: transaction.netAmount,
+		};
+	}
+
+	/**
+	 * Rebuild the response of an earlier guest tip request. Only the hash of
+	 * the claim token was kept, so a new token is issued and replaces it;
+	 * the one from the lost response can no longer claim the tip.
+	 */
+	async getGuestTipPaymentResult(
+		transactionId: string,
+	): Promise<GuestTipPaymentResult> {
+		const claimToken = randomBytes(32).toString("base64url");
+
+		const { matchedCount } = await Transaction.updateOne(
+			{ _id: transactionId, fromUserId: { $exists: false } },
+			{ $set: { claimTokenHash: hashClaimToken(claimToken) } },
+		);
+		if (matchedCount === 0) {
+			throw new ConflictError("This guest tip was already claimed");
+		}
+
+		const result = await this.getTipPaymentResult(transactionId);
+
+		logger.info(`🔁 Reissued claim token for guest tip ${transactionId}`);
+
+		return { ...result, claimToken };
+	}
+
+	/**
+	 * Attach guest tips to the signed-in tipper. Unknown and already claimed
+	 * tokens are ignored; returns how many tips were claimed.
+	 */
+	async claimGuestTips(userId: string, claimTokens: string[]): Promise<number> {
+		const result = await Transaction.updateMany(
+			{
+				claimTokenHash: { $in: claimTokens.map(hashClaimToken) },
+				fromUserId: { $exists: false },
+			},
+			{
+				$set: { fromUserId: userId, claimedAt: new Date() },
+				$unset: { claimTokenHash: 1 },
+			},
+		);
+
+		if (result.modifiedCount > 0) {
+			logger.info(
+				`🔗 Claimed ${result.modifiedCount} guest tip(s) for user ${userId}`,
+			);
+		}
+
+		return result.modifiedCount;
+	}
+
 	/**
 	 * Get transaction by ID
 	 */
@@ -209,58 +415,569 @@ export class PaymentService {
 	}
 
 	/**
-	 * Update transaction status (called by webhook handler)
+	 * Update transaction status (called by webhook handler). Returns the
+	 * transaction when it moved to the new status, or null when it is missing
+	 * or already there, so redelivered events are not counted twice. Other
+	 * errors propagate so the webhook ledger records the event as failed.
 	 */
 	async updateTransactionStatus(
 		paymentIntentId: string,
 		status: "completed" | "failed",
 		chargeId?: string,
 		failureReason?: string,
+	): Promise<TransactionDocument | null> {
+		const transaction = await Transaction.findOne({
+			stripePaymentIntentId: paymentIntentId,
+		});
+
+		if (!transaction) {
+			logger.error(
+				`❌ Transaction not found for payment intent: ${paymentIntentId}`,
+			);
+			return null;
+		}
+
+		if (transaction.status === status) {
+			logger.info(`⏭️ Transaction ${transaction._id} is already ${status}`);
+			return null;
+		}
+
+		if (status === "completed" && chargeId) {
+			await transaction.markCompleted(chargeId);
+			logger.info(`✅ Transaction ${transaction._id} marked as completed`);
+			// The net amount is transferred with the performer's next payout batch (see PayoutService)
+			return transaction;
+		}
+
+		if (status === "failed") {
+			await transaction.markFailed(failureReason || "Payment failed");
+			logger.info(`❌ Transaction ${transaction._id} marked as failed`);
+			return transaction;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Add a completed tip to the performer totals exactly once. Returns null
+	 * when it is not completed or already counted; if counting fails the
+	 * claim is released so a retried webhook counts it.
+	 */
+	async countCompletedTip(
+		paymentIntentId: string,
+	): Promise<TransactionDocument | null> {
+		const transaction = await Transaction.findOneAndUpdate(
+			{
+				stripePaymentIntentId: paymentIntentId,
+				status: "completed",
+				totalsCountedAt: { $exists: false },
+			},
+			{ $set: { totalsCountedAt: new Date() } },
+			{ new: true },
+		);
+		if (!transaction) {
+			return null;
+		}
+
+		try {
+			// The stored net amount already reflects reconciled fees if charge.succeeded came first
+			await this.adjustPerformerTotals(transaction, transaction.netAmount, 1);
+		} catch (error) {
+			await Transaction.updateOne(
+				{ _id: transaction._id },
+				{ $unset: { totalsCountedAt: 1 } },
+			);
+			throw error;
+		}
+
+		return transaction;
+	}
+
+	/**
+	 * Apply a change in tips/earnings to the performer and performance counters
+	 */
+	async adjustPerformerTotals(
+		transaction: Pick<ITransaction, "toUserId" | "performanceId">,
+		netAmountDelta: number,
+		tipCountDelta: number,
 	): Promise<void> {
+		const { UserModel } = await import("../../user/entities/User");
+		const { PerformanceModel } = await import(
+			"../../performance/entities/Performance"
+		);
+		const { performanceTrendingService } = await import(
+			"../../performance/services/PerformanceTrendingService"
+		);
+
+		await UserModel.findByIdAndUpdate(transaction.toUserId, {
+			$inc: {
+				"statistics.totalTips": tipCountDelta,
+				"statistics.totalEarnings": netAmountDelta,
+			},
+		});
+
+		if (transaction.performanceId && tipCountDelta !== 0) {
+			await PerformanceModel.findByIdAndUpdate(transaction.performanceId, {
+				$inc: { "engagement.tips": tipCountDelta },
+			});
+			await performanceTrendingService.recordActivity(
+				String(transaction.performanceId),
+				"tip",
+				tipCountDelta,
+			);
+		}
+	}
+
+	/**
+	 * Replace the estimated Stripe fee with the one from the charge's balance
+	 * transaction. The net amount is only corrected while it has not been
+	 * transferred to the performer yet.
+	 */
+	async reconcileFees(
+		params: ChargeReference & { actualFee: number; paymentMethod?: string },
+	): Promise<TransactionDocument | null> {
+		const transaction = await this.findByChargeReference(params);
+		if (!transaction) {
+			// Thrown so the webhook ledger keeps the event for replay
+			throw new NotFoundError("Transaction");
+		}
+
+		if (transaction.feeReconciliation) {
+			return transaction; // Already reconciled
+		}
+
+		const applicationFee = transaction.applicationFee || 0;
+		const estimatedFee = transaction.processingFee - applicationFee;
+
+		if (PAYMENT_METHODS.includes(params.paymentMethod as PaymentMethod)) {
+			transaction.paymentMethod = params.paymentMethod as PaymentMethod;
+		}
+		transaction.feeReconciliation = {
+			estimatedFee,
+			actualFee: params.actualFee,
+			reconciledAt: new Date(),
+		};
+
+		let netDelta = 0;
+		if (!transaction.payoutId && !transaction.stripeTransferId) {
+			const netAmount = transaction.amount - params.actualFee - applicationFee;
+			netDelta = netAmount - transaction.netAmount;
+			transaction.processingFee = params.actualFee + applicationFee;
+			transaction.netAmount = netAmount;
+		}
+		await transaction.save();
+
+		// Tips not counted yet are counted with the corrected net amount
+		if (netDelta !== 0 && transaction.totalsCountedAt) {
+			await this.adjustPerformerTotals(transaction, netDelta, 0);
+		}
+
+		if (params.actualFee !== estimatedFee) {
+			logger.info(
+				`🧾 Transaction ${transaction._id} fee reconciled: estimated ${currencyService.format(estimatedFee, transaction.currency)}, actual ${currencyService.format(params.actualFee, transaction.currency)}`,
+			);
+		}
+
+		return transaction;
+	}
+
+	/**
+	 * Performer earnings with one summary per currency, largest first
+	 */
+	async getPerformerEarningsByCurrency(
+		performerId: string,
+		startDate?: Date,
+		endDate?: Date,
+	): Promise<CurrencyEarnings[]> {
 		try {
-			const transaction = await Transaction.findOne({
-				stripePaymentIntentId: paymentIntentId,
+			return await Transaction.getPerformerEarningsByCurrency(
+				performerId,
+				startDate,
+				endDate,
+			);
+		} catch (error) {
+			logger.error(
+				`❌ Failed to get earnings by currency for performer ${performerId}:`,
+				error,
+			);
+			return [];
+		}
+	}
+
+	/**
+	 * Settlement currency of a performer, from their profile country
+	 */
+	async getPerformerCurrency(performerId: string): Promise<CurrencyCode> {
+		const { UserModel } = await import("../../user/entities/User");
+		const performer = await UserModel.findById(performerId)
+			.select("location.country")
+			.lean();
+
+		return currencyService.getCurrencyForCountry(performer?.location?.country);
+	}
+
+	/**
+	 * Refund a completed tip (performer who received it or an admin)
+	 */
+	async refundTip(request: RefundTipRequest): Promise<TransactionDocument> {
+		const { transactionId, requesterId, requesterRole, amount, reason } =
+			request;
+
+		const transaction = await Transaction.findById(transactionId);
+		if (!transaction) {
+			throw new NotFoundError("Transaction");
+		}
+
+		if (requesterRole !== "admin" && transaction.toUserId !== requesterId) {
+			throw new AuthorizationError("Only the receiving performer can refund this tip");
+		}
+
+		const refundable = transaction.refundableAmount();
+		if (refundable <= 0) {
+			throw new ValidationError("This transaction has nothing left to refund");
+		}
+
+		const refundAmount =
+			amount !== undefined ? Math.round(amount * 100) : refundable;
+		if (refundAmount <= 0 || refundAmount > refundable) {
+			throw new ValidationError(
+				`Refund amount must be between ${currencyService.format(1, transaction.currency)} and ${currencyService.format(refundable, transaction.currency)}`,
+				"amount",
+			);
+		}
+
+		await stripeService.createRefund({
+			paymentIntentId: transaction.stripePaymentIntentId,
+			amount: refundAmount,
+			reason,
+			transactionId,
+		});
+
+		// Apply the accounting now; the charge.refunded webhook is then a no-op
+		const updated = await this.recordRefund({
+			paymentIntentId: transaction.stripePaymentIntentId,
+			totalRefunded: (transaction.refundedAmount || 0) + refundAmount,
+			reason: reason || "requested_by_performer",
+		});
+
+		return updated || transaction;
+	}
+
+	/**
+	 * Record a refund total reported by Stripe. Idempotent: only the part of
+	 * totalRefunded not yet applied is clawed back from the performer.
+	 */
+	async recordRefund(
+		params: ChargeReference & { totalRefunded: number; reason?: string },
+	): Promise<TransactionDocument | null> {
+		return this.retryClaim(async () => {
+			const transaction = await this.findByChargeReference(params);
+			if (!transaction) {
+				logger.error("❌ Transaction not found for refund", params);
+				return null;
+			}
+
+			const alreadyRefunded = transaction.refundedAmount || 0;
+			const delta =
+				Math.min(params.totalRefunded, transaction.amount) - alreadyRefunded;
+			if (delta <= 0) {
+				return transaction;
+			}
+
+			const fullyRefunded = alreadyRefunded + delta >= transaction.amount;
+			const netDelta = this.netToClawBack(transaction, delta, fullyRefunded);
+
+			const claimed = await this.claimRefundCounters(transaction, {
+				refundedAmount: alreadyRefunded + delta,
+				refundedNetAmount: (transaction.refundedNetAmount || 0) + netDelta,
+				refundedAt: new Date(),
+				...(params.reason && { refundReason: params.reason }),
+				...(fullyRefunded && { status: "refunded" }),
 			});
+			if (!claimed) return CLAIM_LOST;
+
+			await this.reverseNet(claimed, netDelta);
+			await this.adjustPerformerTotals(
+				claimed,
+				-netDelta,
+				fullyRefunded ? -1 : 0,
+			);
 
+			logger.info(
+				`↩️ Transaction ${claimed._id} refunded ${currencyService.format(delta, claimed.currency)}${fullyRefunded ? " (full)" : ""}`,
+			);
+
+			return claimed;
+		});
+	}
+
+	/**
+	 * Record a new dispute; the remaining tip is treated as withdrawn until resolved
+	 */
+	async recordDisputeOpened(
+		params: ChargeReference & {
+			disputeId: string;
+			amount: number;
+			reason?: string;
+		},
+	): Promise<void> {
+		await this.retryClaim(async () => {
+			const transaction = await this.findByChargeReference(params);
 			if (!transaction) {
-				logger.error(
-					`❌ Transaction not found for payment intent: ${paymentIntentId}`,
-				);
+				logger.error("❌ Transaction not found for dispute", params);
 				return;
 			}
 
-			if (status === "completed" && chargeId) {
-				await transaction.markCompleted(chargeId);
-				logger.info(`✅ Transaction ${transaction._id} marked as completed`);
-				
-				// Create transfer to performer's Connect account
-				try {
-					// Get performer's Connect account ID
-					const UserModel = (await import('../../user/entities/User')).UserModel;
-					const performer = await UserModel.findById(transaction.toUserId);
-					
-					if (performer?.stripe?.connectAccountId) {
-						const transferId = await stripeService.createTransfer(
-							transaction.netAmount, // Transfer the net amount after fees
-							performer.stripe.connectAccountId,
-							`tip_${transaction._id}` // Transfer group for tracking
-						);
-						
-						logger.info(`💸 Created transfer ${transferId} to performer ${performer._id} (${performer.stripe.connectAccountId}) for €${(transaction.netAmount / 100).toFixed(2)}`);
-					} else {
-						logger.warn(`⚠️ Performer ${transaction.toUserId} has no Connect account - skipping transfer`);
-					}
-				} catch (transferError) {
-					logger.error(`❌ Failed to create transfer for transaction ${transaction._id}:`, transferError);
-					// Don't fail the whole operation if transfer fails
-				}
-			} else if (status === "failed") {
-				await transaction.markFailed(failureReason || "Payment failed");
-				logger.info(`❌ Transaction ${transaction._id} marked as failed`);
+			if (transaction.dispute?.stripeDisputeId === params.disputeId) {
+				return; // Already recorded
+			}
+
+			const remaining = transaction.amount - (transaction.refundedAmount || 0);
+			const withheldNet =
+				transaction.status === "completed" && remaining > 0
+					? this.netToClawBack(transaction, remaining, true)
+					: 0;
+
+			const claimed = await this.claimRefundCounters(
+				transaction,
+				{
+					refundedNetAmount: (transaction.refundedNetAmount || 0) + withheldNet,
+					dispute: {
+						stripeDisputeId: params.disputeId,
+						status: "open",
+						reason: params.reason,
+						amount: params.amount,
+						withheldNetAmount: withheldNet,
+						openedAt: new Date(),
+					},
+				},
+				{ "dispute.stripeDisputeId": { $ne: params.disputeId } },
+			);
+			if (!claimed) return CLAIM_LOST;
+
+			if (withheldNet > 0) {
+				await this.reverseNet(claimed, withheldNet, { forDispute: true });
+				await this.adjustPerformerTotals(claimed, -withheldNet, -1);
 			}
+
+			logger.warn(`⚠️ Transaction ${claimed._id} disputed (${params.reason})`);
+		});
+	}
+
+	/**
+	 * Resolve a dispute: a won dispute restores exactly what opening it
+	 * withheld, a lost one counts as a full refund
+	 */
+	async recordDisputeClosed(
+		params: ChargeReference & { disputeId: string; won: boolean },
+	): Promise<void> {
+		await this.retryClaim(async () => {
+			const transaction = await this.findByChargeReference(params);
+			if (
+				!transaction?.dispute ||
+				transaction.dispute.stripeDisputeId !== params.disputeId ||
+				transaction.dispute.status !== "open"
+			) {
+				return;
+			}
+
+			// Disputes opened before withheldNetAmount was recorded
+			const withheldNet =
+				transaction.dispute.withheldNetAmount ??
+				Math.min(
+					this.netShare(
+						transaction,
+						transaction.amount - (transaction.refundedAmount || 0),
+					),
+					transaction.refundedNetAmount || 0,
+				);
+
+			const closed = {
+				"dispute.status": params.won ? "won" : "lost",
+				"dispute.closedAt": new Date(),
+			};
+			const claimed = await this.claimRefundCounters(
+				transaction,
+				params.won
+					? {
+							...closed,
+							refundedNetAmount:
+								(transaction.refundedNetAmount || 0) - withheldNet,
+						}
+					: {
+							...closed,
+							status: "refunded",
+							refundedAmount: transaction.amount,
+							refundReason: "dispute_lost",
+							refundedAt: new Date(),
+						},
+				{
+					"dispute.stripeDisputeId": params.disputeId,
+					"dispute.status": "open",
+				},
+			);
+			if (!claimed) return CLAIM_LOST;
+
+			if (params.won && withheldNet > 0) {
+				// Give the performer their share back; only what was actually
+				// reversed is re-sent, the rest is still owed by the next payout
+				await this.resendTransfer(
+					claimed,
+					claimed.dispute?.reversedNetAmount || 0,
+				);
+				await this.adjustPerformerTotals(claimed, withheldNet, 1);
+			}
+
+			logger.info(
+				`⚖️ Dispute ${params.disputeId} on transaction ${claimed._id} ${params.won ? "won" : "lost"}`,
+			);
+		});
+	}
+
+	private async findByChargeReference(
+		ref: ChargeReference,
+	): Promise<TransactionDocument | null> {
+		const conditions = [
+			...(ref.paymentIntentId
+				? [{ stripePaymentIntentId: ref.paymentIntentId }]
+				: []),
+			...(ref.chargeId ? [{ stripeChargeId: ref.chargeId }] : []),
+		];
+		if (conditions.length === 0) return null;
+
+		return Transaction.findOne({ $or: conditions });
+	}
+
+	/**
+	 * Run a read-then-claim step until its claim wins. Each attempt re-reads
+	 * the transaction, so a refund or webhook that landed in between is taken
+	 * into account instead of being applied twice.
+	 */
+	private async retryClaim<T>(
+		step: () => Promise<T | typeof CLAIM_LOST>,
+	): Promise<T> {
+		for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+			const result = await step();
+			if (result !== CLAIM_LOST) return result;
+		}
+		throw new ConflictError(
+			"The transaction was updated concurrently, please retry",
+		);
+	}
+
+	/**
+	 * Apply an update only if the refund counters are still the ones that
+	 * were read. Returns the updated transaction, or null when another
+	 * refund or webhook changed them first.
+	 */
+	private claimRefundCounters(
+		transaction: TransactionDocument,
+		update: Record<string, unknown>,
+		conditions: Record<string, unknown> = {},
+	): Promise<TransactionDocument | null> {
+		// Older transactions may predate the counters
+		const unchanged = (value?: number) => (value ? value : { $in: [0, null] });
+
+		return Transaction.findOneAndUpdate(
+			{
+				...conditions,
+				_id: transaction._id,
+				refundedAmount: unchanged(transaction.refundedAmount),
+				refundedNetAmount: unchanged(transaction.refundedNetAmount),
+			},
+			{ $set: update },
+			{ new: true },
+		);
+	}
+
+	// Performer's share of a gross refund/dispute amount
+	private netShare(transaction: TransactionDocument, grossAmount: number): number {
+		return Math.round((transaction.netAmount * grossAmount) / transaction.amount);
+	}
+
+	/**
+	 * Net amount to claw back from the performer for a refunded gross amount
+	 */
+	private netToClawBack(
+		transaction: TransactionDocument,
+		grossAmount: number,
+		isFinal: boolean,
+	): number {
+		const alreadyClawedBack = transaction.refundedNetAmount || 0;
+		const netDelta = isFinal
+			? transaction.netAmount - alreadyClawedBack
+			: Math.min(
+					this.netShare(transaction, grossAmount),
+					transaction.netAmount - alreadyClawedBack,
+				);
+
+		return Math.max(netDelta, 0);
+	}
+
+	/**
+	 * Reverse a claimed net amount from the performer's Connect transfer and
+	 * record what was actually reversed, so only that is ever re-sent
+	 */
+	private async reverseNet(
+		transaction: TransactionDocument,
+		netDelta: number,
+		{ forDispute = false } = {},
+	): Promise<void> {
+		if (netDelta <= 0 || !transaction.stripeTransferId) return;
+
+		try {
+			await stripeService.reverseTransfer(transaction.stripeTransferId, netDelta);
+		} catch (error) {
+			// Keep the books accurate even if the reversal has to be retried manually
+			logger.error(
+				`❌ Failed to reverse transfer for transaction ${transaction._id}:`,
+				error,
+			);
+			return;
+		}
+
+		const reversed = {
+			reversedNetAmount: netDelta,
+			...(forDispute && { "dispute.reversedNetAmount": netDelta }),
+		};
+		await Transaction.updateOne({ _id: transaction._id }, { $inc: reversed });
+		transaction.reversedNetAmount = (transaction.reversedNetAmount || 0) + netDelta;
+		if (forDispute && transaction.dispute) {
+			transaction.dispute.reversedNetAmount = netDelta;
+		}
+	}
+
+	private async resendTransfer(
+		transaction: TransactionDocument,
+		netAmount: number,
+	): Promise<void> {
+		if (netAmount <= 0 || !transaction.stripeTransferId) return;
+
+		try {
+			const { UserModel } = await import("../../user/entities/User");
+			const performer = await UserModel.findById(transaction.toUserId);
+			if (!performer?.stripe?.connectAccountId) return;
+
+			const transferId = await stripeService.createTransfer(
+				netAmount,
+				performer.stripe.connectAccountId,
+				`tip_${transaction._id}`,
+				{},
+				transaction.currency,
+			);
+			transaction.stripeTransferId = transferId;
+			transaction.reversedNetAmount =
+				(transaction.reversedNetAmount || 0) - netAmount;
+			await Transaction.updateOne(
+				{ _id: transaction._id },
+				{
+					$set: { stripeTransferId: transferId },
+					$inc: { reversedNetAmount: -netAmount },
+				},
+			);
 		} catch (error) {
 			logger.error(
-				`❌ Failed to update transaction status for ${paymentIntentId}:`,
+				`❌ Failed to re-send transfer for transaction ${transaction._id}:`,
 				error,
 			);
 		}
@@ -0,0 +1,429 @@
+import type Stripe from "stripe";
+import { logger } from "../../../shared/utils/logger";
+import { Payout, type PayoutDocument } from "../entities/Payout";
+import { Transaction } from "../entities/Transaction";
+import { currencyService } from "./CurrencyService";
+import { stripeService } from "./StripeService";
+
+const DEFAULT_PAYOUT_INTERVAL_HOURS = 24;
+
+// Pending payouts older than this are assumed stuck and their transfer retried
+const PENDING_PAYOUT_RETRY_MS = 15 * 60 * 1000;
+
+// Stripe errors that mean the transfer was definitely not created
+const REJECTED_TRANSFER_ERRORS = new Set([
+	"StripeInvalidRequestError",
+	"StripeCardError",
+]);
+
+const isRejectedTransfer = (error: unknown): boolean => {
+	const stripeError = ((error as { cause?: unknown })?.cause ?? error) as {
+		type?: string;
+	};
+	return REJECTED_TRANSFER_ERRORS.has(stripeError?.type ?? "");
+};
+
+export interface PayoutTip {
+	_id: string;
+	amount: number;
+	netAmount: number;
+	refundedNetAmount: number;
+	currency: string;
+	performanceId: string;
+	isAnonymous: boolean;
+	publicMessage?: string;
+	status: string;
+	createdAt: Date;
+}
+
+export interface PayoutWithTips {
+	_id: string;
+	amount: number;
+	reversedAmount: number;
+	currency: string;
+	tipCount: number;
+	status: PayoutDocument["status"];
+	failureReason?: string;
+	transferredAt?: Date;
+	paidAt?: Date;
+	createdAt: Date;
+	tips: PayoutTip[];
+}
+
+export class PayoutService {
+	/**
+	 * Group a performer's completed, not yet transferred tips in one currency
+	 * into one payout and transfer the net total to their Connect account.
+	 * Returns null when there is nothing to pay out.
+	 */
+	async createPayoutForPerformer(
+		performerId: string,
+		currency = "EUR",
+	): Promise<PayoutDocument | null> {
+		const { UserModel } = await import("../../user/entities/User");
+		const performer = await UserModel.findById(performerId);
+		const connectAccountId = performer?.stripe?.connectAccountId;
+
+		if (!connectAccountId) {
+			logger.warn(
+				`⚠️ Performer ${performerId} has no Connect account - skipping payout`,
+			);
+			return null;
+		}
+
+		const payout = new Payout({
+			performerId,
+			connectAccountId,
+			amount: 0,
+			currency,
+			tipCount: 0,
+		});
+		const payoutId = payout._id.toString();
+
+		// Claim the eligible tips first so concurrent runs never batch a tip twice
+		await Transaction.updateMany(
+			{
+				toUserId: performerId,
+				currency,
+				status: "completed",
+				payoutStatus: "pending",
+				payoutId: { $exists: false },
+				stripeTransferId: { $exists: false },
+				"dispute.status": { $ne: "open" },
+			},
+			{ $set: { payoutId, payoutStatus: "processing" } },
+		);
+
+		const transactions = await Transaction.find({ payoutId });
+		const amount = transactions.reduce(
+			(sum, tx) => sum + tx.netAmount - (tx.refundedNetAmount || 0),
+			0,
+		);
+
+		if (amount <= 0) {
+			await this.releaseTransactions(payoutId);
+			return null;
+		}
+
+		payout.amount = amount;
+		payout.tipCount = transactions.length;
+		payout.transactionIds = transactions.map((tx) => tx._id.toString());
+		await payout.save();
+
+		await this.transferPayout(payout);
+
+		return payout;
+	}
+
+	/**
+	 * Transfer a pending payout to the performer's Connect account. The
+	 * payout id is the idempotency key, so retrying a payout whose outcome
+	 * is unknown never transfers it twice. Only a definite rejection by
+	 * Stripe fails the payout and puts its tips back in the queue.
+	 */
+	private async transferPayout(payout: PayoutDocument): Promise<void> {
+		const payoutId = payout._id.toString();
+
+		try {
+			const transferId = await stripeService.createTransfer(
+				payout.amount,
+				payout.connectAccountId,
+				`payout_${payoutId}`,
+				{ payoutId },
+				payout.currency,
+				`payout_${payoutId}`,
+			);
+
+			payout.stripeTransferId = transferId;
+			payout.status = "processing";
+			payout.failureReason = undefined;
+			payout.transferredAt = new Date();
+			await payout.save();
+
+			// Refunds reverse the performer's share from this transfer
+			await Transaction.updateMany(
+				{ payoutId },
+				{ $set: { stripeTransferId: transferId } },
+			);
+
+			logger.info(
+				`💸 Payout ${payoutId}: ${currencyService.format(payout.amount, payout.currency)} for ${payout.tipCount} tips to performer ${payout.performerId}`,
+			);
+		} catch (error: any) {
+			payout.failureReason = error.message;
+
+			if (!isRejectedTransfer(error)) {
+				// Stripe may have created the transfer anyway; transfer.created
+				// or the next run's retry with the same key settles it
+				await payout.save();
+				logger.warn(
+					`⚠️ Payout ${payoutId} transfer outcome unknown, will retry: ${error.message}`,
+				);
+				return;
+			}
+
+			payout.status = "failed";
+			await payout.save();
+
+			// Put the tips back in the queue for the next batch
+			await this.releaseTransactions(payoutId);
+
+			logger.error(`❌ Payout ${payoutId} transfer failed:`, error);
+		}
+	}
+
+	/**
+	 * Retry the transfer of payouts left pending by an error or a crash
+	 */
+	private async retryPendingPayouts(): Promise<void> {
+		const stuck = await Payout.find({
+			status: "pending",
+			stripeTransferId: { $exists: false },
+			createdAt: { $lt: new Date(Date.now() - PENDING_PAYOUT_RETRY_MS) },
+		});
+
+		for (const payout of stuck) {
+			try {
+				logger.info(`🔁 Retrying transfer for pending payout ${payout._id}`);
+				await this.transferPayout(payout);
+			} catch (error) {
+				logger.error(`❌ Failed to retry payout ${payout._id}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Create payout batches for every performer with pending tips, one batch
+	 * per currency
+	 */
+	async processPendingPayouts(): Promise<number> {
+		await this.retryPendingPayouts();
+
+		const batches: Array<{ _id: { performerId: string; currency: string } }> =
+			await Transaction.aggregate([
+				{
+					$match: {
+						status: "completed",
+						payoutStatus: "pending",
+						payoutId: { $exists: false },
+						stripeTransferId: { $exists: false },
+					},
+				},
+				{
+					$group: {
+						_id: { performerId: "$toUserId", currency: "$currency" },
+					},
+				},
+			]);
+
+		let created = 0;
+		for (const { _id: batch } of batches) {
+			try {
+				const payout = await this.createPayoutForPerformer(
+					batch.performerId,
+					batch.currency,
+				);
+				if (payout?.status === "processing") created++;
+			} catch (error) {
+				logger.error(
+					`❌ Failed to create ${batch.currency} payout for performer ${batch.performerId}:`,
+					error,
+				);
+			}
+		}
+
+		logger.info(
+			`🏦 Payout run finished: ${created}/${batches.length} payout batches paid`,
+		);
+		return created;
+	}
+
+	/**
+	 * Run processPendingPayouts on a fixed interval (PAYOUT_INTERVAL_HOURS)
+	 */
+	startScheduler(): NodeJS.Timeout {
+		const hours =
+			Number(process.env.PAYOUT_INTERVAL_HOURS) ||
+			DEFAULT_PAYOUT_INTERVAL_HOURS;
+
+		const timer = setInterval(
+			() => {
+				this.processPendingPayouts().catch((error) =>
+					logger.error("❌ Scheduled payout run failed:", error),
+				);
+			},
+			hours * 60 * 60 * 1000,
+		);
+		timer.unref();
+
+		logger.info(`🏦 Payout batches scheduled every ${hours}h`);
+		return timer;
+	}
+
+	/**
+	 * Apply transfer.* webhooks to the payout that created the transfer
+	 */
+	async reconcileTransfer(
+		type: "transfer.created" | "transfer.reversed",
+		transfer: Stripe.Transfer,
+	): Promise<void> {
+		const payoutId = transfer.metadata?.payoutId;
+		const payout = await Payout.findOne(
+			payoutId
+				? { _id: payoutId }
+				: { stripeTransferId: transfer.id },
+		);
+
+		if (!payout) {
+			// Per-tip transfers (dispute re-transfers) have no batch
+			return;
+		}
+
+		if (type === "transfer.created" && payout.status === "pending") {
+			// The process stopped, or the request failed, after Stripe created the transfer
+			payout.stripeTransferId = transfer.id;
+			payout.status = "processing";
+			payout.failureReason = undefined;
+			payout.transferredAt = new Date(transfer.created * 1000);
+			await payout.save();
+			await Transaction.updateMany(
+				{ payoutId: payout._id.toString() },
+				{ $set: { stripeTransferId: transfer.id } },
+			);
+		}
+
+		if (type === "transfer.reversed") {
+			payout.reversedAmount = transfer.amount_reversed;
+			await payout.save();
+			logger.info(
+				`↩️ Payout ${payout._id}: ${currencyService.format(transfer.amount_reversed, payout.currency)} reversed`,
+			);
+		}
+	}
+
+	/**
+	 * Apply payout.* webhooks from a performer's Connect account. A Stripe
+	 * payout sweeps the account balance, so it covers every batch transferred
+	 * before it was created.
+	 */
+	async reconcileBankPayout(
+		type: "payout.created" | "payout.paid" | "payout.failed" | "payout.canceled",
+		stripePayout: Stripe.Payout,
+		connectAccountId: string,
+	): Promise<void> {
+		await Payout.updateMany(
+			{
+				connectAccountId,
+				status: "processing",
+				stripePayoutId: { $exists: false },
+				transferredAt: { $lte: new Date(stripePayout.created * 1000) },
+			},
+			{ $set: { stripePayoutId: stripePayout.id } },
+		);
+
+		const payouts = await Payout.find({ stripePayoutId: stripePayout.id });
+		if (payouts.length === 0) return;
+
+		const payoutIds = payouts.map((payout) => payout._id.toString());
+
+		if (type === "payout.paid") {
+			const paidAt = new Date(stripePayout.arrival_date * 1000);
+
+			await Payout.updateMany(
+				{ _id: { $in: payoutIds } },
+				{ $set: { status: "completed", paidAt }, $unset: { failureReason: 1 } },
+			);
+			await Transaction.updateMany(
+				{ payoutId: { $in: payoutIds } },
+				{ $set: { payoutStatus: "completed", payoutDate: paidAt } },
+			);
+
+			logger.info(
+				`✅ Stripe payout ${stripePayout.id} paid out ${payoutIds.length} payout batches`,
+			);
+		} else if (type === "payout.failed" || type === "payout.canceled") {
+			// The funds return to the Connect balance and go out with the next payout
+			await Payout.updateMany(
+				{ _id: { $in: payoutIds } },
+				{
+					$set: {
+						failureReason:
+							stripePayout.failure_message ||
+							(type === "payout.canceled" ? "Payout canceled" : "Payout failed"),
+					},
+					$unset: { stripePayoutId: 1 },
+				},
+			);
+
+			logger.warn(
+				`⚠️ Stripe payout ${stripePayout.id} ${type === "payout.failed" ? "failed" : "was canceled"} for account ${connectAccountId}`,
+			);
+		}
+	}
+
+	/**
+	 * List a performer's payouts with the tips each one contains
+	 */
+	async getPerformerPayouts(
+		performerId: string,
+		page = 1,
+		limit = 20,
+	): Promise<{ payouts: PayoutWithTips[]; total: number }> {
+		const [payouts, total] = await Promise.all([
+			Payout.find({ performerId })
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			Payout.countDocuments({ performerId }),
+		]);
+
+		const transactionIds = payouts.flatMap((payout) => payout.transactionIds);
+		const tips = await Transaction.find({ _id: { $in: transactionIds } })
+			.select(
+				"amount netAmount refundedNetAmount currency performanceId isAnonymous publicMessage status createdAt",
+			)
+			.lean();
+		const tipsById = new Map(tips.map((tip) => [tip._id.toString(), tip]));
+
+		return {
+			payouts: payouts.map((payout) => ({
+				_id: payout._id.toString(),
+				amount: payout.amount,
+				reversedAmount: payout.reversedAmount || 0,
+				currency: payout.currency,
+				tipCount: payout.tipCount,
+				status: payout.status,
+				failureReason: payout.failureReason,
+				transferredAt: payout.transferredAt,
+				paidAt: payout.paidAt,
+				createdAt: payout.createdAt,
+				tips: payout.transactionIds
+					.map((id) => tipsById.get(id))
+					.filter((tip) => tip !== undefined)
+					.map((tip) => ({
+						_id: tip._id.toString(),
+						amount: tip.amount,
+						netAmount: tip.netAmount,
+						refundedNetAmount: tip.refundedNetAmount || 0,
+						currency: tip.currency,
+						performanceId: tip.performanceId,
+						isAnonymous: tip.isAnonymous,
+						publicMessage: tip.publicMessage,
+						status: tip.status,
+						createdAt: tip.createdAt,
+					})),
+			})),
+			total,
+		};
+	}
+
+	private async releaseTransactions(payoutId: string): Promise<void> {
+		await Transaction.updateMany(
+			{ payoutId },
+			{ $set: { payoutStatus: "pending" }, $unset: { payoutId: 1 } },
+		);
+	}
+}
+
+export const payoutService = new PayoutService();
@@ -1,5 +1,13 @@
 import Stripe from 'stripe';
 import { logger } from '../../../shared/utils/logger';
+import type { CurrencyCode } from '@spm/shared-types';
+import { currencyService } from './CurrencyService';
+import { type FeeBreakdown, feeService } from './FeeService';
+import type { WebhookEventDocument } from '../entities/WebhookEvent';
+import {
+  type WebhookEventFilters,
+  webhookEventRepository,
+} from '../repositories/WebhookEventRepository';
 
 export interface CreatePaymentIntentRequest {
   amount: number; // Amount in cents
@@ -10,17 +18,28 @@ export interface CreatePaymentIntentRequest {
   isAnonymous?: boolean;
   publicMessage?: string;
   paymentMethodTypes?: string[];
+  country?: string; // Tipper's country, used for fee estimates
   stripeAccountId?: string; // For direct payouts to performer
+  idempotencyKey?: string; // Retries with the same key return the same intent
+  receiptEmail?: string; // Stripe emails the receipt once the charge succeeds
 }
 
 export interface PaymentIntentResult {
   paymentIntentId: string;
   clientSecret: string;
   amount: number;
-  processingFee: number;
+  processingFee: number; // Includes applicationFee
+  applicationFee: number;
   netAmount: number;
 }
 
+export interface CreateRefundRequest {
+  paymentIntentId: string;
+  amount: number; // Amount in cents
+  reason?: Stripe.RefundCreateParams.Reason;
+  transactionId: string;
+}
+
 export interface StripeConnectAccount {
   accountId: string;
   loginUrl: string;
@@ -36,6 +55,19 @@ export interface CreateConnectAccountRequest {
   businessType?: 'individual' | 'company';
 }
 
+// Webhooks that move money or settle payouts; never handled without a verified signature
+const VERIFIED_ONLY_EVENTS = new Set<string>([
+  'charge.refunded',
+  'charge.dispute.created',
+  'charge.dispute.closed',
+  'transfer.created',
+  'transfer.reversed',
+  'payout.created',
+  'payout.paid',
+  'payout.failed',
+  'payout.canceled',
+]);
+
 export class StripeService {
   private stripe: Stripe;
   private readonly webhookSecret: string;
@@ -78,33 +110,35 @@ export class StripeService {
    * Create a payment intent for a tip
    */
   async createTipPaymentIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntentResult> {
-    const { amount, currency, performanceId, performerId, tipperId, isAnonymous, publicMessage } =
+    const { amount, performanceId, performerId, tipperId, isAnonymous, publicMessage, country } =
       request;
+    const currency = this.validateTipAmount(amount, request.currency);
 
-    // Validate amount (minimum €0.50, maximum €100)
-    if (amount < 50 || amount > 10000) {
-      throw new Error('Tip amount must be between €0.50 and €100.00');
-    }
+    // Estimated as a card payment; reconciled when the charge succeeds. The
+    // platform keeps its application fee out of the net paid to the performer
+    const { processingFee, applicationFee, netAmount } = this.calculateFees(
+      amount,
+      currency,
+      'card',
+      country,
+      { withApplicationFee: true }
+    );
 
     // Check if running in development without Stripe
     if (!this.stripe.paymentIntents) {
       logger.warn('⚠️ Development mode - returning mock payment intent');
-      const mockProcessingFee = Math.round(amount * 0.029 + 30);
-      const mockNetAmount = amount - mockProcessingFee;
 
       return {
         paymentIntentId: `pi_dev_${Date.now()}`,
         clientSecret: `pi_dev_${Date.now()}_secret_mock`,
         amount,
-        processingFee: mockProcessingFee,
-        netAmount: mockNetAmount,
+        processingFee,
+        applicationFee,
+        netAmount,
       };
     }
 
     try {
-      // Calculate Stripe fees (2.9% + €0.30 for European cards)
-      const processingFee = Math.round(amount * 0.029 + 30);
-      const netAmount = amount - processingFee;
 
       const paymentIntent = await this.stripe.paymentIntents.create({
         amount,
@@ -118,14 +152,18 @@ export class StripeService {
           isAnonymous: String(isAnonymous || false),
           publicMessage: publicMessage || '',
           processingFee: String(processingFee),
+          applicationFee: String(applicationFee),
           netAmount: String(netAmount),
         },
         description: `Tip for street performance ${performanceId}`,
         statement_descriptor_suffix: 'Street Music', // Shows on bank statement
-      });
+        receipt_email: request.receiptEmail,
+      }, request.idempotencyKey
+        ? { idempotencyKey: request.idempotencyKey }
+        : undefined);
 
       logger.info(
-        `💳 Created payment intent: ${paymentIntent.id} for €${(amount / 100).toFixed(2)}`
+        `💳 Created payment intent: ${paymentIntent.id} for ${currencyService.format(amount, currency)}`
       );
 
       return {
@@ -133,12 +171,13 @@ export class StripeService {
         clientSecret: paymentIntent.client_secret || '',
         amount,
         processingFee,
+        applicationFee,
         netAmount,
       };
     } catch (error: unknown) {
       logger.error('❌ Failed to create payment intent:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Payment intent creation failed: ${errorMessage}`);
+      throw new Error(`Payment intent creation failed: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -171,7 +210,7 @@ export class StripeService {
       return paymentIntent;
     } catch (error: any) {
       logger.error(`❌ Failed to confirm payment intent ${paymentIntentId}:`, error);
-      throw new Error(`Payment confirmation failed: ${error.message}`);
+      throw new Error(`Payment confirmation failed: ${error.message}`, { cause: error });
     }
   }
 
@@ -185,36 +224,30 @@ export class StripeService {
     // In development mode without webhook secret, skip verification
     if (process.env.NODE_ENV === 'development' && !this.webhookSecret) {
       logger.warn('⚠️ Development mode - skipping webhook signature verification');
+      let event: Stripe.Event;
       try {
 		// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const event = JSON.parse(bodyString as string);
-        await this.processWebhookEvent(event);
-        return;
+        event = JSON.parse(bodyString as string);
       } catch (error) {
         logger.error('❌ Failed to parse webhook body in development mode:', error);
         throw new Error('Invalid webhook body');
       }
+      // Outside the try so a handler failure is not mistaken for a bad body
+      await this.processWebhookEvent(event, false);
+      return;
     }
 
     // Production mode - require signature verification
     if (!this.webhookSecret) {
-      logger.warn('⚠️ STRIPE_WEBHOOK_SECRET not configured - processing webhook without verification (INSECURE)');
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const event = JSON.parse(bodyString as string);
-        await this.processWebhookEvent(event);
-        return;
-      } catch (error) {
-        logger.error('❌ Failed to parse webhook body:', error);
-        throw new Error('Invalid webhook body');
-      }
+      logger.error('❌ STRIPE_WEBHOOK_SECRET not configured - rejecting unverifiable webhook');
+      throw new Error('Webhook verification is not configured');
     }
 
+    let event: Stripe.Event;
     try {
       // Use original body (Buffer or string) for signature verification
       // constructEvent accepts string | Buffer according to Stripe docs
-      const event = this.stripe.webhooks.constructEvent(body as any, signature, this.webhookSecret);
-      await this.processWebhookEvent(event);
+      event = this.stripe.webhooks.constructEvent(body as any, signature, this.webhookSecret);
     } catch (error: any) {
       logger.error('❌ Webhook signature verification failed:', error);
       logger.error('📊 Webhook details:', {
@@ -224,26 +257,73 @@ export class StripeService {
         bodyType: typeof body,
         bodyLength: body instanceof Buffer ? body.length : body.toString().length
       });
+      throw new Error(`Webhook verification failed: ${error.message}`, { cause: error });
+    }
 
-      // Fallback: try to process without verification (temporary fix)
-      logger.warn('🔧 Attempting to process webhook without verification as fallback');
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const event = JSON.parse(bodyString as string);
-        await this.processWebhookEvent(event);
-        logger.warn('✅ Processed webhook without verification (fix webhook secret ASAP)');
-        return;
-      } catch (fallbackError) {
-        logger.error('❌ Fallback webhook processing failed:', fallbackError);
-        throw new Error(`Webhook verification failed: ${error.message}`);
-      }
+    // Outside the try so a handler failure is not mistaken for a bad signature
+    await this.processWebhookEvent(event, true);
+  }
+
+  /**
+   * Re-run a failed webhook event from the ledger. Returns the updated ledger
+   * entry, which records the error if the event failed again.
+   */
+  async replayWebhookEvent(eventId: string, replayedBy: string): Promise<WebhookEventDocument> {
+    const record = await webhookEventRepository.claimForReplay(eventId, replayedBy);
+    logger.info(`🔁 Replaying Stripe webhook ${record.type} (ID: ${eventId}) for ${replayedBy}`);
+
+    try {
+      await this.dispatchWebhookEvent(record.payload as unknown as Stripe.Event);
+    } catch {
+      // Recorded on the ledger entry returned below
     }
+
+    const updated = await webhookEventRepository.findById(eventId);
+    return updated ?? record;
   }
 
   /**
-   * Process webhook event (common for both verified and development events)
+   * Webhook ledger entries, newest first
    */
-  private async processWebhookEvent(event: Stripe.Event): Promise<void> {
+  async getWebhookEvents(
+    filters: WebhookEventFilters,
+    page: { page: number; limit: number }
+  ): Promise<{ items: WebhookEventDocument[]; total: number }> {
+    return webhookEventRepository.findMany(filters, page);
+  }
+
+  /**
+   * Process webhook event (common for both verified and development events).
+   * Every event is recorded in the webhook ledger so Stripe retries of an
+   * event that was already handled are not applied twice. Events that move
+   * money are only handled when their signature was verified, so they never
+   * reach the ledger (or a replay) otherwise.
+   */
+  private async processWebhookEvent(event: Stripe.Event, verified: boolean): Promise<void> {
+    if (!verified && VERIFIED_ONLY_EVENTS.has(event.type)) {
+      logger.warn(`🚫 Refusing unverified webhook ${event.type} (ID: ${event.id})`);
+      throw new Error(`Webhook ${event.type} must be signed`);
+    }
+
+    const claim = await webhookEventRepository.claim(event);
+
+    if (claim === 'processed') {
+      logger.info(`⏭️ Skipping already processed webhook: ${event.type} (ID: ${event.id})`);
+      return;
+    }
+
+    if (claim === 'in_progress') {
+      // Fail this delivery so Stripe retries once the other one has finished
+      throw new Error(`Webhook ${event.id} is already being processed`);
+    }
+
+    await this.dispatchWebhookEvent(event);
+  }
+
+  /**
+   * Run the handler for a claimed event and record the outcome in the ledger
+   */
+  private async dispatchWebhookEvent(event: Stripe.Event): Promise<void> {
     logger.info(`📨 Processing Stripe webhook: ${event.type} (ID: ${event.id})`);
 
     try {
@@ -265,26 +345,81 @@ export class StripeService {
           break;
 
         case 'charge.succeeded':
-          logger.info(`💳 Charge succeeded: ${(event.data.object as Stripe.Charge).id}`);
+          await this.handleChargeSucceeded(event.data.object as Stripe.Charge);
+          break;
+
+        case 'charge.refunded':
+          await this.handleChargeRefunded(event.data.object as Stripe.Charge);
+          break;
+
+        case 'charge.dispute.created':
+          await this.handleDisputeCreated(event.data.object as Stripe.Dispute);
+          break;
+
+        case 'charge.dispute.closed':
+          await this.handleDisputeClosed(event.data.object as Stripe.Dispute);
           break;
 
         case 'transfer.created':
-          logger.info(`💸 Transfer created: ${(event.data.object as Stripe.Transfer).id}`);
+        case 'transfer.reversed':
+          await this.handleTransferEvent(event.type, event.data.object as Stripe.Transfer);
+          break;
+
+        case 'payout.created':
+        case 'payout.paid':
+        case 'payout.failed':
+        case 'payout.canceled':
+          await this.handlePayoutEvent(event.type, event.data.object as Stripe.Payout, event.account);
           break;
 
         default:
           logger.info(`🤷 Unhandled webhook event type: ${event.type}`);
       }
 
+      await webhookEventRepository.markProcessed(event.id);
       logger.info(`✅ Successfully processed webhook: ${event.type} (ID: ${event.id})`);
     } catch (error) {
       logger.error(`❌ Failed to process webhook ${event.type} (ID: ${event.id}):`, error);
+      await webhookEventRepository.markFailed(event.id, error);
       throw error; // Re-throw to signal webhook failure
     }
   }
 
   /**
-   * Handle successful payment
+   * Reconcile platform -> Connect account transfers with payout batches
+   */
+  private async handleTransferEvent(
+    type: 'transfer.created' | 'transfer.reversed',
+    transfer: Stripe.Transfer
+  ): Promise<void> {
+    logger.info(`💸 ${type}: ${transfer.id}`);
+
+    const { payoutService } = await import('./PayoutService');
+    await payoutService.reconcileTransfer(type, transfer);
+  }
+
+  /**
+   * Reconcile Connect account -> bank payouts with payout batches.
+   * Payouts of the platform's own balance (no connected account) are only logged.
+   */
+  private async handlePayoutEvent(
+    type: 'payout.created' | 'payout.paid' | 'payout.failed' | 'payout.canceled',
+    payout: Stripe.Payout,
+    connectAccountId?: string
+  ): Promise<void> {
+    logger.info(`🏦 ${type}: ${payout.id}${connectAccountId ? ` (account ${connectAccountId})` : ''}`);
+
+    if (!connectAccountId) {
+      return;
+    }
+
+    const { payoutService } = await import('./PayoutService');
+    await payoutService.reconcileBankPayout(type, payout, connectAccountId);
+  }
+
+  /**
+   * Handle successful payment. Errors propagate so the webhook ledger marks
+   * the event failed and it can be replayed.
    */
   private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
     const { id, metadata } = paymentIntent;
@@ -292,43 +427,126 @@ export class StripeService {
     logger.info(`✅ Payment succeeded: ${id}`);
     logger.info('📊 Payment metadata:', metadata);
 
+    // Import here to avoid circular dependencies
+    const { paymentService } = await import('./PaymentService');
+
+    // Get charges for this payment intent
+    const charges = await this.stripe.charges.list({
+      payment_intent: id,
+      limit: 1,
+    });
+    const chargeId = charges.data[0]?.id || `mock_charge_${Date.now()}`;
+
+    // Update transaction status in database
+    await paymentService.updateTransactionStatus(id, 'completed', chargeId);
+
+    // Counted separately so a retry finishes a tip completed by a failed attempt
+    const transaction = await paymentService.countCompletedTip(id);
+    if (!transaction) {
+      // Unknown, not completed or already counted
+      return;
+    }
+    logger.info(`📈 Updated statistics for performer: ${transaction.toUserId}`);
+
+    await this.broadcastTip(paymentIntent);
+
+    // Log success details
+    logger.info(
+      `🎉 Tip payment completed: ${currencyService.format(paymentIntent.amount, paymentIntent.currency.toUpperCase())} for performance ${metadata.performanceId}`
+    );
+  }
+
+  /**
+   * Reconcile the estimated fee with the actual one from the balance transaction
+   */
+  private async handleChargeSucceeded(charge: Stripe.Charge): Promise<void> {
+    logger.info(`💳 Charge succeeded: ${charge.id}`);
+
+    if (charge.metadata?.type !== 'tip' || !charge.balance_transaction) {
+      return;
+    }
+
+    if (!this.stripe.balanceTransactions) {
+      logger.warn('⚠️ Development mode - skipping fee reconciliation');
+      return;
+    }
+
+    const balanceTransaction =
+      typeof charge.balance_transaction === 'string'
+        ? await this.stripe.balanceTransactions.retrieve(charge.balance_transaction)
+        : charge.balance_transaction;
+
+    // Stripe's own fee only; application fees are tracked separately
+    const stripeFee = balanceTransaction.fee_details
+      .filter((detail) => detail.type === 'stripe_fee')
+      .reduce((sum, detail) => sum + detail.amount, 0);
+    let actualFee = balanceTransaction.fee_details.length ? stripeFee : balanceTransaction.fee;
+
+    // The balance transaction is in the platform's currency; convert back to the charge's
+    if (balanceTransaction.currency !== charge.currency && balanceTransaction.exchange_rate) {
+      actualFee = Math.round(actualFee / balanceTransaction.exchange_rate);
+    }
+
+    const details = charge.payment_method_details;
+    const paymentMethod = details?.card?.wallet?.type ?? details?.type;
+
+    const { paymentService } = await import('./PaymentService');
+    await paymentService.reconcileFees({
+      paymentIntentId:
+        typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id,
+      chargeId: charge.id,
+      actualFee,
+      paymentMethod,
+    });
+  }
+
+  /**
+   * Push a completed tip to the performer and to everyone watching the performance
+   */
+  private async broadcastTip(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const { metadata, amount, currency } = paymentIntent;
+    const { performanceId, performerId } = metadata;
+
+    if (!performanceId || !performerId) return;
+
     try {
-      // Import here to avoid circular dependencies
-      const { paymentService } = await import('./PaymentService');
-      const { UserModel } = await import('../../user/entities/User');
-
-      // Get charges for this payment intent
-      const charges = await this.stripe.charges.list({
-        payment_intent: id,
-        limit: 1,
+      const { emitToPerformance, emitToUser } = await import(
+        '../../../shared/infrastructure/socket'
+      );
+      const { PerformanceModel } = await import('../../performance/entities/Performance');
+
+      const isAnonymous = metadata.isAnonymous === 'true';
+      const publicMessage = metadata.publicMessage || undefined;
+      const performance = await PerformanceModel.findById(performanceId).select('title').lean();
+      const performanceTitle = performance?.title || 'your performance';
+
+      emitToPerformance(performanceId, 'tip-received', {
+        performanceId,
+        amount,
+        currency: currency.toUpperCase(),
+        isAnonymous,
+        publicMessage,
       });
-      const chargeId = charges.data[0]?.id || `mock_charge_${Date.now()}`;
-
-      // Update transaction status in database
-      await paymentService.updateTransactionStatus(id, 'completed', chargeId);
-
-      // Update performer statistics if we have performer ID
-      if (metadata.performerId && metadata.performerId !== 'anonymous') {
-        try {
-          await UserModel.findByIdAndUpdate(metadata.performerId, {
-            $inc: {
-              'statistics.totalTips': 1,
-              'statistics.totalEarnings': parseInt(metadata.netAmount || '0', 10),
-            },
-          });
-          logger.info(`📈 Updated statistics for performer: ${metadata.performerId}`);
-        } catch (error) {
-          logger.error('❌ Failed to update performer statistics:', error);
-        }
-      }
 
-      // Log success details
-      logger.info(
-        `🎉 Tip payment completed: €${(paymentIntent.amount / 100).toFixed(2)} for performance ${metadata.performanceId}`
-      );
+      emitToUser(performerId, {
+        type: 'tip',
+        title: 'New Tip Received!',
+        message: `You received a ${currencyService.format(amount, currency.toUpperCase())} tip for "${performanceTitle}"`,
+        data: {
+          amount,
+          currency: currency.toUpperCase(),
+          performanceId,
+          performanceTitle,
+          fromUser: isAnonymous ? undefined : metadata.tipperId,
+          isAnonymous,
+          publicMessage,
+        },
+      });
+
+      const { tipGoalService } = await import('../../performance/services/TipGoalService');
+      await tipGoalService.recordProgress(performanceId);
     } catch (error) {
-      logger.error('❌ Failed to handle payment success:', error);
-      // Don't throw - webhook should still return 200 to Stripe
+      logger.error('❌ Failed to broadcast tip event:', error);
     }
   }
 
@@ -341,25 +559,20 @@ export class StripeService {
     logger.error(`❌ Payment failed: ${id}`);
     logger.error('💥 Payment error:', last_payment_error);
 
-    try {
-      // Import here to avoid circular dependencies
-      const { paymentService } = await import('./PaymentService');
-
-      // Update transaction status in database
-      await paymentService.updateTransactionStatus(
-        id,
-        'failed',
-        undefined,
-        last_payment_error?.message || 'Payment failed'
-      );
+    // Import here to avoid circular dependencies
+    const { paymentService } = await import('./PaymentService');
 
-      logger.info(
-        `💥 Payment failure recorded for: €${(paymentIntent.amount / 100).toFixed(2)} for performance ${metadata.performanceId}`
-      );
-    } catch (error) {
-      logger.error('❌ Failed to handle payment failure:', error);
-      // Don't throw - webhook should still return 200 to Stripe
-    }
+    // Update transaction status in database
+    await paymentService.updateTransactionStatus(
+      id,
+      'failed',
+      undefined,
+      last_payment_error?.message || 'Payment failed'
+    );
+
+    logger.info(
+      `💥 Payment failure recorded for: ${currencyService.format(paymentIntent.amount, paymentIntent.currency.toUpperCase())} for performance ${metadata.performanceId}`
+    );
   }
 
   /**
@@ -374,6 +587,63 @@ export class StripeService {
     // TODO: Clean up any pending records
   }
 
+  /**
+   * Handle full or partial refunds (issued from our API or the Stripe dashboard)
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const paymentIntentId =
+      typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+    logger.info(
+      `↩️ Charge refunded: ${charge.id} (${currencyService.format(charge.amount_refunded, charge.currency.toUpperCase())})`
+    );
+
+    const { paymentService } = await import('./PaymentService');
+    await paymentService.recordRefund({
+      paymentIntentId,
+      chargeId: charge.id,
+      totalRefunded: charge.amount_refunded,
+    });
+  }
+
+  /**
+   * Handle a new dispute (chargeback) - funds are withdrawn until it is resolved
+   */
+  private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    logger.warn(`⚠️ Dispute created: ${dispute.id} (${dispute.reason})`);
+
+    const { paymentService } = await import('./PaymentService');
+    await paymentService.recordDisputeOpened({
+      paymentIntentId: this.getDisputePaymentIntentId(dispute),
+      chargeId: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id,
+      disputeId: dispute.id,
+      amount: dispute.amount,
+      reason: dispute.reason,
+    });
+  }
+
+  /**
+   * Handle a resolved dispute
+   */
+  private async handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+    logger.info(`⚖️ Dispute closed: ${dispute.id} (${dispute.status})`);
+
+    const { paymentService } = await import('./PaymentService');
+    await paymentService.recordDisputeClosed({
+      paymentIntentId: this.getDisputePaymentIntentId(dispute),
+      chargeId: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id,
+      disputeId: dispute.id,
+      won: dispute.status === 'won',
+    });
+  }
+
+  private getDisputePaymentIntentId(dispute: Stripe.Dispute): string | undefined {
+    if (!dispute.payment_intent) return undefined;
+    return typeof dispute.payment_intent === 'string'
+      ? dispute.payment_intent
+      : dispute.payment_intent.id;
+  }
+
   /**
    * Handle Connect account updates
    */
@@ -415,14 +685,39 @@ export class StripeService {
   }
 
   /**
-   * Calculate fees for a given amount
+   * Estimate fees for an amount in the currency's minor units (see FeeService).
+   * processingFee includes the application fee so netAmount = amount - processingFee.
+   */
+  calculateFees(
+    amount: number,
+    currency: CurrencyCode = 'EUR',
+    paymentMethod?: string,
+    country?: string,
+    { withApplicationFee = false } = {}
+  ): FeeBreakdown {
+    const fees = feeService.estimate(
+      amount,
+      { currency, paymentMethod, country },
+      { withApplicationFee }
+    );
+
+    return { ...fees, processingFee: fees.processingFee + fees.applicationFee };
+  }
+
+  /**
+   * Check a tip amount (minor units) against its currency's limits
    */
-  calculateFees(amount: number): { processingFee: number; netAmount: number } {
-    // Stripe's standard fee: 2.9% + €0.30
-    const processingFee = Math.round(amount * 0.029 + 30);
-    const netAmount = amount - processingFee;
+  private validateTipAmount(amount: number, currency: string): CurrencyCode {
+    const code = currency.toUpperCase();
+    if (!currencyService.isSupported(code)) {
+      throw new Error(`Unsupported currency: ${currency}`);
+    }
+
+    if (!currencyService.isValidTipAmount(amount, code)) {
+      throw new Error(`Tip amount must be between ${currencyService.describeTipLimits(code)}`);
+    }
 
-    return { processingFee, netAmount };
+    return code;
   }
 
   /**
@@ -496,7 +791,7 @@ export class StripeService {
         };
       }
 
-      throw new Error(`Connect account creation failed: ${error.message}`);
+      throw new Error(`Connect account creation failed: ${error.message}`, { cause: error });
     }
   }
 
@@ -538,7 +833,7 @@ export class StripeService {
       return accountLink.url;
     } catch (error: any) {
       logger.error(`❌ Failed to create account link for ${accountId}:`, error);
-      throw new Error(`Account link creation failed: ${error.message}`);
+      throw new Error(`Account link creation failed: ${error.message}`, { cause: error });
     }
   }
 
@@ -548,30 +843,101 @@ export class StripeService {
   async createTransfer(
     amount: number,
     destinationAccountId: string,
-    transferGroup?: string
+    transferGroup?: string,
+    metadata: Record<string, string> = {},
+    currency: string = 'EUR',
+    idempotencyKey?: string
   ): Promise<string> {
     logger.info(
-      `💸 Creating transfer of €${(amount / 100).toFixed(2)} to account ${destinationAccountId}`
+      `💸 Creating transfer of ${currencyService.format(amount, currency)} to account ${destinationAccountId}`
     );
 
+    if (!this.stripe.transfers) {
+      logger.warn('⚠️ Development mode - returning mock transfer');
+      return `tr_dev_${Date.now()}`;
+    }
+
     try {
       const transfer = await this.stripe.transfers.create({
         amount,
-        currency: 'eur',
+        currency: currency.toLowerCase(),
         destination: destinationAccountId,
         transfer_group: transferGroup,
         metadata: {
           type: 'performer_payout',
+          ...metadata,
         },
-      });
+      }, idempotencyKey ? { idempotencyKey } : undefined);
 
       logger.info(
-        `💸 Created transfer: ${transfer.id} for €${(amount / 100).toFixed(2)} to account: ${destinationAccountId}`
+        `💸 Created transfer: ${transfer.id} for ${currencyService.format(amount, currency)} to account: ${destinationAccountId}`
       );
       return transfer.id;
     } catch (error: any) {
       logger.error(`❌ Failed to create transfer to ${destinationAccountId}:`, error);
-      throw new Error(`Transfer creation failed: ${error.message}`);
+      throw new Error(`Transfer creation failed: ${error.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * Reverse (part of) a transfer to a performer's Connect account
+   */
+  async reverseTransfer(transferId: string, amount: number): Promise<string> {
+    if (!this.stripe.transfers) {
+      logger.warn('⚠️ Development mode - returning mock transfer reversal');
+      return `trr_dev_${Date.now()}`;
+    }
+
+    try {
+      const reversal = await this.stripe.transfers.createReversal(transferId, {
+        amount,
+        metadata: { type: 'tip_refund' },
+      });
+
+      logger.info(
+        `↩️ Reversed ${currencyService.format(amount, reversal.currency.toUpperCase())} of transfer ${transferId}: ${reversal.id}`
+      );
+      return reversal.id;
+    } catch (error: any) {
+      logger.error(`❌ Failed to reverse transfer ${transferId}:`, error);
+      throw new Error(`Transfer reversal failed: ${error.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * Refund (part of) a tip. Destination charges also reverse the Connect
+   * transfer and application fee; separate transfers are reversed by PaymentService.
+   */
+  async createRefund(request: CreateRefundRequest): Promise<string> {
+    const { paymentIntentId, amount, reason, transactionId } = request;
+
+    if (!this.stripe.refunds) {
+      logger.warn('⚠️ Development mode - returning mock refund');
+      return `re_dev_${Date.now()}`;
+    }
+
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+      const isDestinationCharge = Boolean(paymentIntent.transfer_data?.destination);
+
+      const refund = await this.stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount,
+        reason,
+        ...(isDestinationCharge && {
+          reverse_transfer: true,
+          refund_application_fee: true,
+        }),
+        metadata: { transactionId },
+      });
+
+      logger.info(
+        `↩️ Created refund ${refund.id} of ${currencyService.format(amount, refund.currency.toUpperCase())} for payment intent ${paymentIntentId}`
+      );
+      return refund.id;
+    } catch (error: any) {
+      logger.error(`❌ Failed to refund payment intent ${paymentIntentId}:`, error);
+      throw new Error(`Refund creation failed: ${error.message}`, { cause: error });
     }
   }
 
@@ -583,27 +949,27 @@ export class StripeService {
   ): Promise<PaymentIntentResult> {
     const {
       amount,
-      currency,
       performanceId,
       performerId,
       tipperId,
       isAnonymous,
       publicMessage,
+      country,
       stripeAccountId,
     } = request;
-
-    // Validate amount (minimum €0.50, maximum €100)
-    if (amount < 50 || amount > 10000) {
-      throw new Error('Tip amount must be between €0.50 and €100.00');
-    }
+    const currency = this.validateTipAmount(amount, request.currency);
 
     // Stripe is required to be configured at this point
 
     try {
-      // Calculate fees
-      const applicationFeeAmount = Math.round(amount * 0.05); // 5% platform fee
-      const processingFee = Math.round(amount * 0.029 + 30); // Stripe's fee
-      const netAmount = amount - processingFee - applicationFeeAmount;
+      // Stripe's fee plus the platform's application fee (PLATFORM_FEE_PERCENT)
+      const { processingFee, applicationFee, netAmount } = this.calculateFees(
+        amount,
+        currency,
+        'card',
+        country,
+        { withApplicationFee: true }
+      );
 
       const paymentIntentData: Stripe.PaymentIntentCreateParams = {
         amount,
@@ -617,38 +983,43 @@ export class StripeService {
           isAnonymous: String(isAnonymous || false),
           publicMessage: publicMessage || '',
           processingFee: String(processingFee),
-          applicationFee: String(applicationFeeAmount),
+          applicationFee: String(applicationFee),
           netAmount: String(netAmount),
         },
         description: `Tip for street performance ${performanceId}`,
         statement_descriptor_suffix: 'Street Music',
+        receipt_email: request.receiptEmail,
       };
 
       // If performer has Connect account, use direct charge
       if (stripeAccountId) {
-        paymentIntentData.application_fee_amount = applicationFeeAmount;
+        paymentIntentData.application_fee_amount = applicationFee;
         paymentIntentData.on_behalf_of = stripeAccountId;
         paymentIntentData.transfer_data = {
           destination: stripeAccountId,
         };
       }
 
-      const paymentIntent = await this.stripe.paymentIntents.create(paymentIntentData);
+      const paymentIntent = await this.stripe.paymentIntents.create(
+        paymentIntentData,
+        request.idempotencyKey ? { idempotencyKey: request.idempotencyKey } : undefined
+      );
 
       logger.info(
-        `💳 Created payment intent: ${paymentIntent.id} for €${(amount / 100).toFixed(2)}${stripeAccountId ? ` with Connect account: ${stripeAccountId}` : ''}`
+        `💳 Created payment intent: ${paymentIntent.id} for ${currencyService.format(amount, currency)}${stripeAccountId ? ` with Connect account: ${stripeAccountId}` : ''}`
       );
 
       return {
         paymentIntentId: paymentIntent.id,
         clientSecret: paymentIntent.client_secret || '',
         amount,
-        processingFee: processingFee + applicationFeeAmount,
+        processingFee,
+        applicationFee,
         netAmount,
       };
     } catch (error: any) {
       logger.error('❌ Failed to create payment intent with Connect:', error);
-      throw new Error(`Payment intent creation failed: ${error.message}`);
+      throw new Error(`Payment intent creation failed: ${error.message}`, { cause: error });
     }
   }
 
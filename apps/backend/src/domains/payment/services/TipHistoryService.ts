@@ -0,0 +1,272 @@
+import { type FilterQuery, isValidObjectId } from "mongoose";
+import {
+	ConflictError,
+	NotFoundError,
+} from "../../../shared/utils/errors";
+import type {
+	CurrencyCode,
+	TippedPerformer,
+	TipperPerformerSummary,
+	TipperTip,
+} from "@spm/shared-types";
+import {
+	type ITransaction,
+	Transaction,
+	type TransactionDocument,
+} from "../entities/Transaction";
+import { currencyService } from "./CurrencyService";
+
+export interface TipHistoryFilters {
+	status?: ITransaction["status"];
+	performerId?: string;
+	from?: Date;
+	to?: Date;
+}
+
+// Tips that were actually paid, including ones refunded afterwards
+const PAID_STATUSES: ITransaction["status"][] = ["completed", "refunded"];
+
+const TIP_FIELDS =
+	"amount refundedAmount currency status isAnonymous publicMessage toUserId performanceId createdAt";
+
+const escapeHtml = (value: string): string =>
+	value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+
+export class TipHistoryService {
+	/**
+	 * Tips the user has given, newest first
+	 */
+	async getTips(
+		tipperId: string,
+		filters: TipHistoryFilters = {},
+		page = 1,
+		limit = 20,
+	): Promise<{ tips: TipperTip[]; total: number }> {
+		const query: FilterQuery<TransactionDocument> = { fromUserId: tipperId };
+		if (filters.status) query.status = filters.status;
+		if (filters.performerId) query.toUserId = filters.performerId;
+		if (filters.from || filters.to) {
+			query.createdAt = {
+				...(filters.from && { $gte: filters.from }),
+				...(filters.to && { $lte: filters.to }),
+			};
+		}
+
+		const [transactions, total] = await Promise.all([
+			Transaction.find(query)
+				.select(TIP_FIELDS)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			Transaction.countDocuments(query),
+		]);
+
+		const [performers, performances] = await Promise.all([
+			this.findPerformers(transactions.map((t) => t.toUserId)),
+			this.findPerformanceTitles(transactions.map((t) => t.performanceId)),
+		]);
+
+		return {
+			tips: transactions.map((transaction) => ({
+				_id: transaction._id.toString(),
+				amount: transaction.amount,
+				refundedAmount: transaction.refundedAmount || 0,
+				currency: transaction.currency as CurrencyCode,
+				status: transaction.status,
+				isAnonymous: transaction.isAnonymous,
+				publicMessage: transaction.publicMessage,
+				createdAt: transaction.createdAt,
+				performer: this.toPerformer(transaction.toUserId, performers),
+				performance: performances.get(transaction.performanceId) ?? null,
+			})),
+			total,
+		};
+	}
+
+	/**
+	 * Paid tips grouped by performer, most recently tipped first
+	 */
+	async getPerformerSummaries(
+		tipperId: string,
+	): Promise<TipperPerformerSummary[]> {
+		const groups = await Transaction.aggregate<{
+			_id: string;
+			tipCount: number;
+			lastTippedAt: Date;
+			totals: { currency: CurrencyCode; amount: number }[];
+		}>([
+			{ $match: { fromUserId: tipperId, status: { $in: PAID_STATUSES } } },
+			{
+				$group: {
+					_id: { performerId: "$toUserId", currency: "$currency" },
+					amount: {
+						$sum: {
+							$subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+						},
+					},
+					tipCount: { $sum: 1 },
+					lastTippedAt: { $max: "$createdAt" },
+				},
+			},
+			{ $sort: { amount: -1 } },
+			{
+				$group: {
+					_id: "$_id.performerId",
+					tipCount: { $sum: "$tipCount" },
+					lastTippedAt: { $max: "$lastTippedAt" },
+					totals: { $push: { currency: "$_id.currency", amount: "$amount" } },
+				},
+			},
+			{ $sort: { lastTippedAt: -1 } },
+		]);
+
+		const performers = await this.findPerformers(groups.map((g) => g._id));
+
+		return groups.map((group) => ({
+			performer: this.toPerformer(group._id, performers),
+			tipCount: group.tipCount,
+			totals: group.totals,
+			lastTippedAt: group.lastTippedAt,
+		}));
+	}
+
+	/**
+	 * Printable HTML receipt of a paid tip. Only the tipper can get one;
+	 * other users get a 404 so transaction ids can't be probed.
+	 */
+	async renderReceipt(transactionId: string, tipperId: string): Promise<string> {
+		if (!isValidObjectId(transactionId)) {
+			throw new NotFoundError("Transaction");
+		}
+
+		const transaction = await Transaction.findOne({
+			_id: transactionId,
+			fromUserId: tipperId,
+		}).lean();
+		if (!transaction) {
+			throw new NotFoundError("Transaction");
+		}
+		if (!PAID_STATUSES.includes(transaction.status)) {
+			throw new ConflictError("Receipts are available once the payment has completed");
+		}
+
+		const [performers, performances] = await Promise.all([
+			this.findPerformers([transaction.toUserId]),
+			this.findPerformanceTitles([transaction.performanceId]),
+		]);
+		const performer = this.toPerformer(transaction.toUserId, performers);
+		const performance = performances.get(transaction.performanceId);
+
+		const { currency } = transaction;
+		const refunded = transaction.refundedAmount || 0;
+		const rows: [string, string][] = [
+			["Receipt number", transaction._id.toString()],
+			["Date", transaction.createdAt.toUTCString()],
+			["Performer", performer.displayName],
+			["Performance", performance?.title ?? "Deleted performance"],
+			["Payment method", transaction.paymentMethod.replace(/_/g, " ")],
+			["Tip amount", currencyService.format(transaction.amount, currency)],
+		];
+		if (refunded > 0) {
+			rows.push(
+				["Refunded", `−${currencyService.format(refunded, currency)}`],
+				["Total paid", currencyService.format(transaction.amount - refunded, currency)],
+			);
+		}
+		if (transaction.publicMessage) {
+			rows.push(["Message", transaction.publicMessage]);
+		}
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tip receipt ${escapeHtml(transaction._id.toString())}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 480px; margin: 40px auto; color: #111; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+p { color: #555; margin-top: 0; }
+table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #ddd; vertical-align: top; }
+th { color: #555; font-weight: normal; width: 40%; }
+footer { margin-top: 24px; font-size: 12px; color: #777; }
+</style>
+</head>
+<body>
+<h1>🎵 StreetPerformersMap tip receipt</h1>
+<p>Thank you for supporting street performers.</p>
+<table>
+${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+<footer>Payment processed securely by Stripe.</footer>
+</body>
+</html>
+`;
+	}
+
+	private async findPerformers(
+		performerIds: string[],
+	): Promise<Map<string, TippedPerformer>> {
+		const { UserModel } = await import("../../user/entities/User");
+		const users = await UserModel.find({ _id: { $in: this.toObjectIds(performerIds) } })
+			.select("profile.displayName profile.avatar")
+			.lean();
+
+		return new Map(
+			users.map((user) => [
+				user._id.toString(),
+				{
+					_id: user._id.toString(),
+					displayName: user.profile.displayName,
+					avatar: user.profile.avatar,
+				},
+			]),
+		);
+	}
+
+	private async findPerformanceTitles(
+		performanceIds: string[],
+	): Promise<Map<string, { _id: string; title: string }>> {
+		const { PerformanceModel } = await import(
+			"../../performance/entities/Performance"
+		);
+		const performances = await PerformanceModel.find({
+			_id: { $in: this.toObjectIds(performanceIds) },
+		})
+			.select("title")
+			.lean();
+
+		return new Map(
+			performances.map((performance) => [
+				performance._id.toString(),
+				{ _id: performance._id.toString(), title: performance.title },
+			]),
+		);
+	}
+
+	// Ids stored from requests aren't guaranteed to be ObjectIds
+	private toObjectIds(ids: string[]): string[] {
+		return [...new Set(ids)].filter((id) => isValidObjectId(id));
+	}
+
+	// Performers can delete their account; keep their tips listed
+	private toPerformer(
+		performerId: string,
+		performers: Map<string, TippedPerformer>,
+	): TippedPerformer {
+		return (
+			performers.get(performerId) ?? {
+				_id: performerId,
+				displayName: "Former performer",
+			}
+		);
+	}
+}
+
+export const tipHistoryService = new TipHistoryService();
@@ -0,0 +1,190 @@
+import { randomInt } from "node:crypto";
+import QRCode from "qrcode";
+import { TipLinkModel, type TipLinkDocument } from "../entities/TipLink";
+import { ApiError, NotFoundError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import type { TipLink, TipLinkTarget } from "@spm/shared-types";
+
+export type QrCodeFormat = "png" | "svg";
+
+// No 0/O or 1/l/I so printed codes can be typed by hand
+const CODE_ALPHABET =
+	"23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_LENGTH = 7;
+const MAX_CODE_ATTEMPTS = 5;
+
+export class TipLinkService {
+	/**
+	 * The performer's own link, or the link of one of their performances.
+	 * Links are created on first use and never change afterwards.
+	 */
+	async getOrCreate(
+		performerId: string,
+		performanceId?: string,
+	): Promise<TipLink> {
+		if (performanceId) {
+			const { PerformanceModel } = await import(
+				"../../performance/entities/Performance"
+			);
+			const performance = await PerformanceModel.findById(performanceId)
+				.select("performerId")
+				.lean();
+			if (!performance) {
+				throw new NotFoundError("Performance");
+			}
+			if (performance.performerId.toString() !== performerId) {
+				throw new ApiError(403, "You can only share your own performances");
+			}
+		}
+
+		const filter = { performerId, performanceId: performanceId ?? null };
+		const existing = await TipLinkModel.findOne(filter).lean();
+		if (existing) return this.toTipLink(existing);
+
+		for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+			try {
+				const link = await TipLinkModel.create({
+					code: this.generateCode(),
+					performerId,
+					performanceId,
+				});
+				logger.info(`🔗 Created tip link ${link.code} for performer ${performerId}`, {
+					context: "TipLinkService",
+					performanceId,
+				});
+				return this.toTipLink(link);
+			} catch (error) {
+				if ((error as { code?: number }).code !== 11000) throw error;
+
+				// Either the code is taken or a concurrent request created the link
+				const created = await TipLinkModel.findOne(filter).lean();
+				if (created) return this.toTipLink(created);
+			}
+		}
+
+		logger.error("❌ Could not generate a unique tip link code", {
+			context: "TipLinkService",
+			performerId,
+		});
+		throw new ApiError(500, "Could not create tip link");
+	}
+
+	/**
+	 * What a scanned code should open: the performer and the performance to
+	 * tip. Links of finished performances fall back to the performer's
+	 * current one; performance is null when nothing is scheduled.
+	 */
+	async resolve(code: string): Promise<TipLinkTarget> {
+		const link = await TipLinkModel.findOneAndUpdate(
+			{ code },
+			{ $inc: { scans: 1 } },
+			{ new: true },
+		).lean();
+		if (!link) {
+			throw new NotFoundError("Tip link");
+		}
+
+		const { UserModel } = await import("../../user/entities/User");
+		const performer = await UserModel.findById(link.performerId)
+			.select("profile.displayName profile.avatar role")
+			.lean();
+		if (!performer || performer.role !== "performer") {
+			throw new NotFoundError("Performer");
+		}
+
+		const performance = await this.findTippablePerformance(
+			link.performerId,
+			link.performanceId,
+		);
+
+		return {
+			code: link.code,
+			performer: {
+				_id: link.performerId,
+				displayName: performer.profile.displayName,
+				avatar: performer.profile.avatar,
+			},
+			performance: performance
+				? {
+						_id: performance._id.toString(),
+						title: performance.title,
+						genre: performance.genre,
+						status: performance.status,
+						scheduledFor: performance.scheduledFor,
+					}
+				: null,
+		};
+	}
+
+	/**
+	 * QR code of the link's public URL
+	 */
+	async renderQrCode(code: string, format: QrCodeFormat): Promise<Buffer | string> {
+		const exists = await TipLinkModel.exists({ code });
+		if (!exists) {
+			throw new NotFoundError("Tip link");
+		}
+
+		const url = this.buildUrl(code);
+		const options = { margin: 2, width: 512, errorCorrectionLevel: "M" as const };
+
+		return format === "svg"
+			? QRCode.toString(url, { ...options, type: "svg" })
+			: QRCode.toBuffer(url, { ...options, type: "png" });
+	}
+
+	// Live first, then the next upcoming performance that is not hidden
+	private async findTippablePerformance(
+		performerId: string,
+		performanceId?: string,
+	) {
+		const { PerformanceModel } = await import(
+			"../../performance/entities/Performance"
+		);
+		const open = {
+			status: { $in: ["live", "scheduled"] },
+			archivedAt: { $exists: false },
+			expiresAt: { $gt: new Date() },
+			"moderation.status": { $ne: "hidden" },
+		};
+		const fields = "title genre status scheduledFor";
+
+		if (performanceId) {
+			const performance = await PerformanceModel.findOne({
+				_id: performanceId,
+				...open,
+			})
+				.select(fields)
+				.lean();
+			if (performance) return performance;
+		}
+
+		return PerformanceModel.findOne({ performerId, ...open })
+			.select(fields)
+			.sort({ status: 1, scheduledFor: 1 }) // "live" sorts before "scheduled"
+			.lean();
+	}
+
+	private toTipLink(link: Pick<TipLinkDocument, "code" | "performanceId">): TipLink {
+		return {
+			code: link.code,
+			url: this.buildUrl(link.code),
+			performanceId: link.performanceId ?? undefined,
+		};
+	}
+
+	private buildUrl(code: string): string {
+		const baseUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+		return `${baseUrl}/t/${code}`;
+	}
+
+	private generateCode(): string {
+		let code = "";
+		for (let i = 0; i < CODE_LENGTH; i++) {
+			code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+		}
+		return code;
+	}
+}
+
+export const tipLinkService = new TipLinkService();
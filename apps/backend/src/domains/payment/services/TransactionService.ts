@@ -1,10 +1,17 @@
+import type { CursorPage } from "@spm/shared-types";
 import { logger } from "../../../shared/utils/logger";
+import {
+	DEFAULT_PAGE_LIMIT,
+	decodeCursor,
+	toCursorPage,
+} from "../../../shared/utils/pagination";
 import type { TransactionDocument } from "../entities/Transaction";
 import {
 	type TransactionFilters,
 	type TransactionSummary,
 	transactionRepository,
 } from "../repositories/TransactionRepository";
+import { currencyService } from "./CurrencyService";
 
 export interface CreateTransactionRequest {
 	performerId: string;
@@ -40,7 +47,7 @@ export class TransactionService {
 			const transaction = await transactionRepository.create(transactionData);
 
 			logger.info(
-				`💰 Created tip transaction: ${transaction._id} for €${(request.amount / 100).toFixed(2)}`,
+				`💰 Created tip transaction: ${transaction._id} for ${currencyService.format(request.amount, request.currency)}`,
 			);
 
 			return transaction;
@@ -51,40 +58,35 @@ export class TransactionService {
 	}
 
 	/**
-	 * Get performer's tips
+	 * Get performer's tips, a page at a time
 	 */
 	async getPerformerTips(
 		performerId: string,
 		filters: TransactionFilters = {},
-		page = 1,
-		limit = 20,
-	): Promise<{ tips: TransactionDocument[]; total: number; hasMore: boolean }> {
+		page: { cursor?: string; limit?: number } = {},
+	): Promise<CursorPage<TransactionDocument>> {
+		const { limit = DEFAULT_PAGE_LIMIT } = page;
+		const after = decodeCursor(page.cursor); // Outside the try so a bad cursor stays a 400
+
 		try {
-			const offset = (page - 1) * limit;
 			const tips = await transactionRepository.getPerformerTips(
 				performerId,
 				filters,
-				limit + 1,
-				offset,
+				limit + 1, // The extra tip tells whether there is a next page
+				after,
 			);
 
-			const hasMore = tips.length > limit;
-			if (hasMore) {
-				tips.pop(); // Remove the extra item used for pagination
-			}
-
 			logger.debug(
-				`📊 Retrieved ${tips.length} tips for performer ${performerId}`,
+				`📊 Retrieved ${Math.min(tips.length, limit)} tips for performer ${performerId}`,
 				{
 					context: "TransactionService",
 				},
 			);
 
-			return {
-				tips,
-				total: tips.length,
-				hasMore,
-			};
+			return toCursorPage(tips, limit, (tip) => ({
+				key: tip.createdAt.getTime(),
+				id: String(tip._id),
+			}));
 		} catch (error: any) {
 			logger.error(
 				`❌ Failed to get performer tips for ${performerId}:`,
@@ -174,7 +176,7 @@ export class TransactionService {
 
 			if (completedTransaction) {
 				logger.info(
-					`✅ Completed transaction: ${completedTransaction._id} for €${(completedTransaction.amount / 100).toFixed(2)}`,
+					`✅ Completed transaction: ${completedTransaction._id} for ${currencyService.format(completedTransaction.amount, completedTransaction.currency)}`,
 				);
 			}
 
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { PerformanceRepository } from '../repositories/PerformanceRepository';
+import { PerformanceModel } from '../entities/Performance';
+
+vi.mock('../entities/Performance');
+
+const mockPerformanceModel = vi.mocked(PerformanceModel);
+
+const LAST_ID = '64b7f0c2a1b2c3d4e5f60760';
+const MADRID: [number, number] = [-3.7038, 40.4168];
+
+describe('PerformanceRepository', () => {
+	const repository = new PerformanceRepository();
+
+	const getPipeline = (): any[] => vi.mocked(mockPerformanceModel.aggregate).mock.calls[0][0];
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		mockPerformanceModel.aggregate = vi.fn().mockResolvedValue([]);
+		mockPerformanceModel.populate = vi.fn().mockResolvedValue([]);
+	});
+
+	describe('findNearby', () => {
+		it('should start the first page at the center, nearest first', async () => {
+			await repository.findNearby(MADRID, 5, undefined, 21);
+
+			const pipeline = getPipeline();
+			expect(pipeline[0].$geoNear).toMatchObject({
+				near: { type: 'Point', coordinates: MADRID },
+				maxDistance: 5000
+			});
+			expect(pipeline[0].$geoNear).not.toHaveProperty('minDistance');
+			expect(pipeline.some((stage) => stage.$match)).toBe(false);
+			expect(pipeline.slice(-2)).toEqual([{ $sort: { sortKey: 1, _id: 1 } }, { $limit: 21 }]);
+		});
+
+		it('should skip nearer rows with minDistance and break distance ties on _id', async () => {
+			await repository.findNearby(MADRID, 5, { genre: 'jazz' }, 21, { key: 350, id: LAST_ID });
+
+			const pipeline = getPipeline();
+			// minDistance keeps rows at exactly the last distance; $match drops the ones already seen
+			expect(pipeline[0].$geoNear).toMatchObject({
+				minDistance: 350,
+				query: expect.objectContaining({ genre: 'jazz' })
+			});
+			expect(pipeline[2]).toEqual({
+				$match: {
+					$or: [
+						{ sortKey: { $gt: 350 } },
+						{ sortKey: 350, _id: { $gt: new Types.ObjectId(LAST_ID) } }
+					]
+				}
+			});
+			expect(pipeline.slice(-2)).toEqual([{ $sort: { sortKey: 1, _id: 1 } }, { $limit: 21 }]);
+		});
+
+		it('should continue highest first with ties on _id when sorting by rank', async () => {
+			await repository.findNearby(MADRID, 5, undefined, 21, { key: 12, id: LAST_ID }, 'popular');
+
+			const pipeline = getPipeline();
+			// Distance doesn't order this listing, so nothing is skipped by it
+			expect(pipeline[0].$geoNear).not.toHaveProperty('minDistance');
+			expect(pipeline[1]).toEqual({ $addFields: { sortKey: '$engagement.likes' } });
+			expect(pipeline[2]).toEqual({
+				$match: {
+					$or: [
+						{ sortKey: { $lt: 12 } },
+						{ sortKey: 12, _id: { $lt: new Types.ObjectId(LAST_ID) } }
+					]
+				}
+			});
+			expect(pipeline.slice(-2)).toEqual([{ $sort: { sortKey: -1, _id: -1 } }, { $limit: 21 }]);
+		});
+	});
+});
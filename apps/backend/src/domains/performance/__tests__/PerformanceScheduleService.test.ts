@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	buildOccurrence,
+	expandRecurrence,
+	performanceScheduleService
+} from '../services/PerformanceScheduleService';
+import { PerformanceRepository } from '../repositories/PerformanceRepository';
+import { PerformanceScheduleRepository } from '../repositories/PerformanceScheduleRepository';
+
+vi.mock('../repositories/PerformanceRepository');
+vi.mock('../repositories/PerformanceScheduleRepository');
+
+const performanceRepository = vi.mocked(PerformanceRepository.prototype);
+const scheduleRepository = vi.mocked(PerformanceScheduleRepository.prototype);
+
+const SCHEDULE_ID = '64b7f0c2a1b2c3d4e5f60740';
+
+const stop = (startTime: string, endTime: string) => ({
+	location: { coordinates: [-3.7038, 40.4168] as [number, number], address: 'Puerta del Sol' },
+	startTime,
+	endTime
+});
+
+const buildSchedule = (overrides: Record<string, unknown> = {}): any => ({
+	_id: { toString: () => SCHEDULE_ID },
+	performerId: 'performer_123',
+	title: 'Sunday Jazz',
+	genre: 'jazz',
+	stops: [stop('18:00', '19:00')],
+	timezone: 'Europe/Madrid',
+	recurrence: { frequency: 'daily', interval: 1, startDate: '2025-01-01' },
+	exceptions: [],
+	status: 'active',
+	set: vi.fn(function (this: Record<string, unknown>, data: Record<string, unknown>) {
+		Object.assign(this, data);
+	}),
+	save: vi.fn().mockResolvedValue(true),
+	toJSON: vi.fn(() => ({ _id: SCHEDULE_ID })),
+	...overrides
+});
+
+describe('PerformanceScheduleService', () => {
+	describe('expandRecurrence', () => {
+		it('should repeat daily schedules every N days counted from the start date', () => {
+			const dates = expandRecurrence(
+				{ frequency: 'daily', interval: 3, startDate: '2025-01-01' },
+				'2025-01-02',
+				'2025-01-10'
+			);
+
+			expect(dates).toEqual(['2025-01-04', '2025-01-07', '2025-01-10']);
+		});
+
+		it('should only use the chosen days in every Nth week', () => {
+			// Mondays and Fridays every other week, starting on Monday 6 January
+			const dates = expandRecurrence(
+				{ frequency: 'weekly', interval: 2, daysOfWeek: [1, 5], startDate: '2025-01-06' },
+				'2025-01-06',
+				'2025-01-26'
+			);
+
+			expect(dates).toEqual(['2025-01-06', '2025-01-10', '2025-01-20', '2025-01-24']);
+		});
+
+		it('should count weeks from the week the schedule starts in', () => {
+			// Starts on a Friday; the Sunday of that week begins week 0
+			const dates = expandRecurrence(
+				{ frequency: 'weekly', interval: 2, daysOfWeek: [0], startDate: '2025-01-10' },
+				'2025-01-10',
+				'2025-01-31'
+			);
+
+			expect(dates).toEqual(['2025-01-19']);
+		});
+
+		it('should include both ends of the range', () => {
+			const dates = expandRecurrence(
+				{ frequency: 'daily', interval: 1, startDate: '2025-01-01' },
+				'2025-01-01',
+				'2025-01-01'
+			);
+
+			expect(dates).toEqual(['2025-01-01']);
+		});
+	});
+
+	describe('buildOccurrence', () => {
+		it('should convert stop times from the schedule timezone', () => {
+			const occurrence = buildOccurrence(buildSchedule(), '2025-01-15');
+
+			expect(occurrence.route.stops[0].startTime).toEqual(new Date('2025-01-15T17:00:00Z'));
+			expect(occurrence.route.stops[0].endTime).toEqual(new Date('2025-01-15T18:00:00Z'));
+			expect(occurrence.scheduledFor).toEqual(new Date('2025-01-15T17:00:00Z'));
+			expect(occurrence.expiresAt).toEqual(new Date('2025-01-16T17:00:00Z'));
+			expect(occurrence).toMatchObject({
+				scheduleId: SCHEDULE_ID,
+				occurrenceDate: '2025-01-15',
+				status: 'scheduled'
+			});
+		});
+
+		it('should follow the daylight saving change in the schedule timezone', () => {
+			// Madrid moves from UTC+1 to UTC+2 on 30 March 2025
+			const before = buildOccurrence(buildSchedule(), '2025-03-29');
+			const after = buildOccurrence(buildSchedule(), '2025-03-30');
+
+			expect(before.route.stops[0].startTime).toEqual(new Date('2025-03-29T17:00:00Z'));
+			expect(after.route.stops[0].startTime).toEqual(new Date('2025-03-30T16:00:00Z'));
+		});
+
+		it('should end a stop the next day when it runs past midnight', () => {
+			const occurrence = buildOccurrence(
+				buildSchedule({ stops: [stop('23:00', '03:00')] }),
+				'2025-03-29'
+			);
+
+			// The clocks go forward during the stop, so it lasts three hours
+			expect(occurrence.route.stops[0].startTime).toEqual(new Date('2025-03-29T22:00:00Z'));
+			expect(occurrence.route.stops[0].endTime).toEqual(new Date('2025-03-30T01:00:00Z'));
+		});
+
+		it('should roll later stops over to the next day', () => {
+			const occurrence = buildOccurrence(
+				buildSchedule({ stops: [stop('22:00', '23:30'), stop('00:30', '01:30')] }),
+				'2025-01-15'
+			);
+
+			expect(occurrence.route.stops[1].startTime).toEqual(new Date('2025-01-15T23:30:00Z'));
+			expect(occurrence.route.stops[1].endTime).toEqual(new Date('2025-01-16T00:30:00Z'));
+		});
+	});
+
+	describe('updateSchedule', () => {
+		beforeEach(() => {
+			vi.clearAllMocks();
+			vi.useFakeTimers({ toFake: ['Date'] });
+			vi.setSystemTime(new Date('2025-01-10T12:00:00Z'));
+
+			performanceRepository.deleteUpcomingOccurrences.mockResolvedValue(0);
+			performanceRepository.create.mockResolvedValue({} as any);
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should regenerate upcoming occurrences but keep detached ones and exceptions', async () => {
+			const schedule = buildSchedule({
+				recurrence: { frequency: 'daily', interval: 1, startDate: '2025-01-01', endDate: '2025-01-14' },
+				exceptions: ['2025-01-12']
+			});
+			scheduleRepository.findById.mockResolvedValue(schedule);
+			// The 13th was edited individually, so it survives the regeneration
+			performanceRepository.findOccurrenceDates.mockResolvedValue(['2025-01-13']);
+
+			await performanceScheduleService.updateSchedule(
+				SCHEDULE_ID,
+				{ title: 'Sunday Jazz Trio' },
+				'performer_123'
+			);
+
+			expect(performanceRepository.deleteUpcomingOccurrences).toHaveBeenCalledWith(SCHEDULE_ID);
+			const created = performanceRepository.create.mock.calls.map(([occurrence]) => occurrence.occurrenceDate);
+			expect(created).toEqual(['2025-01-10', '2025-01-11', '2025-01-14']);
+			expect(performanceRepository.create.mock.calls[0][0].title).toBe('Sunday Jazz Trio');
+			expect(schedule.materializedUntil).toBe('2025-01-14');
+		});
+
+		it('should not edit schedules of other performers', async () => {
+			scheduleRepository.findById.mockResolvedValue(buildSchedule());
+
+			await expect(
+				performanceScheduleService.updateSchedule(SCHEDULE_ID, { title: 'Mine now' }, 'someone_else')
+			).rejects.toThrow('You can only manage your own schedules');
+
+			expect(performanceRepository.deleteUpcomingOccurrences).not.toHaveBeenCalled();
+		});
+	});
+});
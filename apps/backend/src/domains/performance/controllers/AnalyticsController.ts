@@ -1,8 +1,13 @@
-import type { Request, Response } from "express";
+import type { NextFunction, Request, Response } from "express";
+import { getPerformanceViewerCount } from "../../../shared/infrastructure/socket";
 import { ApiError } from "../../../shared/utils/errors";
-import { logger } from "../../../shared/utils/logger";
+import { isValidTimeZone } from "../../../shared/utils/timezone";
 import { Transaction } from "../../payment/entities/Transaction";
 import { PerformanceModel } from "../entities/Performance";
+import { PerformanceEventRepository } from "../repositories/PerformanceEventRepository";
+
+// Window used to compute the current like velocity
+const LIKE_VELOCITY_WINDOW_MINUTES = 15;
 
 export interface AnalyticsDateRange {
 	startDate?: Date;
@@ -18,6 +23,12 @@ export interface PerformanceAnalytics {
 		totalEarnings: number;
 		averageRating: number;
 	};
+	// Net earnings split by settlement currency (totalEarnings mixes them)
+	earningsByCurrency: Array<{
+		currency: string;
+		tips: number;
+		earnings: number;
+	}>;
 	performanceBreakdown: {
 		live: number;
 		scheduled: number;
@@ -51,11 +62,17 @@ export interface PerformanceAnalytics {
 }
 
 export class AnalyticsController {
+	private readonly eventRepository = new PerformanceEventRepository();
+
 	/**
 	 * Get comprehensive analytics for a performer
 	 * GET /api/performances/analytics
 	 */
-	getPerformerAnalytics = async (req: Request, res: Response): Promise<void> => {
+	getPerformerAnalytics = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
 		try {
 			const userId = req.user?.userId;
 			const { startDate, endDate, period = '30d' } = req.query;
@@ -73,40 +90,33 @@ export class AnalyticsController {
 				success: true,
 				data: analytics,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get performer analytics error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	};
 
 	/**
 	 * Get analytics for a specific performance
-	 * GET /api/performances/:id/analytics
+	 * GET /api/performances/:id/analytics?timezone=Europe/Madrid
 	 */
-	getPerformanceAnalytics = async (req: Request, res: Response): Promise<void> => {
+	getPerformanceAnalytics = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
 		try {
 			const { id } = req.params;
 			const userId = req.user?.userId;
+			const timezone = (req.query.timezone as string) || "UTC";
 
 			if (!userId) {
 				throw new ApiError(401, "Authentication required");
 			}
 
+			if (!isValidTimeZone(timezone)) {
+				throw new ApiError(400, "Invalid timezone");
+			}
+
 			const performance = await PerformanceModel.findById(id);
 			
 			if (!performance) {
@@ -118,30 +128,14 @@ export class AnalyticsController {
 				throw new ApiError(403, "Access denied");
 			}
 
-			const analytics = await this.buildSinglePerformanceAnalytics(id);
+			const analytics = await this.buildSinglePerformanceAnalytics(id, timezone);
 
 			res.json({
 				success: true,
 				data: analytics,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get performance analytics error:", error);
-
-			if (error instanceof ApiError) {
-				res.status(error.statusCode).json({
-					success: false,
-					error: {
-						message: error.message,
-					},
-				});
-			} else {
-				res.status(500).json({
-					success: false,
-					error: {
-						message: "Internal server error",
-					},
-				});
-			}
+		} catch (error) {
+			next(error);
 		}
 	};
 
@@ -149,7 +143,11 @@ export class AnalyticsController {
 	 * Get real-time performance metrics
 	 * GET /api/performances/:id/metrics/live
 	 */
-	getLiveMetrics = async (req: Request, res: Response): Promise<void> => {
+	getLiveMetrics = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
 		try {
 			const { id } = req.params;
 			const userId = req.user?.userId;
@@ -176,7 +174,7 @@ export class AnalyticsController {
 			}).sort({ createdAt: -1 });
 
 			const liveMetrics = {
-				currentViewers: Math.floor(Math.random() * 50) + 10, // Mock live viewers
+				currentViewers: getPerformanceViewerCount(id),
 				recentTips: recentTips.map(tip => ({
 					amount: tip.amount,
 					isAnonymous: tip.isAnonymous,
@@ -184,23 +182,19 @@ export class AnalyticsController {
 					createdAt: tip.createdAt
 				})),
 				totalEarningsToday: await this.calculateTodayEarnings(id),
-				likesInLastHour: await this.calculateRecentLikes(id, 1),
-				averageSessionTime: '4:32', // Mock data
-				bounceRate: '23%' // Mock data
+				likesInLastHour: await this.calculateRecentLikes(id, 60),
+				// Likes per hour at the current pace
+				likeVelocity:
+					((await this.calculateRecentLikes(id, LIKE_VELOCITY_WINDOW_MINUTES)) * 60) /
+					LIKE_VELOCITY_WINDOW_MINUTES,
 			};
 
 			res.json({
 				success: true,
 				data: liveMetrics,
 			});
-		} catch (error: any) {
-			logger.error("❌ Get live metrics error:", error);
-			res.status(500).json({
-				success: false,
-				error: {
-					message: "Internal server error",
-				},
-			});
+		} catch (error) {
+			next(error);
 		}
 	};
 
@@ -234,6 +228,18 @@ export class AnalyticsController {
 		const totalTips = transactions.length;
 		const totalEarnings = transactions.reduce((sum, t) => sum + t.netAmount, 0);
 
+		const currencyTotals = new Map<string, { tips: number; earnings: number }>();
+		for (const t of transactions) {
+			const current = currencyTotals.get(t.currency) || { tips: 0, earnings: 0 };
+			currencyTotals.set(t.currency, {
+				tips: current.tips + 1,
+				earnings: current.earnings + t.netAmount
+			});
+		}
+		const earningsByCurrency = Array.from(currencyTotals.entries())
+			.map(([currency, totals]) => ({ currency, ...totals }))
+			.sort((a, b) => b.earnings - a.earnings);
+
 		// Performance status breakdown
 		const performanceBreakdown = {
 			live: performances.filter((p: any) => p.status === 'live').length,
@@ -295,6 +301,7 @@ export class AnalyticsController {
 				totalEarnings,
 				averageRating: 4.2 // Mock rating data
 			},
+			earningsByCurrency,
 			performanceBreakdown,
 			topPerformances,
 			revenueOverTime,
@@ -303,14 +310,14 @@ export class AnalyticsController {
 		};
 	}
 
-	private async buildSinglePerformanceAnalytics(performanceId: string) {
+	private async buildSinglePerformanceAnalytics(performanceId: string, timezone: string) {
 		const performance = await PerformanceModel.findById(performanceId);
 		const transactions = await Transaction.find({
 			performanceId,
 			status: 'completed'
 		}).sort({ createdAt: -1 });
 
-		const hourlyMetrics = await this.calculateHourlyMetrics(performanceId);
+		const hourlyMetrics = await this.calculateHourlyMetrics(performanceId, timezone);
 		const tipTimeline = transactions.map(t => ({
 			amount: t.amount,
 			netAmount: t.netAmount,
@@ -321,7 +328,7 @@ export class AnalyticsController {
 
 		const demographics = {
 			countries: await this.calculateCountryBreakdown(transactions),
-			timeZones: await this.calculateTimeZoneBreakdown(transactions),
+			timeZones: await this.calculateTimeZoneBreakdown(performanceId, transactions),
 		};
 
 		return {
@@ -340,8 +347,9 @@ export class AnalyticsController {
 				averageTipAmount: transactions.length > 0 
 					? transactions.reduce((sum, t) => sum + t.amount, 0) / transactions.length 
 					: 0,
-				peakViewers: 127, // Mock data
+				peakHourlyViews: Math.max(...hourlyMetrics.map(h => h.views)),
 			},
+			timezone,
 			hourlyMetrics,
 			tipTimeline,
 			demographics
@@ -434,14 +442,48 @@ export class AnalyticsController {
 		}));
 	}
 
-	private async calculateHourlyMetrics(_performanceId: string) {
-		// Mock hourly data - in production, you'd track this in real-time
-		return Array.from({ length: 24 }, (_, hour) => ({
+	/**
+	 * Views, likes, tips and earnings per hour of day in the given timezone
+	 */
+	private async calculateHourlyMetrics(performanceId: string, timezone: string) {
+		const [eventBuckets, tipBuckets] = await Promise.all([
+			this.eventRepository.countByHour(performanceId, timezone),
+			Transaction.aggregate([
+				{
+					$match: {
+						performanceId,
+						status: 'completed'
+					}
+				},
+				{
+					$group: {
+						_id: { $hour: { date: "$createdAt", timezone } },
+						tips: { $sum: 1 },
+						earnings: { $sum: "$netAmount" }
+					}
+				}
+			])
+		]);
+
+		const hourly = Array.from({ length: 24 }, (_, hour) => ({
 			hour,
-			views: Math.floor(Math.random() * 50),
-			tips: Math.floor(Math.random() * 10),
-			earnings: Math.floor(Math.random() * 5000) // in cents
+			views: 0,
+			likes: 0,
+			tips: 0,
+			earnings: 0 // in cents
 		}));
+
+		eventBuckets.forEach(bucket => {
+			if (bucket.type === 'view') hourly[bucket.hour].views += bucket.count;
+			if (bucket.type === 'like') hourly[bucket.hour].likes += bucket.count;
+		});
+
+		tipBuckets.forEach(bucket => {
+			hourly[bucket._id].tips = bucket.tips;
+			hourly[bucket._id].earnings = bucket.earnings;
+		});
+
+		return hourly;
 	}
 
 	private async calculateCountryBreakdown(transactions: any[]) {
@@ -459,14 +501,31 @@ export class AnalyticsController {
 		}));
 	}
 
-	private async calculateTimeZoneBreakdown(transactions: any[]) {
-		// Mock timezone data
-		return [
-			{ timezone: 'Europe/Amsterdam', count: Math.floor(transactions.length * 0.4) },
-			{ timezone: 'Europe/London', count: Math.floor(transactions.length * 0.3) },
-			{ timezone: 'America/New_York', count: Math.floor(transactions.length * 0.2) },
-			{ timezone: 'Asia/Tokyo', count: Math.floor(transactions.length * 0.1) },
-		];
+	/**
+	 * Audience timezones from views, likes and tips
+	 */
+	private async calculateTimeZoneBreakdown(performanceId: string, transactions: any[]) {
+		const timezoneMap = new Map<string, number>();
+
+		const eventCounts = await this.eventRepository.countByTimeZone(performanceId);
+		eventCounts.forEach(({ timezone, count }) => {
+			timezoneMap.set(timezone, (timezoneMap.get(timezone) || 0) + count);
+		});
+
+		transactions.forEach(t => {
+			const timezone = t.timezone || 'Unknown';
+			timezoneMap.set(timezone, (timezoneMap.get(timezone) || 0) + 1);
+		});
+
+		const total = Array.from(timezoneMap.values()).reduce((sum, count) => sum + count, 0);
+
+		return Array.from(timezoneMap.entries())
+			.map(([timezone, count]) => ({
+				timezone,
+				count,
+				percentage: total > 0 ? (count / total) * 100 : 0
+			}))
+			.sort((a, b) => b.count - a.count);
 	}
 
 	private async calculateTodayEarnings(performanceId: string): Promise<number> {
@@ -492,10 +551,18 @@ export class AnalyticsController {
 		return result.length > 0 ? result[0].totalEarnings : 0;
 	}
 
-	private async calculateRecentLikes(_performanceId: string, _hours: number): Promise<number> {
-		// This would require tracking like timestamps in the Performance model
-		// For now, return mock data
-		return Math.floor(Math.random() * 20);
+	/**
+	 * Net new likes (likes minus unlikes) in the last N minutes
+	 */
+	private async calculateRecentLikes(performanceId: string, minutes: number): Promise<number> {
+		const since = new Date(Date.now() - minutes * 60 * 1000);
+
+		const [likes, unlikes] = await Promise.all([
+			this.eventRepository.countSince(performanceId, 'like', since),
+			this.eventRepository.countSince(performanceId, 'unlike', since)
+		]);
+
+		return Math.max(likes - unlikes, 0);
 	}
 }
 
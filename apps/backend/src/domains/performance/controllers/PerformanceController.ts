@@ -1,11 +1,42 @@
+import type { PerformanceListFilters } from "../repositories/PerformanceRepository";
+import { performanceArchiveService } from "../services/PerformanceArchiveService";
+import {
+	MAX_ZOOM,
+	performanceMapService,
+	tileToBounds,
+} from "../services/PerformanceMapService";
 import { PerformanceService } from "../services/PerformanceService";
+import { routePlanningService } from "../services/RoutePlanningService";
 import { ApiError, ValidationError } from "../../../shared/utils/errors";
 import { logger } from "../../../shared/utils/logger";
+import { cursorQuerySchema } from "../../../shared/utils/pagination";
+import {
+	resolveTimeWindow,
+	timeRangeQuerySchema,
+} from "../../../shared/utils/timeWindow";
+import { getRequestTimeZone } from "../../../shared/utils/timezone";
 import type { CreatePerformanceDto } from "@spm/shared-types";
 import type { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 
 // Validation schemas
+const routeSchema = z.object({
+	stops: z
+		.array(
+			z.object({
+				location: z.object({
+					coordinates: z.tuple([z.number(), z.number()]),
+					address: z.string().min(1, "Address is required"),
+					name: z.string().optional(),
+				}),
+				startTime: z.string().datetime("Invalid start time format"),
+				endTime: z.string().datetime("Invalid end time format"),
+			}),
+		)
+		.min(1, "At least one stop is required")
+		.max(5, "Maximum 5 stops allowed"),
+});
+
 const createPerformanceSchema = z.object({
 	title: z.string().min(1, "Title is required").max(100, "Title too long"),
 	description: z.string().max(500, "Description too long").optional(),
@@ -22,39 +53,91 @@ const createPerformanceSchema = z.object({
 		"reggae",
 		"other",
 	]),
-	route: z.object({
-		stops: z
-			.array(
-				z.object({
-					location: z.object({
-						coordinates: z.tuple([z.number(), z.number()]),
-						address: z.string().min(1, "Address is required"),
-						name: z.string().optional(),
-					}),
-					startTime: z.string().datetime("Invalid start time format"),
-					endTime: z.string().datetime("Invalid end time format"),
-				}),
-			)
-			.min(1, "At least one stop is required")
-			.max(5, "Maximum 5 stops allowed"),
-	}),
+	route: routeSchema,
 	scheduledFor: z.string().datetime("Invalid scheduled date format"),
 	videoUrl: z.string().url("Invalid video URL").optional(),
 	videoThumbnail: z.string().url("Invalid video thumbnail URL").optional(),
 });
 
-const nearbyPerformancesSchema = z.object({
+// Genre, status and time filters shared by the list and map queries
+const listFiltersSchema = timeRangeQuerySchema.extend({
+	genre: z.string().optional(),
+	status: z.string().optional(),
+});
+
+const nearbyPerformancesSchema = listFiltersSchema.merge(cursorQuerySchema).extend({
 	lat: z.string().transform((val) => Number.parseFloat(val)),
 	lng: z.string().transform((val) => Number.parseFloat(val)),
 	radius: z
 		.string()
 		.transform((val) => Number.parseFloat(val))
 		.optional(),
+	popularity: z.enum(["trending", "popular", "new"]).optional(),
+});
+
+const longitude = z.number().min(-180).max(180);
+const latitude = z.number().min(-90).max(90);
+
+const mapViewportSchema = listFiltersSchema.extend({
+	// west,south,east,north; west > east when crossing the antimeridian
+	bbox: z
+		.string({ required_error: "bbox is required" })
+		.transform((val) => val.split(",").map(Number))
+		.pipe(
+			z.tuple([longitude, latitude, longitude, latitude], {
+				invalid_type_error: "bbox must be west,south,east,north",
+			}),
+		)
+		.refine(([, south, , north]) => south < north, {
+			message: "bbox south must be below north",
+		}),
+	zoom: z
+		.string({ required_error: "zoom is required" })
+		.transform(Number)
+		.pipe(z.number().int().min(0).max(MAX_ZOOM)),
+});
+
+const mapTileSchema = z
+	.object({
+		z: z.string().transform(Number).pipe(z.number().int().min(0).max(MAX_ZOOM)),
+		x: z.string().transform(Number).pipe(z.number().int().min(0)),
+		y: z.string().transform(Number).pipe(z.number().int().min(0)),
+	})
+	.refine(({ z, x, y }) => x < 2 ** z && y < 2 ** z, {
+		message: "Tile is outside the map",
+	});
+
+const archivedPerformancesSchema = z.object({
+	performerId: z.string().optional(),
 	genre: z.string().optional(),
-	status: z.string().optional(),
-	timeRange: z.enum(["now", "hour", "today"]).optional(),
+	startDate: z.string().datetime("Invalid start date format").optional(),
+	endDate: z.string().datetime("Invalid end date format").optional(),
+	page: z
+		.string()
+		.transform((val) => Math.max(Number.parseInt(val) || 1, 1))
+		.optional(),
+	limit: z
+		.string()
+		.transform((val) => Math.min(Math.max(Number.parseInt(val) || 20, 1), 100))
+		.optional(),
 });
 
+/**
+ * Listing filters from validated query parameters, with time ranges resolved
+ * in the viewer's timezone
+ */
+function toListFilters(
+	query: z.infer<typeof listFiltersSchema>,
+	req: Request,
+): PerformanceListFilters {
+	return {
+		genre: query.genre,
+		status: query.status,
+		live: query.timeRange === "now",
+		window: resolveTimeWindow(query, getRequestTimeZone(req)),
+	};
+}
+
 export class PerformanceController {
 	private readonly performanceService = new PerformanceService();
 	private readonly logger = logger.child({ context: "PerformanceController" });
@@ -80,10 +163,45 @@ export class PerformanceController {
 				performanceData,
 				userId,
 			);
+			const routePlan = routePlanningService.planRoute(
+				performanceData.route.stops,
+			);
 
 			res.status(201).json({
 				success: true,
 				data: performance,
+				meta: {
+					timestamp: new Date().toISOString(),
+					routeWarnings: routePlan.warnings,
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Walking distances and times between the stops of a draft route
+	 * POST /api/performances/route/plan
+	 */
+	planRoute = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const validation = z.object({ route: routeSchema }).safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const routePlan = routePlanningService.planRoute(
+				validation.data.route.stops,
+			);
+
+			res.json({
+				success: true,
+				data: routePlan,
 				meta: { timestamp: new Date().toISOString() },
 			});
 		} catch (error) {
@@ -100,12 +218,19 @@ export class PerformanceController {
 			const { id } = req.params;
 			const performance = await this.performanceService.getPerformanceById(id);
 
-			if (!performance) {
+			const isStaff = req.user?.role === "admin" || req.user?.role === "moderator";
+			if (
+				!performance ||
+				(performance.moderation?.status === "hidden" && !isStaff)
+			) {
 				throw new ApiError(404, "Performance not found");
 			}
 
 			// Increment view count
-			await this.performanceService.incrementViews(id);
+			await this.performanceService.incrementViews(id, {
+				userId: req.user?.userId,
+				timezone: getRequestTimeZone(req),
+			});
 
 			res.json({
 				success: true,
@@ -128,13 +253,80 @@ export class PerformanceController {
 				throw new ApiError(401, "Authentication required");
 			}
 
-			const performances =
-				await this.performanceService.getPerformancesByPerformer(userId);
+			const validation = cursorQuerySchema.safeParse(req.query);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const { items, pagination } =
+				await this.performanceService.getPerformancesByPerformer(
+					userId,
+					validation.data,
+				);
 
 			res.json({
 				success: true,
-				data: performances,
-				meta: { timestamp: new Date().toISOString() },
+				data: items,
+				meta: { pagination, timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Past performances of a performer (defaults to the requester), for
+	 * profile history and analytics
+	 */
+	getArchivedPerformances = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const validation = archivedPerformancesSchema.safeParse(req.query);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const {
+				performerId = req.user?.userId,
+				genre,
+				startDate,
+				endDate,
+				page = 1,
+				limit = 20,
+			} = validation.data;
+
+			if (!performerId) {
+				throw new ValidationError("performerId is required", "performerId");
+			}
+
+			// Owners and staff also see performances hidden by moderation
+			const includeHidden =
+				performerId === req.user?.userId ||
+				req.user?.role === "admin" ||
+				req.user?.role === "moderator";
+
+			const { items, total } =
+				await performanceArchiveService.getArchivedPerformances(
+					{
+						performerId,
+						genre,
+						startDate: startDate ? new Date(startDate) : undefined,
+						endDate: endDate ? new Date(endDate) : undefined,
+						includeHidden,
+					},
+					{ page, limit },
+				);
+
+			res.json({
+				success: true,
+				data: items,
+				meta: {
+					pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+					timestamp: new Date().toISOString(),
+				},
 			});
 		} catch (error) {
 			next(error);
@@ -159,26 +351,110 @@ export class PerformanceController {
 				genre,
 				status,
 				timeRange,
+				from,
+				to,
+				popularity,
+				cursor,
+				limit,
 			} = validation.data;
 			const coordinates: [number, number] = [lng, lat];
 
-			const performances = await this.performanceService.getNearbyPerformances(
-				coordinates,
-				radius,
-				{
-					genre,
-					status,
-					timeRange,
+			const { items, pagination } =
+				await this.performanceService.getNearbyPerformances(
+					coordinates,
+					radius,
+					toListFilters(validation.data, req),
+					{ cursor, limit, popularity },
+				);
+
+			res.json({
+				success: true,
+				data: items,
+				meta: {
+					pagination,
+					timestamp: new Date().toISOString(),
+					location: { coordinates, radius },
+					filters: { genre, status, timeRange, from, to, popularity },
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Performances in the visible map area, clustered below street level
+	 * GET /api/performances/map?bbox=west,south,east,north&zoom=
+	 */
+	getMapViewport = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const validation = mapViewportSchema.safeParse(req.query);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const { bbox, zoom, genre, status, timeRange, from, to } =
+				validation.data;
+			const [west, south, east, north] = bbox;
+
+			const viewport = await performanceMapService.getViewport(
+				{ west, south, east, north },
+				zoom,
+				toListFilters(validation.data, req),
+			);
+
+			res.json({
+				success: true,
+				data: viewport,
+				meta: {
+					timestamp: new Date().toISOString(),
+					filters: { genre, status, timeRange, from, to },
 				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Same as the viewport query for one XYZ tile, so responses can be cached
+	 * GET /api/performances/map/tiles/:z/:x/:y
+	 */
+	getMapTile = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const tile = mapTileSchema.safeParse(req.params);
+			const filters = listFiltersSchema.safeParse(req.query);
+			if (!tile.success) {
+				throw new ValidationError(tile.error.errors[0].message);
+			}
+			if (!filters.success) {
+				throw new ValidationError(filters.error.errors[0].message);
+			}
+
+			const { z: zoom, x, y } = tile.data;
+			const viewport = await performanceMapService.getViewport(
+				tileToBounds(zoom, x, y),
+				zoom,
+				toListFilters(filters.data, req),
 			);
 
+			res.set("Cache-Control", "public, max-age=30"); // Live status changes
+			res.vary("X-Timezone"); // "today" and wall-clock windows depend on it
 			res.json({
 				success: true,
-				data: performances,
+				data: viewport,
 				meta: {
 					timestamp: new Date().toISOString(),
-					location: { coordinates, radius },
-					filters: { genre, status, timeRange },
+					tile: { z: zoom, x, y },
+					filters: filters.data,
 				},
 			});
 		} catch (error) {
@@ -268,6 +544,7 @@ export class PerformanceController {
 			const performance = await this.performanceService.toggleLikePerformance(
 				id,
 				userId,
+				getRequestTimeZone(req),
 			);
 
 			if (!performance) {
@@ -300,6 +577,7 @@ export class PerformanceController {
 			const performance = await this.performanceService.likePerformance(
 				id,
 				userId,
+				getRequestTimeZone(req),
 			);
 
 			if (!performance) {
@@ -0,0 +1,208 @@
+import { performanceScheduleService } from "../services/PerformanceScheduleService";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+
+// Validation schemas
+const timeOfDay = z
+	.string()
+	.regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be in HH:mm format");
+
+const calendarDate = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const scheduleSchema = z.object({
+	title: z.string().min(1, "Title is required").max(100, "Title too long"),
+	description: z.string().max(500, "Description too long").optional(),
+	genre: z.enum([
+		"rock",
+		"jazz",
+		"folk",
+		"pop",
+		"classical",
+		"blues",
+		"country",
+		"electronic",
+		"hip-hop",
+		"reggae",
+		"other",
+	]),
+	stops: z
+		.array(
+			z.object({
+				location: z.object({
+					coordinates: z.tuple([z.number(), z.number()]),
+					address: z.string().min(1, "Address is required"),
+					name: z.string().optional(),
+				}),
+				startTime: timeOfDay,
+				endTime: timeOfDay,
+			}),
+		)
+		.min(1, "At least one stop is required")
+		.max(5, "Maximum 5 stops allowed"),
+	timezone: z.string().min(1, "Timezone is required"),
+	recurrence: z.object({
+		frequency: z.enum(["daily", "weekly"]),
+		interval: z.number().int().min(1).max(52).default(1),
+		daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+		startDate: calendarDate,
+		endDate: calendarDate.optional(),
+	}),
+	videoUrl: z.string().url("Invalid video URL").optional(),
+	videoThumbnail: z.string().url("Invalid video thumbnail URL").optional(),
+});
+
+const updateScheduleSchema = scheduleSchema.partial();
+
+export class ScheduleController {
+	createSchedule = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+
+			const validation = scheduleSchema.safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const schedule = await performanceScheduleService.createSchedule(
+				validation.data,
+				userId,
+			);
+
+			res.status(201).json({
+				success: true,
+				data: schedule,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getMySchedules = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const schedules = await performanceScheduleService.getSchedulesByPerformer(
+				this.getUserId(req),
+			);
+
+			res.json({
+				success: true,
+				data: schedules,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getSchedule = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const schedule = await performanceScheduleService.getSchedule(
+				req.params.scheduleId,
+				this.getUserId(req),
+			);
+
+			res.json({
+				success: true,
+				data: schedule,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	updateSchedule = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+
+			const validation = updateScheduleSchema.safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const schedule = await performanceScheduleService.updateSchedule(
+				req.params.scheduleId,
+				validation.data,
+				userId,
+			);
+
+			res.json({
+				success: true,
+				data: schedule,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	cancelSchedule = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			await performanceScheduleService.cancelSchedule(
+				req.params.scheduleId,
+				this.getUserId(req),
+			);
+
+			res.json({
+				success: true,
+				data: { message: "Schedule cancelled successfully" },
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	cancelOccurrence = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const schedule = await performanceScheduleService.cancelOccurrence(
+				req.params.scheduleId,
+				req.params.date,
+				this.getUserId(req),
+			);
+
+			res.json({
+				success: true,
+				data: schedule,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private getUserId(req: Request): string {
+		const userId = req.user?.userId;
+		if (!userId) {
+			throw new ApiError(401, "Authentication required");
+		}
+		return userId;
+	}
+}
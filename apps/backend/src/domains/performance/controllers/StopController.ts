@@ -0,0 +1,141 @@
+import { performanceStopService } from "../services/PerformanceStopService";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+
+// Validation schemas
+const stopIndexSchema = z.coerce
+	.number()
+	.int("Stop index must be an integer")
+	.min(0, "Stop index must be positive");
+
+const extendStopSchema = z.object({
+	minutes: z
+		.number()
+		.int("Minutes must be a whole number")
+		.min(1, "Extend by at least 1 minute")
+		.max(180, "Extend by at most 180 minutes"),
+});
+
+const positionSchema = z.object({
+	lat: z.number().min(-90).max(90),
+	lng: z.number().min(-180).max(180),
+	accuracy: z.number().nonnegative().optional(),
+});
+
+export class StopController {
+	advance = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const performance = await performanceStopService.advance(
+				req.params.id,
+				this.getUserId(req),
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	skip = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+			const stopIndex = this.parseStopIndex(req);
+
+			const performance = await performanceStopService.skip(
+				req.params.id,
+				userId,
+				stopIndex,
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	extend = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+			const stopIndex = this.parseStopIndex(req);
+
+			const validation = extendStopSchema.safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const performance = await performanceStopService.extend(
+				req.params.id,
+				userId,
+				stopIndex,
+				validation.data.minutes,
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	updatePosition = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+
+			const validation = positionSchema.safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const { lat, lng, accuracy } = validation.data;
+			const performance = await performanceStopService.updatePosition(
+				req.params.id,
+				userId,
+				{ coordinates: [lng, lat], accuracy },
+			);
+
+			this.sendData(res, performance);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private getUserId(req: Request): string {
+		const userId = req.user?.userId;
+		if (!userId) {
+			throw new ApiError(401, "Authentication required");
+		}
+		return userId;
+	}
+
+	private parseStopIndex(req: Request): number {
+		const validation = stopIndexSchema.safeParse(req.params.stopIndex);
+		if (!validation.success) {
+			throw new ValidationError(validation.error.errors[0].message, "stopIndex");
+		}
+		return validation.data;
+	}
+
+	private sendData(res: Response, data: unknown): void {
+		res.json({
+			success: true,
+			data,
+			meta: { timestamp: new Date().toISOString() },
+		});
+	}
+}
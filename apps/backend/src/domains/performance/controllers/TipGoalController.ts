@@ -0,0 +1,70 @@
+import { tipGoalService } from "../services/TipGoalService";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+
+// Validation schemas
+const tipGoalSchema = z.object({
+	amount: z.number().positive("Goal amount must be positive"),
+	description: z
+		.string()
+		.max(80, "Description must be at most 80 characters")
+		.optional(),
+});
+
+export class TipGoalController {
+	setGoal = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const userId = this.getUserId(req);
+
+			const validation = tipGoalSchema.safeParse(req.body);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const goal = await tipGoalService.setGoal(
+				req.params.id,
+				userId,
+				validation.data,
+			);
+
+			this.sendData(res, goal);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	clearGoal = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			await tipGoalService.clearGoal(req.params.id, this.getUserId(req));
+
+			this.sendData(res, null);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private getUserId(req: Request): string {
+		const userId = req.user?.userId;
+		if (!userId) {
+			throw new ApiError(401, "Authentication required");
+		}
+		return userId;
+	}
+
+	private sendData(res: Response, data: unknown): void {
+		res.json({
+			success: true,
+			data,
+			meta: { timestamp: new Date().toISOString() },
+		});
+	}
+}
@@ -1,11 +1,50 @@
 import type { Performance as IPerformance } from "@spm/shared-types";
 import mongoose, { Schema, type Document } from "mongoose";
 
+// Trending scores halve every 6 hours without new activity
+export const TRENDING_HALF_LIFE_MS = 6 * 60 * 60 * 1000;
+const TRENDING_EPOCH = Date.UTC(2025, 0, 1);
+// Score a performance starts with, so new ones surface before any activity
+export const TRENDING_NEW_SCORE = 2;
+
+/**
+ * Sort key for a score reached at `at`. Ordering by it matches ordering by
+ * the decayed score at any single instant, so it only changes on activity.
+ */
+export function trendingRank(score: number, at: Date | number): number {
+	return (
+		Math.log2(score) +
+		(new Date(at).getTime() - TRENDING_EPOCH) / TRENDING_HALF_LIFE_MS
+	);
+}
+
+// trendingRank as an aggregation expression over score and time fields
+export function trendingRankExpression(score: unknown, at: unknown) {
+	return {
+		$add: [
+			{ $log: [score, 2] },
+			{
+				$divide: [
+					{ $subtract: [at, new Date(TRENDING_EPOCH)] },
+					TRENDING_HALF_LIFE_MS,
+				],
+			},
+		],
+	};
+}
+
+export interface PerformanceTrending {
+	score: number; // Decayed activity score as of updatedAt
+	updatedAt: Date;
+	rank: number; // trendingRank(score, updatedAt)
+}
+
 // Mongoose document interface
 export interface PerformanceDocument
 	extends Omit<IPerformance, "_id">,
 		Document {
 	_id: mongoose.Types.ObjectId;
+	trending?: PerformanceTrending;
 }
 
 // Performance schema
@@ -73,6 +112,8 @@ const performanceSchema = new Schema<PerformanceDocument>(
 							enum: ["scheduled", "active", "completed", "cancelled"],
 							default: "scheduled",
 						},
+						checkedInAt: Date,
+						completedAt: Date,
 					},
 				],
 				validate: {
@@ -115,15 +156,84 @@ const performanceSchema = new Schema<PerformanceDocument>(
 			default: "scheduled",
 			index: true,
 		},
+		moderation: {
+			status: {
+				type: String,
+				enum: ["visible", "hidden"],
+				default: "visible",
+			},
+			reason: String,
+			updatedAt: Date,
+		},
 		scheduledFor: {
 			type: Date,
 			required: true,
 			index: true,
 		},
+		// Archived once this passes; performances are never deleted so that
+		// tips and analytics keep pointing at them
 		expiresAt: {
 			type: Date,
 			required: true,
-			// TTL index defined below to avoid duplicates
+		},
+		archivedAt: {
+			type: Date,
+		},
+		// Actual position posted by the performer while live
+		livePosition: {
+			coordinates: {
+				type: [Number, Number],
+				default: undefined,
+			},
+			accuracy: Number,
+			updatedAt: Date,
+		},
+		// Tip goal shown to the crowd, in the performer's settlement currency
+		tipGoal: {
+			type: {
+				amount: {
+					type: Number,
+					required: true,
+					min: 1,
+				},
+				currency: {
+					type: String,
+					required: true,
+					enum: ["EUR", "USD", "GBP"],
+				},
+				description: {
+					type: String,
+					trim: true,
+					maxlength: 80,
+				},
+				reachedAt: Date,
+			},
+			default: undefined,
+		},
+		// Recent likes, views and tips with time decay, updated on each one
+		trending: {
+			score: {
+				type: Number,
+				default: TRENDING_NEW_SCORE,
+			},
+			updatedAt: {
+				type: Date,
+				default: Date.now,
+			},
+			rank: {
+				type: Number,
+				default: () => trendingRank(TRENDING_NEW_SCORE, Date.now()),
+			},
+		},
+		// Recurring schedule occurrence
+		scheduleId: {
+			type: String,
+		},
+		occurrenceDate: {
+			type: String,
+		},
+		detachedFromSchedule: {
+			type: Boolean,
 		},
 	},
 	{
@@ -144,7 +254,10 @@ const performanceSchema = new Schema<PerformanceDocument>(
 performanceSchema.index({ performerId: 1, createdAt: -1 });
 performanceSchema.index({ status: 1, scheduledFor: 1 });
 performanceSchema.index({ genre: 1, status: 1 });
-performanceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index for auto-deletion
+performanceSchema.index({ expiresAt: 1, archivedAt: 1 }); // Archive sweep
+
+// Archived history per performer
+performanceSchema.index({ performerId: 1, archivedAt: -1 });
 
 // Compound indexes for optimized filtering queries
 performanceSchema.index({
@@ -167,12 +280,40 @@ performanceSchema.index({
 	status: 1,
 });
 
-// Compound index for time-based queries (expiresAt has separate TTL index)
+// Compound index for time-based queries
 performanceSchema.index({
 	status: 1,
 	scheduledFor: 1,
 });
 
+// One performance per schedule occurrence
+performanceSchema.index(
+	{ scheduleId: 1, occurrenceDate: 1 },
+	{ unique: true, partialFilterExpression: { scheduleId: { $exists: true } } },
+);
+
+// Full-text search over titles, descriptions and venues
+performanceSchema.index(
+	{
+		title: "text",
+		description: "text",
+		"route.stops.location.name": "text",
+		"route.stops.location.address": "text",
+	},
+	{
+		name: "performance_text_search",
+		weights: {
+			title: 10,
+			"route.stops.location.name": 5,
+			description: 3,
+			"route.stops.location.address": 1,
+		},
+	},
+);
+
+// Trending sort and filter
+performanceSchema.index({ "trending.rank": -1 });
+
 // Index for engagement sorting
 performanceSchema.index({
 	"engagement.likes": -1,
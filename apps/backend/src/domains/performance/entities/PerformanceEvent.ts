@@ -0,0 +1,46 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Audience interactions captured for time-bucketed analytics.
+// Tips are not duplicated here: completed transactions are the source of truth.
+export type PerformanceEventType = "view" | "like" | "unlike";
+
+export interface PerformanceEventDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	performanceId: string;
+	type: PerformanceEventType;
+	userId?: string;
+	timezone?: string; // IANA timezone reported by the client
+	createdAt: Date;
+}
+
+const performanceEventSchema = new Schema<PerformanceEventDocument>(
+	{
+		performanceId: {
+			type: String,
+			required: true,
+		},
+		type: {
+			type: String,
+			enum: ["view", "like", "unlike"],
+			required: true,
+		},
+		userId: {
+			type: String,
+		},
+		timezone: {
+			type: String,
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "performance_events",
+	},
+);
+
+// Hourly buckets and "likes in the last N minutes" per performance
+performanceEventSchema.index({ performanceId: 1, type: 1, createdAt: -1 });
+
+export const PerformanceEventModel = mongoose.model<PerformanceEventDocument>(
+	"PerformanceEvent",
+	performanceEventSchema,
+);
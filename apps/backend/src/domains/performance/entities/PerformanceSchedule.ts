@@ -0,0 +1,127 @@
+import type { PerformanceSchedule as IPerformanceSchedule } from "@spm/shared-types";
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Mongoose document interface
+export interface PerformanceScheduleDocument
+	extends Omit<IPerformanceSchedule, "_id">,
+		Document {
+	_id: mongoose.Types.ObjectId;
+	materializedUntil?: string; // Last occurrence date already generated (YYYY-MM-DD)
+}
+
+const timeOfDay = {
+	type: String,
+	required: true,
+	match: /^([01]\d|2[0-3]):[0-5]\d$/,
+};
+
+const calendarDate = {
+	type: String,
+	match: /^\d{4}-\d{2}-\d{2}$/,
+};
+
+// Recurring schedule that materializes Performance documents ahead of time
+const performanceScheduleSchema = new Schema<PerformanceScheduleDocument>(
+	{
+		performerId: {
+			type: String,
+			required: true,
+			index: true,
+		},
+		title: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: 100,
+		},
+		description: {
+			type: String,
+			maxlength: 500,
+		},
+		genre: {
+			type: String,
+			required: true,
+		},
+		videoUrl: String,
+		videoThumbnail: String,
+		stops: {
+			type: [
+				{
+					location: {
+						coordinates: {
+							type: [Number, Number],
+							required: true,
+						},
+						address: {
+							type: String,
+							required: true,
+						},
+						name: String,
+					},
+					startTime: timeOfDay,
+					endTime: timeOfDay,
+				},
+			],
+			validate: {
+				validator: (stops: unknown[]) =>
+					stops.length >= 1 && stops.length <= 5,
+				message: "Schedule must have between 1 and 5 stops",
+			},
+		},
+		timezone: {
+			type: String,
+			required: true,
+		},
+		recurrence: {
+			frequency: {
+				type: String,
+				enum: ["daily", "weekly"],
+				required: true,
+			},
+			interval: {
+				type: Number,
+				default: 1,
+				min: 1,
+				max: 52,
+			},
+			daysOfWeek: [
+				{
+					type: Number,
+					min: 0,
+					max: 6,
+				},
+			],
+			startDate: { ...calendarDate, required: true },
+			endDate: calendarDate,
+		},
+		exceptions: {
+			type: [String],
+			default: [],
+		},
+		status: {
+			type: String,
+			enum: ["active", "cancelled"],
+			default: "active",
+			index: true,
+		},
+		materializedUntil: calendarDate,
+	},
+	{
+		timestamps: true,
+		collection: "performance_schedules",
+		toJSON: {
+			transform: (doc, ret: unknown) => {
+				const result = ret as any;
+				result._id = result._id.toString();
+				result.__v = undefined;
+				return result;
+			},
+		},
+	},
+);
+
+export const PerformanceScheduleModel =
+	mongoose.model<PerformanceScheduleDocument>(
+		"PerformanceSchedule",
+		performanceScheduleSchema,
+	);
@@ -0,0 +1,122 @@
+import {
+	PerformanceEventModel,
+	type PerformanceEventType,
+} from "../entities/PerformanceEvent";
+import { logger } from "../../../shared/utils/logger";
+
+export interface PerformanceEventContext {
+	userId?: string;
+	timezone?: string;
+}
+
+export class PerformanceEventRepository {
+	private readonly logger = logger.child({
+		context: "PerformanceEventRepository",
+	});
+
+	/**
+	 * Record an audience interaction. Analytics capture never fails the request.
+	 */
+	async record(
+		performanceId: string,
+		type: PerformanceEventType,
+		context: PerformanceEventContext = {},
+	): Promise<void> {
+		try {
+			await PerformanceEventModel.create({ performanceId, type, ...context });
+		} catch (error) {
+			this.logger.warn("Failed to record performance event", {
+				error,
+				performanceId,
+				type,
+			});
+		}
+	}
+
+	async countSince(
+		performanceId: string,
+		type: PerformanceEventType,
+		since: Date,
+	): Promise<number> {
+		try {
+			return await PerformanceEventModel.countDocuments({
+				performanceId,
+				type,
+				createdAt: { $gte: since },
+			});
+		} catch (error) {
+			this.logger.error("Failed to count performance events", {
+				error,
+				performanceId,
+				type,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Event counts per hour of day (0-23) in the given timezone
+	 */
+	async countByHour(
+		performanceId: string,
+		timezone: string,
+	): Promise<Array<{ hour: number; type: PerformanceEventType; count: number }>> {
+		try {
+			const buckets = await PerformanceEventModel.aggregate([
+				{ $match: { performanceId } },
+				{
+					$group: {
+						_id: {
+							hour: { $hour: { date: "$createdAt", timezone } },
+							type: "$type",
+						},
+						count: { $sum: 1 },
+					},
+				},
+			]);
+
+			return buckets.map((bucket) => ({
+				hour: bucket._id.hour,
+				type: bucket._id.type,
+				count: bucket.count,
+			}));
+		} catch (error) {
+			this.logger.error("Failed to aggregate hourly performance events", {
+				error,
+				performanceId,
+				timezone,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Views and likes per client timezone
+	 */
+	async countByTimeZone(
+		performanceId: string,
+	): Promise<Array<{ timezone: string; count: number }>> {
+		try {
+			const buckets = await PerformanceEventModel.aggregate([
+				{ $match: { performanceId, type: { $in: ["view", "like"] } } },
+				{
+					$group: {
+						_id: { $ifNull: ["$timezone", "Unknown"] },
+						count: { $sum: 1 },
+					},
+				},
+			]);
+
+			return buckets.map((bucket) => ({
+				timezone: bucket._id,
+				count: bucket.count,
+			}));
+		} catch (error) {
+			this.logger.error("Failed to aggregate performance events by timezone", {
+				error,
+				performanceId,
+			});
+			throw error;
+		}
+	}
+}
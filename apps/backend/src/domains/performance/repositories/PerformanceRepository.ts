@@ -1,9 +1,76 @@
 import {
 	type PerformanceDocument,
 	PerformanceModel,
+	TRENDING_HALF_LIFE_MS,
+	TRENDING_NEW_SCORE,
+	trendingRankExpression,
 } from "../entities/Performance";
 import { logger } from "../../../shared/utils/logger";
-import type { Performance } from "@spm/shared-types";
+import type { CursorPosition } from "../../../shared/utils/pagination";
+import { stopsOverlapping } from "../../../shared/utils/timeWindow";
+import type { Performance, TimeRange } from "@spm/shared-types";
+import { type PipelineStage, Types } from "mongoose";
+
+// Performances hidden by a moderator never appear in public listings
+const VISIBLE = { "moderation.status": { $ne: "hidden" } };
+
+// Archived performances are kept for history but no longer shown on the map
+const CURRENT = { archivedAt: { $exists: false } };
+
+// Floor for trending scores, which must stay positive to have a rank
+const MIN_TRENDING_SCORE = 0.01;
+
+export interface PerformanceListFilters {
+	genre?: string;
+	status?: string;
+	live?: boolean; // The "now" time range
+	window?: TimeRange; // Only performances with a stop in this span
+	minTrendingRank?: number;
+}
+
+// What the map needs to place and cluster a performance
+export interface PerformanceMapPoint {
+	_id: string;
+	status: Performance["status"];
+	scheduledFor: Date;
+	engagement: { likes: number };
+	route: {
+		stops: {
+			location: { coordinates: [number, number] };
+			status?: string;
+		}[];
+	};
+	livePosition?: { coordinates?: [number, number] };
+}
+
+export type NearbySort = "distance" | "trending" | "popular" | "new";
+
+export type NearbyPerformanceDocument = PerformanceDocument & {
+	distance: number; // Meters to the nearest stop
+	sortKey: number;
+};
+
+// Value each nearby order sorts on
+const NEARBY_SORT_KEYS: Record<NearbySort, unknown> = {
+	distance: "$distance",
+	// Performances from before trending was tracked rank as if new then
+	trending: {
+		$ifNull: [
+			"$trending.rank",
+			trendingRankExpression(TRENDING_NEW_SCORE, "$createdAt"),
+		],
+	},
+	popular: "$engagement.likes",
+	new: { $toLong: "$createdAt" },
+};
+
+export interface ArchivedPerformanceFilters {
+	performerId: string;
+	genre?: string;
+	startDate?: Date;
+	endDate?: Date;
+	includeHidden?: boolean;
+}
 
 export class PerformanceRepository {
 	private readonly logger = logger.child({ context: "PerformanceRepository" });
@@ -46,13 +113,27 @@ export class PerformanceRepository {
 		}
 	}
 
+	/**
+	 * A performer's performances, newest first. Pass the last row of the
+	 * previous page as `after` to continue from it.
+	 */
 	async findByPerformerId(
 		performerId: string,
 		limit = 10,
+		after?: CursorPosition,
 	): Promise<PerformanceDocument[]> {
 		try {
-			const performances = await PerformanceModel.find({ performerId })
-				.sort({ createdAt: -1 })
+			const query: Record<string, unknown> = { performerId };
+			if (after) {
+				const createdAt = new Date(after.key);
+				query.$or = [
+					{ createdAt: { $lt: createdAt } },
+					{ createdAt, _id: { $lt: new Types.ObjectId(after.id) } },
+				];
+			}
+
+			const performances = await PerformanceModel.find(query)
+				.sort({ createdAt: -1, _id: -1 })
 				.limit(limit)
 				.lean();
 			return performances;
@@ -65,88 +146,161 @@ export class PerformanceRepository {
 		}
 	}
 
+	/**
+	 * Current performances with a stop within the radius, with the distance
+	 * to that stop in meters. Nearest first unless sorted by popularity; the
+	 * value sorted on is returned as `sortKey`. Pass the last row of the
+	 * previous page as `after` to continue from it.
+	 */
 	async findNearby(
 		coordinates: [number, number],
 		radiusInKm: number,
-		filters?: {
-			genre?: string;
-			status?: string;
-			timeRange?: "now" | "hour" | "today";
-		},
-	): Promise<PerformanceDocument[]> {
+		filters: PerformanceListFilters | undefined,
+		limit: number,
+		after?: CursorPosition,
+		sort: NearbySort = "distance",
+	): Promise<NearbyPerformanceDocument[]> {
 		try {
-			const query: any = {
-				"route.stops.location.coordinates": {
-					$near: {
-						$geometry: {
-							type: "Point",
-							coordinates,
-						},
-						$maxDistance: radiusInKm * 1000, // Convert km to meters
+			const query: Record<string, unknown> = { ...VISIBLE, ...CURRENT };
+			this.applyFilters(query, filters);
+
+			const byDistance = sort === "distance";
+			const pipeline: PipelineStage[] = [
+				{
+					$geoNear: {
+						near: { type: "Point", coordinates },
+						key: "route.stops.location.coordinates",
+						distanceField: "distance",
+						maxDistance: radiusInKm * 1000, // Convert km to meters
+						// Skip everything nearer than the previous page's last row
+						...(after && byDistance && { minDistance: after.key }),
+						query,
+						spherical: true,
 					},
 				},
-			};
-
-			// Apply filters
-			if (filters?.genre && filters.genre !== "all") {
-				query.genre = filters.genre;
-			}
-
-			if (filters?.status && filters.status !== "all") {
-				query.status = filters.status;
-			}
-
-			// Time range filters
-			if (filters?.timeRange) {
-				const now = new Date();
-				switch (filters.timeRange) {
-					case "now":
-						query.status = "live";
-						break;
-					case "hour": {
-						const oneHourFromNow = new Date(now.getTime() + 60 * 60 * 1000);
-						query.scheduledFor = { $lte: oneHourFromNow };
-						break;
-					}
-					case "today": {
-						const endOfDay = new Date(now);
-						endOfDay.setHours(23, 59, 59, 999);
-						query.scheduledFor = { $lte: endOfDay };
-						break;
-					}
-				}
+				{ $addFields: { sortKey: NEARBY_SORT_KEYS[sort] } },
+			];
+			if (after) {
+				// Nearest first, every other order is highest first
+				const beyond = byDistance ? "$gt" : "$lt";
+				pipeline.push({
+					$match: {
+						$or: [
+							{ sortKey: { [beyond]: after.key } },
+							{
+								sortKey: after.key,
+								_id: { [beyond]: new Types.ObjectId(after.id) },
+							},
+						],
+					},
+				});
 			}
+			const direction = byDistance ? 1 : -1;
+			pipeline.push(
+				{ $sort: { sortKey: direction, _id: direction } },
+				{ $limit: limit },
+			);
+
+			const performances =
+				await PerformanceModel.aggregate<NearbyPerformanceDocument>(pipeline);
+			// Populates the plain rows in place
+			await PerformanceModel.populate(performances, {
+				path: "performerId",
+				select: "username profile.displayName profile.avatar",
+			});
+			return performances;
+		} catch (error) {
+			this.logger.error("Failed to find nearby performances", {
+				error,
+				coordinates,
+				radiusInKm,
+			});
+			throw error;
+		}
+	}
 
-			// Optimize query based on available filters
-			let sortCriteria: any = { "engagement.likes": -1, scheduledFor: 1 };
-
-			// If filtering by status, prioritize by scheduled time
-			if (filters?.status) {
-				sortCriteria = { scheduledFor: 1, "engagement.likes": -1 };
-			}
+	/**
+	 * Map position data of every current performance with a stop inside the
+	 * bounds, most popular first. Fetches at most `limit` + 1 so callers can
+	 * tell the result was cut short.
+	 */
+	async findMapPoints(
+		polygons: [number, number][][],
+		filters: PerformanceListFilters | undefined,
+		limit: number,
+	): Promise<PerformanceMapPoint[]> {
+		try {
+			const within = polygons.map((ring) => ({
+				"route.stops.location.coordinates": {
+					$geoWithin: {
+						$geometry: { type: "Polygon", coordinates: [ring] },
+					},
+				},
+			}));
+			const query: Record<string, unknown> = {
+				...(within.length === 1 ? within[0] : { $or: within }),
+				...VISIBLE,
+				...CURRENT,
+			};
+			this.applyFilters(query, filters);
+
+			const points = await PerformanceModel.find(query)
+				.select(
+					"status scheduledFor engagement.likes route.stops.location.coordinates route.stops.status livePosition.coordinates",
+				)
+				.sort({ "engagement.likes": -1, _id: 1 })
+				.limit(limit + 1)
+				.lean();
 
-			// If filtering by time range, prioritize by engagement
-			if (filters?.timeRange) {
-				sortCriteria = { "engagement.likes": -1, scheduledFor: 1 };
-			}
+			return points as unknown as PerformanceMapPoint[];
+		} catch (error) {
+			this.logger.error("Failed to find performances in bounds", {
+				error,
+				polygons,
+			});
+			throw error;
+		}
+	}
 
-			const performances = await PerformanceModel.find(query)
+	async findManyById(ids: string[]): Promise<PerformanceDocument[]> {
+		try {
+			return await PerformanceModel.find({ _id: { $in: ids } })
 				.populate("performerId", "username profile.displayName profile.avatar")
-				.sort(sortCriteria)
-				.limit(50)
 				.lean();
-
-			return performances;
 		} catch (error) {
-			this.logger.error("Failed to find nearby performances", {
+			this.logger.error("Failed to find performances by ID", {
 				error,
-				coordinates,
-				radiusInKm,
+				count: ids.length,
 			});
 			throw error;
 		}
 	}
 
+	private applyFilters(
+		query: Record<string, unknown>,
+		filters?: PerformanceListFilters,
+	): void {
+		if (filters?.genre && filters.genre !== "all") {
+			query.genre = filters.genre;
+		}
+
+		if (filters?.status && filters.status !== "all") {
+			query.status = filters.status;
+		}
+
+		if (filters?.live) {
+			query.status = "live";
+		}
+
+		if (filters?.window) {
+			Object.assign(query, stopsOverlapping(filters.window));
+		}
+
+		if (filters?.minTrendingRank !== undefined) {
+			query["trending.rank"] = { $gte: filters.minTrendingRank };
+		}
+	}
+
 	async updateById(
 		id: string,
 		updateData: Partial<Performance>,
@@ -191,6 +345,58 @@ export class PerformanceRepository {
 		}
 	}
 
+	/**
+	 * Occurrence dates already materialized for a recurring schedule
+	 */
+	async findOccurrenceDates(scheduleId: string): Promise<string[]> {
+		try {
+			return await PerformanceModel.distinct("occurrenceDate", { scheduleId });
+		} catch (error) {
+			this.logger.error("Failed to find schedule occurrences", {
+				error,
+				scheduleId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove occurrences of a schedule that have not started yet.
+	 * Occurrences edited individually are kept unless includeDetached is set.
+	 */
+	async deleteUpcomingOccurrences(
+		scheduleId: string,
+		options: { includeDetached?: boolean; occurrenceDate?: string } = {},
+	): Promise<number> {
+		try {
+			const query: Record<string, unknown> = {
+				scheduleId,
+				status: "scheduled",
+				scheduledFor: { $gt: new Date() },
+			};
+			if (!options.includeDetached) {
+				query.detachedFromSchedule = { $ne: true };
+			}
+			if (options.occurrenceDate) {
+				query.occurrenceDate = options.occurrenceDate;
+			}
+
+			const result = await PerformanceModel.deleteMany(query);
+
+			this.logger.info("Schedule occurrences deleted", {
+				scheduleId,
+				deleted: result.deletedCount,
+			});
+			return result.deletedCount;
+		} catch (error) {
+			this.logger.error("Failed to delete schedule occurrences", {
+				error,
+				scheduleId,
+			});
+			throw error;
+		}
+	}
+
 	async likePerformance(
 		performanceId: string,
 		userId: string,
@@ -249,6 +455,56 @@ export class PerformanceRepository {
 		}
 	}
 
+	/**
+	 * Decay the trending score to now and add the weight of a new like, view
+	 * or tip. Negative weights (unlikes, refunds) never take it to zero.
+	 */
+	async addTrendingScore(
+		performanceId: string,
+		weight: number,
+		now = new Date(),
+	): Promise<void> {
+		try {
+			const elapsed = {
+				$subtract: [now, { $ifNull: ["$trending.updatedAt", now] }],
+			};
+			const decay = {
+				$pow: [0.5, { $divide: [elapsed, TRENDING_HALF_LIFE_MS] }],
+			};
+
+			await PerformanceModel.updateOne({ _id: performanceId }, [
+				{
+					$set: {
+						"trending.score": {
+							$max: [
+								MIN_TRENDING_SCORE,
+								{
+									$add: [
+										{ $multiply: [{ $ifNull: ["$trending.score", 0] }, decay] },
+										weight,
+									],
+								},
+							],
+						},
+						"trending.updatedAt": now,
+					},
+				},
+				{
+					$set: {
+						"trending.rank": trendingRankExpression("$trending.score", now),
+					},
+				},
+			]);
+		} catch (error) {
+			this.logger.error("Failed to update trending score", {
+				error,
+				performanceId,
+				weight,
+			});
+			throw error;
+		}
+	}
+
 	async incrementViews(performanceId: string): Promise<void> {
 		try {
 			await PerformanceModel.findByIdAndUpdate(performanceId, {
@@ -278,6 +534,8 @@ export class PerformanceRepository {
 					$gte: startOfDay,
 					$lte: endOfDay,
 				},
+				...VISIBLE,
+				...CURRENT,
 			})
 				.populate("performerId", "username profile.displayName profile.avatar")
 				.sort({ scheduledFor: 1 })
@@ -292,7 +550,11 @@ export class PerformanceRepository {
 
 	async findLivePerformances(): Promise<PerformanceDocument[]> {
 		try {
-			const performances = await PerformanceModel.find({ status: "live" })
+			const performances = await PerformanceModel.find({
+				status: "live",
+				...VISIBLE,
+				...CURRENT,
+			})
 				.populate("performerId", "username profile.displayName profile.avatar")
 				.sort({ "engagement.likes": -1 })
 				.lean();
@@ -303,4 +565,99 @@ export class PerformanceRepository {
 			throw error;
 		}
 	}
+
+	/**
+	 * Archive performances past their expiry: anything not cancelled is marked
+	 * completed. Returns the number archived.
+	 */
+	async archiveExpired(now = new Date()): Promise<number> {
+		try {
+			const expired = { expiresAt: { $lte: now }, ...CURRENT };
+
+			const [cancelled, completed] = await Promise.all([
+				PerformanceModel.updateMany(
+					{ ...expired, status: "cancelled" },
+					{ $set: { archivedAt: now } },
+				),
+				PerformanceModel.updateMany(
+					{ ...expired, status: { $ne: "cancelled" } },
+					{ $set: { archivedAt: now, status: "completed" } },
+				),
+			]);
+
+			const archived = cancelled.modifiedCount + completed.modifiedCount;
+			if (archived > 0) {
+				this.logger.info("Expired performances archived", { archived });
+			}
+			return archived;
+		} catch (error) {
+			this.logger.error("Failed to archive expired performances", { error });
+			throw error;
+		}
+	}
+
+	async findArchived(
+		filters: ArchivedPerformanceFilters,
+		{ page, limit }: { page: number; limit: number },
+	): Promise<{ items: PerformanceDocument[]; total: number }> {
+		try {
+			const query: Record<string, unknown> = {
+				performerId: filters.performerId,
+				archivedAt: { $exists: true },
+				...(!filters.includeHidden && VISIBLE),
+			};
+			if (filters.genre) query.genre = filters.genre;
+			if (filters.startDate || filters.endDate) {
+				query.scheduledFor = {
+					...(filters.startDate && { $gte: filters.startDate }),
+					...(filters.endDate && { $lte: filters.endDate }),
+				};
+			}
+
+			const [items, total] = await Promise.all([
+				PerformanceModel.find(query)
+					.sort({ scheduledFor: -1 })
+					.skip((page - 1) * limit)
+					.limit(limit)
+					.lean(),
+				PerformanceModel.countDocuments(query),
+			]);
+
+			return { items, total };
+		} catch (error) {
+			this.logger.error("Failed to find archived performances", {
+				error,
+				filters,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Drop the TTL index older deployments created on expiresAt, which would
+	 * otherwise keep deleting performances instead of letting them be archived
+	 */
+	async dropExpiryTtlIndex(): Promise<void> {
+		try {
+			const indexes = await PerformanceModel.collection.indexes();
+			const ttlIndex = indexes.find(
+				(index) =>
+					index.expireAfterSeconds !== undefined && "expiresAt" in index.key,
+			);
+
+			if (ttlIndex?.name) {
+				await PerformanceModel.collection.dropIndex(ttlIndex.name);
+				this.logger.info("Dropped performance TTL index", {
+					index: ttlIndex.name,
+				});
+			}
+		} catch (error) {
+			// Collection does not exist yet
+			if ((error as { codeName?: string }).codeName === "NamespaceNotFound") {
+				return;
+			}
+			this.logger.error("Failed to drop performance TTL index", { error });
+			throw error;
+		}
+	}
 }
@@ -0,0 +1,93 @@
+import {
+	type PerformanceScheduleDocument,
+	PerformanceScheduleModel,
+} from "../entities/PerformanceSchedule";
+import { logger } from "../../../shared/utils/logger";
+import type { PerformanceSchedule } from "@spm/shared-types";
+
+export class PerformanceScheduleRepository {
+	private readonly logger = logger.child({
+		context: "PerformanceScheduleRepository",
+	});
+
+	async create(
+		scheduleData: Omit<
+			PerformanceSchedule,
+			"_id" | "exceptions" | "status" | "createdAt" | "updatedAt"
+		>,
+	): Promise<PerformanceScheduleDocument> {
+		try {
+			const schedule = await PerformanceScheduleModel.create(scheduleData);
+
+			this.logger.info("Performance schedule created", {
+				scheduleId: schedule._id,
+				performerId: schedule.performerId,
+			});
+
+			return schedule;
+		} catch (error) {
+			this.logger.error("Failed to create performance schedule", {
+				error,
+				performerId: scheduleData.performerId,
+			});
+			throw error;
+		}
+	}
+
+	async findById(id: string): Promise<PerformanceScheduleDocument | null> {
+		try {
+			return await PerformanceScheduleModel.findById(id);
+		} catch (error) {
+			this.logger.error("Failed to find performance schedule by ID", {
+				error,
+				scheduleId: id,
+			});
+			throw error;
+		}
+	}
+
+	async findByPerformerId(
+		performerId: string,
+	): Promise<PerformanceScheduleDocument[]> {
+		try {
+			return await PerformanceScheduleModel.find({ performerId }).sort({
+				createdAt: -1,
+			});
+		} catch (error) {
+			this.logger.error("Failed to find schedules by performer", {
+				error,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	async findActive(): Promise<PerformanceScheduleDocument[]> {
+		try {
+			return await PerformanceScheduleModel.find({ status: "active" });
+		} catch (error) {
+			this.logger.error("Failed to find active schedules", { error });
+			throw error;
+		}
+	}
+
+	async addException(
+		id: string,
+		occurrenceDate: string,
+	): Promise<PerformanceScheduleDocument | null> {
+		try {
+			return await PerformanceScheduleModel.findByIdAndUpdate(
+				id,
+				{ $addToSet: { exceptions: occurrenceDate } },
+				{ new: true },
+			);
+		} catch (error) {
+			this.logger.error("Failed to add schedule exception", {
+				error,
+				scheduleId: id,
+				occurrenceDate,
+			});
+			throw error;
+		}
+	}
+}
@@ -1,17 +1,49 @@
 import { PerformanceController } from "../controllers/PerformanceController";
 import { analyticsController } from "../controllers/AnalyticsController";
-import { authenticate } from "../../../shared/middleware/auth";
+import { ScheduleController } from "../controllers/ScheduleController";
+import { StopController } from "../controllers/StopController";
+import { TipGoalController } from "../controllers/TipGoalController";
+import { authenticate, optionalAuth } from "../../../shared/middleware/auth";
 import { type IRouter, Router } from "express";
 
 const router: IRouter = Router();
 const performanceController = new PerformanceController();
+const scheduleController = new ScheduleController();
+const stopController = new StopController();
+const tipGoalController = new TipGoalController();
 
 // Public routes
 router.get("/nearby", performanceController.getNearbyPerformances);
+router.get("/map", performanceController.getMapViewport);
+router.get("/map/tiles/:z/:x/:y", performanceController.getMapTile);
+router.get(
+	"/archive",
+	optionalAuth,
+	performanceController.getArchivedPerformances,
+);
 
 // Analytics routes (performer-only) - MUST come before /:id routes
 router.get("/analytics", authenticate, analyticsController.getPerformerAnalytics);
 
+// Route planning for the create form - MUST come before /:id routes
+router.post("/route/plan", authenticate, performanceController.planRoute);
+
+// Recurring schedule routes - MUST come before /:id routes
+router.post("/schedules", authenticate, scheduleController.createSchedule);
+router.get("/schedules/my", authenticate, scheduleController.getMySchedules);
+router.get("/schedules/:scheduleId", authenticate, scheduleController.getSchedule);
+router.put("/schedules/:scheduleId", authenticate, scheduleController.updateSchedule);
+router.delete(
+	"/schedules/:scheduleId",
+	authenticate,
+	scheduleController.cancelSchedule,
+);
+router.delete(
+	"/schedules/:scheduleId/occurrences/:date",
+	authenticate,
+	scheduleController.cancelOccurrence,
+);
+
 // Protected routes (authenticated users)
 router.post(
 	"/:id/like",
@@ -36,8 +68,18 @@ router.delete("/:id", authenticate, performanceController.deletePerformance);
 router.post("/:id/start", authenticate, performanceController.startPerformance);
 router.post("/:id/end", authenticate, performanceController.endPerformance);
 
+// Route progress while performing
+router.post("/:id/stops/advance", authenticate, stopController.advance);
+router.post("/:id/stops/:stopIndex/skip", authenticate, stopController.skip);
+router.post("/:id/stops/:stopIndex/extend", authenticate, stopController.extend);
+router.post("/:id/position", authenticate, stopController.updatePosition);
+
+// Tip goal shown to the crowd
+router.put("/:id/goal", authenticate, tipGoalController.setGoal);
+router.delete("/:id/goal", authenticate, tipGoalController.clearGoal);
+
 // Specific performance routes - MUST come after /analytics
-router.get("/:id", performanceController.getPerformance);
+router.get("/:id", optionalAuth, performanceController.getPerformance);
 router.get("/:id/analytics", authenticate, analyticsController.getPerformanceAnalytics);
 router.get("/:id/metrics/live", authenticate, analyticsController.getLiveMetrics);
 
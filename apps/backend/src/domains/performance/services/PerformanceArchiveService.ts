@@ -0,0 +1,52 @@
+import type { PerformanceDocument } from "../entities/Performance";
+import {
+	type ArchivedPerformanceFilters,
+	PerformanceRepository,
+} from "../repositories/PerformanceRepository";
+import { logger } from "../../../shared/utils/logger";
+
+const ARCHIVE_INTERVAL_MS = 15 * 60 * 1000;
+
+export class PerformanceArchiveService {
+	private readonly performanceRepository = new PerformanceRepository();
+	private readonly logger = logger.child({
+		context: "PerformanceArchiveService",
+	});
+
+	/**
+	 * Archive performances whose expiry has passed
+	 */
+	async archiveExpired(): Promise<number> {
+		return this.performanceRepository.archiveExpired();
+	}
+
+	async getArchivedPerformances(
+		filters: ArchivedPerformanceFilters,
+		page: { page: number; limit: number },
+	): Promise<{ items: PerformanceDocument[]; total: number }> {
+		return this.performanceRepository.findArchived(filters, page);
+	}
+
+	/**
+	 * Replace the old TTL deletion with a periodic archive sweep
+	 */
+	startScheduler(): NodeJS.Timeout {
+		const run = () => {
+			this.archiveExpired().catch((error) =>
+				this.logger.error("Scheduled archive sweep failed", { error }),
+			);
+		};
+
+		const timer = setInterval(run, ARCHIVE_INTERVAL_MS);
+		timer.unref();
+
+		this.performanceRepository
+			.dropExpiryTtlIndex()
+			.catch(() => undefined)
+			.finally(run);
+
+		return timer;
+	}
+}
+
+export const performanceArchiveService = new PerformanceArchiveService();
@@ -0,0 +1,289 @@
+import type {
+	MapBounds,
+	MapCluster,
+	MapFeature,
+	MapMarker,
+	MapViewport,
+	Performance,
+} from "@spm/shared-types";
+import {
+	type PerformanceListFilters,
+	type PerformanceMapPoint,
+	PerformanceRepository,
+} from "../repositories/PerformanceRepository";
+import { logger } from "../../../shared/utils/logger";
+
+const TILE_SIZE = 256;
+const CLUSTER_RADIUS_PX = 64; // Cells per tile: TILE_SIZE / CLUSTER_RADIUS_PX squared
+export const CLUSTER_MAX_ZOOM = 15; // Individual markers above this
+export const MAX_ZOOM = 22;
+const MAX_MAP_POINTS = 5000;
+const MAX_LATITUDE = 85.05112878; // Web Mercator cut-off
+const SOON_MS = 60 * 60 * 1000;
+
+// Geo polygons must stay well under a hemisphere, so wide views are sliced
+const MAX_SLICE_DEGREES = 90;
+
+const STATUS_RANK: Record<MapMarker["status"], number> = {
+	live: 2,
+	soon: 1,
+	scheduled: 0,
+};
+
+export interface PlacedPoint {
+	point: PerformanceMapPoint;
+	lng: number;
+	lat: number;
+	x: number; // Web Mercator, 0-1 across the world
+	y: number;
+	status: MapMarker["status"];
+}
+
+const clampLatitude = (lat: number) =>
+	Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+
+/**
+ * Position on the Web Mercator world square, 0-1 on both axes
+ */
+export function lngLatToWorld(lng: number, lat: number): { x: number; y: number } {
+	const sin = Math.sin((clampLatitude(lat) * Math.PI) / 180);
+	return {
+		x: (lng + 180) / 360 - Math.floor((lng + 180) / 360),
+		y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+	};
+}
+
+/**
+ * Bounds of an XYZ map tile
+ */
+export function tileToBounds(z: number, x: number, y: number): MapBounds {
+	const n = 2 ** z;
+	const latitude = (row: number) =>
+		(Math.atan(Math.sinh(Math.PI * (1 - (2 * row) / n))) * 180) / Math.PI;
+
+	return {
+		west: (x / n) * 360 - 180,
+		south: latitude(y + 1),
+		east: ((x + 1) / n) * 360 - 180,
+		north: latitude(y),
+	};
+}
+
+/**
+ * Closed polygon rings covering the bounds, split at the antimeridian and
+ * into slices narrow enough for MongoDB's geodesic polygons
+ */
+export function boundsToPolygons(bounds: MapBounds): [number, number][][] {
+	const south = clampLatitude(bounds.south);
+	const north = clampLatitude(bounds.north);
+	const ranges: [number, number][] =
+		bounds.west <= bounds.east
+			? [[bounds.west, bounds.east]]
+			: [
+					[bounds.west, 180],
+					[-180, bounds.east],
+				];
+
+	const rings: [number, number][][] = [];
+	for (const [west, east] of ranges) {
+		for (let start = west; start < east; start += MAX_SLICE_DEGREES) {
+			const end = Math.min(start + MAX_SLICE_DEGREES, east);
+			rings.push([
+				[start, south],
+				[end, south],
+				[end, north],
+				[start, north],
+				[start, south],
+			]);
+		}
+	}
+	return rings;
+}
+
+const isInBounds = ([lng, lat]: [number, number], bounds: MapBounds) =>
+	lat >= bounds.south &&
+	lat <= bounds.north &&
+	(bounds.west <= bounds.east
+		? lng >= bounds.west && lng <= bounds.east
+		: lng >= bounds.west || lng <= bounds.east);
+
+/**
+ * Where to draw a performance: the performer's live position, else the
+ * active stop, else the first stop in view
+ */
+export function getMarkerCoordinates(
+	point: PerformanceMapPoint,
+	bounds: MapBounds,
+): [number, number] {
+	const { stops } = point.route;
+	const live = point.status === "live" && point.livePosition?.coordinates;
+	if (live) return live;
+
+	const active = stops.find((stop) => stop.status === "active");
+	const inView = stops.find((stop) =>
+		isInBounds(stop.location.coordinates, bounds),
+	);
+	return (active ?? inView ?? stops[0]).location.coordinates;
+}
+
+export function getMarkerStatus(
+	point: Pick<PerformanceMapPoint, "status" | "scheduledFor">,
+	now = new Date(),
+): MapMarker["status"] {
+	if (point.status === "live") return "live";
+	return new Date(point.scheduledFor).getTime() - now.getTime() <= SOON_MS
+		? "soon"
+		: "scheduled";
+}
+
+/**
+ * Group points on a grid of CLUSTER_RADIUS_PX cells at the zoom. The grid is
+ * global, so adjacent tiles and overlapping viewports cluster the same way.
+ */
+export function clusterPoints(
+	placed: PlacedPoint[],
+	zoom: number,
+): PlacedPoint[][] {
+	const cells = (TILE_SIZE * 2 ** zoom) / CLUSTER_RADIUS_PX;
+	const groups = new Map<string, PlacedPoint[]>();
+
+	for (const item of placed) {
+		const key = `${Math.floor(item.x * cells)}:${Math.floor(item.y * cells)}`;
+		const group = groups.get(key);
+		if (group) {
+			group.push(item);
+		} else {
+			groups.set(key, [item]);
+		}
+	}
+	return [...groups.values()];
+}
+
+function toCluster(group: PlacedPoint[], zoom: number): MapCluster {
+	const xs = group.map((item) => item.x);
+	const ys = group.map((item) => item.y);
+	const span = Math.max(
+		Math.max(...xs) - Math.min(...xs),
+		Math.max(...ys) - Math.min(...ys),
+	);
+	// Zoom at which the group's extent is wider than a cell
+	const splitZoom =
+		span > 0
+			? Math.floor(Math.log2(CLUSTER_RADIUS_PX / (TILE_SIZE * span))) + 1
+			: CLUSTER_MAX_ZOOM + 1;
+
+	const lngs = group.map((item) => item.lng);
+	const lats = group.map((item) => item.lat);
+	const cells = (TILE_SIZE * 2 ** zoom) / CLUSTER_RADIUS_PX;
+
+	return {
+		id: `cluster:${zoom}:${Math.floor(group[0].x * cells)}:${Math.floor(group[0].y * cells)}`,
+		position: {
+			lat: lats.reduce((sum, lat) => sum + lat, 0) / group.length,
+			lng: lngs.reduce((sum, lng) => sum + lng, 0) / group.length,
+		},
+		type: "cluster",
+		status: group.reduce<MapMarker["status"]>(
+			(best, item) =>
+				STATUS_RANK[item.status] > STATUS_RANK[best] ? item.status : best,
+			"scheduled",
+		),
+		popularity: group.reduce(
+			(sum, item) => sum + (item.point.engagement?.likes ?? 0),
+			0,
+		),
+		count: group.length,
+		liveCount: group.filter((item) => item.status === "live").length,
+		bounds: {
+			west: Math.min(...lngs),
+			south: Math.min(...lats),
+			east: Math.max(...lngs),
+			north: Math.max(...lats),
+		},
+		expansionZoom: Math.min(
+			Math.max(splitZoom, zoom + 1),
+			CLUSTER_MAX_ZOOM + 1,
+		),
+	};
+}
+
+export class PerformanceMapService {
+	private readonly performanceRepository = new PerformanceRepository();
+	private readonly logger = logger.child({ context: "PerformanceMapService" });
+
+	/**
+	 * Performances in the visible area: clusters at low zoom, individual
+	 * markers once zoomed in past CLUSTER_MAX_ZOOM or where a cell holds one
+	 */
+	async getViewport(
+		bounds: MapBounds,
+		zoom: number,
+		filters?: PerformanceListFilters,
+	): Promise<MapViewport> {
+		const found = await this.performanceRepository.findMapPoints(
+			boundsToPolygons(bounds),
+			filters,
+			MAX_MAP_POINTS,
+		);
+		const truncated = found.length > MAX_MAP_POINTS;
+		if (truncated) {
+			this.logger.warn("Map viewport truncated", { bounds, zoom });
+		}
+
+		const now = new Date();
+		const placed = found.slice(0, MAX_MAP_POINTS).map((point) => {
+			const [lng, lat] = getMarkerCoordinates(point, bounds);
+			return {
+				point,
+				lng,
+				lat,
+				...lngLatToWorld(lng, lat),
+				status: getMarkerStatus(point, now),
+			};
+		});
+
+		const clustered = zoom <= CLUSTER_MAX_ZOOM;
+		const groups = clustered
+			? clusterPoints(placed, zoom)
+			: placed.map((item) => [item]);
+
+		// Full documents only for what is drawn as a single marker
+		const singles = groups.filter((group) => group.length === 1);
+		const performances = await this.performanceRepository.findManyById(
+			singles.map(([item]) => String(item.point._id)),
+		);
+		const byId = new Map(
+			performances.map((performance) => [String(performance._id), performance]),
+		);
+
+		const features: MapFeature[] = [];
+		for (const group of groups) {
+			if (group.length > 1) {
+				features.push(toCluster(group, zoom));
+				continue;
+			}
+
+			const [item] = group;
+			const performance = byId.get(String(item.point._id));
+			if (!performance) continue; // Deleted since the first query
+
+			features.push({
+				id: String(item.point._id),
+				position: { lat: item.lat, lng: item.lng },
+				type: "performance",
+				status: item.status,
+				popularity: item.point.engagement?.likes ?? 0,
+				performance: performance as unknown as Performance,
+			});
+		}
+
+		return {
+			features,
+			total: placed.length,
+			clustered,
+			truncated,
+		};
+	}
+}
+
+export const performanceMapService = new PerformanceMapService();
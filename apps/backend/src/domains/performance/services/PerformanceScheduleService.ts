@@ -0,0 +1,442 @@
+import type { PerformanceScheduleDocument } from "../entities/PerformanceSchedule";
+import { PerformanceRepository } from "../repositories/PerformanceRepository";
+import { PerformanceScheduleRepository } from "../repositories/PerformanceScheduleRepository";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import {
+	formatDateInTimeZone,
+	isValidTimeZone,
+	zonedTimeToUtc,
+} from "../../../shared/utils/timezone";
+import type {
+	CreatePerformanceScheduleDto,
+	Performance,
+	PerformanceSchedule,
+	RecurrenceRule,
+	UpdatePerformanceScheduleDto,
+} from "@spm/shared-types";
+
+// How far ahead occurrences are materialized as Performance documents
+const MATERIALIZE_DAYS_AHEAD = 14;
+const MATERIALIZE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number): string =>
+	new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+		.toISOString()
+		.slice(0, 10);
+
+const isCalendarDate = (date: string): boolean =>
+	/^\d{4}-\d{2}-\d{2}$/.test(date) && addDays(date, 0) === date;
+
+/**
+ * Occurrence dates of a recurrence rule between two dates (inclusive)
+ */
+export function expandRecurrence(
+	rule: RecurrenceRule,
+	from: string,
+	until: string,
+): string[] {
+	const interval = rule.interval || 1;
+	const start = Date.parse(`${rule.startDate}T00:00:00Z`);
+	const startWeek = start - new Date(start).getUTCDay() * DAY_MS;
+
+	const dates: string[] = [];
+	for (let date = from; date <= until; date = addDays(date, 1)) {
+		const time = Date.parse(`${date}T00:00:00Z`);
+
+		if (rule.frequency === "daily") {
+			if (Math.round((time - start) / DAY_MS) % interval === 0) {
+				dates.push(date);
+			}
+			continue;
+		}
+
+		const weeks = Math.floor((time - startWeek) / (7 * DAY_MS));
+		if (
+			rule.daysOfWeek?.includes(new Date(time).getUTCDay()) &&
+			weeks % interval === 0
+		) {
+			dates.push(date);
+		}
+	}
+
+	return dates;
+}
+
+/**
+ * The Performance document for one occurrence of a schedule, with the stop
+ * times converted from the schedule's timezone
+ */
+export function buildOccurrence(
+	schedule: PerformanceScheduleDocument,
+	date: string,
+): Omit<Performance, "_id" | "createdAt" | "updatedAt"> {
+	// Stops run in order; a time earlier than the previous one rolls over to the next day
+	let dayOffset = 0;
+	let previousEnd: Date | undefined;
+	const stops = schedule.stops.map((stop) => {
+		let startTime = zonedTimeToUtc(
+			addDays(date, dayOffset),
+			stop.startTime,
+			schedule.timezone,
+		);
+		if (previousEnd && startTime < previousEnd) {
+			dayOffset++;
+			startTime = zonedTimeToUtc(
+				addDays(date, dayOffset),
+				stop.startTime,
+				schedule.timezone,
+			);
+		}
+
+		let endTime = zonedTimeToUtc(
+			addDays(date, dayOffset),
+			stop.endTime,
+			schedule.timezone,
+		);
+		if (endTime <= startTime) {
+			dayOffset++;
+			endTime = zonedTimeToUtc(
+				addDays(date, dayOffset),
+				stop.endTime,
+				schedule.timezone,
+			);
+		}
+		previousEnd = endTime;
+
+		return {
+			location: {
+				coordinates: stop.location.coordinates,
+				address: stop.location.address,
+				name: stop.location.name,
+			},
+			startTime,
+			endTime,
+			status: "scheduled" as const,
+		};
+	});
+
+	const scheduledFor = stops[0].startTime;
+
+	return {
+		performerId: schedule.performerId,
+		title: schedule.title,
+		description: schedule.description,
+		genre: schedule.genre,
+		route: { stops },
+		videoUrl: schedule.videoUrl,
+		videoThumbnail: schedule.videoThumbnail,
+		engagement: {
+			likes: 0,
+			views: 0,
+			tips: 0,
+			likedBy: [],
+		},
+		status: "scheduled",
+		scheduledFor,
+		expiresAt: new Date(scheduledFor.getTime() + DAY_MS),
+		scheduleId: schedule._id.toString(),
+		occurrenceDate: date,
+	};
+}
+
+export class PerformanceScheduleService {
+	private readonly scheduleRepository = new PerformanceScheduleRepository();
+	private readonly performanceRepository = new PerformanceRepository();
+	private readonly logger = logger.child({
+		context: "PerformanceScheduleService",
+	});
+
+	async createSchedule(
+		data: CreatePerformanceScheduleDto,
+		performerId: string,
+	): Promise<PerformanceSchedule> {
+		try {
+			this.validateSchedule(data);
+
+			const schedule = await this.scheduleRepository.create({
+				...data,
+				performerId,
+			});
+			const created = await this.materialize(schedule);
+
+			this.logger.info("Performance schedule created", {
+				scheduleId: schedule._id,
+				performerId,
+				occurrences: created,
+			});
+
+			return schedule.toJSON() as PerformanceSchedule;
+		} catch (error) {
+			this.logger.error("Failed to create performance schedule", {
+				error,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	async getSchedulesByPerformer(
+		performerId: string,
+	): Promise<PerformanceSchedule[]> {
+		const schedules =
+			await this.scheduleRepository.findByPerformerId(performerId);
+		return schedules.map((schedule) => schedule.toJSON() as PerformanceSchedule);
+	}
+
+	async getSchedule(
+		id: string,
+		performerId: string,
+	): Promise<PerformanceSchedule> {
+		const schedule = await this.findOwnedSchedule(id, performerId);
+		return schedule.toJSON() as PerformanceSchedule;
+	}
+
+	/**
+	 * Edit the whole series. Upcoming occurrences are regenerated from the new
+	 * template; occurrences edited individually are left untouched.
+	 */
+	async updateSchedule(
+		id: string,
+		updateData: UpdatePerformanceScheduleDto,
+		performerId: string,
+	): Promise<PerformanceSchedule> {
+		try {
+			const schedule = await this.findOwnedSchedule(id, performerId);
+			if (schedule.status === "cancelled") {
+				throw new ApiError(400, "Cancelled schedules cannot be edited");
+			}
+
+			schedule.set(updateData);
+			this.validateSchedule(schedule);
+			schedule.materializedUntil = undefined;
+			await schedule.save();
+
+			await this.performanceRepository.deleteUpcomingOccurrences(id);
+			await this.materialize(schedule);
+
+			return schedule.toJSON() as PerformanceSchedule;
+		} catch (error) {
+			this.logger.error("Failed to update performance schedule", {
+				error,
+				scheduleId: id,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Cancel the whole series and remove every occurrence that has not started
+	 */
+	async cancelSchedule(id: string, performerId: string): Promise<void> {
+		try {
+			const schedule = await this.findOwnedSchedule(id, performerId);
+
+			schedule.status = "cancelled";
+			await schedule.save();
+
+			await this.performanceRepository.deleteUpcomingOccurrences(id, {
+				includeDetached: true,
+			});
+		} catch (error) {
+			this.logger.error("Failed to cancel performance schedule", {
+				error,
+				scheduleId: id,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Cancel a single occurrence, whether or not it has been materialized yet
+	 */
+	async cancelOccurrence(
+		id: string,
+		occurrenceDate: string,
+		performerId: string,
+	): Promise<PerformanceSchedule> {
+		try {
+			if (!isCalendarDate(occurrenceDate)) {
+				throw new ValidationError("Occurrence date must be YYYY-MM-DD");
+			}
+
+			await this.findOwnedSchedule(id, performerId);
+
+			const schedule = await this.scheduleRepository.addException(
+				id,
+				occurrenceDate,
+			);
+			await this.performanceRepository.deleteUpcomingOccurrences(id, {
+				includeDetached: true,
+				occurrenceDate,
+			});
+
+			return schedule?.toJSON() as PerformanceSchedule;
+		} catch (error) {
+			this.logger.error("Failed to cancel schedule occurrence", {
+				error,
+				scheduleId: id,
+				occurrenceDate,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Materialize upcoming occurrences for every active schedule
+	 */
+	async materializeAll(): Promise<number> {
+		const schedules = await this.scheduleRepository.findActive();
+
+		let created = 0;
+		for (const schedule of schedules) {
+			try {
+				created += await this.materialize(schedule);
+			} catch (error) {
+				this.logger.error("Failed to materialize schedule", {
+					error,
+					scheduleId: schedule._id,
+				});
+			}
+		}
+
+		return created;
+	}
+
+	/**
+	 * Keep occurrences materialized MATERIALIZE_DAYS_AHEAD days ahead
+	 */
+	startScheduler(): NodeJS.Timeout {
+		const run = () => {
+			this.materializeAll()
+				.then((created) => {
+					if (created > 0) {
+						this.logger.info("Schedule occurrences materialized", { created });
+					}
+				})
+				.catch((error) =>
+					this.logger.error("Scheduled materialization failed", { error }),
+				);
+		};
+
+		const timer = setInterval(run, MATERIALIZE_INTERVAL_MS);
+		timer.unref();
+		run();
+
+		return timer;
+	}
+
+	/**
+	 * Create the Performance documents for occurrences between today and the
+	 * horizon that do not exist yet. Returns the number created.
+	 */
+	private async materialize(
+		schedule: PerformanceScheduleDocument,
+	): Promise<number> {
+		if (schedule.status !== "active") return 0;
+
+		const { recurrence, timezone } = schedule;
+		const today = formatDateInTimeZone(new Date(), timezone);
+		const from =
+			recurrence.startDate > today ? recurrence.startDate : today;
+		const horizon = addDays(today, MATERIALIZE_DAYS_AHEAD);
+		const until =
+			recurrence.endDate && recurrence.endDate < horizon
+				? recurrence.endDate
+				: horizon;
+
+		const scheduleId = schedule._id.toString();
+		const existing = new Set(
+			await this.performanceRepository.findOccurrenceDates(scheduleId),
+		);
+		const exceptions = new Set(schedule.exceptions);
+
+		let created = 0;
+		for (const date of expandRecurrence(recurrence, from, until)) {
+			if (existing.has(date) || exceptions.has(date)) continue;
+
+			const occurrence = buildOccurrence(schedule, date);
+			// Skip occurrences that would already be over
+			if (occurrence.route.stops.at(-1)!.endTime <= new Date()) continue;
+
+			try {
+				await this.performanceRepository.create(occurrence);
+				created++;
+			} catch (error) {
+				// Another run materialized the same occurrence concurrently
+				if ((error as { code?: number }).code !== 11000) throw error;
+			}
+		}
+
+		if (schedule.materializedUntil !== until) {
+			schedule.materializedUntil = until;
+			await schedule.save();
+		}
+
+		return created;
+	}
+
+	private validateSchedule(
+		data: Pick<CreatePerformanceScheduleDto, "stops" | "timezone" | "recurrence">,
+	): void {
+		if (!data.stops || data.stops.length === 0) {
+			throw new ValidationError("At least one route stop is required");
+		}
+
+		if (data.stops.length > 5) {
+			throw new ValidationError("Maximum 5 route stops allowed");
+		}
+
+		if (!isValidTimeZone(data.timezone)) {
+			throw new ValidationError("Invalid timezone", "timezone");
+		}
+
+		const { recurrence } = data;
+		if (!isCalendarDate(recurrence.startDate)) {
+			throw new ValidationError("Start date must be YYYY-MM-DD", "recurrence");
+		}
+
+		if (recurrence.endDate) {
+			if (!isCalendarDate(recurrence.endDate)) {
+				throw new ValidationError("End date must be YYYY-MM-DD", "recurrence");
+			}
+			if (recurrence.endDate < recurrence.startDate) {
+				throw new ValidationError(
+					"End date must not be before the start date",
+					"recurrence",
+				);
+			}
+		}
+
+		if (
+			recurrence.frequency === "weekly" &&
+			(!recurrence.daysOfWeek || recurrence.daysOfWeek.length === 0)
+		) {
+			throw new ValidationError(
+				"Weekly schedules need at least one day of the week",
+				"recurrence",
+			);
+		}
+	}
+
+	private async findOwnedSchedule(
+		id: string,
+		performerId: string,
+	): Promise<PerformanceScheduleDocument> {
+		const schedule = await this.scheduleRepository.findById(id);
+		if (!schedule) {
+			throw new ApiError(404, "Schedule not found");
+		}
+
+		if (schedule.performerId !== performerId) {
+			throw new ApiError(403, "You can only manage your own schedules");
+		}
+
+		return schedule;
+	}
+}
+
+export const performanceScheduleService = new PerformanceScheduleService();
@@ -1,14 +1,41 @@
-import { PerformanceRepository } from "../repositories/PerformanceRepository";
+import type { PerformanceDocument } from "../entities/Performance";
+import {
+	type PerformanceEventContext,
+	PerformanceEventRepository,
+} from "../repositories/PerformanceEventRepository";
+import {
+	type PerformanceListFilters,
+	PerformanceRepository,
+} from "../repositories/PerformanceRepository";
+import { PerformanceScheduleRepository } from "../repositories/PerformanceScheduleRepository";
+import { performanceTrendingService } from "./PerformanceTrendingService";
+import { UserRepository } from "../../user/repositories/UserRepository";
+import { followService } from "../../user/services/FollowService";
+import {
+	emitPerformanceUpdate,
+	emitToUser,
+} from "../../../shared/infrastructure/socket";
 import { ApiError, ValidationError } from "../../../shared/utils/errors.js";
 import { logger } from "../../../shared/utils/logger.js";
+import {
+	DEFAULT_PAGE_LIMIT,
+	decodeCursor,
+	toCursorPage,
+} from "../../../shared/utils/pagination.js";
 import type {
 	CreatePerformanceDto,
+	CursorPage,
+	NearbyPerformance,
 	Performance,
+	Popularity,
 	UpdatePerformanceDto,
 } from "@spm/shared-types";
 
 export class PerformanceService {
 	private readonly performanceRepository = new PerformanceRepository();
+	private readonly userRepository = new UserRepository();
+	private readonly eventRepository = new PerformanceEventRepository();
+	private readonly scheduleRepository = new PerformanceScheduleRepository();
 	private readonly logger = logger.child({ context: "PerformanceService" });
 
 	async createPerformance(
@@ -107,6 +134,8 @@ export class PerformanceService {
 				stopsCount: data.route.stops.length,
 			});
 
+			await followService.notifyFollowersOfNewPerformance(performance);
+
 			return performance as unknown as Performance;
 		} catch (error) {
 			this.logger.error("Failed to create performance", { error, performerId });
@@ -129,11 +158,23 @@ export class PerformanceService {
 
 	async getPerformancesByPerformer(
 		performerId: string,
-	): Promise<Performance[]> {
+		page: { cursor?: string; limit?: number } = {},
+	): Promise<CursorPage<Performance>> {
 		try {
-			const performances =
-				await this.performanceRepository.findByPerformerId(performerId);
-			return performances as unknown as Performance[];
+			const { limit = DEFAULT_PAGE_LIMIT } = page;
+			const performances = await this.performanceRepository.findByPerformerId(
+				performerId,
+				limit + 1,
+				decodeCursor(page.cursor),
+			);
+			return toCursorPage(
+				performances as unknown as Performance[],
+				limit,
+				(performance) => ({
+					key: new Date(performance.createdAt).getTime(),
+					id: String(performance._id),
+				}),
+			);
 		} catch (error) {
 			this.logger.error("Failed to get performances by performer", {
 				error,
@@ -143,22 +184,48 @@ export class PerformanceService {
 		}
 	}
 
+	/**
+	 * Performances near a point, nearest first or by popularity. "trending"
+	 * also leaves out performances without recent activity.
+	 */
 	async getNearbyPerformances(
 		coordinates: [number, number],
 		radiusInKm = 10,
-		filters?: {
-			genre?: string;
-			status?: string;
-			timeRange?: "now" | "hour" | "today";
-		},
-	): Promise<Performance[]> {
+		filters?: PerformanceListFilters,
+		page: { cursor?: string; limit?: number; popularity?: Popularity } = {},
+	): Promise<CursorPage<NearbyPerformance>> {
 		try {
+			const { limit = DEFAULT_PAGE_LIMIT, popularity } = page;
 			const performances = await this.performanceRepository.findNearby(
 				coordinates,
 				radiusInKm,
-				filters,
+				popularity === "trending"
+					? {
+							...filters,
+							minTrendingRank: performanceTrendingService.minTrendingRank(),
+						}
+					: filters,
+				limit + 1,
+				decodeCursor(page.cursor),
+				popularity ?? "distance",
 			);
-			return performances as unknown as Performance[];
+
+			// The cursor keeps exact meters; clients get km like search results
+			const { items, pagination } = toCursorPage(
+				performances,
+				limit,
+				(performance) => ({
+					key: performance.sortKey,
+					id: String(performance._id),
+				}),
+			);
+			return {
+				items: items.map(({ sortKey: _sortKey, ...performance }) => ({
+					...(performance as unknown as Performance),
+					distance: performance.distance / 1000,
+				})),
+				pagination,
+			};
 		} catch (error) {
 			this.logger.error("Failed to get nearby performances", {
 				error,
@@ -185,9 +252,17 @@ export class PerformanceService {
 				throw new ApiError(403, "You can only update your own performances");
 			}
 
+			if (existingPerformance.archivedAt) {
+				throw new ApiError(400, "Archived performances cannot be edited");
+			}
+
+			// Occurrences edited individually are no longer regenerated by series edits
 			const updatedPerformance = await this.performanceRepository.updateById(
 				id,
-				updateData as Partial<Performance>,
+				{
+					...updateData,
+					...(existingPerformance.scheduleId && { detachedFromSchedule: true }),
+				} as Partial<Performance>,
 			);
 			return updatedPerformance
 				? (updatedPerformance.toJSON() as Performance)
@@ -214,6 +289,22 @@ export class PerformanceService {
 				throw new ApiError(403, "You can only delete your own performances");
 			}
 
+			// Past performances stay referenced by tips and analytics
+			if (existingPerformance.archivedAt) {
+				throw new ApiError(400, "Archived performances cannot be deleted");
+			}
+
+			// Keep the schedule from materializing the deleted occurrence again
+			if (
+				existingPerformance.scheduleId &&
+				existingPerformance.occurrenceDate
+			) {
+				await this.scheduleRepository.addException(
+					existingPerformance.scheduleId,
+					existingPerformance.occurrenceDate,
+				);
+			}
+
 			return await this.performanceRepository.deleteById(id);
 		} catch (error) {
 			this.logger.error("Failed to delete performance", {
@@ -228,6 +319,7 @@ export class PerformanceService {
 	async toggleLikePerformance(
 		performanceId: string,
 		userId: string,
+		timezone?: string,
 	): Promise<Performance | null> {
 		try {
 			// Check if already liked
@@ -258,6 +350,28 @@ export class PerformanceService {
 				this.logger.info("Performance liked", { performanceId, userId });
 			}
 
+			if (updatedPerformance) {
+				await this.eventRepository.record(
+					performanceId,
+					alreadyLiked ? "unlike" : "like",
+					{ userId, timezone },
+				);
+				await performanceTrendingService.recordActivity(
+					performanceId,
+					alreadyLiked ? "unlike" : "like",
+				);
+
+				emitPerformanceUpdate({
+					performanceId,
+					status: updatedPerformance.status,
+					engagement: updatedPerformance.engagement,
+				});
+
+				if (!alreadyLiked) {
+					await this.notifyLike(updatedPerformance, userId);
+				}
+			}
+
 			return updatedPerformance as Performance | null;
 		} catch (error) {
 			this.logger.error("Failed to toggle like performance", {
@@ -272,6 +386,7 @@ export class PerformanceService {
 	async likePerformance(
 		performanceId: string,
 		userId: string,
+		timezone?: string,
 	): Promise<Performance | null> {
 		try {
 			// Check if already liked
@@ -291,6 +406,13 @@ export class PerformanceService {
 
 			const updatedPerformance =
 				await this.performanceRepository.likePerformance(performanceId, userId);
+			if (updatedPerformance) {
+				await this.eventRepository.record(performanceId, "like", {
+					userId,
+					timezone,
+				});
+				await performanceTrendingService.recordActivity(performanceId, "like");
+			}
 			return updatedPerformance
 				? (updatedPerformance.toJSON() as Performance)
 				: null;
@@ -307,6 +429,7 @@ export class PerformanceService {
 	async unlikePerformance(
 		performanceId: string,
 		userId: string,
+		timezone?: string,
 	): Promise<Performance | null> {
 		try {
 			const updatedPerformance =
@@ -314,6 +437,16 @@ export class PerformanceService {
 					performanceId,
 					userId,
 				);
+			if (updatedPerformance) {
+				await this.eventRepository.record(performanceId, "unlike", {
+					userId,
+					timezone,
+				});
+				await performanceTrendingService.recordActivity(
+					performanceId,
+					"unlike",
+				);
+			}
 			return updatedPerformance
 				? (updatedPerformance.toJSON() as Performance)
 				: null;
@@ -351,6 +484,7 @@ export class PerformanceService {
 			const updateData = {
 				status: "live" as const,
 				"route.stops.0.status": "active" as const,
+				"route.stops.0.checkedInAt": new Date(),
 			};
 
 			const updatedPerformance = await this.performanceRepository.updateById(
@@ -360,6 +494,11 @@ export class PerformanceService {
 
 			this.logger.info("Performance started", { performanceId, performerId });
 
+			if (updatedPerformance) {
+				this.broadcastStatusChange(updatedPerformance, "started");
+				await followService.notifyFollowersLive(updatedPerformance);
+			}
+
 			return updatedPerformance
 				? (updatedPerformance.toJSON() as Performance)
 				: null;
@@ -389,8 +528,16 @@ export class PerformanceService {
 				throw new ApiError(403, "You can only end your own performances");
 			}
 
+			// Close the stop the performer was checked in to
+			const activeStopIndex = existingPerformance.route.stops.findIndex(
+				(stop) => stop.status === "active",
+			);
 			const updateData = {
 				status: "completed" as const,
+				...(activeStopIndex !== -1 && {
+					[`route.stops.${activeStopIndex}.status`]: "completed",
+					[`route.stops.${activeStopIndex}.completedAt`]: new Date(),
+				}),
 			};
 
 			const updatedPerformance = await this.performanceRepository.updateById(
@@ -400,6 +547,10 @@ export class PerformanceService {
 
 			this.logger.info("Performance ended", { performanceId, performerId });
 
+			if (updatedPerformance) {
+				this.broadcastStatusChange(updatedPerformance, "ended");
+			}
+
 			return updatedPerformance
 				? (updatedPerformance.toJSON() as Performance)
 				: null;
@@ -436,11 +587,79 @@ export class PerformanceService {
 	}
 
 	/**
-	 * Increment view count for a performance
+	 * Push a status change to map clients and to the performer's own devices
+	 */
+	private broadcastStatusChange(
+		performance: PerformanceDocument,
+		change: "started" | "ended",
+	): void {
+		const currentStop =
+			performance.route.stops.find((stop) => stop.status === "active") ||
+			performance.route.stops[0];
+
+		emitPerformanceUpdate({
+			performanceId: performance._id.toString(),
+			status: performance.status,
+			location: currentStop?.location.coordinates,
+			engagement: performance.engagement,
+		});
+
+		emitToUser(performance.performerId.toString(), {
+			type: "performance",
+			title: change === "started" ? "You're live!" : "Performance ended",
+			message: `"${performance.title}" has ${change}`,
+			data: {
+				performanceId: performance._id.toString(),
+				status: change,
+				title: performance.title,
+			},
+		});
+	}
+
+	/**
+	 * Tell the performer someone liked their performance (never fails the like)
 	 */
-	async incrementViews(performanceId: string): Promise<void> {
+	private async notifyLike(
+		performance: PerformanceDocument,
+		likerId: string,
+	): Promise<void> {
+		const performerId = performance.performerId.toString();
+		if (performerId === likerId) return;
+
+		try {
+			const liker = await this.userRepository.findById(likerId);
+			const fromUser = liker?.profile?.displayName || "Someone";
+
+			emitToUser(performerId, {
+				type: "like",
+				title: "New Like!",
+				message: `${fromUser} liked your performance "${performance.title}"`,
+				data: {
+					performanceId: performance._id.toString(),
+					performanceTitle: performance.title,
+					fromUser,
+				},
+			});
+		} catch (error) {
+			this.logger.warn("Failed to send like notification", {
+				error,
+				performanceId: performance._id,
+				likerId,
+			});
+		}
+	}
+
+	/**
+	 * Increment view count for a performance and record the view for analytics
+	 */
+	async incrementViews(
+		performanceId: string,
+		context: PerformanceEventContext = {},
+	): Promise<void> {
 		try {
 			await this.performanceRepository.incrementViews(performanceId);
+			await this.eventRepository.record(performanceId, "view", context);
+			await performanceTrendingService.recordActivity(performanceId, "view");
 		} catch (error) {
 			this.logger.error("Failed to increment views", { performanceId, error });
 			throw error;
@@ -0,0 +1,287 @@
+import type { PerformanceDocument } from "../entities/Performance";
+import { PerformanceRepository } from "../repositories/PerformanceRepository";
+import { emitPerformanceUpdate } from "../../../shared/infrastructure/socket";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import type {
+	LivePosition,
+	Performance,
+	PerformanceStop,
+} from "@spm/shared-types";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Performer-driven progress along a route: check in to the next stop, skip or
+ * extend stops and post the actual GPS position while live. Every change is
+ * broadcast so map markers follow the performer.
+ */
+export class PerformanceStopService {
+	private readonly performanceRepository = new PerformanceRepository();
+	private readonly logger = logger.child({ context: "PerformanceStopService" });
+
+	/**
+	 * Complete the active stop and check in to the next scheduled one
+	 */
+	async advance(
+		performanceId: string,
+		performerId: string,
+	): Promise<Performance> {
+		const performance = await this.findOwnedPerformance(
+			performanceId,
+			performerId,
+			["live"],
+		);
+
+		const now = new Date();
+		const stops = this.copyStops(performance);
+		const currentIndex = stops.findIndex((stop) => stop.status === "active");
+		const nextIndex = this.findNextScheduledStop(stops, currentIndex);
+		if (nextIndex === -1) {
+			throw new ApiError(
+				400,
+				"This is the last stop; end the performance instead",
+			);
+		}
+
+		if (currentIndex !== -1) {
+			stops[currentIndex] = {
+				...stops[currentIndex],
+				status: "completed",
+				completedAt: now,
+			};
+		}
+		stops[nextIndex] = {
+			...stops[nextIndex],
+			status: "active",
+			checkedInAt: now,
+		};
+
+		this.logger.info("Advanced to next stop", {
+			performanceId,
+			from: currentIndex,
+			to: nextIndex,
+		});
+
+		return this.saveStops(performance, stops);
+	}
+
+	/**
+	 * Cancel a stop that has not been completed. Skipping the active stop
+	 * checks in to the next one.
+	 */
+	async skip(
+		performanceId: string,
+		performerId: string,
+		stopIndex: number,
+	): Promise<Performance> {
+		const performance = await this.findOwnedPerformance(
+			performanceId,
+			performerId,
+			["scheduled", "live"],
+		);
+
+		const stops = this.copyStops(performance);
+		const stop = this.getOpenStop(stops, stopIndex);
+
+		const now = new Date();
+		const nextIndex = this.findNextScheduledStop(stops, stopIndex);
+		const remaining = stops.filter(
+			(other, index) =>
+				index !== stopIndex &&
+				(other.status === "scheduled" || other.status === "active"),
+		);
+		if (remaining.length === 0) {
+			throw new ApiError(
+				400,
+				performance.status === "live"
+					? "This is the last stop; end the performance instead"
+					: "A performance needs at least one stop; delete it instead",
+			);
+		}
+
+		stops[stopIndex] = { ...stop, status: "cancelled", completedAt: now };
+		if (stop.status === "active" && nextIndex !== -1) {
+			stops[nextIndex] = {
+				...stops[nextIndex],
+				status: "active",
+				checkedInAt: now,
+			};
+		}
+
+		this.logger.info("Stop skipped", { performanceId, stopIndex });
+
+		return this.saveStops(performance, stops);
+	}
+
+	/**
+	 * Push back a stop's end time. Later stops that would now overlap are
+	 * shifted by the same amount.
+	 */
+	async extend(
+		performanceId: string,
+		performerId: string,
+		stopIndex: number,
+		minutes: number,
+	): Promise<Performance> {
+		const performance = await this.findOwnedPerformance(
+			performanceId,
+			performerId,
+			["scheduled", "live"],
+		);
+
+		const stops = this.copyStops(performance);
+		const stop = this.getOpenStop(stops, stopIndex);
+
+		let previousEnd = new Date(
+			new Date(stop.endTime).getTime() + minutes * MINUTE_MS,
+		);
+		stops[stopIndex] = { ...stop, endTime: previousEnd };
+
+		for (let index = stopIndex + 1; index < stops.length; index++) {
+			const next = stops[index];
+			if (next.status !== "scheduled") continue;
+
+			const overlap = previousEnd.getTime() - new Date(next.startTime).getTime();
+			if (overlap <= 0) break;
+
+			stops[index] = {
+				...next,
+				startTime: new Date(new Date(next.startTime).getTime() + overlap),
+				endTime: new Date(new Date(next.endTime).getTime() + overlap),
+			};
+			previousEnd = stops[index].endTime;
+		}
+
+		// Never archive a performance before its last stop ends
+		const lastEnd = Math.max(
+			...stops.map((other) => new Date(other.endTime).getTime()),
+		);
+		const expiresAt =
+			lastEnd > new Date(performance.expiresAt).getTime()
+				? new Date(lastEnd)
+				: undefined;
+
+		this.logger.info("Stop extended", { performanceId, stopIndex, minutes });
+
+		return this.saveStops(performance, stops, expiresAt ? { expiresAt } : {});
+	}
+
+	/**
+	 * Record the performer's actual position while live
+	 */
+	async updatePosition(
+		performanceId: string,
+		performerId: string,
+		position: Omit<LivePosition, "updatedAt">,
+	): Promise<Performance> {
+		await this.findOwnedPerformance(performanceId, performerId, ["live"]);
+
+		const livePosition: LivePosition = { ...position, updatedAt: new Date() };
+		const updated = await this.performanceRepository.updateById(
+			performanceId,
+			{ livePosition },
+		);
+		if (!updated) {
+			throw new ApiError(404, "Performance not found");
+		}
+
+		this.broadcast(updated);
+		return updated as unknown as Performance;
+	}
+
+	private async findOwnedPerformance(
+		performanceId: string,
+		performerId: string,
+		allowedStatuses: Performance["status"][],
+	): Promise<PerformanceDocument> {
+		const performance =
+			await this.performanceRepository.findById(performanceId);
+		if (!performance) {
+			throw new ApiError(404, "Performance not found");
+		}
+
+		if (performance.performerId.toString() !== performerId) {
+			throw new ApiError(403, "You can only manage your own performances");
+		}
+
+		if (!allowedStatuses.includes(performance.status)) {
+			throw new ApiError(
+				400,
+				allowedStatuses.length === 1
+					? `Performance must be ${allowedStatuses[0]}`
+					: `Performance must be ${allowedStatuses.join(" or ")}`,
+			);
+		}
+
+		return performance;
+	}
+
+	private copyStops(performance: PerformanceDocument): PerformanceStop[] {
+		return performance.route.stops.map((stop) => ({ ...stop }));
+	}
+
+	private getOpenStop(
+		stops: PerformanceStop[],
+		stopIndex: number,
+	): PerformanceStop {
+		const stop = stops[stopIndex];
+		if (!stop) {
+			throw new ValidationError("Stop not found", "stopIndex");
+		}
+
+		if (stop.status !== "scheduled" && stop.status !== "active") {
+			throw new ApiError(400, `Stop is already ${stop.status}`);
+		}
+
+		return stop;
+	}
+
+	private findNextScheduledStop(
+		stops: PerformanceStop[],
+		afterIndex: number,
+	): number {
+		return stops.findIndex(
+			(stop, index) => index > afterIndex && stop.status === "scheduled",
+		);
+	}
+
+	private async saveStops(
+		performance: PerformanceDocument,
+		stops: PerformanceStop[],
+		extra: Partial<Performance> = {},
+	): Promise<Performance> {
+		const updated = await this.performanceRepository.updateById(
+			performance._id.toString(),
+			{ route: { stops }, ...extra },
+		);
+		if (!updated) {
+			throw new ApiError(404, "Performance not found");
+		}
+
+		this.broadcast(updated);
+		return updated as unknown as Performance;
+	}
+
+	private broadcast(performance: PerformanceDocument): void {
+		const stops = performance.route.stops;
+		const currentStopIndex = stops.findIndex(
+			(stop) => stop.status === "active",
+		);
+		const currentStop = stops[currentStopIndex] ?? stops[0];
+
+		emitPerformanceUpdate({
+			performanceId: performance._id.toString(),
+			status: performance.status,
+			location:
+				performance.livePosition?.coordinates ??
+				currentStop?.location.coordinates,
+			engagement: performance.engagement,
+			currentStopIndex: currentStopIndex === -1 ? undefined : currentStopIndex,
+			stopStatuses: stops.map((stop) => stop.status),
+			livePosition: performance.livePosition,
+		});
+	}
+}
+
+export const performanceStopService = new PerformanceStopService();
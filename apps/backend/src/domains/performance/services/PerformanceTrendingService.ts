@@ -0,0 +1,55 @@
+import { trendingRank } from "../entities/Performance";
+import { PerformanceRepository } from "../repositories/PerformanceRepository";
+import { logger } from "../../../shared/utils/logger";
+
+export type TrendingActivity = "like" | "unlike" | "view" | "tip";
+
+// What each interaction adds to the trending score
+const ACTIVITY_WEIGHTS: Record<TrendingActivity, number> = {
+	like: 1,
+	unlike: -1,
+	view: 0.1,
+	tip: 3,
+};
+
+// Decayed score a performance needs to count as trending right now
+const TRENDING_MIN_SCORE = 3;
+
+export class PerformanceTrendingService {
+	private readonly performanceRepository = new PerformanceRepository();
+	private readonly logger = logger.child({
+		context: "PerformanceTrendingService",
+	});
+
+	/**
+	 * Add an interaction to a performance's trending score. Ranking is best
+	 * effort, so a failed update never fails the request.
+	 */
+	async recordActivity(
+		performanceId: string,
+		activity: TrendingActivity,
+		count = 1,
+	): Promise<void> {
+		try {
+			await this.performanceRepository.addTrendingScore(
+				performanceId,
+				ACTIVITY_WEIGHTS[activity] * count,
+			);
+		} catch (error) {
+			this.logger.warn("Failed to record trending activity", {
+				error,
+				performanceId,
+				activity,
+			});
+		}
+	}
+
+	/**
+	 * Lowest stored rank of a performance that is trending at `now`
+	 */
+	minTrendingRank(now = new Date()): number {
+		return trendingRank(TRENDING_MIN_SCORE, now);
+	}
+}
+
+export const performanceTrendingService = new PerformanceTrendingService();
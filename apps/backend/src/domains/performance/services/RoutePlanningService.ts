@@ -0,0 +1,88 @@
+import type { Coordinates, RouteLeg, RoutePlan } from "@spm/shared-types";
+import { distanceInKm } from "../../../shared/utils/geo";
+import { logger } from "../../../shared/utils/logger";
+
+// Streets are rarely straight: the walk is this much longer than the crow flies
+const WALKING_DETOUR_FACTOR = 1.3;
+// Slower than a typical walk, performers carry their gear between stops
+const WALKING_SPEED_KMH = 4.5;
+
+export interface PlannedStop {
+	location: { coordinates: Coordinates };
+	startTime: string | Date;
+	endTime: string | Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const roundKm = (km: number) => Math.round(km * 100) / 100;
+
+export class RoutePlanningService {
+	private readonly logger = logger.child({ context: "RoutePlanningService" });
+
+	/**
+	 * Walking estimate for each pair of consecutive stops, checked against the
+	 * gap between the end of one stop and the start of the next. Infeasible
+	 * legs are warnings, not errors: the performer may cycle or take transit.
+	 */
+	planRoute(stops: PlannedStop[]): RoutePlan {
+		const legs: RouteLeg[] = [];
+		const warnings: string[] = [];
+
+		for (let i = 0; i < stops.length - 1; i++) {
+			const from = stops[i];
+			const to = stops[i + 1];
+
+			const distanceKm = distanceInKm(
+				from.location.coordinates,
+				to.location.coordinates,
+			);
+			const walkingDistanceKm = distanceKm * WALKING_DETOUR_FACTOR;
+			const walkingMinutes = Math.ceil(
+				(walkingDistanceKm / WALKING_SPEED_KMH) * 60,
+			);
+			const gapMinutes = Math.floor(
+				(new Date(to.startTime).getTime() - new Date(from.endTime).getTime()) /
+					MINUTE_MS,
+			);
+			const feasible = walkingMinutes <= gapMinutes;
+
+			if (!feasible) {
+				warnings.push(
+					`Stop ${i + 2} starts ${gapMinutes} min after stop ${i + 1} ends, but the walk takes about ${walkingMinutes} min (${roundKm(walkingDistanceKm)} km)`,
+				);
+			}
+
+			legs.push({
+				fromStop: i,
+				toStop: i + 1,
+				distanceKm: roundKm(distanceKm),
+				walkingDistanceKm: roundKm(walkingDistanceKm),
+				walkingMinutes,
+				gapMinutes,
+				feasible,
+			});
+		}
+
+		if (warnings.length > 0) {
+			this.logger.debug("Route has infeasible transitions", {
+				stops: stops.length,
+				warnings,
+			});
+		}
+
+		return {
+			legs,
+			totalWalkingDistanceKm: roundKm(
+				legs.reduce((total, leg) => total + leg.walkingDistanceKm, 0),
+			),
+			totalWalkingMinutes: legs.reduce(
+				(total, leg) => total + leg.walkingMinutes,
+				0,
+			),
+			warnings,
+		};
+	}
+}
+
+export const routePlanningService = new RoutePlanningService();
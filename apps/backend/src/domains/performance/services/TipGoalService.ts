@@ -0,0 +1,231 @@
+import { PerformanceModel } from "../entities/Performance";
+import { Transaction } from "../../payment/entities/Transaction";
+import { currencyService } from "../../payment/services/CurrencyService";
+import {
+	emitToPerformance,
+	emitToUser,
+} from "../../../shared/infrastructure/socket";
+import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import { logger } from "../../../shared/utils/logger";
+import type {
+	Performance,
+	SetTipGoalDto,
+	TipGoal,
+	TipGoalProgress,
+} from "@spm/shared-types";
+
+// Goal limits in minor units of the performer's currency
+const MIN_GOAL_AMOUNT = 100;
+const MAX_GOAL_AMOUNT = 1_000_000;
+
+/**
+ * Tip goals ("€50 for a new amp") on performances. Progress is pushed to
+ * everyone watching the performance after each tip, and a celebration event
+ * is sent the first time the goal is reached.
+ */
+export class TipGoalService {
+	private readonly logger = logger.child({ context: "TipGoalService" });
+
+	/**
+	 * Set or replace a performance's goal. The amount is in major units of
+	 * the performer's settlement currency.
+	 */
+	async setGoal(
+		performanceId: string,
+		performerId: string,
+		input: SetTipGoalDto,
+	): Promise<TipGoalProgress> {
+		await this.findOpenPerformance(performanceId, performerId);
+
+		const { paymentService } = await import(
+			"../../payment/services/PaymentService"
+		);
+		const currency = await paymentService.getPerformerCurrency(performerId);
+		const amount = Math.round(input.amount * 100);
+
+		if (amount < MIN_GOAL_AMOUNT || amount > MAX_GOAL_AMOUNT) {
+			throw new ValidationError(
+				`Goal must be between ${currencyService.format(MIN_GOAL_AMOUNT, currency)} and ${currencyService.format(MAX_GOAL_AMOUNT, currency)}`,
+				"amount",
+			);
+		}
+
+		// Replacing the goal clears reachedAt, so every goal is celebrated once
+		const tipGoal: TipGoal = {
+			amount,
+			currency,
+			description: input.description?.trim() || undefined,
+		};
+		await PerformanceModel.updateOne(
+			{ _id: performanceId },
+			{ $set: { tipGoal } },
+		);
+
+		this.logger.info("Tip goal set", {
+			performanceId,
+			amount,
+			currency,
+		});
+
+		const progress = await this.recordProgress(performanceId);
+		if (!progress) {
+			throw new ApiError(404, "Performance not found");
+		}
+		return progress;
+	}
+
+	async clearGoal(performanceId: string, performerId: string): Promise<void> {
+		await this.findOpenPerformance(performanceId, performerId);
+
+		await PerformanceModel.updateOne(
+			{ _id: performanceId },
+			{ $unset: { tipGoal: 1 } },
+		);
+
+		emitToPerformance(performanceId, "tip-goal-progress", {
+			performanceId,
+			goal: null,
+		});
+	}
+
+	/**
+	 * Current progress, or null when the performance has no goal
+	 */
+	async getProgress(performanceId: string): Promise<TipGoalProgress | null> {
+		const performance = await PerformanceModel.findById(performanceId)
+			.select("tipGoal")
+			.lean();
+		if (!performance?.tipGoal) return null;
+
+		return this.withProgress(performanceId, performance.tipGoal);
+	}
+
+	/**
+	 * Push the latest progress to viewers and celebrate the first time the
+	 * goal is reached. Called after a tip completes.
+	 */
+	async recordProgress(performanceId: string): Promise<TipGoalProgress | null> {
+		const performance = await PerformanceModel.findById(performanceId)
+			.select("performerId title tipGoal")
+			.lean();
+		if (!performance?.tipGoal) return null;
+
+		const progress = await this.withProgress(performanceId, performance.tipGoal);
+		if (progress.raised < progress.amount || progress.reachedAt) {
+			emitToPerformance(performanceId, "tip-goal-progress", {
+				performanceId,
+				goal: progress,
+			});
+			return progress;
+		}
+
+		// Only the update that sets reachedAt celebrates, so concurrent tips
+		// cannot send the event twice
+		const reachedAt = new Date();
+		const { modifiedCount } = await PerformanceModel.updateOne(
+			{
+				_id: performanceId,
+				"tipGoal.amount": progress.amount,
+				"tipGoal.reachedAt": { $exists: false },
+			},
+			{ $set: { "tipGoal.reachedAt": reachedAt } },
+		);
+		if (modifiedCount === 0) {
+			return this.getProgress(performanceId);
+		}
+
+		const reached = { ...progress, reachedAt };
+		emitToPerformance(performanceId, "tip-goal-reached", {
+			performanceId,
+			goal: reached,
+		});
+		this.notifyPerformer(performanceId, performance, reached);
+
+		this.logger.info("Tip goal reached", {
+			performanceId,
+			amount: progress.amount,
+			raised: progress.raised,
+		});
+
+		return reached;
+	}
+
+	private async withProgress(
+		performanceId: string,
+		goal: TipGoal,
+	): Promise<TipGoalProgress> {
+		const [totals] = await Transaction.aggregate<{ raised: number }>([
+			{
+				$match: {
+					performanceId,
+					status: "completed",
+					currency: goal.currency,
+				},
+			},
+			{
+				$group: {
+					_id: null,
+					raised: {
+						$sum: {
+							$subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+						},
+					},
+				},
+			},
+		]);
+		const raised = totals?.raised ?? 0;
+
+		return {
+			amount: goal.amount,
+			currency: goal.currency,
+			description: goal.description,
+			reachedAt: goal.reachedAt,
+			raised,
+			percent: Math.min(100, Math.floor((raised / goal.amount) * 100)),
+		};
+	}
+
+	private notifyPerformer(
+		performanceId: string,
+		performance: Pick<Performance, "performerId" | "title">,
+		goal: TipGoalProgress,
+	): void {
+		emitToUser(performance.performerId.toString(), {
+			type: "tip",
+			title: "Tip goal reached! 🎉",
+			message: `The crowd reached your ${currencyService.format(goal.amount, goal.currency)} goal${goal.description ? ` for ${goal.description}` : ""} at "${performance.title}"`,
+			data: {
+				performanceId,
+				amount: goal.amount,
+				currency: goal.currency,
+				raised: goal.raised,
+			},
+		});
+	}
+
+	// Goals can be managed until the performance is over
+	private async findOpenPerformance(
+		performanceId: string,
+		performerId: string,
+	): Promise<void> {
+		const performance = await PerformanceModel.findById(performanceId)
+			.select("performerId status archivedAt")
+			.lean();
+		if (!performance) {
+			throw new ApiError(404, "Performance not found");
+		}
+
+		if (performance.performerId.toString() !== performerId) {
+			throw new ApiError(403, "You can only manage your own performances");
+		}
+
+		if (
+			performance.archivedAt ||
+			(performance.status !== "scheduled" && performance.status !== "live")
+		) {
+			throw new ApiError(400, "Performance must be scheduled or live");
+		}
+	}
+}
+
+export const tipGoalService = new TipGoalService();
@@ -0,0 +1,75 @@
+import { searchService } from "../services/SearchService";
+import { ValidationError } from "../../../shared/utils/errors";
+import {
+	resolveTimeWindow,
+	timeRangeQuerySchema,
+} from "../../../shared/utils/timeWindow";
+import { getRequestTimeZone } from "../../../shared/utils/timezone";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+
+// Validation schemas
+const searchSchema = timeRangeQuerySchema
+	.extend({
+		q: z
+			.string()
+			.trim()
+			.min(1, "Search query is required")
+			.max(100, "Search query too long"),
+		genre: z.string().optional(),
+		lat: z.coerce.number().min(-90).max(90).optional(),
+		lng: z.coerce.number().min(-180).max(180).optional(),
+		radius: z.coerce.number().positive().max(100).default(10),
+		page: z.coerce.number().int().min(1).default(1),
+		limit: z.coerce.number().int().min(1).max(50).default(20),
+	})
+	.refine((query) => (query.lat === undefined) === (query.lng === undefined), {
+		message: "lat and lng must be provided together",
+	});
+
+export class SearchController {
+	search = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const validation = searchSchema.safeParse(req.query);
+			if (!validation.success) {
+				throw new ValidationError(validation.error.errors[0].message);
+			}
+
+			const { q, genre, lat, lng, radius, timeRange, page, limit } =
+				validation.data;
+
+			const results = await searchService.search({
+				query: q,
+				genre: genre && genre !== "all" ? genre : undefined,
+				live: timeRange === "now",
+				window: resolveTimeWindow(validation.data, getRequestTimeZone(req)),
+				location:
+					lat !== undefined && lng !== undefined
+						? { coordinates: [lng, lat], radius }
+						: undefined,
+				page,
+				limit,
+			});
+
+			res.json({
+				success: true,
+				data: results,
+				meta: {
+					pagination: {
+						page,
+						limit,
+						total: results.total,
+						pages: Math.ceil(results.total / limit),
+					},
+					timestamp: new Date().toISOString(),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+}
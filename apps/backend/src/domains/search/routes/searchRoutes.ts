@@ -0,0 +1,10 @@
+import { SearchController } from "../controllers/SearchController";
+import { type IRouter, Router } from "express";
+
+const router: IRouter = Router();
+const searchController = new SearchController();
+
+// Public routes
+router.get("/", searchController.search);
+
+export { router as searchRoutes };
@@ -0,0 +1,216 @@
+import {
+	type PerformanceDocument,
+	PerformanceModel,
+} from "../../performance/entities/Performance";
+import { UserModel } from "../../user/entities/User";
+import { distanceInKm, kmToRadians } from "../../../shared/utils/geo";
+import { logger } from "../../../shared/utils/logger";
+import { stopsOverlapping } from "../../../shared/utils/timeWindow";
+import type {
+	PerformanceSearchHit,
+	PerformerSearchHit,
+	SearchFilters,
+	SearchResults,
+	TimeRange,
+} from "@spm/shared-types";
+
+export interface SearchRequest
+	extends Omit<SearchFilters, "timeRange" | "from" | "to"> {
+	query: string;
+	live?: boolean; // The "now" time range
+	window?: TimeRange; // Only performances with a stop in this span
+	page: number;
+	limit: number;
+}
+
+// Candidates fetched per source before merging and ranking
+const CANDIDATE_LIMIT = 200;
+// Weight of a performer name/bio match relative to a direct performance match
+const PERFORMER_MATCH_WEIGHT = 0.5;
+// Distance at which the relevance of a result is halved
+const DISTANCE_HALF_SCORE_KM = 5;
+
+type ScoredPerformance = PerformanceDocument & { score?: number };
+
+export class SearchService {
+	private readonly logger = logger.child({ context: "SearchService" });
+
+	/**
+	 * Search performances by their own text (title, description, venues) and
+	 * by their performer's name and bio. Results are ranked by text relevance,
+	 * discounted by distance when a location is given.
+	 */
+	async search(request: SearchRequest): Promise<SearchResults> {
+		const { query, page, limit, ...filters } = request;
+
+		try {
+			const performers = await this.findPerformers(query, filters.genre);
+			const performerScores = new Map(
+				performers.map((performer) => [performer._id, performer.relevance]),
+			);
+
+			const baseQuery = this.buildPerformanceQuery(filters);
+			const [textMatches, performerMatches] = await Promise.all([
+				PerformanceModel.find(
+					{ ...baseQuery, $text: { $search: query } },
+					{ score: { $meta: "textScore" } },
+				)
+					.sort({ score: { $meta: "textScore" } })
+					.limit(CANDIDATE_LIMIT)
+					.lean<ScoredPerformance[]>(),
+				performers.length > 0
+					? PerformanceModel.find({
+							...baseQuery,
+							performerId: { $in: [...performerScores.keys()] },
+						})
+							.limit(CANDIDATE_LIMIT)
+							.lean<ScoredPerformance[]>()
+					: Promise.resolve([] as ScoredPerformance[]),
+			]);
+
+			// Merge both sources, a performance matched by both scores for both
+			const candidates = new Map<string, ScoredPerformance>();
+			for (const performance of [...textMatches, ...performerMatches]) {
+				candidates.set(performance._id.toString(), performance);
+			}
+
+			const ranked = [...candidates.values()]
+				.map((performance) =>
+					this.scorePerformance(
+						performance,
+						performerScores.get(performance.performerId) ?? 0,
+						filters.location?.coordinates,
+					),
+				)
+				.sort((a, b) => b.relevance - a.relevance);
+
+			const pageItems = ranked.slice((page - 1) * limit, page * limit);
+			await PerformanceModel.populate(pageItems, {
+				path: "performerId",
+				select: "username profile.displayName profile.avatar",
+			});
+
+			return {
+				performances: pageItems,
+				performers,
+				total: ranked.length,
+				filters: { query, ...filters },
+			};
+		} catch (error) {
+			this.logger.error("Search failed", { error, query, filters });
+			throw error;
+		}
+	}
+
+	private async findPerformers(
+		query: string,
+		genre?: string,
+	): Promise<PerformerSearchHit[]> {
+		const performerQuery: Record<string, unknown> = {
+			$text: { $search: query },
+			role: "performer",
+			"moderation.status": { $ne: "suspended" },
+		};
+		if (genre) {
+			performerQuery["profile.genres"] = genre;
+		}
+
+		const performers = await UserModel.find(performerQuery, {
+			score: { $meta: "textScore" },
+			username: 1,
+			"profile.displayName": 1,
+			"profile.bio": 1,
+			"profile.avatar": 1,
+			"profile.genres": 1,
+		})
+			.sort({ score: { $meta: "textScore" } })
+			.limit(CANDIDATE_LIMIT)
+			.lean<
+				Array<{
+					_id: unknown;
+					username: string;
+					profile: PerformerSearchHit["profile"];
+					score: number;
+				}>
+			>();
+
+		return performers.map(({ _id, username, profile, score }) => ({
+			_id: String(_id),
+			username,
+			profile,
+			relevance: score,
+		}));
+	}
+
+	/**
+	 * Same visibility, genre, time and geo filters as the map listing
+	 */
+	private buildPerformanceQuery(
+		filters: Omit<SearchRequest, "query" | "page" | "limit">,
+	): Record<string, unknown> {
+		const query: Record<string, unknown> = {
+			"moderation.status": { $ne: "hidden" },
+			archivedAt: { $exists: false },
+			status: { $ne: "cancelled" },
+		};
+
+		if (filters.genre) {
+			query.genre = filters.genre;
+		}
+
+		// $near cannot be combined with $text, so geo filtering uses $geoWithin
+		if (filters.location) {
+			query["route.stops.location.coordinates"] = {
+				$geoWithin: {
+					$centerSphere: [
+						filters.location.coordinates,
+						kmToRadians(filters.location.radius),
+					],
+				},
+			};
+		}
+
+		if (filters.live) {
+			query.status = "live";
+		}
+		if (filters.window) {
+			Object.assign(query, stopsOverlapping(filters.window));
+		}
+
+		return query;
+	}
+
+	private scorePerformance(
+		performance: ScoredPerformance,
+		performerScore: number,
+		origin?: [number, number],
+	): PerformanceSearchHit {
+		const { score = 0, ...rest } = performance;
+		const textScore = score + performerScore * PERFORMER_MATCH_WEIGHT;
+
+		let distance: number | undefined;
+		if (origin) {
+			distance = Math.min(
+				...performance.route.stops.map((stop) =>
+					distanceInKm(origin, stop.location.coordinates),
+				),
+			);
+		}
+
+		const relevance =
+			distance === undefined
+				? textScore
+				: textScore / (1 + distance / DISTANCE_HALF_SCORE_KM);
+
+		return {
+			...(rest as unknown as PerformanceSearchHit),
+			_id: performance._id.toString(),
+			relevance: Math.round(relevance * 1000) / 1000,
+			...(distance !== undefined && {
+				distance: Math.round(distance * 100) / 100,
+			}),
+		};
+	}
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,155 @@
+import { type Page, followService } from "../services/FollowService";
+import { ApiError } from "../../../shared/utils/errors";
+import type { NextFunction, Request, Response } from "express";
+
+export class FollowController {
+	follow = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const status = await followService.follow(
+				this.getUserId(req),
+				req.params.id,
+			);
+
+			res.json({
+				success: true,
+				data: status,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	unfollow = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const status = await followService.unfollow(
+				this.getUserId(req),
+				req.params.id,
+			);
+
+			res.json({
+				success: true,
+				data: status,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getFollowStatus = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const status = await followService.getFollowStatus(
+				req.params.id,
+				req.user?.userId,
+			);
+
+			res.json({
+				success: true,
+				data: status,
+				meta: { timestamp: new Date().toISOString() },
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getFollowers = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await followService.getFollowers(
+				req.params.id,
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getFollowing = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await followService.getFollowing(
+				this.getUserId(req),
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getFollowingFeed = async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const page = this.parsePage(req);
+			const { items, total } = await followService.getFollowingFeed(
+				this.getUserId(req),
+				page,
+			);
+
+			this.sendPage(res, items, total, page);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private getUserId(req: Request): string {
+		const userId = req.user?.userId;
+		if (!userId) {
+			throw new ApiError(401, "Authentication required");
+		}
+		return userId;
+	}
+
+	private parsePage(req: Request): Page {
+		const page = Math.max(Number.parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(
+			Math.max(Number.parseInt(req.query.limit as string) || 20, 1),
+			100,
+		);
+		return { page, limit };
+	}
+
+	private sendPage(
+		res: Response,
+		items: unknown[],
+		total: number,
+		{ page, limit }: Page,
+	): void {
+		res.json({
+			success: true,
+			data: items,
+			meta: {
+				pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+				timestamp: new Date().toISOString(),
+			},
+		});
+	}
+}
@@ -2,6 +2,7 @@ import type { Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { UserService } from "../services/UserService";
 import { ApiError, ValidationError } from "../../../shared/utils/errors";
+import { cursorQuerySchema } from "../../../shared/utils/pagination";
 
 // Validation schemas
 const registerSchema = z.object({
@@ -47,13 +48,12 @@ const updateProfileSchema = z.object({
 	}).optional(),
 });
 
-const nearbyUsersSchema = z.object({
+const nearbyUsersSchema = cursorQuerySchema.extend({
 	lat: z.string().transform(Number),
 	lng: z.string().transform(Number),
 	radius: z.string().transform(Number).optional(),
 	role: z.enum(["performer", "audience"]).optional(),
 	genre: z.string().optional(),
-	limit: z.string().transform(Number).optional(),
 });
 
 export interface LoginCredentials {
@@ -328,6 +328,9 @@ export class UserController {
 			if (!user) {
 				throw new Error("User not found after sync");
 			}
+			if (user.moderation?.status === "suspended") {
+				throw new ApiError(403, "Account suspended");
+			}
 			const token = this.userService.generateToken(user._id, user.role);
 
 			res.json({
@@ -354,27 +357,28 @@ export class UserController {
 				throw new ValidationError(validation.error.errors[0].message);
 			}
 
-			const { lat, lng, radius = 25, role = "performer", genre, limit = 50 } = validation.data;
+			const { lat, lng, radius = 25, role = "performer", genre, cursor, limit } = validation.data;
 
-			const users = await this.userService.getNearbyUsers({
+			const { items, pagination } = await this.userService.getNearbyUsers({
 				latitude: lat,
 				longitude: lng,
 				radius,
 				role,
 				genre,
+				cursor,
 				limit
 			});
 
 			res.json({
 				success: true,
-				data: {
-					users,
-					total: users.length,
+				data: items,
+				meta: {
+					pagination,
+					timestamp: new Date().toISOString(),
 					location: { lat, lng },
 					radius,
 					filters: { role, genre }
 				},
-				meta: { timestamp: new Date().toISOString() },
 			});
 		} catch (error) {
 			next(error);
@@ -430,27 +434,28 @@ export class UserController {
 				throw new ValidationError(validation.error.errors[0].message);
 			}
 
-			const { lat, lng, radius = 25, genre, limit = 50 } = validation.data;
+			const { lat, lng, radius = 25, genre, cursor, limit } = validation.data;
 
-			const users = await this.userService.getNearbyUsers({
+			const { items, pagination } = await this.userService.getNearbyUsers({
 				latitude: lat,
 				longitude: lng,
 				radius,
 				role: "performer",
 				genre,
+				cursor,
 				limit
 			});
 
 			res.json({
 				success: true,
-				data: {
-					users,
-					total: users.length,
+				data: items,
+				meta: {
+					pagination,
+					timestamp: new Date().toISOString(),
 					location: { lat, lng },
 					radius,
 					filters: { role: "performer", genre }
 				},
-				meta: { timestamp: new Date().toISOString() },
 			});
 		} catch (error) {
 			next(error);
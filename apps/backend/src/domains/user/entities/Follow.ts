@@ -0,0 +1,35 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+// Edge of the follow graph: an audience member following a performer
+export interface FollowDocument extends Document {
+	_id: mongoose.Types.ObjectId;
+	followerId: string;
+	performerId: string;
+	createdAt: Date;
+}
+
+const followSchema = new Schema<FollowDocument>(
+	{
+		followerId: {
+			type: String,
+			required: true,
+		},
+		performerId: {
+			type: String,
+			required: true,
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "follows",
+	},
+);
+
+followSchema.index({ followerId: 1, performerId: 1 }, { unique: true });
+followSchema.index({ performerId: 1, createdAt: -1 });
+followSchema.index({ followerId: 1, createdAt: -1 });
+
+export const FollowModel = mongoose.model<FollowDocument>(
+	"Follow",
+	followSchema,
+);
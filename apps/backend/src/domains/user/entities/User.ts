@@ -47,7 +47,7 @@ const userSchema = new Schema<UserDocument>(
 		},
 		role: {
 			type: String,
-			enum: ["performer", "audience"],
+			enum: ["performer", "audience", "moderator", "admin"],
 			required: true,
 		},
 		profile: {
@@ -141,10 +141,18 @@ const userSchema = new Schema<UserDocument>(
 				type: Number,
 				default: 0,
 			},
+			totalEarnings: {
+				type: Number,
+				default: 0, // Net earnings in cents
+			},
 			performanceCount: {
 				type: Number,
 				default: 0,
 			},
+			followerCount: {
+				type: Number,
+				default: 0,
+			},
 		},
 		stripe: {
 			connectAccountId: {
@@ -192,6 +200,15 @@ const userSchema = new Schema<UserDocument>(
 				default: false
 			}
 		},
+		moderation: {
+			status: {
+				type: String,
+				enum: ["active", "suspended"],
+				default: "active",
+			},
+			reason: String,
+			updatedAt: Date,
+		},
 	},
 	{
 		timestamps: true,
@@ -211,6 +228,15 @@ userSchema.index({ role: 1 });
 userSchema.index({ "location.coordinates": "2dsphere" });
 userSchema.index({ "location.city": 1 });
 
+// Full-text search over performer names and bios
+userSchema.index(
+	{ "profile.displayName": "text", username: "text", "profile.bio": "text" },
+	{
+		name: "user_text_search",
+		weights: { "profile.displayName": 10, username: 5, "profile.bio": 2 },
+	},
+);
+
 // Virtual for password comparison (will be implemented in service)
 userSchema.methods.comparePassword = async function (
 	password: string,
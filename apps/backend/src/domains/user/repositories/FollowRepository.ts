@@ -0,0 +1,131 @@
+import { type FollowDocument, FollowModel } from "../entities/Follow";
+import { logger } from "../../../shared/utils/logger";
+
+export class FollowRepository {
+	private readonly logger = logger.child({ context: "FollowRepository" });
+
+	/**
+	 * Create the follow edge. Returns false when it already existed.
+	 */
+	async create(followerId: string, performerId: string): Promise<boolean> {
+		try {
+			const result = await FollowModel.updateOne(
+				{ followerId, performerId },
+				{ $setOnInsert: { followerId, performerId } },
+				{ upsert: true },
+			);
+
+			return result.upsertedCount > 0;
+		} catch (error) {
+			// Concurrent follow of the same performer
+			if ((error as { code?: number }).code === 11000) return false;
+
+			this.logger.error("Failed to create follow", {
+				error,
+				followerId,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove the follow edge. Returns false when there was none.
+	 */
+	async delete(followerId: string, performerId: string): Promise<boolean> {
+		try {
+			const result = await FollowModel.deleteOne({ followerId, performerId });
+			return result.deletedCount > 0;
+		} catch (error) {
+			this.logger.error("Failed to delete follow", {
+				error,
+				followerId,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	async exists(followerId: string, performerId: string): Promise<boolean> {
+		try {
+			const count = await FollowModel.countDocuments({
+				followerId,
+				performerId,
+			});
+			return count > 0;
+		} catch (error) {
+			this.logger.error("Failed to check follow", {
+				error,
+				followerId,
+				performerId,
+			});
+			throw error;
+		}
+	}
+
+	async findFollowers(
+		performerId: string,
+		{ page, limit }: { page: number; limit: number },
+	): Promise<{ items: FollowDocument[]; total: number }> {
+		try {
+			const [items, total] = await Promise.all([
+				FollowModel.find({ performerId })
+					.sort({ createdAt: -1 })
+					.skip((page - 1) * limit)
+					.limit(limit)
+					.lean<FollowDocument[]>(),
+				FollowModel.countDocuments({ performerId }),
+			]);
+
+			return { items, total };
+		} catch (error) {
+			this.logger.error("Failed to find followers", { error, performerId });
+			throw error;
+		}
+	}
+
+	async findFollowing(
+		followerId: string,
+		{ page, limit }: { page: number; limit: number },
+	): Promise<{ items: FollowDocument[]; total: number }> {
+		try {
+			const [items, total] = await Promise.all([
+				FollowModel.find({ followerId })
+					.sort({ createdAt: -1 })
+					.skip((page - 1) * limit)
+					.limit(limit)
+					.lean<FollowDocument[]>(),
+				FollowModel.countDocuments({ followerId }),
+			]);
+
+			return { items, total };
+		} catch (error) {
+			this.logger.error("Failed to find followed performers", {
+				error,
+				followerId,
+			});
+			throw error;
+		}
+	}
+
+	async findFollowedPerformerIds(followerId: string): Promise<string[]> {
+		try {
+			return await FollowModel.distinct("performerId", { followerId });
+		} catch (error) {
+			this.logger.error("Failed to find followed performer IDs", {
+				error,
+				followerId,
+			});
+			throw error;
+		}
+	}
+
+	async findFollowerIds(performerId: string): Promise<string[]> {
+		try {
+			return await FollowModel.distinct("followerId", { performerId });
+		} catch (error) {
+			this.logger.error("Failed to find follower IDs", { error, performerId });
+			throw error;
+		}
+	}
+}
@@ -1,6 +1,12 @@
 import { type UserDocument, UserModel } from "../entities/User";
 import { logger } from "../../../shared/utils/logger";
+import type { CursorPosition } from "../../../shared/utils/pagination";
 import type { User, UserWithPassword } from "@spm/shared-types";
+import { type PipelineStage, Types } from "mongoose";
+
+export type NearbyUserDocument = UserDocument & {
+	distance: number; // Meters from the searched point
+};
 
 export class UserRepository {
 	private readonly logger = logger.child({ context: "UserRepository" });
@@ -165,7 +171,7 @@ export class UserRepository {
 
 	async incrementStatistic(
 		userId: string,
-		field: "totalLikes" | "totalTips" | "performanceCount",
+		field: "totalLikes" | "totalTips" | "performanceCount" | "followerCount",
 		amount = 1,
 	): Promise<void> {
 		try {
@@ -189,6 +195,10 @@ export class UserRepository {
 		}
 	}
 
+	/**
+	 * Users within the radius, nearest first with their distance in meters.
+	 * Pass the last row of the previous page as `after` to continue from it.
+	 */
 	async findNearby(params: {
 		latitude: number;
 		longitude: number;
@@ -196,41 +206,61 @@ export class UserRepository {
 		role?: "performer" | "audience";
 		genre?: string;
 		limit?: number;
-	}): Promise<UserDocument[]> {
+		after?: CursorPosition;
+	}): Promise<NearbyUserDocument[]> {
 		try {
-			const { latitude, longitude, radius = 25, role = "performer", genre, limit = 50 } = params;
-
-			// Convert radius from km to radians (divide by Earth's radius in km)
-			const radiusInRadians = radius / 6371;
+			const { latitude, longitude, radius = 25, role = "performer", genre, limit = 50, after } = params;
 
-			const query: any = {
-				role,
-				"location.coordinates": {
-					$geoWithin: {
-						$centerSphere: [[longitude, latitude], radiusInRadians]
-					}
-				}
-			};
+			const query: Record<string, unknown> = { role };
 
 			// Filter by genre if specified
 			if (genre) {
 				query["profile.genres"] = { $in: [genre] };
 			}
 
-			const users = await UserModel.find(query)
-				.limit(limit)
-				.sort({ "statistics.totalTips": -1, "statistics.performanceCount": -1 }) // Sort by popularity
-				.lean();
+			const pipeline: PipelineStage[] = [
+				{
+					$geoNear: {
+						near: { type: "Point", coordinates: [longitude, latitude] },
+						key: "location.coordinates",
+						distanceField: "distance",
+						maxDistance: radius * 1000, // Convert km to meters
+						// Skip everything nearer than the previous page's last row
+						...(after && { minDistance: after.key }),
+						query,
+						spherical: true,
+					},
+				},
+			];
+			if (after) {
+				pipeline.push({
+					$match: {
+						$or: [
+							{ distance: { $gt: after.key } },
+							{
+								distance: after.key,
+								_id: { $gt: new Types.ObjectId(after.id) },
+							},
+						],
+					},
+				});
+			}
+			pipeline.push(
+				{ $sort: { distance: 1, _id: 1 } },
+				{ $limit: limit },
+				{ $project: { password: 0 } },
+			);
+
+			const users = await UserModel.aggregate<NearbyUserDocument>(pipeline);
 
 			this.logger.debug("Found nearby users", {
 				count: users.length,
-				query: JSON.stringify(query),
 				latitude,
 				longitude,
 				radius
 			});
 
-			return users as UserDocument[];
+			return users;
 		} catch (error) {
 			this.logger.error("Failed to find nearby users", { error, params });
 			throw error;
@@ -1,15 +1,26 @@
+import { FollowController } from "../controllers/FollowController";
 import { UserController } from "../controllers/UserController";
 import { authenticate, optionalAuth } from "../../../shared/middleware/auth";
 import { type IRouter, Router } from "express";
 
 const router: IRouter = Router();
 const userController = new UserController();
+const followController = new FollowController();
 
 // Public routes
 router.post("/register", userController.register);
 router.post("/login", userController.login);
 router.post("/sync-clerk", userController.syncClerkUser);
 router.get("/nearby", userController.getNearbyUsers);
+
+// Follow graph - MUST come before /:id
+router.get("/following", authenticate, followController.getFollowing);
+router.get("/following/feed", authenticate, followController.getFollowingFeed);
+router.get("/:id/followers", followController.getFollowers);
+router.get("/:id/follow", optionalAuth, followController.getFollowStatus);
+router.post("/:id/follow", authenticate, followController.follow);
+router.delete("/:id/follow", authenticate, followController.unfollow);
+
 router.get("/:id", userController.getUserById);
 
 // Protected routes
@@ -0,0 +1,267 @@
+import type { PerformanceDocument } from "../../performance/entities/Performance";
+import { PerformanceModel } from "../../performance/entities/Performance";
+import { UserModel } from "../entities/User";
+import { FollowRepository } from "../repositories/FollowRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { emitToUser } from "../../../shared/infrastructure/socket";
+import { NotFoundError, ValidationError } from "../../../shared/utils/errors";
+import { distanceInKm } from "../../../shared/utils/geo";
+import { logger } from "../../../shared/utils/logger";
+import type { FollowStatus } from "@spm/shared-types";
+
+export interface Page {
+	page: number;
+	limit: number;
+}
+
+// Radius used when a follower has not set preferences.radius
+const DEFAULT_NOTIFICATION_RADIUS_KM = 5;
+
+const PUBLIC_PROFILE_FIELDS =
+	"username role profile.displayName profile.avatar profile.genres statistics.followerCount";
+
+export class FollowService {
+	private readonly followRepository = new FollowRepository();
+	private readonly userRepository = new UserRepository();
+	private readonly logger = logger.child({ context: "FollowService" });
+
+	async follow(followerId: string, performerId: string): Promise<FollowStatus> {
+		if (followerId === performerId) {
+			throw new ValidationError("You cannot follow yourself");
+		}
+
+		const followerCount = await this.getPerformerFollowerCount(performerId);
+		const created = await this.followRepository.create(followerId, performerId);
+		if (created) {
+			await this.userRepository.incrementStatistic(
+				performerId,
+				"followerCount",
+				1,
+			);
+			this.logger.info("Performer followed", { followerId, performerId });
+		}
+
+		return {
+			following: true,
+			followerCount: followerCount + (created ? 1 : 0),
+		};
+	}
+
+	async unfollow(
+		followerId: string,
+		performerId: string,
+	): Promise<FollowStatus> {
+		const followerCount = await this.getPerformerFollowerCount(performerId);
+		const deleted = await this.followRepository.delete(followerId, performerId);
+		if (deleted) {
+			await this.userRepository.incrementStatistic(
+				performerId,
+				"followerCount",
+				-1,
+			);
+			this.logger.info("Performer unfollowed", { followerId, performerId });
+		}
+
+		return {
+			following: false,
+			followerCount: Math.max(followerCount - (deleted ? 1 : 0), 0),
+		};
+	}
+
+	async getFollowStatus(
+		performerId: string,
+		followerId?: string,
+	): Promise<FollowStatus> {
+		const [followerCount, following] = await Promise.all([
+			this.getPerformerFollowerCount(performerId),
+			followerId
+				? this.followRepository.exists(followerId, performerId)
+				: Promise.resolve(false),
+		]);
+
+		return { following, followerCount };
+	}
+
+	async getFollowers(
+		performerId: string,
+		page: Page,
+	): Promise<{ items: unknown[]; total: number }> {
+		const { items, total } = await this.followRepository.findFollowers(
+			performerId,
+			page,
+		);
+		const users = await this.findPublicProfiles(
+			items.map((follow) => follow.followerId),
+		);
+
+		return { items: users, total };
+	}
+
+	async getFollowing(
+		followerId: string,
+		page: Page,
+	): Promise<{ items: unknown[]; total: number }> {
+		const { items, total } = await this.followRepository.findFollowing(
+			followerId,
+			page,
+		);
+		const performers = await this.findPublicProfiles(
+			items.map((follow) => follow.performerId),
+		);
+
+		return { items: performers, total };
+	}
+
+	/**
+	 * Live and upcoming performances of everyone the user follows
+	 */
+	async getFollowingFeed(
+		followerId: string,
+		{ page, limit }: Page,
+	): Promise<{ items: unknown[]; total: number }> {
+		const performerIds =
+			await this.followRepository.findFollowedPerformerIds(followerId);
+		if (performerIds.length === 0) {
+			return { items: [], total: 0 };
+		}
+
+		const query = {
+			performerId: { $in: performerIds },
+			status: { $in: ["live", "scheduled"] },
+			archivedAt: { $exists: false },
+			"moderation.status": { $ne: "hidden" },
+		};
+
+		const [items, total] = await Promise.all([
+			// "live" sorts before "scheduled", so live performances come first
+			PerformanceModel.find(query)
+				.populate("performerId", "username profile.displayName profile.avatar")
+				.sort({ status: 1, scheduledFor: 1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			PerformanceModel.countDocuments(query),
+		]);
+
+		return { items, total };
+	}
+
+	/**
+	 * Tell followers a performer just went live (never fails the start)
+	 */
+	async notifyFollowersLive(performance: PerformanceDocument): Promise<void> {
+		try {
+			const performerId = performance.performerId.toString();
+			const [followers, performerName] = await Promise.all([
+				this.findNotifiableFollowers(performerId),
+				this.getPerformerName(performerId),
+			]);
+
+			for (const follower of followers) {
+				emitToUser(follower._id.toString(), {
+					type: "performance",
+					title: `${performerName} is live!`,
+					message: `"${performance.title}" has just started`,
+					data: {
+						performanceId: performance._id.toString(),
+						performerId,
+						status: "started",
+						title: performance.title,
+					},
+				});
+			}
+		} catch (error) {
+			this.logger.warn("Failed to notify followers of live performance", {
+				error,
+				performanceId: performance._id,
+			});
+		}
+	}
+
+	/**
+	 * Tell followers within their preferred radius about a newly scheduled
+	 * performance (never fails the create)
+	 */
+	async notifyFollowersOfNewPerformance(
+		performance: PerformanceDocument,
+	): Promise<void> {
+		try {
+			const performerId = performance.performerId.toString();
+			const [followers, performerName] = await Promise.all([
+				this.findNotifiableFollowers(performerId),
+				this.getPerformerName(performerId),
+			]);
+
+			for (const follower of followers) {
+				const origin = follower.location?.coordinates;
+				if (!origin) continue;
+
+				const radius =
+					follower.preferences?.radius ?? DEFAULT_NOTIFICATION_RADIUS_KM;
+				const isNearby = performance.route.stops.some(
+					(stop) => distanceInKm(origin, stop.location.coordinates) <= radius,
+				);
+				if (!isNearby) continue;
+
+				emitToUser(follower._id.toString(), {
+					type: "performance",
+					title: `${performerName} is playing near you`,
+					message: `"${performance.title}" is scheduled for ${performance.scheduledFor.toISOString()}`,
+					data: {
+						performanceId: performance._id.toString(),
+						performerId,
+						status: "scheduled",
+						title: performance.title,
+						scheduledFor: performance.scheduledFor.toISOString(),
+					},
+				});
+			}
+		} catch (error) {
+			this.logger.warn("Failed to notify followers of new performance", {
+				error,
+				performanceId: performance._id,
+			});
+		}
+	}
+
+	private async getPerformerFollowerCount(performerId: string): Promise<number> {
+		const performer = await this.userRepository.findById(performerId);
+		if (!performer || performer.role !== "performer") {
+			throw new NotFoundError("Performer");
+		}
+
+		return performer.statistics?.followerCount ?? 0;
+	}
+
+	private async getPerformerName(performerId: string): Promise<string> {
+		const performer = await this.userRepository.findById(performerId);
+		return performer?.profile.displayName ?? "A performer you follow";
+	}
+
+	private async findNotifiableFollowers(performerId: string) {
+		const followerIds = await this.followRepository.findFollowerIds(performerId);
+		if (followerIds.length === 0) return [];
+
+		return UserModel.find({
+			_id: { $in: followerIds },
+			"preferences.notifications": { $ne: false },
+			"moderation.status": { $ne: "suspended" },
+		})
+			.select("location.coordinates preferences.radius")
+			.lean();
+	}
+
+	// Keeps the order of the ids (most recent follow first)
+	private async findPublicProfiles(userIds: string[]): Promise<unknown[]> {
+		if (userIds.length === 0) return [];
+
+		const users = await UserModel.find({ _id: { $in: userIds } })
+			.select(PUBLIC_PROFILE_FIELDS)
+			.lean();
+		const byId = new Map(users.map((user) => [user._id.toString(), user]));
+
+		return userIds.flatMap((id) => byId.get(id) ?? []);
+	}
+}
+
+export const followService = new FollowService();
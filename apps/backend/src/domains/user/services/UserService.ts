@@ -1,13 +1,21 @@
 import { UserRepository } from "../repositories/UserRepository";
 import { ApiError } from "../../../shared/utils/errors";
 import { logger } from "../../../shared/utils/logger";
+import {
+	DEFAULT_PAGE_LIMIT,
+	decodeCursor,
+	toCursorPage,
+} from "../../../shared/utils/pagination";
 import type {
 	AuthResponse,
+	CursorPage,
 	LoginCredentials,
+	NearbyUser,
 	RegisterData,
 	User,
 } from "@spm/shared-types";
 import jwt from "jsonwebtoken";
+import { isValidObjectId } from "mongoose";
 
 export class UserService {
 	private readonly userRepository = new UserRepository();
@@ -102,6 +110,10 @@ export class UserService {
 				throw new ApiError(401, "Invalid email or password");
 			}
 
+			if (user.moderation?.status === "suspended") {
+				throw new ApiError(403, "Account suspended");
+			}
+
 			// Generate JWT token
 			const token = this.generateToken(user._id.toString(), user.role);
 
@@ -244,6 +256,24 @@ export class UserService {
 		}
 	}
 
+	/**
+	 * Current role and suspension state, so role changes and suspensions
+	 * apply to tokens issued before them
+	 */
+	async getAccountStatus(
+		userId: string,
+	): Promise<{ role: string; suspended: boolean } | null> {
+		if (!isValidObjectId(userId)) return null;
+
+		const user = await this.userRepository.findById(userId);
+		if (!user) return null;
+
+		return {
+			role: user.role,
+			suspended: user.moderation?.status === "suspended",
+		};
+	}
+
 	generateToken(userId: string, role: string): string {
 		const payload = {
 			sub: userId,
@@ -283,10 +313,11 @@ export class UserService {
 		radius?: number;
 		role?: "performer" | "audience";
 		genre?: string;
+		cursor?: string;
 		limit?: number;
-	}): Promise<User[]> {
+	}): Promise<CursorPage<NearbyUser>> {
 		try {
-			const { latitude, longitude, radius = 25, role = "performer", genre, limit = 50 } = params;
+			const { latitude, longitude, radius = 25, role = "performer", genre, cursor, limit = DEFAULT_PAGE_LIMIT } = params;
 
 			const users = await this.userRepository.findNearby({
 				latitude,
@@ -294,7 +325,8 @@ export class UserService {
 				radius,
 				role,
 				genre,
-				limit
+				limit: limit + 1,
+				after: decodeCursor(cursor),
 			});
 
 			this.logger.debug("Found nearby users", {
@@ -306,10 +338,19 @@ export class UserService {
 				genre
 			});
 
-			return users.map(user => ({
-			...user,
-			_id: user._id.toString()
-		})) as User[];
+			// The cursor keeps exact meters; clients get km like performances
+			const { items, pagination } = toCursorPage(users, limit, (user) => ({
+				key: user.distance,
+				id: user._id.toString(),
+			}));
+			return {
+				items: items.map((user) => ({
+					...user,
+					_id: user._id.toString(),
+					distance: user.distance / 1000,
+				})) as NearbyUser[],
+				pagination,
+			};
 		} catch (error) {
 			this.logger.error("Failed to get nearby users", { error, params });
 			throw error;
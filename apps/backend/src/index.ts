@@ -2,11 +2,14 @@ import "dotenv/config";
 import { createServer } from "node:http";
 import { connectDatabase } from "./shared/infrastructure/database";
 import { setupRoutes } from "./shared/infrastructure/routes";
-import { setupMiddleware } from "./shared/middleware";
+import { setupErrorHandling, setupMiddleware } from "./shared/middleware";
 import { logger } from "./shared/utils/logger";
 import { setupSwagger } from "./shared/utils/swagger";
+import { setupSocketServer } from "./shared/infrastructure/socket";
+import { payoutService } from "./domains/payment/services/PayoutService";
+import { performanceArchiveService } from "./domains/performance/services/PerformanceArchiveService";
+import { performanceScheduleService } from "./domains/performance/services/PerformanceScheduleService";
 import express from "express";
-import { Server as SocketServer } from "socket.io";
 import path from "path";
 
 async function startServer() {
@@ -14,12 +17,6 @@ async function startServer() {
 		// Create Express app and HTTP server
 		const app = express();
 		const server = createServer(app);
-		const io = new SocketServer(server, {
-			cors: {
-				origin: process.env.FRONTEND_URL || "http://localhost:3000",
-				methods: ["GET", "POST"],
-			},
-		});
 
 		// Setup middleware
 		setupMiddleware(app);
@@ -61,10 +58,10 @@ async function startServer() {
 			app.use(express.static(frontendPath));
 			
 			// Serve React app for all non-API routes
-			app.get("*", (req, res) => {
+			app.get("*", (req, res, next) => {
 				// Don't serve React app for API routes
 				if (req.path.startsWith("/api") || req.path.startsWith("/health")) {
-					res.status(404).json({ error: "API endpoint not found" });
+					next();
 					return;
 				}
 				
@@ -74,25 +71,20 @@ async function startServer() {
 			});
 		}
 
-		// Setup 404 handler for API routes only (after frontend serving)
-		app.use("/api/*", (req, res) => {
-			res.status(404).json({
-				success: false,
-				error: {
-					message: "API route not found",
-					path: req.originalUrl,
-				},
-			});
-		});
+		// API 404s and error responses (after frontend serving)
+		setupErrorHandling(app);
 
-		// WebSocket connection handling
-		io.on("connection", (socket) => {
-			logger.info("Client connected", { socketId: socket.id });
+		// WebSocket event bus (user and performance rooms)
+		setupSocketServer(server);
 
-			socket.on("disconnect", () => {
-				logger.info("Client disconnected", { socketId: socket.id });
-			});
-		});
+		// Batch completed tips into performer payouts
+		payoutService.startScheduler();
+
+		// Materialize upcoming occurrences of recurring performance schedules
+		performanceScheduleService.startScheduler();
+
+		// Archive performances once they expire instead of deleting them
+		performanceArchiveService.startScheduler();
 
 		// Start server
 		const PORT = process.env.PORT || 3001;
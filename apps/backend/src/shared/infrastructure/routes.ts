@@ -1,6 +1,8 @@
+import { adminRoutes } from "../../domains/admin/routes/adminRoutes";
 import { mediaRoutes } from "../../domains/media/routes/mediaRoutes";
 import { paymentRoutes } from "../../domains/payment/routes/paymentRoutes";
 import { performanceRoutes } from "../../domains/performance/routes/performanceRoutes";
+import { searchRoutes } from "../../domains/search/routes/searchRoutes";
 import { userRoutes } from "../../domains/user/routes/userRoutes";
 import { logger } from "../utils/logger";
 import express from "express";
@@ -28,6 +30,8 @@ export function setupRoutes(app: express.Application): void {
 	apiRouter.use("/performances", performanceRoutes);
 	apiRouter.use("/media", mediaRoutes);
 	apiRouter.use("/payments", paymentRoutes);
+	apiRouter.use("/admin", adminRoutes);
+	apiRouter.use("/search", searchRoutes);
 
 	// Mount API router
 	app.use(`/api/${apiVersion}`, apiRouter);
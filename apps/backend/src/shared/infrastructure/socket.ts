@@ -0,0 +1,150 @@
+import { UserService } from "../../domains/user/services/UserService";
+import { logger } from "../utils/logger";
+import type {
+	PerformanceUpdateEvent,
+	RealtimeNotification,
+} from "@spm/shared-types";
+import type { Server as HttpServer } from "node:http";
+import { Server as SocketServer, type Socket } from "socket.io";
+
+const userService = new UserService();
+
+let io: SocketServer | null = null;
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const performanceRoom = (performanceId: string) =>
+	`performance:${performanceId}`;
+
+export function setupSocketServer(server: HttpServer): SocketServer {
+	io = new SocketServer(server, {
+		cors: {
+			origin: process.env.FRONTEND_URL || "http://localhost:3000",
+			methods: ["GET", "POST"],
+		},
+	});
+
+	// Authenticate the handshake with the same JWT used by the REST API.
+	// Anonymous sockets are allowed so map viewers can follow performance rooms.
+	io.use(async (socket, next) => {
+		try {
+			const token = socket.handshake.auth?.token as string | undefined;
+
+			if (token) {
+				const decoded = await userService.verifyToken(token);
+				if (!decoded) {
+					return next(new Error("Invalid or expired token"));
+				}
+
+				// Same fresh role and suspension check as the REST authenticate
+				const account = await userService.getAccountStatus(decoded.userId);
+				if (!account) {
+					return next(new Error("Account no longer exists"));
+				}
+				if (account.suspended) {
+					return next(new Error("Account suspended"));
+				}
+				socket.data.user = { userId: decoded.userId, role: account.role };
+			}
+
+			next();
+		} catch (error) {
+			logger.warn("Socket authentication failed", {
+				error: error instanceof Error ? error.message : "Unknown error",
+				socketId: socket.id,
+			});
+			next(new Error("Authentication failed"));
+		}
+	});
+
+	io.on("connection", (socket: Socket) => {
+		const userId: string | undefined = socket.data.user?.userId;
+
+		if (userId) {
+			socket.join(userRoom(userId));
+		}
+
+		logger.info("Client connected", { socketId: socket.id, userId });
+
+		socket.on("performance:join", (performanceId: string) => {
+			if (typeof performanceId !== "string" || !performanceId) return;
+			socket.join(performanceRoom(performanceId));
+		});
+
+		socket.on("performance:leave", (performanceId: string) => {
+			if (typeof performanceId !== "string" || !performanceId) return;
+			socket.leave(performanceRoom(performanceId));
+		});
+
+		socket.on("disconnect", () => {
+			logger.info("Client disconnected", { socketId: socket.id, userId });
+		});
+	});
+
+	logger.info("✅ Socket.io event bus ready");
+
+	return io;
+}
+
+/**
+ * Send a notification to every socket the user has open.
+ * No-op when the socket server is not running (scripts, tests).
+ */
+export function emitToUser(
+	userId: string,
+	notification: Omit<RealtimeNotification, "id" | "timestamp" | "read">,
+): void {
+	if (!io) return;
+
+	const payload: RealtimeNotification = {
+		...notification,
+		id: `${notification.type}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+		timestamp: new Date().toISOString(),
+		read: false,
+	};
+
+	io.to(userRoom(userId)).emit("notification", payload);
+}
+
+/**
+ * Broadcast an event to everyone watching a performance.
+ */
+export function emitToPerformance<T>(
+	performanceId: string,
+	event: string,
+	data: T,
+): void {
+	if (!io) return;
+
+	io.to(performanceRoom(performanceId)).emit(event, {
+		type: event,
+		data,
+		timestamp: new Date().toISOString(),
+	});
+}
+
+/**
+ * Number of sockets currently following a performance
+ */
+export function getPerformanceViewerCount(performanceId: string): number {
+	if (!io) return 0;
+
+	return io.sockets.adapter.rooms.get(performanceRoom(performanceId))?.size ?? 0;
+}
+
+/**
+ * Broadcast a performance status/engagement change to every connected client
+ * so map markers update without polling.
+ */
+export function emitPerformanceUpdate(
+	data: PerformanceUpdateEvent["data"],
+): void {
+	if (!io) return;
+
+	const event: PerformanceUpdateEvent = {
+		type: "performance-update",
+		data,
+		timestamp: new Date().toISOString(),
+	};
+
+	io.emit("performance-update", event);
+}
@@ -36,7 +36,15 @@ export const authenticate = async (
 			throw new AuthenticationError("Invalid or expired token");
 		}
 
-		req.user = decoded;
+		const account = await userService.getAccountStatus(decoded.userId);
+		if (!account) {
+			throw new AuthenticationError("Account no longer exists");
+		}
+		if (account.suspended) {
+			throw new AuthorizationError("Account suspended");
+		}
+
+		req.user = { userId: decoded.userId, role: account.role };
 		next();
 	} catch (error) {
 		logger.warn("Authentication failed", {
@@ -87,8 +95,12 @@ export const optionalAuth = async (
 			const token = authHeader.substring(7);
 			const decoded = await userService.verifyToken(token);
 
-			if (decoded) {
-				req.user = decoded;
+			// Same fresh role and suspension check as authenticate; a stale or
+			// suspended account is treated as anonymous
+			const account =
+				decoded && (await userService.getAccountStatus(decoded.userId));
+			if (decoded && account && !account.suspended) {
+				req.user = { userId: decoded.userId, role: account.role };
 			}
 		}
 
@@ -0,0 +1,90 @@
+import { ApiError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import type { NextFunction, Request, Response } from "express";
+
+const TURNSTILE_VERIFY_URL =
+	"https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+const verifyTurnstileToken = async (
+	secret: string,
+	token: string,
+	remoteIp?: string,
+): Promise<boolean> => {
+	const body = new URLSearchParams({ secret, response: token });
+	if (remoteIp) body.set("remoteip", remoteIp);
+
+	const response = await fetch(TURNSTILE_VERIFY_URL, { method: "POST", body });
+	const result = (await response.json()) as {
+		success: boolean;
+		"error-codes"?: string[];
+	};
+	if (!result.success) {
+		logger.warn("Turnstile verification failed", {
+			errorCodes: result["error-codes"],
+		});
+	}
+	return result.success;
+};
+
+/**
+ * Keep bots off endpoints that don't require an account. Requests that fill
+ * in the hidden honeypot field are rejected, and when TURNSTILE_SECRET_KEY
+ * is set the body must carry a valid Cloudflare Turnstile `captchaToken`.
+ * Both fields are removed from the body before the handler runs.
+ */
+export const botProtection = (honeypotField = "website") => {
+	return async (
+		req: Request,
+		_res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		const { [honeypotField]: honeypot, captchaToken, ...body } = req.body ?? {};
+		req.body = body;
+
+		if (honeypot) {
+			logger.warn("Honeypot field filled in", { ip: req.ip, url: req.originalUrl });
+			next(new ApiError(400, "Request rejected", "BOT_DETECTED"));
+			return;
+		}
+
+		const secret = process.env.TURNSTILE_SECRET_KEY;
+		if (!secret) {
+			next();
+			return;
+		}
+
+		if (typeof captchaToken !== "string" || !captchaToken) {
+			next(
+				new ApiError(
+					400,
+					"Captcha verification required",
+					"CAPTCHA_REQUIRED",
+				),
+			);
+			return;
+		}
+
+		try {
+			if (!(await verifyTurnstileToken(secret, captchaToken, req.ip))) {
+				next(
+					new ApiError(
+						403,
+						"Captcha verification failed",
+						"CAPTCHA_FAILED",
+					),
+				);
+				return;
+			}
+			next();
+		} catch (error) {
+			logger.error("Turnstile verification unavailable", { error });
+			next(
+				new ApiError(
+					503,
+					"Captcha verification is unavailable, please try again",
+					"CAPTCHA_UNAVAILABLE",
+				),
+			);
+		}
+	};
+};
@@ -0,0 +1,140 @@
+import mongoose from "mongoose";
+import Stripe from "stripe";
+import { ApiError, PaymentError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import type { ApiErrorBody } from "@spm/shared-types";
+import type { NextFunction, Request, Response } from "express";
+
+// Services wrap lower-level errors with context; look through to the original
+function findCause<T>(
+	error: unknown,
+	match: (candidate: unknown) => candidate is T,
+): T | undefined {
+	let current = error;
+	for (let depth = 0; current && depth < 5; depth++) {
+		if (match(current)) return current;
+		current = (current as { cause?: unknown }).cause;
+	}
+	return undefined;
+}
+
+const isApiError = (error: unknown): error is ApiError =>
+	error instanceof ApiError;
+
+const isStripeError = (error: unknown): error is Stripe.errors.StripeError =>
+	error instanceof Stripe.errors.StripeError;
+
+function fromStripeError(error: Stripe.errors.StripeError): ApiError {
+	if (error instanceof Stripe.errors.StripeCardError) {
+		return new PaymentError(
+			error.message || "Your payment was declined",
+			error.decline_code ?? error.code,
+		);
+	}
+	if (error instanceof Stripe.errors.StripeRateLimitError) {
+		return new ApiError(429, "Payments are busy, please try again shortly");
+	}
+	// Our request or Stripe itself failed; the details are for the logs only
+	return new ApiError(502, "The payment provider could not process the request");
+}
+
+/**
+ * Map anything thrown by a route to the ApiError sent to the client
+ */
+export function toApiError(error: unknown): ApiError {
+	const apiError = findCause(error, isApiError);
+	if (apiError) return apiError;
+
+	const stripeError = findCause(error, isStripeError);
+	if (stripeError) return fromStripeError(stripeError);
+
+	if (error instanceof mongoose.Error.ValidationError) {
+		return new ApiError(
+			400,
+			"Validation failed",
+			"VALIDATION_ERROR",
+			Object.values(error.errors).map((fieldError) => ({
+				field: fieldError.path,
+				message: fieldError.message,
+			})),
+		);
+	}
+
+	if (error instanceof mongoose.Error.CastError) {
+		return new ApiError(400, `Invalid ${error.path}`, "VALIDATION_ERROR", [
+			{ field: error.path, message: `Invalid ${error.kind}` },
+		]);
+	}
+
+	const { code, type, status } = error as {
+		code?: unknown;
+		type?: unknown;
+		status?: unknown;
+	};
+
+	// Duplicate key from a unique index
+	if (code === 11000) {
+		return new ApiError(409, "Resource already exists");
+	}
+
+	// body-parser errors
+	if (type === "entity.parse.failed") {
+		return new ApiError(400, "Malformed JSON in request body");
+	}
+	if (type === "entity.too.large") {
+		return new ApiError(413, "Request body is too large");
+	}
+	if (typeof status === "number" && status >= 400 && status < 500) {
+		return new ApiError(status, (error as Error).message);
+	}
+
+	return new ApiError(500, "Internal server error");
+}
+
+/**
+ * Terminal error handler: every error passed to next() ends up here and is
+ * sent as `{ success: false, error: ApiErrorBody }`. Register after all routes.
+ */
+export const errorHandler = (
+	error: unknown,
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	if (res.headersSent) {
+		next(error);
+		return;
+	}
+
+	const apiError = toApiError(error);
+	const meta = {
+		requestId: req.requestId,
+		code: apiError.code,
+		method: req.method,
+		url: req.originalUrl,
+		userId: req.user?.userId,
+	};
+	if (apiError.statusCode >= 500) {
+		logger.error("Request failed", {
+			...meta,
+			error: error instanceof Error ? error.message : error,
+			stack: error instanceof Error ? error.stack : undefined,
+		});
+	} else {
+		logger.warn("Request rejected", { ...meta, message: apiError.message });
+	}
+
+	const body: ApiErrorBody = {
+		code: apiError.code,
+		message: apiError.message,
+		details: apiError.details,
+		requestId: req.requestId,
+		...(process.env.NODE_ENV === "development" &&
+			error instanceof Error && { stack: error.stack }),
+	};
+
+	res.status(apiError.statusCode).json({
+		success: false,
+		error: body,
+	});
+};
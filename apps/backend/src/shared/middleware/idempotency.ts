@@ -0,0 +1,163 @@
+import { IdempotencyKeyModel } from "../../domains/payment/entities/IdempotencyKey";
+import { ApiError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { createHash } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+
+declare global {
+	namespace Express {
+		interface Request {
+			idempotencyKey?: string;
+		}
+	}
+}
+
+const KEY_PATTERN = /^[\w-]{8,255}$/;
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const sha256 = (value: string): string =>
+	createHash("sha256").update(value).digest("hex");
+
+// Guests have no account, so their keys are scoped to the client instead
+const getClientId = (req: Request): string =>
+	req.user?.userId ??
+	`guest:${sha256(`${req.ip ?? ""}|${req.get("User-Agent") ?? ""}`)}`;
+
+/**
+ * What is kept of a response for replays. Without one the whole body is
+ * stored; routes whose responses carry secrets store a reference instead and
+ * rebuild the response from it.
+ */
+export interface IdempotentResponse {
+	store: (body: unknown) => unknown;
+	replay: (stored: unknown) => Promise<unknown>;
+}
+
+/**
+ * Honor the Idempotency-Key header: the first request with a key runs
+ * normally and its response is stored; retries with the same key and body
+ * get the stored response back instead of running again. Requests without
+ * the header are not affected. Must run after authentication and bot
+ * protection. Only successful responses are stored; a rejected request can
+ * be fixed and retried with the same key.
+ */
+export const idempotent = (scope: string, response?: IdempotentResponse) => {
+	return async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		const key = req.headers["idempotency-key"];
+		if (key === undefined) {
+			next();
+			return;
+		}
+
+		if (typeof key !== "string" || !KEY_PATTERN.test(key)) {
+			next(
+				new ApiError(
+					400,
+					"Idempotency-Key must be 8-255 letters, digits, dashes or underscores",
+					"INVALID_IDEMPOTENCY_KEY",
+				),
+			);
+			return;
+		}
+
+		const userId = getClientId(req);
+		// Captcha tokens are single-use, so a retry carries a fresh one
+		const body = { ...req.body };
+		delete body.captchaToken;
+		const requestHash = sha256(JSON.stringify(body));
+
+		try {
+			await IdempotencyKeyModel.create({
+				key,
+				scope,
+				userId,
+				requestHash,
+				expiresAt: new Date(Date.now() + KEY_TTL_MS),
+			});
+		} catch (error) {
+			if ((error as { code?: number }).code !== 11000) {
+				logger.error("Failed to store idempotency key", { error, scope });
+				next(error);
+				return;
+			}
+
+			const existing = await IdempotencyKeyModel.findOne({
+				key,
+				scope,
+				userId,
+			}).lean();
+
+			if (!existing || existing.status === "processing") {
+				next(
+					new ApiError(
+						409,
+						"A request with this Idempotency-Key is still in progress",
+						"IDEMPOTENCY_KEY_IN_USE",
+					),
+				);
+				return;
+			}
+
+			if (existing.requestHash !== requestHash) {
+				next(
+					new ApiError(
+						422,
+						"Idempotency-Key was already used with a different request",
+						"IDEMPOTENCY_KEY_REUSED",
+					),
+				);
+				return;
+			}
+
+			logger.info("Replaying idempotent response", { scope, userId });
+			try {
+				const replayed = response
+					? await response.replay(existing.responseBody)
+					: existing.responseBody;
+				res.setHeader("Idempotent-Replayed", "true");
+				res.status(existing.responseStatus ?? 200).json(replayed);
+			} catch (replayError) {
+				next(replayError);
+			}
+			return;
+		}
+
+		req.idempotencyKey = key;
+
+		// Capture the response so retries can replay it
+		let responseBody: unknown;
+		const json = res.json.bind(res);
+		res.json = (body: unknown) => {
+			responseBody = body;
+			return json(body);
+		};
+
+		res.on("close", () => {
+			const filter = { key, scope, userId };
+
+			// Errors and aborted requests may be retried with the same key
+			const update =
+				res.writableFinished && res.statusCode < 400 && responseBody !== undefined
+					? IdempotencyKeyModel.updateOne(filter, {
+							$set: {
+								status: "completed",
+								responseStatus: res.statusCode,
+								responseBody: response
+									? response.store(responseBody)
+									: responseBody,
+							},
+						})
+					: IdempotencyKeyModel.deleteOne(filter);
+
+			update.exec().catch((error) =>
+				logger.error("Failed to save idempotent response", { error, scope }),
+			);
+		});
+
+		next();
+	};
+};
@@ -1,10 +1,15 @@
+import { ApiError, TooManyRequestsError } from "../utils/errors";
 import { logger } from "../utils/logger";
+import { errorHandler } from "./errorHandler";
+import { requestId } from "./requestId";
 import cors from "cors";
 import express from "express";
 import rateLimit from "express-rate-limit";
 import helmet from "helmet";
 
 export function setupMiddleware(app: express.Application): void {
+	app.use(requestId);
+
 	// Security middleware
 	app.use(
 		helmet({
@@ -65,7 +70,14 @@ export function setupMiddleware(app: express.Application): void {
 			origin: process.env.FRONTEND_URL || "http://localhost:3000",
 			credentials: true,
 			methods: ["GET", "POST", "PUT", "DELETE", "PATCH"],
-			allowedHeaders: ["Content-Type", "Authorization"],
+			allowedHeaders: [
+				"Content-Type",
+				"Authorization",
+				"X-Timezone",
+				"Idempotency-Key",
+				"X-Request-Id",
+			],
+			exposedHeaders: ["Idempotent-Replayed", "X-Request-Id"],
 		}),
 	);
 
@@ -73,9 +85,12 @@ export function setupMiddleware(app: express.Application): void {
 	const limiter = rateLimit({
 		windowMs: Number.parseInt(process.env.RATE_LIMIT_WINDOW_MS || "900000"), // 15 minutes
 		max: Number.parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100"),
-		message: {
-			error: "Too many requests from this IP, please try again later.",
-		},
+		handler: (_req, _res, next) =>
+			next(
+				new TooManyRequestsError(
+					"Too many requests from this IP, please try again later.",
+				),
+			),
 		standardHeaders: true,
 		legacyHeaders: false,
 	});
@@ -101,6 +116,7 @@ export function setupMiddleware(app: express.Application): void {
 		res.on("finish", () => {
 			const duration = Date.now() - start;
 			logger.info("HTTP Request", {
+				requestId: req.requestId,
 				method: req.method,
 				url: req.url,
 				statusCode: res.statusCode,
@@ -112,48 +128,22 @@ export function setupMiddleware(app: express.Application): void {
 
 		next();
 	});
-
-	// Error handling middleware
-	app.use(
-		(
-			err: any,
-			req: express.Request,
-			res: express.Response,
-			_next: express.NextFunction,
-		) => {
-			logger.error("Unhandled error", {
-				error: err.message,
-				stack: err.stack,
-				url: req.url,
-				method: req.method,
-			});
-
-			const statusCode = err.statusCode || 500;
-			const message =
-				process.env.NODE_ENV === "production" && statusCode === 500
-					? "Internal server error"
-					: err.message;
-
-			res.status(statusCode).json({
-				success: false,
-				error: {
-					message,
-					...(process.env.NODE_ENV === "development" && { stack: err.stack }),
-				},
-			});
-		},
-	);
 }
 
-// 404 handler
-export function setup404Handler(app: express.Application): void {
-	app.use("*", (req, res) => {
-		res.status(404).json({
-			success: false,
-			error: {
-				message: "Route not found",
-				path: req.originalUrl,
-			},
-		});
+/**
+ * 404 for unknown API routes and the terminal error handler. Register after
+ * all routes (and the frontend fallback) so every error response shares the
+ * ApiErrorBody shape.
+ */
+export function setupErrorHandling(app: express.Application): void {
+	app.use("/api", (req, _res, next) => {
+		next(
+			new ApiError(
+				404,
+				`Route not found: ${req.method} ${req.originalUrl}`,
+				"ROUTE_NOT_FOUND",
+			),
+		);
 	});
+	app.use(errorHandler);
 }
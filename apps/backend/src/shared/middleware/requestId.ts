@@ -0,0 +1,31 @@
+import { randomUUID } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+
+declare global {
+	namespace Express {
+		interface Request {
+			requestId: string;
+		}
+	}
+}
+
+// Accept ids from a proxy or the client, but nothing that could spoof log lines
+const REQUEST_ID_PATTERN = /^[\w-]{8,128}$/;
+
+/**
+ * Tag every request with an id, echoed in the X-Request-Id header and in
+ * error responses so a user report can be matched to the server logs.
+ */
+export const requestId = (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	const header = req.headers["x-request-id"];
+	req.requestId =
+		typeof header === "string" && REQUEST_ID_PATTERN.test(header)
+			? header
+			: randomUUID();
+	res.setHeader("X-Request-Id", req.requestId);
+	next();
+};
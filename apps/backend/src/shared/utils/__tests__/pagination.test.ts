@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, toCursorPage } from '../pagination';
+import { ValidationError } from '../errors';
+
+const ID = '64b7f0c2a1b2c3d4e5f60750';
+
+const toCursor = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('pagination', () => {
+	describe('cursors', () => {
+		it('should decode what it encodes', () => {
+			expect(decodeCursor(encodeCursor({ key: 1234.5, id: ID }))).toEqual({ key: 1234.5, id: ID });
+			expect(decodeCursor(encodeCursor({ key: 0, id: ID }))).toEqual({ key: 0, id: ID });
+		});
+
+		it('should treat a missing cursor as the first page', () => {
+			expect(decodeCursor(undefined)).toBeUndefined();
+			expect(decodeCursor('')).toBeUndefined();
+		});
+
+		it.each([
+			['garbage', 'not-a-cursor'],
+			['a non-numeric key', toCursor(['far', ID])],
+			['a missing key', toCursor([null, ID])],
+			['an invalid id', toCursor([12, 'nope'])],
+			['an object', toCursor({ key: 12, id: ID })]
+		])('should reject %s', (_label, cursor) => {
+			expect(() => decodeCursor(cursor)).toThrow(ValidationError);
+			expect(() => decodeCursor(cursor)).toThrow('Invalid cursor');
+		});
+	});
+
+	describe('toCursorPage', () => {
+		const rows = [
+			{ id: '64b7f0c2a1b2c3d4e5f60751', distance: 10 },
+			{ id: '64b7f0c2a1b2c3d4e5f60752', distance: 20 },
+			{ id: '64b7f0c2a1b2c3d4e5f60753', distance: 20 }
+		];
+		const position = (row: (typeof rows)[number]) => ({ key: row.distance, id: row.id });
+
+		it('should point the next cursor at the last item when there are more rows', () => {
+			const page = toCursorPage(rows, 2, position);
+
+			expect(page.items).toEqual(rows.slice(0, 2));
+			expect(page.pagination).toMatchObject({ limit: 2, hasMore: true });
+			expect(decodeCursor(page.pagination.nextCursor!)).toEqual({
+				key: 20,
+				id: '64b7f0c2a1b2c3d4e5f60752'
+			});
+		});
+
+		it('should end without a cursor on the last page', () => {
+			const page = toCursorPage(rows, 3, position);
+
+			expect(page.items).toEqual(rows);
+			expect(page.pagination).toEqual({ limit: 3, nextCursor: null, hasMore: false });
+		});
+	});
+});
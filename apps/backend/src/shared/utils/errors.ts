@@ -1,11 +1,43 @@
+import type { ApiErrorCode, ApiErrorDetail } from "@spm/shared-types";
+
+// Code sent for errors that don't set one
+export function defaultErrorCode(statusCode: number): ApiErrorCode {
+	switch (statusCode) {
+		case 401:
+			return "AUTHENTICATION_ERROR";
+		case 402:
+			return "PAYMENT_ERROR";
+		case 403:
+			return "AUTHORIZATION_ERROR";
+		case 404:
+			return "NOT_FOUND_ERROR";
+		case 409:
+			return "CONFLICT_ERROR";
+		case 413:
+			return "PAYLOAD_TOO_LARGE";
+		case 429:
+			return "RATE_LIMIT_ERROR";
+		case 502:
+			return "PAYMENT_PROVIDER_ERROR";
+		case 503:
+			return "SERVICE_UNAVAILABLE";
+		default:
+			return statusCode >= 500 ? "INTERNAL_SERVER_ERROR" : "BAD_REQUEST";
+	}
+}
+
 export class ApiError extends Error {
+	public code: ApiErrorCode;
+
 	constructor(
 		public statusCode: number,
 		public message: string,
-		public code?: string,
+		code?: ApiErrorCode,
+		public details?: ApiErrorDetail[],
 	) {
 		super(message);
 		this.name = "ApiError";
+		this.code = code ?? defaultErrorCode(statusCode);
 		Error.captureStackTrace(this, this.constructor);
 	}
 }
@@ -15,7 +47,12 @@ export class ValidationError extends ApiError {
 		message: string,
 		public field?: string,
 	) {
-		super(400, message, "VALIDATION_ERROR");
+		super(
+			400,
+			message,
+			"VALIDATION_ERROR",
+			field ? [{ field, message }] : undefined,
+		);
 	}
 }
 
@@ -49,6 +86,18 @@ export class TooManyRequestsError extends ApiError {
 	}
 }
 
+// The tipper's payment method was declined
+export class PaymentError extends ApiError {
+	constructor(message: string, declineCode?: string) {
+		super(
+			402,
+			message,
+			"PAYMENT_ERROR",
+			declineCode ? [{ message, code: declineCode }] : undefined,
+		);
+	}
+}
+
 export class InternalServerError extends ApiError {
 	constructor(message = "Internal server error") {
 		super(500, message, "INTERNAL_SERVER_ERROR");
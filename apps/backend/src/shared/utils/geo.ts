@@ -0,0 +1,31 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two [lng, lat] points, in kilometres
+ */
+export function distanceInKm(
+	from: [number, number],
+	to: [number, number],
+): number {
+	const [fromLng, fromLat] = from;
+	const [toLng, toLat] = to;
+
+	const dLat = toRadians(toLat - fromLat);
+	const dLng = toRadians(toLng - fromLng);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(fromLat)) *
+			Math.cos(toRadians(toLat)) *
+			Math.sin(dLng / 2) ** 2;
+
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Convert a radius in kilometres to radians, as expected by $centerSphere
+ */
+export function kmToRadians(km: number): number {
+	return km / EARTH_RADIUS_KM;
+}
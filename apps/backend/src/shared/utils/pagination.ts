@@ -0,0 +1,76 @@
+import type { CursorPage } from "@spm/shared-types";
+import { isValidObjectId } from "mongoose";
+import { z } from "zod";
+import { ValidationError } from "./errors";
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Where the last item of a page sits in the listing's sort order: the sort
+ * value (distance in meters or a timestamp in ms) with the id as tie-breaker
+ */
+export interface CursorPosition {
+	key: number;
+	id: string;
+}
+
+// Query parameters shared by cursor-paginated listings
+export const cursorQuerySchema = z.object({
+	cursor: z.string().optional(),
+	limit: z
+		.string()
+		.transform((val) =>
+			Math.min(Math.max(Number.parseInt(val) || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT),
+		)
+		.optional(),
+});
+
+export function encodeCursor(position: CursorPosition): string {
+	return Buffer.from(JSON.stringify([position.key, position.id])).toString(
+		"base64url",
+	);
+}
+
+/**
+ * Read a cursor from a previous page. Cursors are opaque to clients, so
+ * anything that doesn't decode is rejected rather than ignored.
+ */
+export function decodeCursor(cursor?: string): CursorPosition | undefined {
+	if (!cursor) return undefined;
+
+	try {
+		const [key, id] = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf8"),
+		);
+		if (Number.isFinite(key) && isValidObjectId(id)) {
+			return { key, id };
+		}
+	} catch {
+		// Falls through to the validation error
+	}
+	throw new ValidationError("Invalid cursor", "cursor");
+}
+
+/**
+ * Build a page from up to `limit` + 1 rows; the extra row only tells whether
+ * there is a next page
+ */
+export function toCursorPage<T>(
+	rows: T[],
+	limit: number,
+	getPosition: (item: T) => CursorPosition,
+): CursorPage<T> {
+	const hasMore = rows.length > limit;
+	const items = hasMore ? rows.slice(0, limit) : rows;
+	const last = items[items.length - 1];
+
+	return {
+		items,
+		pagination: {
+			limit,
+			nextCursor: hasMore && last ? encodeCursor(getPosition(last)) : null,
+			hasMore,
+		},
+	};
+}
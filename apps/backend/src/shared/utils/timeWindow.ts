@@ -0,0 +1,98 @@
+import type { TimeRange, TimeRangeFilter } from "@spm/shared-types";
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import { formatDateInTimeZone, zonedTimeToUtc } from "./timezone";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_WINDOW_DAYS = 31;
+
+// Wall-clock value as sent by <input type="datetime-local">
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(?::\d{2})?$/;
+
+// Query parameters shared by listings filtered by when performances happen
+export const timeRangeQuerySchema = z.object({
+	timeRange: z.enum(["now", "hour", "today", "custom"]).optional(),
+	from: z.string().optional(),
+	to: z.string().optional(),
+});
+
+/**
+ * Read a custom window bound: values with a UTC offset are taken as given,
+ * wall-clock values are in the viewer's timezone
+ */
+function parseBound(value: string, name: string, timezone: string): Date {
+	const local = LOCAL_DATE_TIME.exec(value);
+	const date = local
+		? zonedTimeToUtc(local[1], local[2], timezone)
+		: new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new ValidationError(`${name} must be a date and time`, name);
+	}
+	return date;
+}
+
+/**
+ * The span a time range filter covers, or undefined when it doesn't limit
+ * by time ("now" filters on live status instead). "today" ends at midnight
+ * in the viewer's timezone.
+ */
+export function resolveTimeWindow(
+	filter: { timeRange?: TimeRangeFilter; from?: string; to?: string },
+	timezone = "UTC",
+	now = new Date(),
+): TimeRange | undefined {
+	switch (filter.timeRange) {
+		case "hour":
+			return { start: now, end: new Date(now.getTime() + HOUR_MS) };
+		case "today": {
+			const [year, month, day] = formatDateInTimeZone(now, timezone)
+				.split("-")
+				.map(Number);
+			const tomorrow = new Date(Date.UTC(year, month - 1, day + 1));
+			return {
+				start: now,
+				end: zonedTimeToUtc(
+					tomorrow.toISOString().slice(0, 10),
+					"00:00",
+					timezone,
+				),
+			};
+		}
+		case "custom": {
+			if (!filter.from || !filter.to) {
+				throw new ValidationError(
+					"from and to are required for a custom time range",
+				);
+			}
+			const start = parseBound(filter.from, "from", timezone);
+			const end = parseBound(filter.to, "to", timezone);
+			if (start >= end) {
+				throw new ValidationError("from must be before to", "from");
+			}
+			if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 24 * HOUR_MS) {
+				throw new ValidationError(
+					`A custom time range can span at most ${MAX_WINDOW_DAYS} days`,
+					"to",
+				);
+			}
+			return { start, end };
+		}
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Match performances with a stop that overlaps the window, so a performance
+ * that started earlier but is still on counts
+ */
+export function stopsOverlapping(window: TimeRange): Record<string, unknown> {
+	return {
+		"route.stops": {
+			$elemMatch: {
+				startTime: { $lt: window.end },
+				endTime: { $gt: window.start },
+			},
+		},
+	};
+}
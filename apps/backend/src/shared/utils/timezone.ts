@@ -0,0 +1,79 @@
+import type { Request } from "express";
+
+/**
+ * Check that a string is an IANA timezone the runtime (and MongoDB) understands
+ */
+export function isValidTimeZone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Read the client's timezone from the X-Timezone header, ignoring invalid values
+ */
+export function getRequestTimeZone(req: Request): string | undefined {
+	const timezone = req.headers["x-timezone"];
+	return typeof timezone === "string" && isValidTimeZone(timezone)
+		? timezone
+		: undefined;
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(instant: Date, timezone: string): number {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone: timezone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+	}).formatToParts(instant);
+	const part = (type: string) =>
+		Number(parts.find((p) => p.type === type)?.value);
+
+	const asUtc = Date.UTC(
+		part("year"),
+		part("month") - 1,
+		part("day"),
+		part("hour"),
+		part("minute"),
+		part("second"),
+	);
+	return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date and time ("YYYY-MM-DD", "HH:mm") in a timezone to a UTC Date
+ */
+export function zonedTimeToUtc(
+	date: string,
+	time: string,
+	timezone: string,
+): Date {
+	const [year, month, day] = date.split("-").map(Number);
+	const [hour, minute] = time.split(":").map(Number);
+	const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+	// Re-check the offset at the result so DST transitions resolve correctly
+	const offset = getTimeZoneOffset(new Date(wallClock), timezone);
+	const corrected = getTimeZoneOffset(new Date(wallClock - offset), timezone);
+	return new Date(wallClock - corrected);
+}
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in a timezone
+ */
+export function formatDateInTimeZone(instant: Date, timezone: string): string {
+	return new Intl.DateTimeFormat("en-CA", {
+		timeZone: timezone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+	}).format(instant);
+}
@@ -48,7 +48,11 @@ vi.mock('./components/ErrorBoundary', () => ({
 }));
 
 vi.mock('./hooks/useClerkSync', () => ({
-	useClerkSync: vi.fn(),
+	useClerkSync: vi.fn(() => ({ isLoading: false })),
+}));
+
+vi.mock('./hooks/useGuestTipClaims', () => ({
+	useGuestTipClaims: vi.fn(),
 }));
 
 // Mock react-hot-toast
@@ -4,6 +4,7 @@ import { Route, Routes } from "react-router-dom";
 import { Toaster } from "react-hot-toast";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { useClerkSync } from "./hooks/useClerkSync";
+import { useGuestTipClaims } from "./hooks/useGuestTipClaims";
 import { Home } from "./pages/Home"; // Keep Home as regular import for faster initial load
 
 // Lazy load components
@@ -16,6 +17,7 @@ const ArtistsList = lazy(() => import("./pages/ArtistsList").then(m => ({ defaul
 const ArtistProfile = lazy(() => import("./pages/ArtistProfile").then(m => ({ default: m.ArtistProfile })));
 const StripeReturn = lazy(() => import("./pages/connect/StripeReturn").then(m => ({ default: m.StripeReturn })));
 const StripeRefresh = lazy(() => import("./pages/connect/StripeRefresh").then(m => ({ default: m.StripeRefresh })));
+const TipPage = lazy(() => import("./pages/TipPage").then(m => ({ default: m.TipPage })));
 
 // Loading component
 const PageLoader = () => (
@@ -29,7 +31,9 @@ const PageLoader = () => (
 
 export function App() {
 	// Sync Clerk user with our database
-	useClerkSync();
+	const { isLoading: isSyncing } = useClerkSync();
+	// Then pick up tips sent from this device before signing up
+	useGuestTipClaims(!isSyncing);
 
 	return (
 		<ErrorBoundary>
@@ -37,6 +41,8 @@ export function App() {
 				<Suspense fallback={<PageLoader />}>
 					<Routes>
 					<Route path="/" element={<Home />} />
+					{/* Public: opened from a performer's QR code */}
+					<Route path="/t/:code" element={<TipPage />} />
 					<Route
 						path="/map"
 						element={
@@ -0,0 +1,221 @@
+import { useQuery } from "@tanstack/react-query";
+import type { EarningsTaxReport } from "@spm/shared-types";
+import { useState } from "react";
+import { api } from "@/utils/api";
+import { useToast } from "@/hooks/useToast";
+import { Button } from "@/components/ui/button";
+
+type ExportFormat = "csv" | "jsonl";
+
+// Amount in minor units
+const formatCurrency = (amount: number, currency: string) =>
+	new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+		amount / 100,
+	);
+
+const formatMonth = (month: string) =>
+	new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+	});
+
+const lastYear = new Date().getFullYear() - 1;
+const YEARS = Array.from({ length: 6 }, (_, i) => lastYear + 1 - i);
+
+/**
+ * Transaction exports and the yearly tax summary for performers
+ */
+export function EarningsExport() {
+	const { showError } = useToast();
+	const [from, setFrom] = useState("");
+	const [to, setTo] = useState("");
+	const [exporting, setExporting] = useState<ExportFormat | null>(null);
+	const [year, setYear] = useState(lastYear);
+
+	const {
+		data: report,
+		isLoading: isReportLoading,
+		isError: isReportError,
+	} = useQuery<EarningsTaxReport>({
+		queryKey: ["earnings-report", year],
+		queryFn: async () => {
+			const response = await api.get("/payments/earnings/report", {
+				params: { year },
+			});
+			return response.data.data;
+		},
+		staleTime: 5 * 60 * 1000,
+	});
+
+	const download = async (format: ExportFormat) => {
+		setExporting(format);
+		try {
+			const response = await api.get("/payments/earnings/export", {
+				params: { format, from: from || undefined, to: to || undefined },
+				responseType: "blob",
+				timeout: 60000, // Large histories take a while
+			});
+			const url = URL.createObjectURL(response.data as Blob);
+			const anchor = document.createElement("a");
+			anchor.href = url;
+			anchor.download = `earnings${from || to ? `-${from || "start"}_to_${to || "today"}` : ""}.${format}`;
+			anchor.click();
+			URL.revokeObjectURL(url);
+		} catch {
+			showError("Failed to export earnings");
+		} finally {
+			setExporting(null);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			{/* Transaction export */}
+			<div>
+				<h3 className="text-lg font-semibold text-foreground mb-1">
+					Export transactions
+				</h3>
+				<p className="text-sm text-muted-foreground mb-3">
+					Every paid tip with gross, fees, net, currency, payout and
+					performance. Leave the dates empty to export everything.
+				</p>
+				<div className="flex flex-wrap items-center gap-3 text-sm">
+					<label className="flex items-center gap-2 text-muted-foreground">
+						From
+						<input
+							type="date"
+							value={from}
+							onChange={(e) => setFrom(e.target.value)}
+							className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+						/>
+					</label>
+					<label className="flex items-center gap-2 text-muted-foreground">
+						To
+						<input
+							type="date"
+							value={to}
+							onChange={(e) => setTo(e.target.value)}
+							className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+						/>
+					</label>
+					<Button size="sm" onClick={() => download("csv")} disabled={!!exporting}>
+						{exporting === "csv" ? "Exporting..." : "Download CSV"}
+					</Button>
+					<Button
+						size="sm"
+						variant="outline"
+						onClick={() => download("jsonl")}
+						disabled={!!exporting}
+					>
+						{exporting === "jsonl" ? "Exporting..." : "Download JSON lines"}
+					</Button>
+				</div>
+			</div>
+
+			{/* Yearly tax summary */}
+			<div>
+				<div className="flex items-center justify-between mb-3">
+					<h3 className="text-lg font-semibold text-foreground">Tax year summary</h3>
+					<select
+						value={year}
+						onChange={(e) => setYear(Number(e.target.value))}
+						className="bg-background border border-border rounded-lg px-3 py-2 text-sm text-foreground"
+					>
+						{YEARS.map((option) => (
+							<option key={option} value={option}>
+								{option}
+							</option>
+						))}
+					</select>
+				</div>
+
+				{isReportLoading ? (
+					<div className="h-32 bg-muted rounded animate-pulse" />
+				) : isReportError || !report ? (
+					<p className="text-sm text-destructive">Failed to load the tax summary</p>
+				) : (
+					<div className="bg-muted/50 rounded-lg p-4 space-y-4">
+						<div className="text-sm text-muted-foreground">
+							Tax year {report.period.label} ·{" "}
+							{new Date(report.period.start).toLocaleDateString()} to{" "}
+							{new Date(
+								new Date(report.period.end).getTime() - 1,
+							).toLocaleDateString()}
+						</div>
+
+						<div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+							{(
+								[
+									["Gross", report.totals.gross, "text-blue-400"],
+									["Refunded", report.totals.refunded, "text-red-400"],
+									["Fees", report.totals.fees, "text-yellow-400"],
+									["Net", report.totals.net, "text-green-400"],
+								] as const
+							).map(([label, amount, color]) => (
+								<div key={label}>
+									<div className={`text-lg font-bold ${color}`}>
+										{report.totals.converted && "≈ "}
+										{formatCurrency(amount, report.reportingCurrency)}
+									</div>
+									<div className="text-xs text-muted-foreground">{label}</div>
+								</div>
+							))}
+						</div>
+
+						{report.byCurrency.length > 1 && (
+							<div className="text-sm text-muted-foreground">
+								{report.byCurrency.map((totals) => (
+									<div key={totals.currency} className="flex justify-between">
+										<span>
+											{totals.tipCount} tips in {totals.currency}
+										</span>
+										<span>{formatCurrency(totals.net, totals.currency)} net</span>
+									</div>
+								))}
+							</div>
+						)}
+
+						{report.months.length > 0 ? (
+							<table className="w-full text-sm">
+								<thead>
+									<tr className="text-muted-foreground text-left">
+										<th className="py-1 font-normal">Month</th>
+										<th className="py-1 font-normal text-right">Gross</th>
+										<th className="py-1 font-normal text-right">Fees</th>
+										<th className="py-1 font-normal text-right">Net</th>
+									</tr>
+								</thead>
+								<tbody>
+									{report.months.map((month) => (
+										<tr key={month.month} className="border-t border-border">
+											<td className="py-1 text-foreground">{formatMonth(month.month)}</td>
+											<td className="py-1 text-right">
+												{formatCurrency(month.gross, report.reportingCurrency)}
+											</td>
+											<td className="py-1 text-right">
+												{formatCurrency(month.fees, report.reportingCurrency)}
+											</td>
+											<td className="py-1 text-right text-green-400">
+												{formatCurrency(month.net, report.reportingCurrency)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						) : (
+							<p className="text-sm text-muted-foreground">
+								No tips in this tax year
+							</p>
+						)}
+
+						<ul className="text-xs text-muted-foreground list-disc pl-4 space-y-1">
+							{report.notes.map((note) => (
+								<li key={note}>{note}</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,16 +1,8 @@
+import type { FilterState } from "@/hooks/useDebouncedFilters";
+
 interface FilterPanelProps {
-	filters: {
-		genre: string;
-		timeRange: string;
-		distance: number;
-		popularity: string;
-	};
-	onFiltersChange: (filters: {
-		genre: string;
-		timeRange: string;
-		distance: number;
-		popularity: string;
-	}) => void;
+	filters: FilterState;
+	onFiltersChange: (filters: FilterState) => void;
 	onClose: () => void;
 }
 
@@ -28,6 +20,7 @@ const TIME_RANGES = [
 	{ value: "now", label: "Live Now" },
 	{ value: "hour", label: "Next Hour" },
 	{ value: "today", label: "Today" },
+	{ value: "custom", label: "Pick a Time" },
 	{ value: "all", label: "All Time" },
 ];
 const DISTANCES = [1, 2, 5, 10, 25];
@@ -106,6 +99,32 @@ export function FilterPanel({
 							</button>
 						))}
 					</div>
+
+					{/* Custom window, in the viewer's local time */}
+					{filters.timeRange === "custom" && (
+						<div className="mt-3 grid grid-cols-1 gap-2">
+							<label className="text-xs text-muted-foreground">
+								From
+								<input
+									type="datetime-local"
+									value={filters.from ?? ""}
+									max={filters.to}
+									onChange={(e) => handleFilterChange("from", e.target.value)}
+									className="mt-1 w-full px-3 py-2 text-sm bg-card border border-border rounded-lg text-foreground"
+								/>
+							</label>
+							<label className="text-xs text-muted-foreground">
+								To
+								<input
+									type="datetime-local"
+									value={filters.to ?? ""}
+									min={filters.from}
+									onChange={(e) => handleFilterChange("to", e.target.value)}
+									className="mt-1 w-full px-3 py-2 text-sm bg-card border border-border rounded-lg text-foreground"
+								/>
+							</label>
+						</div>
+					)}
 				</div>
 
 				{/* Distance Filter */}
@@ -141,7 +160,7 @@ export function FilterPanel({
 							{ value: "all", label: "All Performances" },
 							{ value: "trending", label: "Trending Now" },
 							{ value: "popular", label: "Most Popular" },
-							{ value: "new", label: "New Performers" },
+							{ value: "new", label: "Recently Added" },
 						].map((option) => (
 							<button
 								type="button"
@@ -84,12 +84,17 @@ export function GoogleMap({
 		}
 	};
 
-	// Get the first location from the performance route
+	// Where the performer is now: live GPS position, checked-in stop or first stop
 	const getPerformanceLocation = (performance: Performance) => {
-		const firstStop = performance.route.stops[0];
+		const currentStop =
+			performance.route.stops.find((stop) => stop.status === "active") ||
+			performance.route.stops[0];
+		const coordinates =
+			(performance.status === "live" && performance.livePosition?.coordinates) ||
+			currentStop.location.coordinates;
 		return {
-			lat: firstStop.location.coordinates[1], // lat is second element
-			lng: firstStop.location.coordinates[0], // lng is first element
+			lat: coordinates[1], // lat is second element
+			lng: coordinates[0], // lng is first element
 		};
 	};
 
@@ -1,21 +1,18 @@
-import type { Performance } from "@spm/shared-types";
+import type { MapBounds, MapCluster, Performance } from "@spm/shared-types";
 import {
 	APIProvider,
 	AdvancedMarker,
 	Map,
+	type MapEvent,
 	useMap,
 } from "@vis.gl/react-google-maps";
-import { useCallback, useRef, useEffect } from "react";
+import { useCallback, useRef, useEffect, useState } from "react";
+import { type FilterState, toApiFilters } from "@/hooks/useDebouncedFilters";
+import { useMapViewport } from "@/hooks/usePerformances";
 
 interface MapComponentProps {
 	userLocation: [number, number];
-	performances: Performance[];
-	filters: {
-		genre: string;
-		timeRange: string;
-		distance: number;
-		popularity: string;
-	};
+	filters: FilterState;
 	onPerformanceClick: (performance: Performance) => void;
 	onMapRef?: (
 		mapRef: any,
@@ -88,6 +85,67 @@ function PerformanceStopMarker({
 	);
 }
 
+// Performer's live GPS position, moved as position updates arrive
+function LivePositionMarker({
+	performance,
+	onClick,
+}: {
+	performance: Performance;
+	onClick: () => void;
+}) {
+	const coordinates = performance.livePosition?.coordinates;
+	if (performance.status !== "live" || !coordinates) return null;
+
+	return (
+		<AdvancedMarker
+			position={{ lat: coordinates[1], lng: coordinates[0] }}
+			onClick={onClick}
+			zIndex={10}
+		>
+			<div className="relative flex items-center justify-center">
+				<span className="absolute inline-flex h-8 w-8 rounded-full bg-red-400 opacity-75 animate-ping" />
+				<div className="relative bg-red-500 rounded-full p-1 shadow-lg border-2 border-white text-lg">
+					🎤
+				</div>
+			</div>
+		</AdvancedMarker>
+	);
+}
+
+// Several performances drawn as one marker when zoomed out
+function ClusterMarker({
+	cluster,
+	onClick,
+}: {
+	cluster: MapCluster;
+	onClick: () => void;
+}) {
+	// Grow with the count, capped so city-wide clusters stay readable
+	const size = Math.min(32 + Math.log2(cluster.count) * 8, 72);
+
+	return (
+		<AdvancedMarker
+			position={cluster.position}
+			onClick={onClick}
+			zIndex={cluster.liveCount > 0 ? 5 : 1}
+		>
+			<div
+				className={`flex items-center justify-center rounded-full border-2 border-white shadow-lg text-white font-bold cursor-pointer hover:scale-110 transition-transform ${
+					cluster.liveCount > 0 ? "bg-red-500" : "bg-blue-600"
+				}`}
+				style={{ width: size, height: size }}
+				title={
+					cluster.liveCount > 0
+						? `${cluster.count} performances, ${cluster.liveCount} live`
+						: `${cluster.count} performances`
+				}
+			>
+				{cluster.count}
+			</div>
+		</AdvancedMarker>
+	);
+}
+
 // PerformanceRouteLine component removed - not used
 
 // Inner component that has access to the map instance
@@ -114,21 +172,37 @@ function MapController({
 
 export function MapComponent({
 	userLocation,
-	performances,
 	filters,
 	onPerformanceClick,
 	onMapRef,
 }: MapComponentProps) {
 	const mapRef = useRef<any>(null);
+	const [view, setView] = useState<{ bounds: MapBounds; zoom: number } | null>(
+		null,
+	);
+
+	const { data: viewport } = useMapViewport(view, toApiFilters(filters));
+
+	// Query the visible area once the map settles after a pan or zoom
+	const handleIdle = useCallback((event: MapEvent) => {
+		const bounds = event.map.getBounds()?.toJSON();
+		const zoom = event.map.getZoom();
+		if (bounds && zoom !== undefined) {
+			setView({ bounds, zoom });
+		}
+	}, []);
 
 	const panToPerformance = useCallback((performance: Performance) => {
 		const currentStop =
 			performance.route.stops.find((stop) => stop.status === "active") ||
 			performance.route.stops[0];
+		const coordinates =
+			(performance.status === "live" && performance.livePosition?.coordinates) ||
+			currentStop.location.coordinates;
 
 		const newCenter = {
-			lat: currentStop.location.coordinates[1],
-			lng: currentStop.location.coordinates[0],
+			lat: coordinates[1],
+			lng: coordinates[0],
 		};
 
 		// Use the map instance for smooth animation
@@ -164,15 +238,19 @@ export function MapComponent({
 		[onPerformanceClick, panToPerformance],
 	);
 
-	// Filter performances based on current filters
-	const filteredPerformances = performances.filter((performance) => {
-		if (filters.genre !== "all" && performance.genre !== filters.genre) {
-			return false;
-		}
+	const handleClusterClick = useCallback((cluster: MapCluster) => {
+		if (!mapRef.current) return;
+		mapRef.current.panTo(cluster.position);
+		mapRef.current.setZoom(cluster.expansionZoom);
+	}, []);
 
-		// Add more filtering logic here as needed
-		return true;
-	});
+	const features = viewport?.features ?? [];
+	const clusters = features.filter(
+		(feature): feature is MapCluster => feature.type === "cluster",
+	);
+	const performances = features.flatMap((feature) =>
+		feature.type === "performance" ? [feature.performance] : [],
+	);
 
 	const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
@@ -203,6 +281,7 @@ export function MapComponent({
 					fullscreenControl={true}
 					clickableIcons={true}
 					style={{ width: "100%", height: "100%" }}
+					onIdle={handleIdle}
 				>
 					<MapController
 						onMapRef={handleMapRef}
@@ -217,8 +296,17 @@ export function MapComponent({
 						</div>
 					</AdvancedMarker>
 
+					{/* Clustered performances */}
+					{clusters.map((cluster) => (
+						<ClusterMarker
+							key={cluster.id}
+							cluster={cluster}
+							onClick={() => handleClusterClick(cluster)}
+						/>
+					))}
+
 					{/* Performance markers */}
-					{filteredPerformances.map((performance) =>
+					{performances.map((performance) =>
 						performance.route.stops.map((stop, stopIndex) => (
 							<PerformanceStopMarker
 								key={`${performance._id}-${stopIndex}`}
@@ -230,6 +318,15 @@ export function MapComponent({
 							/>
 						)),
 					)}
+
+					{/* Live performer positions */}
+					{performances.map((performance) => (
+						<LivePositionMarker
+							key={`${performance._id}-live`}
+							performance={performance}
+							onClick={() => handleMarkerClick(performance)}
+						/>
+					))}
 				</Map>
 			</APIProvider>
 		</div>
@@ -0,0 +1,307 @@
+import type { TipperPerformerSummary, TipperTip } from "@spm/shared-types";
+import { useEffect, useState } from "react";
+import { api } from "@/utils/api";
+import { useToast } from "@/hooks/useToast";
+import { type MyTipsFilters, useMyTips, useMyTipsByPerformer } from "@/hooks/useMyTips";
+import { Button } from "@/components/ui/button";
+
+const STATUS_OPTIONS: { value: TipperTip["status"] | ""; label: string }[] = [
+	{ value: "", label: "All statuses" },
+	{ value: "completed", label: "Completed" },
+	{ value: "refunded", label: "Refunded" },
+	{ value: "pending", label: "Pending" },
+	{ value: "failed", label: "Failed" },
+];
+
+// Amount in minor units
+const formatCurrency = (amount: number, currency: string) =>
+	new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+		amount / 100,
+	);
+
+const formatDate = (date: Date | string) =>
+	new Date(date).toLocaleDateString(undefined, {
+		year: "numeric",
+		month: "short",
+		day: "numeric",
+	});
+
+const statusClassName = (status: TipperTip["status"]) => {
+	switch (status) {
+		case "completed":
+			return "bg-green-900/20 text-green-400";
+		case "pending":
+		case "processing":
+			return "bg-yellow-900/20 text-yellow-400";
+		default:
+			return "bg-red-900/20 text-red-400";
+	}
+};
+
+/**
+ * Receipt buttons: the endpoint needs the auth header, so the HTML is
+ * fetched as a blob instead of linked directly
+ */
+function ReceiptActions({ tipId }: { tipId: string }) {
+	const { showError } = useToast();
+
+	const openReceipt = async (download: boolean) => {
+		try {
+			const response = await api.get(`/payments/transactions/${tipId}/receipt`, {
+				responseType: "blob",
+			});
+			const url = URL.createObjectURL(response.data as Blob);
+			if (download) {
+				const anchor = document.createElement("a");
+				anchor.href = url;
+				anchor.download = `tip-receipt-${tipId}.html`;
+				anchor.click();
+			} else {
+				window.open(url, "_blank", "noopener");
+			}
+			// Give the new tab time to load before releasing the blob
+			setTimeout(() => URL.revokeObjectURL(url), 60000);
+		} catch {
+			showError("Failed to load receipt");
+		}
+	};
+
+	return (
+		<div className="flex gap-2">
+			<Button size="sm" variant="outline" onClick={() => openReceipt(false)}>
+				🧾 Receipt
+			</Button>
+			<Button size="sm" variant="ghost" onClick={() => openReceipt(true)}>
+				Download
+			</Button>
+		</div>
+	);
+}
+
+function PerformerTips({
+	performerId,
+	filters,
+}: {
+	performerId: string;
+	filters: MyTipsFilters;
+}) {
+	const [page, setPage] = useState(1);
+	const { data, isLoading, isError } = useMyTips({ ...filters, performerId }, page);
+
+	// Back to the first page whenever the filters change
+	useEffect(() => setPage(1), [filters]);
+
+	if (isLoading) {
+		return <div className="h-16 bg-muted rounded animate-pulse" />;
+	}
+	if (isError || !data) {
+		return <p className="text-sm text-destructive">Failed to load tips</p>;
+	}
+	if (data.tips.length === 0) {
+		return (
+			<p className="text-sm text-muted-foreground">No tips match these filters</p>
+		);
+	}
+
+	const { pages } = data.pagination;
+
+	return (
+		<div className="space-y-3">
+			{data.tips.map((tip) => (
+				<div
+					key={tip._id}
+					className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-background/50 rounded-lg p-3"
+				>
+					<div>
+						<div className="flex items-center gap-2">
+							<span className="font-semibold text-foreground">
+								{formatCurrency(tip.amount, tip.currency)}
+							</span>
+							<span
+								className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClassName(tip.status)}`}
+							>
+								{tip.status.toUpperCase()}
+							</span>
+							{tip.refundedAmount > 0 && tip.status !== "refunded" && (
+								<span className="text-xs text-muted-foreground">
+									{formatCurrency(tip.refundedAmount, tip.currency)} refunded
+								</span>
+							)}
+						</div>
+						<div className="text-sm text-muted-foreground">
+							{tip.performance?.title ?? "Deleted performance"} ·{" "}
+							{formatDate(tip.createdAt)}
+						</div>
+						{tip.publicMessage && (
+							<div className="text-sm text-gray-300 italic">"{tip.publicMessage}"</div>
+						)}
+					</div>
+					{(tip.status === "completed" || tip.status === "refunded") && (
+						<ReceiptActions tipId={tip._id} />
+					)}
+				</div>
+			))}
+
+			{pages > 1 && (
+				<div className="flex items-center justify-between text-sm">
+					<Button
+						size="sm"
+						variant="outline"
+						disabled={page <= 1}
+						onClick={() => setPage(page - 1)}
+					>
+						← Newer
+					</Button>
+					<span className="text-muted-foreground">
+						Page {page} of {pages}
+					</span>
+					<Button
+						size="sm"
+						variant="outline"
+						disabled={page >= pages}
+						onClick={() => setPage(page + 1)}
+					>
+						Older →
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function PerformerGroup({
+	summary,
+	filters,
+}: {
+	summary: TipperPerformerSummary;
+	filters: MyTipsFilters;
+}) {
+	const [isExpanded, setIsExpanded] = useState(false);
+	const { performer } = summary;
+
+	return (
+		<div className="bg-muted/50 rounded-lg border border-gray-600">
+			<button
+				type="button"
+				onClick={() => setIsExpanded(!isExpanded)}
+				className="w-full flex items-center gap-4 p-4 text-left"
+			>
+				{performer.avatar ? (
+					<img
+						src={performer.avatar}
+						alt={performer.displayName}
+						className="w-12 h-12 rounded-full object-cover"
+					/>
+				) : (
+					<div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center text-xl">
+						🎵
+					</div>
+				)}
+				<div className="flex-1">
+					<div className="font-semibold text-foreground">{performer.displayName}</div>
+					<div className="text-sm text-muted-foreground">
+						{summary.tipCount} {summary.tipCount === 1 ? "tip" : "tips"} · last on{" "}
+						{formatDate(summary.lastTippedAt)}
+					</div>
+				</div>
+				<div className="text-right">
+					{summary.totals.map((total) => (
+						<div key={total.currency} className="font-bold text-green-400">
+							{formatCurrency(total.amount, total.currency)}
+						</div>
+					))}
+				</div>
+				<span className="text-muted-foreground">{isExpanded ? "▲" : "▼"}</span>
+			</button>
+			{isExpanded && (
+				<div className="px-4 pb-4">
+					<PerformerTips performerId={performer._id} filters={filters} />
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Tips the signed-in user has given, grouped by performer
+ */
+export function MyTips() {
+	const [filters, setFilters] = useState<MyTipsFilters>({});
+	const { data: summaries = [], isLoading, isError } = useMyTipsByPerformer();
+
+	const updateFilter = (key: keyof MyTipsFilters, value: string) => {
+		setFilters((current) => ({ ...current, [key]: value || undefined }));
+	};
+
+	if (isLoading) {
+		return (
+			<div className="space-y-4">
+				{Array.from({ length: 3 }).map((_, i) => (
+					<div key={i} className="h-20 bg-muted rounded animate-pulse" />
+				))}
+			</div>
+		);
+	}
+
+	if (isError) {
+		return <p className="text-destructive">Failed to load your tips</p>;
+	}
+
+	if (summaries.length === 0) {
+		return (
+			<div className="text-center py-8">
+				<div className="text-4xl mb-4">🎁</div>
+				<h3 className="text-lg font-semibold text-foreground mb-2">
+					You haven't tipped anyone yet
+				</h3>
+				<p className="text-muted-foreground">
+					Find a performer on the map and show them some love!
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-wrap gap-3 text-sm">
+				<select
+					value={filters.status ?? ""}
+					onChange={(e) => updateFilter("status", e.target.value)}
+					className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+				>
+					{STATUS_OPTIONS.map((option) => (
+						<option key={option.value} value={option.value}>
+							{option.label}
+						</option>
+					))}
+				</select>
+				<label className="flex items-center gap-2 text-muted-foreground">
+					From
+					<input
+						type="date"
+						value={filters.from ?? ""}
+						onChange={(e) => updateFilter("from", e.target.value)}
+						className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+					/>
+				</label>
+				<label className="flex items-center gap-2 text-muted-foreground">
+					To
+					<input
+						type="date"
+						value={filters.to ?? ""}
+						onChange={(e) => updateFilter("to", e.target.value)}
+						className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+					/>
+				</label>
+			</div>
+
+			{summaries.map((summary) => (
+				<PerformerGroup
+					key={summary.performer._id}
+					summary={summary}
+					filters={filters}
+				/>
+			))}
+		</div>
+	);
+}
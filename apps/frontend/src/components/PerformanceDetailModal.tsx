@@ -1,5 +1,8 @@
 import type { Performance } from "@spm/shared-types";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { usePerformanceEvents } from "@/hooks/usePerformanceEvents";
+import { usePerformancePaymentSummary } from "@/hooks/usePerformancePaymentSummary";
+import { TipGoalBar } from "./TipGoalBar";
 import {
 	Dialog,
 	DialogContent,
@@ -10,6 +13,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
+const CELEBRATION_MS = 6000;
+
 interface PerformanceDetailModalProps {
 	performance: Performance;
 	isOpen: boolean;
@@ -22,6 +27,22 @@ export function PerformanceDetailModal({
 	onClose,
 }: PerformanceDetailModalProps) {
 	const [activeTab, setActiveTab] = useState<"details" | "route">("details");
+	const [celebrating, setCelebrating] = useState(false);
+
+	const { data: paymentData } = usePerformancePaymentSummary(
+		isOpen ? performance._id : undefined,
+	);
+
+	// Live tip goal progress while the modal is open
+	usePerformanceEvents(isOpen ? performance._id : undefined, {
+		onGoalReached: () => setCelebrating(true),
+	});
+
+	useEffect(() => {
+		if (!celebrating) return;
+		const timer = setTimeout(() => setCelebrating(false), CELEBRATION_MS);
+		return () => clearTimeout(timer);
+	}, [celebrating]);
 
 	if (!isOpen) return null;
 
@@ -85,6 +106,11 @@ export function PerformanceDetailModal({
 							</div>
 						</div>
 
+						{/* Tip Goal */}
+						{paymentData?.goal && (
+							<TipGoalBar goal={paymentData.goal} celebrating={celebrating} />
+						)}
+
 						{/* Description */}
 						{performance.description && (
 							<div>
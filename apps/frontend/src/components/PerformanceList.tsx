@@ -1,17 +1,30 @@
-import type { Performance } from "@spm/shared-types";
+import type { NearbyPerformance, Performance } from "@spm/shared-types";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 
 interface PerformanceListProps {
-	performances: Performance[];
+	performances: NearbyPerformance[];
 	onClose: () => void;
 	onPerformanceClick: (performance: Performance) => void;
+	hasMore?: boolean;
+	isLoadingMore?: boolean;
+	onLoadMore?: () => void;
 }
 
 export function PerformanceList({
 	performances,
 	onClose,
 	onPerformanceClick,
+	hasMore = false,
+	isLoadingMore = false,
+	onLoadMore = () => {},
 }: PerformanceListProps) {
+	const loadMoreRef = useInfiniteScroll({
+		hasMore,
+		isLoading: isLoadingMore,
+		onLoadMore,
+	});
+
 	const formatTime = (date: Date) => {
 		return new Intl.DateTimeFormat("en-US", {
 			hour: "numeric",
@@ -43,9 +56,10 @@ export function PerformanceList({
 		}
 	};
 
-	const getDistance = () => {
-		// Mock distance calculation - in real app, calculate from user location
-		return `${(Math.random() * 5 + 0.5).toFixed(1)}km away`;
+	const getDistance = (performance: NearbyPerformance) => {
+		return performance.distance < 1
+			? `${Math.round(performance.distance * 1000)}m away`
+			: `${performance.distance.toFixed(1)}km away`;
 	};
 
 	return (
@@ -120,7 +134,7 @@ export function PerformanceList({
 										<div className="flex items-center text-sm text-gray-500 space-x-4">
 											<span>🎵 {performance.genre}</span>
 											<span>📍 {currentStop.location.name}</span>
-											<span>📏 {getDistance()}</span>
+											<span>📏 {getDistance(performance)}</span>
 										</div>
 									</div>
 
@@ -165,6 +179,14 @@ export function PerformanceList({
 								</div>
 							);
 						})}
+
+						{/* Loads the next page when scrolled into view */}
+						<div ref={loadMoreRef} />
+						{isLoadingMore && (
+							<p className="text-sm text-gray-500 text-center">
+								Loading more performances...
+							</p>
+						)}
 					</div>
 				)}
 			</div>
@@ -172,7 +194,8 @@ export function PerformanceList({
 			{/* Footer */}
 			<div className="p-4 border-t border-gray-200 bg-gray-50">
 				<p className="text-xs text-gray-500 text-center">
-					{performances.length} performance
+					{performances.length}
+					{hasMore ? "+" : ""} performance
 					{performances.length !== 1 ? "s" : ""} near you
 				</p>
 			</div>
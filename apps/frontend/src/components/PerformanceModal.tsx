@@ -1,5 +1,6 @@
 import { useLikePerformance, usePerformance } from "@/hooks/usePerformances";
 import { usePerformancePaymentSummary } from "@/hooks/usePerformancePaymentSummary";
+import { usePerformanceEvents } from "@/hooks/usePerformanceEvents";
 import { useUser } from "@clerk/clerk-react";
 import type { Performance } from "@spm/shared-types";
 import type React from "react";
@@ -40,6 +41,9 @@ export const PerformanceModal: React.FC<PerformanceModalProps> = ({
 		performance._id
 	);
 
+	// Live tips, likes and status changes while the modal is open
+	usePerformanceEvents(isOpen ? performance._id : undefined);
+
 	// Check if current user has liked this performance
 	const isLiked = user && performance.engagement?.likedBy?.includes(user.id);
 
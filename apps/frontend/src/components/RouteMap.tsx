@@ -0,0 +1,102 @@
+import {
+	APIProvider,
+	AdvancedMarker,
+	Map,
+	useMap,
+} from "@vis.gl/react-google-maps";
+import { useEffect } from "react";
+
+import type { Coordinates, RouteLeg } from "@spm/shared-types";
+
+interface RouteMapProps {
+	stops: Coordinates[];
+	legs?: RouteLeg[];
+	className?: string;
+}
+
+const FEASIBLE_COLOR = "#22c55e";
+const INFEASIBLE_COLOR = "#ef4444";
+const PENDING_COLOR = "#94a3b8"; // Before the plan for a leg loads
+
+const toLatLng = ([lng, lat]: Coordinates) => ({ lat, lng });
+
+// Draws each leg as its own line so infeasible ones stand out
+function RoutePolyline({ stops, legs }: Pick<RouteMapProps, "stops" | "legs">) {
+	const map = useMap();
+
+	useEffect(() => {
+		if (!map || stops.length === 0) return;
+
+		const lines = stops.slice(1).map((to, index) => {
+			const leg = legs?.find((candidate) => candidate.fromStop === index);
+			const color = !leg
+				? PENDING_COLOR
+				: leg.feasible
+					? FEASIBLE_COLOR
+					: INFEASIBLE_COLOR;
+
+			return new google.maps.Polyline({
+				map,
+				path: [toLatLng(stops[index]), toLatLng(to)],
+				strokeColor: color,
+				strokeOpacity: 0.9,
+				strokeWeight: 4,
+				geodesic: true,
+			});
+		});
+
+		// Keep every stop in view
+		const bounds = new google.maps.LatLngBounds();
+		for (const stop of stops) {
+			bounds.extend(toLatLng(stop));
+		}
+		if (stops.length > 1) {
+			map.fitBounds(bounds, 48);
+		} else {
+			map.setCenter(toLatLng(stops[0]));
+		}
+
+		return () => {
+			for (const line of lines) {
+				line.setMap(null);
+			}
+		};
+	}, [map, stops, legs]);
+
+	return null;
+}
+
+export function RouteMap({
+	stops,
+	legs,
+	className = "w-full h-64",
+}: RouteMapProps) {
+	const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+
+	if (!apiKey || stops.length === 0) {
+		return null;
+	}
+
+	return (
+		<APIProvider apiKey={apiKey}>
+			<Map
+				defaultCenter={toLatLng(stops[0])}
+				defaultZoom={14}
+				gestureHandling="cooperative"
+				disableDefaultUI={true}
+				mapId="street-performers-route"
+				className={className}
+				style={{ borderRadius: "8px" }}
+			>
+				<RoutePolyline stops={stops} legs={legs} />
+				{stops.map((stop, index) => (
+					<AdvancedMarker key={index} position={toLatLng(stop)}>
+						<div className="w-7 h-7 bg-primary text-primary-foreground rounded-full border-2 border-white shadow-lg flex items-center justify-center text-xs font-bold">
+							{index + 1}
+						</div>
+					</AdvancedMarker>
+				))}
+			</Map>
+		</APIProvider>
+	);
+}
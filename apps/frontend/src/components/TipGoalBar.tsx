@@ -0,0 +1,57 @@
+import type { TipGoalProgress } from "@spm/shared-types";
+
+interface TipGoalBarProps {
+	goal: TipGoalProgress;
+	celebrating?: boolean; // Just reached, while the celebration is shown
+}
+
+// Minor units, e.g. formatGoalAmount(5000, "EUR") -> "€50.00"
+const formatGoalAmount = (amount: number, currency: string) =>
+	new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+		amount / 100,
+	);
+
+export function TipGoalBar({ goal, celebrating = false }: TipGoalBarProps) {
+	const reached = goal.percent >= 100 || Boolean(goal.reachedAt);
+
+	return (
+		<div
+			className={`rounded-lg border p-4 transition-colors ${
+				celebrating ? "border-green-500 bg-green-50" : "border-border bg-muted"
+			}`}
+		>
+			<div className="flex items-baseline justify-between mb-2">
+				<h3 className="font-semibold text-foreground">
+					🎯 {goal.description || "Tip goal"}
+				</h3>
+				<span className="text-sm text-muted-foreground">{goal.percent}%</span>
+			</div>
+
+			<div
+				className="h-3 w-full overflow-hidden rounded-full bg-background"
+				role="progressbar"
+				aria-valuemin={0}
+				aria-valuemax={100}
+				aria-valuenow={goal.percent}
+			>
+				<div
+					className={`h-full rounded-full transition-all duration-700 ${
+						reached ? "bg-green-500" : "bg-primary"
+					}`}
+					style={{ width: `${goal.percent}%` }}
+				/>
+			</div>
+
+			<p className="mt-2 text-sm text-muted-foreground">
+				{formatGoalAmount(goal.raised, goal.currency)} of{" "}
+				{formatGoalAmount(goal.amount, goal.currency)}
+			</p>
+
+			{celebrating && (
+				<p className="mt-2 text-center font-semibold text-green-700 animate-bounce">
+					🎉 Goal reached! Thank you for the support!
+				</p>
+			)}
+		</div>
+	);
+}
@@ -1,8 +1,8 @@
-import { api } from "@/utils/api";
+import { api, getApiErrorMessage } from "@/utils/api";
 import { useUser } from "@clerk/clerk-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { loadStripe } from "@stripe/stripe-js";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Elements } from "@stripe/react-stripe-js";
 import { PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
 import toast from "react-hot-toast";
@@ -18,6 +18,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { TURNSTILE_SITE_KEY, TurnstileWidget } from "@/components/TurnstileWidget";
+import { saveGuestTipClaim } from "@/utils/guestTipClaims";
+import type { CurrencyCode, PaymentConfig } from "@spm/shared-types";
 
 interface TipModalProps {
 	isOpen: boolean;
@@ -33,6 +36,10 @@ interface CreateTipRequest {
 	performerId: string;
 	isAnonymous?: boolean;
 	publicMessage?: string;
+	// Guest tips only
+	email?: string;
+	website?: string; // Honeypot, always empty for humans
+	captchaToken?: string;
 }
 
 interface TipPaymentResult {
@@ -42,8 +49,28 @@ interface TipPaymentResult {
 	amount: number;
 	processingFee: number;
 	netAmount: number;
+	claimToken?: string; // Guest tips only
 }
 
+// Used until /payments/config has loaded
+const DEFAULT_CONFIG: PaymentConfig = {
+	currency: "EUR",
+	minAmount: 0.5,
+	maxAmount: 100,
+	suggestedAmounts: [1, 3, 5, 10],
+	fee: { percent: 0.015, fixed: 0.25 },
+	paymentMethods: ["card"],
+	isConfigured: true,
+	displayCurrency: "EUR",
+	exchangeRate: 1,
+};
+
+// Amount in major units, e.g. formatMoney(5, "GBP") -> "£5.00"
+const formatMoney = (amount: number, currency: CurrencyCode) =>
+	new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+		amount,
+	);
+
 // Initialize Stripe outside component to prevent re-initialization
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY!);
 
@@ -53,6 +80,7 @@ function PaymentForm({
 	onClose, 
 	performerName, 
 	amount, 
+	currency,
 	performanceId,
 	queryClient 
 }: {
@@ -60,6 +88,7 @@ function PaymentForm({
 	onClose: () => void;
 	performerName: string;
 	amount: number;
+	currency: CurrencyCode;
 	performanceId: string;
 	queryClient: any;
 }) {
@@ -99,7 +128,7 @@ function PaymentForm({
 
 			// Payment succeeded
 			toast.success(
-				`🎉 Tip sent successfully! Your tip of €${(amount / 100).toFixed(2)} has been sent to ${performerName}`,
+				`🎉 Tip sent successfully! Your tip of ${formatMoney(amount / 100, currency)} has been sent to ${performerName}`,
 				{
 					duration: 10000,
 				},
@@ -161,7 +190,7 @@ function PaymentForm({
 							Processing...
 						</div>
 					) : (
-						`💳 Pay €${(amount / 100).toFixed(2)}`
+						`💳 Pay ${formatMoney(amount / 100, currency)}`
 					)}
 				</Button>
 			</div>
@@ -177,6 +206,7 @@ export function TipModal({
 	performerName,
 }: TipModalProps) {
 	const { user } = useUser();
+	const isGuest = !user;
 	const queryClient = useQueryClient();
 
 	const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
@@ -186,27 +216,67 @@ export function TipModal({
 	const [error, setError] = useState<string | null>(null);
 	const [clientSecret, setClientSecret] = useState<string | null>(null);
 	const [showPaymentForm, setShowPaymentForm] = useState(false);
-
-	const suggestedAmounts = [1, 3, 5, 10];
+	const [guestEmail, setGuestEmail] = useState("");
+	const [honeypot, setHoneypot] = useState("");
+	const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+	// Turnstile tokens are single use, so a failed attempt needs a fresh widget
+	const [captchaKey, setCaptchaKey] = useState(0);
+	// Same key for retries of the same tip, so a double tap charges only once
+	const idempotencyRef = useRef<{ key: string; request: string } | null>(null);
+
+	// Limits and fees are in the performer's currency
+	const { data: config = DEFAULT_CONFIG } = useQuery({
+		queryKey: ["payment-config", performerId],
+		queryFn: async (): Promise<PaymentConfig> => {
+			const response = await api.get("/payments/config", {
+				params: { performerId },
+			});
+			return response.data.data;
+		},
+		enabled: isOpen,
+		staleTime: 10 * 60 * 1000,
+	});
+	const { currency, minAmount, maxAmount, suggestedAmounts, fee } = config;
+	const showConverted = config.displayCurrency !== currency;
+	const limitsText = `${formatMoney(minAmount, currency)} and ${formatMoney(maxAmount, currency)}`;
+	const estimateFee = (value: number) => value * fee.percent + fee.fixed;
 
 	const createTipMutation = useMutation({
 		mutationFn: async (
 			request: CreateTipRequest,
 		): Promise<TipPaymentResult> => {
-			const response = await api.post("/payments/tip", request);
+			// A retry needs a fresh captcha token but must keep its key
+			const serialized = JSON.stringify({ ...request, captchaToken: undefined });
+			if (idempotencyRef.current?.request !== serialized) {
+				idempotencyRef.current = {
+					key: crypto.randomUUID(),
+					request: serialized,
+				};
+			}
+
+			const response = await api.post(
+				isGuest ? "/payments/tip/guest" : "/payments/tip",
+				request,
+				{ headers: { "Idempotency-Key": idempotencyRef.current.key } },
+			);
 			return response.data.data;
 		},
 		onSuccess: (result) => {
 			console.log("🎯 Payment intent created:", result);
+			if (result.claimToken) {
+				saveGuestTipClaim(result.claimToken);
+			}
 			setClientSecret(result.clientSecret);
 			setShowPaymentForm(true);
 		},
-		onError: (error: any) => {
+		onError: (error) => {
 			console.error("❌ Tip creation failed:", error);
-			setError(error?.response?.data?.error?.message || "Failed to create tip");
-			toast.error(
-				error?.response?.data?.error?.message || "Failed to send tip",
-			);
+			if (isGuest) {
+				setCaptchaToken(null);
+				setCaptchaKey((key) => key + 1);
+			}
+			setError(getApiErrorMessage(error, "Failed to create tip"));
+			toast.error(getApiErrorMessage(error, "Failed to send tip"));
 		},
 	});
 
@@ -234,13 +304,8 @@ export function TipModal({
 	const handleTip = async () => {
 		const amount = getSelectedAmount();
 
-		if (!amount || amount < 0.5 || amount > 100) {
-			setError("Tip amount must be between €0.50 and €100.00");
-			return;
-		}
-
-		if (!user) {
-			setError("Please sign in to send tips");
+		if (!amount || amount < minAmount || amount > maxAmount) {
+			setError(`Tip amount must be between ${limitsText}`);
 			return;
 		}
 
@@ -248,8 +313,14 @@ export function TipModal({
 			amount,
 			performanceId,
 			performerId,
-			isAnonymous,
 			publicMessage: publicMessage.trim() || undefined,
+			...(isGuest
+				? {
+						email: guestEmail.trim() || undefined,
+						website: honeypot || undefined,
+						captchaToken: captchaToken || undefined,
+					}
+				: { isAnonymous }),
 		};
 
 		createTipMutation.mutate(request);
@@ -257,7 +328,13 @@ export function TipModal({
 
 	const isLoading = createTipMutation.isPending;
 	const amount = getSelectedAmount();
-	const canTip = amount && amount >= 0.5 && amount <= 100 && !isLoading;
+	const needsCaptcha = isGuest && !!TURNSTILE_SITE_KEY && !captchaToken;
+	const canTip =
+		amount &&
+		amount >= minAmount &&
+		amount <= maxAmount &&
+		!isLoading &&
+		!needsCaptcha;
 
 	// Reset state when modal closes
 	useEffect(() => {
@@ -269,6 +346,10 @@ export function TipModal({
 			setError(null);
 			setClientSecret(null);
 			setShowPaymentForm(false);
+			setGuestEmail("");
+			setHoneypot("");
+			setCaptchaToken(null);
+			idempotencyRef.current = null;
 		}
 	}, [isOpen]);
 
@@ -285,7 +366,7 @@ export function TipModal({
 					<DialogHeader>
 						<DialogTitle className="text-lg">💳 Complete Payment</DialogTitle>
 						<DialogDescription className="text-sm">
-							€{(finalAmount).toFixed(2)} tip for {performerName}
+							{formatMoney(finalAmount, currency)} tip for {performerName}
 						</DialogDescription>
 					</DialogHeader>
 
@@ -307,6 +388,7 @@ export function TipModal({
 								onClose={onClose}
 								performerName={performerName}
 								amount={Math.round(finalAmount * 100)} // Convert to cents
+								currency={currency}
 								performanceId={performanceId}
 								queryClient={queryClient}
 							/>
@@ -349,7 +431,7 @@ export function TipModal({
 									disabled={isLoading}
 									className="p-3 h-12 sm:h-auto text-base sm:text-sm"
 								>
-									€{amount}
+									{formatMoney(amount, currency)}
 								</Button>
 							))}
 						</div>
@@ -362,7 +444,7 @@ export function TipModal({
 						</Label>
 						<div className="relative">
 							<span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-base">
-								€
+								{currency}
 							</span>
 							<Input
 								id="custom-amount"
@@ -370,15 +452,16 @@ export function TipModal({
 								value={customAmount}
 								onChange={(e) => handleCustomAmountChange(e.target.value)}
 								placeholder="5.00"
-								min="0.50"
-								max="100"
+								min={minAmount}
+								max={maxAmount}
 								step="0.50"
-								className="pl-8 h-12 sm:h-auto text-base sm:text-sm"
+								className="pl-14 h-12 sm:h-auto text-base sm:text-sm"
 								disabled={isLoading}
 							/>
 						</div>
 						<p className="text-xs text-muted-foreground mt-1">
-							Minimum €0.50, Maximum €100.00
+							Minimum {formatMoney(minAmount, currency)}, Maximum{" "}
+							{formatMoney(maxAmount, currency)}
 						</p>
 					</div>
 
@@ -402,20 +485,58 @@ export function TipModal({
 						</p>
 					</div>
 
-					{/* Anonymous Toggle */}
-					<div className="flex items-center justify-between p-3 bg-muted rounded-lg">
-						<div>
-							<p className="text-sm font-medium">Anonymous Tip</p>
-							<p className="text-xs text-muted-foreground">
-								Hide your name from other users
-							</p>
+					{isGuest ? (
+						<div className="space-y-3">
+							{/* Receipt Email */}
+							<div>
+								<Label htmlFor="guest-email" className="text-sm font-medium mb-2 block">
+									Email for Receipt (Optional)
+								</Label>
+								<Input
+									id="guest-email"
+									type="email"
+									value={guestEmail}
+									onChange={(e) => setGuestEmail(e.target.value)}
+									placeholder="you@example.com"
+									autoComplete="email"
+									disabled={isLoading}
+								/>
+								<p className="text-xs text-muted-foreground mt-1">
+									Tipping as a guest. Sign up later on this device to add
+									this tip to your account.
+								</p>
+							</div>
+
+							{/* Honeypot: hidden from people, filled in by bots */}
+							<input
+								type="text"
+								name="website"
+								value={honeypot}
+								onChange={(e) => setHoneypot(e.target.value)}
+								tabIndex={-1}
+								autoComplete="off"
+								aria-hidden="true"
+								className="hidden"
+							/>
+
+							<TurnstileWidget key={captchaKey} onToken={setCaptchaToken} />
 						</div>
-						<Switch
-							checked={isAnonymous}
-							onCheckedChange={setIsAnonymous}
-							disabled={isLoading}
-						/>
-					</div>
+					) : (
+						/* Anonymous Toggle */
+						<div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+							<div>
+								<p className="text-sm font-medium">Anonymous Tip</p>
+								<p className="text-xs text-muted-foreground">
+									Hide your name from other users
+								</p>
+							</div>
+							<Switch
+								checked={isAnonymous}
+								onCheckedChange={setIsAnonymous}
+								disabled={isLoading}
+							/>
+						</div>
+					)}
 
 					{/* Amount Summary */}
 					{amount && (
@@ -423,16 +544,30 @@ export function TipModal({
 							<div className="flex justify-between items-center">
 								<span className="text-sm text-muted-foreground">Tip Amount:</span>
 								<span className="font-semibold">
-									€{amount.toFixed(2)}
+									{formatMoney(amount, currency)}
 								</span>
 							</div>
+							{showConverted && (
+								<div className="flex justify-between items-center text-xs text-muted-foreground mt-1">
+									<span>In your currency:</span>
+									<span>
+										≈{" "}
+										{formatMoney(
+											amount * config.exchangeRate,
+											config.displayCurrency,
+										)}
+									</span>
+								</div>
+							)}
 							<div className="flex justify-between items-center text-xs text-muted-foreground mt-1">
-								<span>Processing Fee:</span>
-								<span>~€{(amount * 0.029 + 0.3).toFixed(2)}</span>
+								<span>Fees:</span>
+								<span>~{formatMoney(estimateFee(amount), currency)}</span>
 							</div>
 							<div className="flex justify-between items-center text-xs text-muted-foreground">
 								<span>Performer Receives:</span>
-								<span>~€{(amount - (amount * 0.029 + 0.3)).toFixed(2)}</span>
+								<span>
+									~{formatMoney(amount - estimateFee(amount), currency)}
+								</span>
 							</div>
 						</div>
 					)}
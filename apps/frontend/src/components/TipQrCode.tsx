@@ -0,0 +1,115 @@
+import { useMutation } from "@tanstack/react-query";
+import type { TipLink } from "@spm/shared-types";
+import { useEffect, useState } from "react";
+import { api } from "@/utils/api";
+import { useToast } from "@/hooks/useToast";
+import { Button } from "@/components/ui/button";
+
+interface TipQrCodeProps {
+	performanceId?: string; // Omit for the performer's own link
+	label?: string;
+}
+
+type QrCodeFormat = "png" | "svg";
+
+const fetchQrCode = async (code: string, format: QrCodeFormat) => {
+	const response = await api.get(`/payments/tip-links/${code}/qr`, {
+		params: { format },
+		responseType: "blob",
+	});
+	return response.data as Blob;
+};
+
+/**
+ * Short tip URL and QR code for printing or showing to the crowd
+ */
+export function TipQrCode({ performanceId, label = "Tip QR code" }: TipQrCodeProps) {
+	const { showError, showSuccess } = useToast();
+	const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+	// Links are stable, so creating one again just returns the same code
+	const tipLinkMutation = useMutation({
+		mutationFn: async () => {
+			const response = await api.post("/payments/tip-links", { performanceId });
+			return response.data.data as TipLink;
+		},
+		onSuccess: async (link) => {
+			const blob = await fetchQrCode(link.code, "svg");
+			setPreviewUrl(URL.createObjectURL(blob));
+		},
+		onError: (error) => {
+			showError(error instanceof Error ? error.message : "Failed to create tip link");
+		},
+	});
+	const tipLink = tipLinkMutation.data;
+
+	// Release the preview image when it changes or on unmount
+	useEffect(() => {
+		if (!previewUrl) return;
+		return () => URL.revokeObjectURL(previewUrl);
+	}, [previewUrl]);
+
+	const download = async (format: QrCodeFormat) => {
+		if (!tipLink) return;
+		try {
+			const blob = await fetchQrCode(tipLink.code, format);
+			const url = URL.createObjectURL(blob);
+			const anchor = document.createElement("a");
+			anchor.href = url;
+			anchor.download = `tip-${tipLink.code}.${format}`;
+			anchor.click();
+			URL.revokeObjectURL(url);
+		} catch {
+			showError("Failed to download QR code");
+		}
+	};
+
+	const copyLink = async () => {
+		if (!tipLink) return;
+		try {
+			await navigator.clipboard.writeText(tipLink.url);
+			showSuccess("Tip link copied");
+		} catch {
+			showError("Could not copy the link");
+		}
+	};
+
+	if (!tipLink) {
+		return (
+			<Button
+				variant="outline"
+				size="sm"
+				onClick={() => tipLinkMutation.mutate()}
+				disabled={tipLinkMutation.isPending}
+			>
+				{tipLinkMutation.isPending ? "Generating..." : `📱 ${label}`}
+			</Button>
+		);
+	}
+
+	return (
+		<div className="flex flex-col sm:flex-row items-center gap-4 bg-muted/50 rounded-lg p-4">
+			{previewUrl && (
+				<img
+					src={previewUrl}
+					alt={`QR code for ${tipLink.url}`}
+					className="w-40 h-40 bg-white rounded"
+				/>
+			)}
+			<div className="flex-1 space-y-3 text-center sm:text-left">
+				<p className="font-mono text-sm text-foreground break-all">{tipLink.url}</p>
+				<div className="flex flex-wrap gap-2 justify-center sm:justify-start">
+					<Button size="sm" onClick={() => download("png")}>
+						Download PNG
+					</Button>
+					<Button size="sm" variant="outline" onClick={() => download("svg")}>
+						Download SVG
+					</Button>
+					<Button size="sm" variant="ghost" onClick={copyLink}>
+						Copy link
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from "react";
+
+const SCRIPT_URL =
+	"https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit";
+
+interface Turnstile {
+	render: (
+		container: HTMLElement,
+		options: {
+			sitekey: string;
+			callback: (token: string) => void;
+			"expired-callback": () => void;
+		},
+	) => string;
+	remove: (widgetId: string) => void;
+}
+
+declare global {
+	interface Window {
+		turnstile?: Turnstile;
+	}
+}
+
+let scriptPromise: Promise<Turnstile> | null = null;
+
+const loadTurnstile = (): Promise<Turnstile> => {
+	if (window.turnstile) return Promise.resolve(window.turnstile);
+
+	scriptPromise ??= new Promise((resolve, reject) => {
+		const script = document.createElement("script");
+		script.src = SCRIPT_URL;
+		script.async = true;
+		script.onload = () =>
+			window.turnstile
+				? resolve(window.turnstile)
+				: reject(new Error("Turnstile failed to load"));
+		script.onerror = () => {
+			scriptPromise = null;
+			reject(new Error("Turnstile failed to load"));
+		};
+		document.head.appendChild(script);
+	});
+	return scriptPromise;
+};
+
+export const TURNSTILE_SITE_KEY = import.meta.env.VITE_TURNSTILE_SITE_KEY;
+
+interface TurnstileWidgetProps {
+	onToken: (token: string | null) => void;
+}
+
+/**
+ * Cloudflare Turnstile challenge for signed-out actions. Renders nothing
+ * when VITE_TURNSTILE_SITE_KEY is not set.
+ */
+export function TurnstileWidget({ onToken }: TurnstileWidgetProps) {
+	const containerRef = useRef<HTMLDivElement>(null);
+	const onTokenRef = useRef(onToken);
+	onTokenRef.current = onToken;
+
+	useEffect(() => {
+		if (!TURNSTILE_SITE_KEY) return;
+
+		let widgetId: string | undefined;
+		let turnstile: Turnstile | undefined;
+		let cancelled = false;
+
+		loadTurnstile()
+			.then((loaded) => {
+				if (cancelled || !containerRef.current) return;
+				turnstile = loaded;
+				widgetId = loaded.render(containerRef.current, {
+					sitekey: TURNSTILE_SITE_KEY,
+					callback: (token) => onTokenRef.current(token),
+					"expired-callback": () => onTokenRef.current(null),
+				});
+			})
+			.catch((err) => console.error("❌ Turnstile:", err));
+
+		return () => {
+			cancelled = true;
+			if (turnstile && widgetId) turnstile.remove(widgetId);
+		};
+	}, []);
+
+	if (!TURNSTILE_SITE_KEY) return null;
+
+	return <div ref={containerRef} className="flex justify-center" />;
+}
@@ -1,11 +1,38 @@
-import type { PerformanceFilters } from "@spm/shared-types";
+import type { PerformanceFilters, Popularity } from "@spm/shared-types";
 import { useEffect, useState } from "react";
 
-interface FilterState {
+export interface FilterState {
 	genre: string;
 	timeRange: string;
 	distance: number;
 	popularity: string;
+	from?: string; // datetime-local values, with timeRange "custom"
+	to?: string;
+}
+
+// Convert to API filters format
+export function toApiFilters(filters: FilterState): PerformanceFilters {
+	return {
+		...(filters.genre !== "all" && { genre: filters.genre }),
+		...(filters.timeRange === "now" && { status: "live" as const }),
+		...(filters.timeRange === "hour" && {
+			timeRange: "hour" as const,
+		}),
+		...(filters.timeRange === "today" && {
+			timeRange: "today" as const,
+		}),
+		...(filters.popularity !== "all" && {
+			popularity: filters.popularity as Popularity,
+		}),
+		// Wall-clock times the server reads in the viewer's timezone
+		...(filters.timeRange === "custom" &&
+			filters.from &&
+			filters.to && {
+				timeRange: "custom" as const,
+				from: filters.from,
+				to: filters.to,
+			}),
+	};
 }
 
 export function useDebouncedFilters(initialFilters: FilterState, delay = 500) {
@@ -21,17 +48,7 @@ export function useDebouncedFilters(initialFilters: FilterState, delay = 500) {
 		return () => clearTimeout(timer);
 	}, [filters, delay]);
 
-	// Convert to API filters format
-	const apiFilters: PerformanceFilters = {
-		...(debouncedFilters.genre !== "all" && { genre: debouncedFilters.genre }),
-		...(debouncedFilters.timeRange === "now" && { status: "live" as const }),
-		...(debouncedFilters.timeRange === "hour" && {
-			timeRange: "hour" as const,
-		}),
-		...(debouncedFilters.timeRange === "today" && {
-			timeRange: "today" as const,
-		}),
-	};
+	const apiFilters = toApiFilters(debouncedFilters);
 
 	return {
 		filters,
@@ -0,0 +1,45 @@
+import { api } from "@/utils/api";
+import {
+	MAX_CLAIMS_PER_REQUEST,
+	getGuestTipClaims,
+	removeGuestTipClaims,
+} from "@/utils/guestTipClaims";
+import { useUser } from "@clerk/clerk-react";
+import { useEffect } from "react";
+import toast from "react-hot-toast";
+
+/**
+ * Attach tips sent from this device while signed out to the account once
+ * the user has signed in and synced with the backend.
+ */
+export const useGuestTipClaims = (isSynced: boolean) => {
+	const { isSignedIn } = useUser();
+
+	useEffect(() => {
+		if (!isSynced || !isSignedIn || !localStorage.getItem("auth-token")) return;
+
+		const claimTokens = getGuestTipClaims().slice(0, MAX_CLAIMS_PER_REQUEST);
+		if (claimTokens.length === 0) return;
+
+		const claim = async () => {
+			try {
+				const response = await api.post("/payments/guest-tips/claim", {
+					claimTokens,
+				});
+				removeGuestTipClaims(claimTokens);
+
+				const { claimed } = response.data.data;
+				if (claimed > 0) {
+					toast.success(
+						`🔗 Added ${claimed} earlier ${claimed === 1 ? "tip" : "tips"} to your account`,
+					);
+				}
+			} catch (err) {
+				// Tokens stay stored, so the next sign-in tries again
+				console.error("Failed to claim guest tips:", err);
+			}
+		};
+
+		claim();
+	}, [isSynced, isSignedIn]);
+};
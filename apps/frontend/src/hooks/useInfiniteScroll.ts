@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+
+interface InfiniteScrollOptions {
+	hasMore: boolean;
+	isLoading: boolean;
+	onLoadMore: () => void;
+	rootMargin?: string; // Start loading this far before the end is visible
+}
+
+/**
+ * Load the next page when a sentinel element at the end of a list scrolls
+ * into view. Attach the returned ref to the sentinel.
+ */
+export function useInfiniteScroll({
+	hasMore,
+	isLoading,
+	onLoadMore,
+	rootMargin = "200px",
+}: InfiniteScrollOptions) {
+	const [sentinel, setSentinel] = useState<Element | null>(null);
+
+	useEffect(() => {
+		if (!sentinel || !hasMore || isLoading) return;
+
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries.some((entry) => entry.isIntersecting)) {
+					onLoadMore();
+				}
+			},
+			{ rootMargin },
+		);
+		observer.observe(sentinel);
+
+		return () => observer.disconnect();
+	}, [sentinel, hasMore, isLoading, onLoadMore, rootMargin]);
+
+	return setSentinel;
+}
@@ -0,0 +1,57 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { api } from "@/utils/api";
+import type {
+	PagePaginationMeta,
+	TipperPerformerSummary,
+	TipperTip,
+} from "@spm/shared-types";
+
+export interface MyTipsFilters {
+	performerId?: string;
+	status?: TipperTip["status"];
+	from?: string; // yyyy-mm-dd
+	to?: string;
+}
+
+export interface MyTipsPage {
+	tips: TipperTip[];
+	pagination: PagePaginationMeta;
+}
+
+export function useMyTipsByPerformer(enabled = true) {
+	return useQuery<TipperPerformerSummary[]>({
+		queryKey: ["my-tips", "performers"],
+		queryFn: async () => {
+			const response = await api.get("/payments/my-tips/performers");
+			return response.data.data;
+		},
+		enabled,
+		staleTime: 60000,
+	});
+}
+
+export function useMyTips(filters: MyTipsFilters, page = 1, enabled = true) {
+	return useQuery<MyTipsPage>({
+		queryKey: ["my-tips", filters, page],
+		queryFn: async () => {
+			const { from, to, ...rest } = filters;
+			const response = await api.get("/payments/my-tips", {
+				params: {
+					...rest,
+					// Whole days in the tipper's timezone
+					from: from && new Date(`${from}T00:00:00`).toISOString(),
+					to: to && new Date(`${to}T23:59:59.999`).toISOString(),
+					page,
+					limit: 10,
+				},
+			});
+			return {
+				tips: response.data.data,
+				pagination: response.data.meta.pagination,
+			};
+		},
+		enabled,
+		placeholderData: keepPreviousData,
+		staleTime: 60000,
+	});
+}
@@ -25,9 +25,9 @@ export function useNotifications() {
 		});
 
 		// Connect to WebSocket if user is authenticated
-		if (user?.id) {
-			notificationService.connect(user.id);
-				
+		const token = localStorage.getItem('auth-token');
+		if (user?.id && token) {
+			notificationService.connect(token);
 		}
 
 		return () => {
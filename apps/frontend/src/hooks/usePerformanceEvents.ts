@@ -0,0 +1,178 @@
+import { useEffect, useRef } from "react";
+import { type InfiniteData, useQueryClient } from "@tanstack/react-query";
+import type {
+	MapViewport,
+	Performance,
+	PerformanceUpdateEvent,
+	TipGoalProgress,
+	TipGoalProgressEvent,
+	TipGoalReachedEvent,
+	TipReceivedEvent,
+} from "@spm/shared-types";
+import { notificationService } from "@/services/notifications";
+import type { PerformancePaymentData } from "./usePerformancePaymentSummary";
+import {
+	mapNearbyPerformances,
+	type NearbyPerformancesPage,
+	performanceKeys,
+} from "./usePerformances";
+
+/**
+ * Merge a live status/engagement/route update into a cached performance
+ */
+function applyPerformanceUpdate<T extends Performance>(
+	performance: T,
+	update: PerformanceUpdateEvent["data"],
+): T {
+	const { stopStatuses, livePosition } = update;
+
+	return {
+		...performance,
+		status: update.status,
+		engagement: update.engagement,
+		...(livePosition && { livePosition }),
+		...(stopStatuses && {
+			route: {
+				...performance.route,
+				stops: performance.route.stops.map((stop, index) => ({
+					...stop,
+					status: stopStatuses[index] ?? stop.status,
+				})),
+			},
+		}),
+	};
+}
+
+function ensureConnected() {
+	if (!notificationService.isConnected()) {
+		notificationService.connect(localStorage.getItem("auth-token") || undefined);
+	}
+}
+
+interface PerformanceEventOptions {
+	onGoalReached?: (goal: TipGoalProgress) => void;
+}
+
+/**
+ * Join a performance's socket room while mounted and keep the cached
+ * performance and payment summary in sync with live tips, likes, status and
+ * tip goal progress.
+ */
+export function usePerformanceEvents(
+	performanceId: string | undefined,
+	options: PerformanceEventOptions = {},
+) {
+	const queryClient = useQueryClient();
+
+	// Latest callback without re-joining the room on every render
+	const onGoalReachedRef = useRef(options.onGoalReached);
+	onGoalReachedRef.current = options.onGoalReached;
+
+	useEffect(() => {
+		if (!performanceId) return;
+
+		ensureConnected();
+		notificationService.joinPerformance(performanceId);
+
+		const setGoal = (goal: TipGoalProgress | null) =>
+			queryClient.setQueryData(
+				["performance-payment-summary", performanceId],
+				(oldData: PerformancePaymentData | undefined) =>
+					oldData ? { ...oldData, goal } : oldData,
+			);
+
+		const offTip = notificationService.onEvent<TipReceivedEvent>(
+			"tip-received",
+			(event) => {
+				if (event.data.performanceId !== performanceId) return;
+				queryClient.invalidateQueries({
+					queryKey: ["performance-payment-summary", performanceId],
+				});
+			},
+		);
+
+		const offUpdate = notificationService.onEvent<PerformanceUpdateEvent>(
+			"performance-update",
+			(event) => {
+				if (event.data.performanceId !== performanceId) return;
+				queryClient.setQueryData(
+					performanceKeys.detail(performanceId),
+					(oldData: Performance | undefined) =>
+						oldData ? applyPerformanceUpdate(oldData, event.data) : oldData,
+				);
+			},
+		);
+
+		const offGoalProgress = notificationService.onEvent<TipGoalProgressEvent>(
+			"tip-goal-progress",
+			(event) => {
+				if (event.data.performanceId !== performanceId) return;
+				setGoal(event.data.goal);
+			},
+		);
+
+		const offGoalReached = notificationService.onEvent<TipGoalReachedEvent>(
+			"tip-goal-reached",
+			(event) => {
+				if (event.data.performanceId !== performanceId) return;
+				setGoal(event.data.goal);
+				onGoalReachedRef.current?.(event.data.goal);
+			},
+		);
+
+		return () => {
+			offTip();
+			offUpdate();
+			offGoalProgress();
+			offGoalReached();
+			notificationService.leavePerformance(performanceId);
+		};
+	}, [performanceId, queryClient]);
+}
+
+/**
+ * Keep every cached nearby-performance list and map viewport in sync with
+ * status changes, stop check-ins and live positions so map markers follow
+ * performers.
+ */
+export function useLivePerformanceUpdates() {
+	const queryClient = useQueryClient();
+
+	useEffect(() => {
+		ensureConnected();
+
+		return notificationService.onEvent<PerformanceUpdateEvent>(
+			"performance-update",
+			(event) => {
+				queryClient.setQueriesData<InfiniteData<NearbyPerformancesPage>>(
+					{ queryKey: [...performanceKeys.all, "nearby"] },
+					(oldData) =>
+						mapNearbyPerformances(oldData, (performance) =>
+							performance._id === event.data.performanceId
+								? applyPerformanceUpdate(performance, event.data)
+								: performance,
+						),
+				);
+				queryClient.setQueriesData<MapViewport>(
+					{ queryKey: [...performanceKeys.all, "viewport"] },
+					(oldData) =>
+						oldData && {
+							...oldData,
+							features: oldData.features.map((feature) =>
+								feature.type === "performance" &&
+								feature.id === event.data.performanceId
+									? {
+											...feature,
+											performance: applyPerformanceUpdate(
+												feature.performance,
+												event.data,
+											),
+										}
+									: feature,
+							),
+						},
+				);
+			},
+		);
+	}, [queryClient]);
+}
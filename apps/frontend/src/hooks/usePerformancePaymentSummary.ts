@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/utils/api";
+import type { TipGoalProgress } from "@spm/shared-types";
 
 interface PerformancePaymentSummary {
 	totalTips: number;
@@ -15,9 +16,10 @@ interface RecentTip {
 	createdAt: string;
 }
 
-interface PerformancePaymentData {
+export interface PerformancePaymentData {
 	summary: PerformancePaymentSummary;
 	recentTips: RecentTip[];
+	goal: TipGoalProgress | null;
 }
 
 export function usePerformancePaymentSummary(performanceId: string | undefined) {
@@ -1,10 +1,25 @@
 import { api } from "@/utils/api";
 import type {
 	CreatePerformanceData,
+	CursorPage,
+	MapBounds,
+	MapViewport,
+	NearbyPerformance,
 	Performance,
 	PerformanceFilters,
+	PlanRouteDto,
+	RoutePlan,
+	SetTipGoalDto,
+	TipGoalProgress,
 } from "@spm/shared-types";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+	type InfiniteData,
+	keepPreviousData,
+	useInfiniteQuery,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
 
 // Query keys
 export const performanceKeys = {
@@ -19,30 +34,118 @@ export const performanceKeys = {
 		radius: number,
 		filters?: PerformanceFilters,
 	) => [...performanceKeys.all, "nearby", location, radius, filters] as const,
+	viewport: (bounds: MapBounds, zoom: number, filters?: PerformanceFilters) =>
+		[...performanceKeys.all, "viewport", bounds, zoom, filters] as const,
+	routePlan: (route: PlanRouteDto["route"] | null) =>
+		[...performanceKeys.all, "route-plan", route] as const,
 };
 
-// Fetch nearby performances
-export function useNearbyPerformances(
-	location: { lat: number; lng: number },
-	radius = 10,
+// Round so small pans reuse the cached viewport
+const roundBounds = (bounds: MapBounds): MapBounds => ({
+	west: Number(bounds.west.toFixed(3)),
+	south: Number(bounds.south.toFixed(3)),
+	east: Number(bounds.east.toFixed(3)),
+	north: Number(bounds.north.toFixed(3)),
+});
+
+// Performances in the visible map area, clustered when zoomed out
+export function useMapViewport(
+	view: { bounds: MapBounds; zoom: number } | null,
 	filters?: PerformanceFilters,
 ) {
+	const bounds = view && roundBounds(view.bounds);
+	const zoom = view ? Math.round(view.zoom) : 0;
+
 	return useQuery({
-		queryKey: performanceKeys.nearby(location, radius, filters),
+		queryKey: performanceKeys.viewport(
+			bounds ?? { west: 0, south: 0, east: 0, north: 0 },
+			zoom,
+			filters,
+		),
 		queryFn: async () => {
-			const params = new URLSearchParams({
-				lat: location.lat.toString(),
-				lng: location.lng.toString(),
-				radius: radius.toString(),
-				...(filters?.genre && { genre: filters.genre }),
-				...(filters?.search && { search: filters.search }),
-				...(filters?.status && { status: filters.status }),
-				// timeRange filter removed - not implemented in backend
+			const { west, south, east, north } = bounds!;
+			const response = await api.get("/performances/map", {
+				params: {
+					bbox: [west, south, east, north].join(","),
+					zoom,
+					genre: filters?.genre,
+					status: filters?.status,
+					timeRange:
+						filters?.timeRange !== "all" ? filters?.timeRange : undefined,
+					from: filters?.from,
+					to: filters?.to,
+				},
 			});
-
-			const response = await api.get(`/performances/nearby?${params}`);
-			return response.data.data as Performance[];
+			return response.data.data as MapViewport;
 		},
+		enabled: !!bounds,
+		placeholderData: keepPreviousData, // Keep markers while panning
+		staleTime: 1000 * 30,
+		refetchInterval: 1000 * 60,
+		refetchOnWindowFocus: false,
+	});
+}
+
+export type NearbyPerformancesPage = CursorPage<NearbyPerformance>;
+
+// One page of performances near a point, nearest first
+export async function fetchNearbyPerformancesPage(
+	location: { lat: number; lng: number },
+	radius: number,
+	filters?: PerformanceFilters,
+	cursor?: string | null,
+): Promise<NearbyPerformancesPage> {
+	const params = new URLSearchParams({
+		lat: location.lat.toString(),
+		lng: location.lng.toString(),
+		radius: radius.toString(),
+		...(filters?.genre && { genre: filters.genre }),
+		...(filters?.search && { search: filters.search }),
+		...(filters?.status && { status: filters.status }),
+		...(filters?.timeRange &&
+			filters.timeRange !== "all" && { timeRange: filters.timeRange }),
+		...(filters?.from && { from: filters.from }),
+		...(filters?.to && { to: filters.to }),
+		...(filters?.popularity && { popularity: filters.popularity }),
+		...(cursor && { cursor }),
+	});
+
+	const response = await api.get(`/performances/nearby?${params}`);
+	return {
+		items: response.data.data,
+		pagination: response.data.meta.pagination,
+	};
+}
+
+// Apply an update to every performance in a cached nearby listing
+export function mapNearbyPerformances(
+	data: InfiniteData<NearbyPerformancesPage> | undefined,
+	update: (performance: NearbyPerformance) => NearbyPerformance,
+): InfiniteData<NearbyPerformancesPage> | undefined {
+	return (
+		data && {
+			...data,
+			pages: data.pages.map((page) => ({
+				...page,
+				items: page.items.map(update),
+			})),
+		}
+	);
+}
+
+// Fetch nearby performances, a page at a time as the list is scrolled
+export function useNearbyPerformances(
+	location: { lat: number; lng: number },
+	radius = 10,
+	filters?: PerformanceFilters,
+) {
+	return useInfiniteQuery({
+		queryKey: performanceKeys.nearby(location, radius, filters),
+		queryFn: ({ pageParam }) =>
+			fetchNearbyPerformancesPage(location, radius, filters, pageParam),
+		initialPageParam: null as string | null,
+		getNextPageParam: (lastPage) => lastPage.pagination.nextCursor,
+		select: (data) => data.pages.flatMap((page) => page.items),
 		staleTime: 1000 * 60 * 5, // 5 minutes - increased for better caching
 		gcTime: 1000 * 60 * 10, // 10 minutes - keep in cache longer
 		refetchInterval: 1000 * 60, // Refetch every 1 minute instead of 30 seconds
@@ -111,6 +214,20 @@ export function useCreatePerformance() {
 	});
 }
 
+// Walking times between the stops of a draft route, null until it's complete
+export function useRoutePlan(route: PlanRouteDto["route"] | null) {
+	return useQuery({
+		queryKey: performanceKeys.routePlan(route),
+		queryFn: async () => {
+			const response = await api.post("/performances/route/plan", { route });
+			return response.data.data as RoutePlan;
+		},
+		enabled: !!route && route.stops.length > 1,
+		placeholderData: keepPreviousData, // Keep leg times while editing
+		staleTime: Number.POSITIVE_INFINITY, // Same stops, same plan
+	});
+}
+
 // Like performance mutation
 export function useLikePerformance() {
 	const queryClient = useQueryClient();
@@ -161,11 +278,10 @@ export function useLikePerformance() {
 			);
 
 			// Optimistically update the nearby performances cache
-			queryClient.setQueriesData(
+			queryClient.setQueriesData<InfiniteData<NearbyPerformancesPage>>(
 				{ queryKey: ["performances", "nearby"] },
-				(oldData: Performance[] | undefined) => {
-					if (!oldData || !Array.isArray(oldData)) return oldData;
-					return oldData.map((perf) => {
+				(oldData) =>
+					mapNearbyPerformances(oldData, (perf) => {
 						if (perf._id === performanceId) {
 							// Toggle the like optimistically
 							const isCurrentlyLiked = userId
@@ -187,8 +303,7 @@ export function useLikePerformance() {
 							};
 						}
 						return perf;
-					});
-				},
+					}),
 			);
 
 			// Return a context object with the snapshotted values
@@ -217,14 +332,14 @@ export function useLikePerformance() {
 			);
 
 			// Update in nearby performances cache with real data
-			queryClient.setQueriesData(
+			queryClient.setQueriesData<InfiniteData<NearbyPerformancesPage>>(
 				{ queryKey: ["performances", "nearby"] },
-				(oldData: Performance[] | undefined) => {
-					if (!oldData || !Array.isArray(oldData)) return oldData;
-					return oldData.map((perf) =>
-						perf._id === updatedPerformance._id ? updatedPerformance : perf,
-					);
-				},
+				(oldData) =>
+					mapNearbyPerformances(oldData, (perf) =>
+						perf._id === updatedPerformance._id
+							? { ...updatedPerformance, distance: perf.distance }
+							: perf,
+					),
 			);
 		},
 		onSettled: () => {
@@ -278,6 +393,32 @@ export function useEndPerformance() {
 	});
 }
 
+// Set (or replace) a performance's tip goal
+export function useSetTipGoal() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			performanceId,
+			goal,
+		}: {
+			performanceId: string;
+			goal: SetTipGoalDto;
+		}) => {
+			const response = await api.put(`/performances/${performanceId}/goal`, goal);
+			return response.data.data as TipGoalProgress;
+		},
+		onSuccess: (_, { performanceId }) => {
+			queryClient.invalidateQueries({
+				queryKey: ["performance-payment-summary", performanceId],
+			});
+			queryClient.invalidateQueries({
+				queryKey: performanceKeys.detail(performanceId),
+			});
+		},
+	});
+}
+
 // Delete performance mutation
 export function useDeletePerformance() {
 	const queryClient = useQueryClient();
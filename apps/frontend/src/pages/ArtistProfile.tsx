@@ -1,14 +1,18 @@
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useClerk, useUser } from "@clerk/clerk-react";
 import { useState } from "react";
 import { api } from "@/utils/api";
 import { TipModal } from "@/components/TipModal";
-import type { User, Performance } from "@spm/shared-types";
+import type { FollowStatus, User, Performance } from "@spm/shared-types";
 
 export function ArtistProfile() {
 	const { id } = useParams<{ id: string }>();
 	const navigate = useNavigate();
 	const [showTipModal, setShowTipModal] = useState(false);
+	const { isSignedIn } = useUser();
+	const { openSignIn } = useClerk();
+	const queryClient = useQueryClient();
 
 	// Fetch artist profile
 	const { data: artist, isLoading: artistLoading } = useQuery<User>({
@@ -30,6 +34,36 @@ export function ArtistProfile() {
 		enabled: !!id
 	});
 
+	// Follow state and follower count
+	const { data: followStatus } = useQuery<FollowStatus>({
+		queryKey: ['artist-follow', id, isSignedIn],
+		queryFn: async () => {
+			const response = await api.get(`/users/${id}/follow`);
+			return response.data.data;
+		},
+		enabled: !!id
+	});
+
+	const followMutation = useMutation({
+		mutationFn: async (follow: boolean) => {
+			const response = follow
+				? await api.post(`/users/${id}/follow`)
+				: await api.delete(`/users/${id}/follow`);
+			return response.data.data as FollowStatus;
+		},
+		onSuccess: (status) => {
+			queryClient.setQueryData(['artist-follow', id, isSignedIn], status);
+		}
+	});
+
+	const handleFollowClick = () => {
+		if (!isSignedIn) {
+			openSignIn();
+			return;
+		}
+		followMutation.mutate(!followStatus?.following);
+	};
+
 	if (artistLoading || !artist) {
 		return (
 			<div className="min-h-screen bg-gradient-to-br from-orange-50 to-orange-100 flex items-center justify-center">
@@ -119,6 +153,16 @@ export function ArtistProfile() {
 										</svg>
 										<span>TIP ME</span>
 									</button>
+									<button
+										onClick={handleFollowClick}
+										disabled={followMutation.isPending}
+										className="bg-white/20 backdrop-blur-sm hover:bg-white/30 text-white px-8 py-3 rounded-lg font-bold text-lg transition-colors shadow-lg border border-white/30 flex items-center space-x-2 disabled:opacity-60"
+									>
+										<svg className="w-5 h-5" fill={followStatus?.following ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+										</svg>
+										<span>{followStatus?.following ? 'FOLLOWING' : 'FOLLOW'}</span>
+									</button>
 									<button className="bg-white/20 backdrop-blur-sm hover:bg-white/30 text-white px-8 py-3 rounded-lg font-bold text-lg transition-colors shadow-lg border border-white/30 flex items-center space-x-2">
 										<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
 											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -142,7 +186,7 @@ export function ArtistProfile() {
 				{/* Content */}
 				<div className="max-w-4xl mx-auto px-4 py-12">
 					{/* Stats Cards */}
-					<div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+					<div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-12">
 						<div className="bg-white rounded-lg shadow-md p-6 text-center border-l-4 border-orange-500">
 							<div className="text-3xl font-bold text-gray-800 mb-2">
 								{artist.statistics?.performanceCount || 0}
@@ -167,6 +211,14 @@ export function ArtistProfile() {
 								Likes
 							</div>
 						</div>
+						<div className="bg-white rounded-lg shadow-md p-6 text-center border-l-4 border-purple-500">
+							<div className="text-3xl font-bold text-gray-800 mb-2">
+								{followStatus?.followerCount ?? artist.statistics?.followerCount ?? 0}
+							</div>
+							<div className="text-sm text-gray-600 uppercase tracking-wide">
+								Followers
+							</div>
+						</div>
 					</div>
 
 					{/* About Section */}
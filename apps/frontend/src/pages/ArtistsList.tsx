@@ -1,14 +1,10 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { api } from "@/utils/api";
 import { Link, useSearchParams } from "react-router-dom";
 import { useState } from "react";
 import { GooglePlacesAutocomplete } from "@/components/GooglePlacesAutocomplete";
-import type { User } from "@spm/shared-types";
-
-interface ArtistsResponse {
-	users: User[];
-	total: number;
-}
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import type { CursorPage, NearbyUser } from "@spm/shared-types";
 
 export function ArtistsList() {
 	const [searchParams, setSearchParams] = useSearchParams();
@@ -35,10 +31,16 @@ export function ArtistsList() {
 		'other'
 	];
 
-	// Fetch nearby artists
-	const { data: artistsData, isLoading } = useQuery<ArtistsResponse>({
+	// Fetch nearby artists, nearest first, a page at a time
+	const {
+		data: artists,
+		isLoading,
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useInfiniteQuery({
 		queryKey: ['artists', location.lat, location.lng, radius, selectedGenre],
-		queryFn: async () => {
+		queryFn: async ({ pageParam }): Promise<CursorPage<NearbyUser>> => {
 			const params = new URLSearchParams({
 				lat: location.lat.toString(),
 				lng: location.lng.toString(),
@@ -49,13 +51,28 @@ export function ArtistsList() {
 			if (selectedGenre && selectedGenre !== 'all') {
 				params.append('genre', selectedGenre);
 			}
+			if (pageParam) {
+				params.append('cursor', pageParam);
+			}
 
 			const response = await api.get(`/users/nearby?${params}`);
-			return response.data.data;
+			return {
+				items: response.data.data,
+				pagination: response.data.meta.pagination
+			};
 		},
+		initialPageParam: null as string | null,
+		getNextPageParam: (lastPage) => lastPage.pagination.nextCursor,
+		select: (data) => data.pages.flatMap((page) => page.items),
 		refetchInterval: 30000 // Refresh every 30 seconds
 	});
 
+	const loadMoreRef = useInfiniteScroll({
+		hasMore: hasNextPage,
+		isLoading: isFetchingNextPage,
+		onLoadMore: fetchNextPage
+	});
+
 	const handleLocationChange = (place: any) => {
 		const newLocation = {
 			lat: place.coordinates[1], // latitude is second in coordinates array [lng, lat]
@@ -146,7 +163,7 @@ export function ArtistsList() {
 						{/* Results Count */}
 						<div className="flex items-end">
 							<div className="text-sm text-muted-foreground">
-								{artistsData?.total || 0} artists found
+								{artists?.length || 0}{hasNextPage ? '+' : ''} artists found
 							</div>
 						</div>
 					</div>
@@ -169,7 +186,7 @@ export function ArtistsList() {
 							</div>
 						))}
 					</div>
-				) : artistsData?.users?.length === 0 ? (
+				) : artists?.length === 0 ? (
 					<div className="text-center py-12">
 						<div className="text-6xl mb-4">🎭</div>
 						<h3 className="text-xl font-semibold text-foreground mb-2">No street artists found</h3>
@@ -185,7 +202,7 @@ export function ArtistsList() {
 					</div>
 				) : (
 					<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-						{artistsData?.users.map((artist) => (
+						{artists?.map((artist) => (
 							<Link
 								key={artist._id}
 								to={`/artist/${artist._id}`}
@@ -237,6 +254,7 @@ export function ArtistsList() {
 								{/* Location */}
 								<div className="mt-4 text-xs text-muted-foreground text-center">
 									📍 {artist.location?.city || 'Unknown'}, {artist.location?.country || 'Unknown'}
+									{' · '}{artist.distance < 1 ? `${Math.round(artist.distance * 1000)}m` : `${artist.distance.toFixed(1)}km`} away
 								</div>
 
 								{/* Action Buttons */}
@@ -252,6 +270,14 @@ export function ArtistsList() {
 						))}
 					</div>
 				)}
+
+				{/* Loads the next page when scrolled into view */}
+				<div ref={loadMoreRef} />
+				{isFetchingNextPage && (
+					<div className="text-center text-sm text-muted-foreground py-6">
+						Loading more artists...
+					</div>
+				)}
 			</div>
 		</div>
 	);
@@ -1,6 +1,11 @@
 import { GooglePlacesAutocomplete } from "@/components/GooglePlacesAutocomplete";
+import { RouteMap } from "@/components/RouteMap";
 import { VideoUpload } from "@/components/VideoUpload";
-import { useCreatePerformance } from "@/hooks/usePerformances";
+import {
+	useCreatePerformance,
+	useRoutePlan,
+	useSetTipGoal,
+} from "@/hooks/usePerformances";
 import { useToast } from "@/hooks/useToast";
 import { useUserLocation } from "@/hooks/useUserLocation";
 import {
@@ -10,9 +15,15 @@ import {
 import { useUser } from "@clerk/clerk-react";
 import { useClerkAuthStore } from "@/stores/clerkAuthStore";
 import type { CreatePerformanceDto, Video } from "@spm/shared-types";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 
+// "1h 5m" for leg times
+const formatMinutes = (minutes: number) =>
+	minutes >= 60
+		? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+		: `${minutes} min`;
+
 const GENRES = [
 	"rock",
 	"jazz",
@@ -32,6 +43,7 @@ export function CreatePerformance() {
 	const { isSignedIn } = useUser();
 	const { user: backendUser } = useClerkAuthStore();
 	const createPerformanceMutation = useCreatePerformance();
+	const setTipGoalMutation = useSetTipGoal();
 	const { data: uploadEligibility } = useUploadEligibility();
 	const { refreshMyVideos } = useRefreshVideoData();
 	const { showError, showSuccess } = useToast();
@@ -41,6 +53,7 @@ export function CreatePerformance() {
 	const [error, setError] = useState<string | null>(null);
 	const [uploadedVideo, setUploadedVideo] = useState<Video | null>(null);
 	const [showOnboardingPrompt, setShowOnboardingPrompt] = useState(false);
+	const [tipGoal, setTipGoal] = useState({ amount: "", description: "" });
 
 	// Check if user needs onboarding when component mounts
 	useEffect(() => {
@@ -98,6 +111,29 @@ export function CreatePerformance() {
 		}
 	}, [userLocation, locationLoading]);
 
+	// Stops that have a place picked, for drawing the route
+	const routeCoordinates = useMemo(
+		() =>
+			formData.route.stops
+				.filter((stop) => stop.location.address)
+				.map((stop) => stop.location.coordinates),
+		[formData.route.stops],
+	);
+
+	// Plan walking times once every stop has a place and times
+	const plannedRoute = useMemo(
+		() =>
+			formData.route.stops.every(
+				(stop) => stop.location.address && stop.startTime && stop.endTime,
+			)
+				? formData.route
+				: null,
+		[formData.route],
+	);
+	const { data: routePlan } = useRoutePlan(plannedRoute);
+	const routeLegs = plannedRoute ? routePlan?.legs : undefined;
+	const routeWarnings = plannedRoute ? (routePlan?.warnings ?? []) : [];
+
 	// Redirect if not authenticated
 	if (!isSignedIn) {
 		return (
@@ -203,8 +239,28 @@ export function CreatePerformance() {
 				}),
 			};
 
-			// newPerformance variable removed - not used
-			await createPerformanceMutation.mutateAsync(performanceData);
+			const newPerformance =
+				await createPerformanceMutation.mutateAsync(performanceData);
+
+			const goalAmount = Number(tipGoal.amount);
+			if (goalAmount > 0) {
+				try {
+					await setTipGoalMutation.mutateAsync({
+						performanceId: newPerformance._id,
+						goal: {
+							amount: goalAmount,
+							description: tipGoal.description || undefined,
+						},
+					});
+				} catch (error) {
+					// The performance exists; the goal can be set again later
+					showError(
+						error instanceof Error
+							? `Performance created, but the tip goal failed: ${error.message}`
+							: "Performance created, but the tip goal could not be set",
+					);
+				}
+			}
 
 			showSuccess("Performance created successfully! 🎭");
 			// Redirect to map to see the created performance
@@ -337,6 +393,38 @@ export function CreatePerformance() {
 				</p>
 			</div>
 
+			<div>
+				<label className="block text-sm font-medium text-foreground mb-1">
+					🎯 Tip Goal (Optional)
+				</label>
+				<div className="grid grid-cols-3 gap-2">
+					<input
+						type="number"
+						min={1}
+						step="1"
+						value={tipGoal.amount}
+						onChange={(e) =>
+							setTipGoal((prev) => ({ ...prev, amount: e.target.value }))
+						}
+						className="col-span-1 px-3 py-2 bg-card border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:ring-primary focus:border-primary"
+						placeholder="50"
+					/>
+					<input
+						type="text"
+						value={tipGoal.description}
+						onChange={(e) =>
+							setTipGoal((prev) => ({ ...prev, description: e.target.value }))
+						}
+						className="col-span-2 px-3 py-2 bg-card border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:ring-primary focus:border-primary"
+						placeholder="A new amp"
+						maxLength={80}
+					/>
+				</div>
+				<p className="mt-1 text-xs text-muted-foreground">
+					Show the crowd what you're collecting tips for, in your payout currency
+				</p>
+			</div>
+
 			<div>
 				<label className="block text-sm font-medium text-foreground mb-1">
 					📅 Performance Date
@@ -491,6 +579,39 @@ export function CreatePerformance() {
 				)}
 			</div>
 
+			{routeCoordinates.length > 0 && (
+				<div className="space-y-3">
+					<RouteMap stops={routeCoordinates} legs={routeLegs} />
+					{routeLegs && routeLegs.length > 0 && (
+						<div className="space-y-2">
+							{routeLegs.map((leg) => (
+								<div
+									key={leg.fromStop}
+									className={`text-sm p-2 rounded border ${
+										leg.feasible
+											? "bg-green-500/10 border-green-500/20 text-green-300"
+											: "bg-destructive/10 border-destructive/20 text-destructive"
+									}`}
+								>
+									🚶 Stop {leg.fromStop + 1} → Stop {leg.toStop + 1}:{" "}
+									{leg.walkingDistanceKm} km, about{" "}
+									{formatMinutes(leg.walkingMinutes)} on foot ·{" "}
+									{formatMinutes(Math.max(leg.gapMinutes, 0))} between stops
+									{!leg.feasible && " ⚠️"}
+								</div>
+							))}
+							{routePlan && (
+								<p className="text-xs text-muted-foreground">
+									Total walking: {routePlan.totalWalkingDistanceKm} km, about{" "}
+									{formatMinutes(routePlan.totalWalkingMinutes)}. Estimates
+									follow the straight line between stops.
+								</p>
+							)}
+						</div>
+					)}
+				</div>
+			)}
+
 			<div className="bg-secondary/10 border border-orange-600 p-4 rounded-lg">
 				<h4 className="font-semibold text-foreground mb-2">✨ Route Tips:</h4>
 				<ul className="text-sm text-muted-foreground space-y-1">
@@ -642,6 +763,22 @@ export function CreatePerformance() {
 				</div>
 			</div>
 
+			{routeWarnings.length > 0 && (
+				<div className="bg-destructive/10 border border-destructive/20 p-4 rounded-lg">
+					<h4 className="font-semibold text-foreground mb-2">
+						🚶 Tight Transitions:
+					</h4>
+					<ul className="text-sm text-muted-foreground space-y-1">
+						{routeWarnings.map((warning) => (
+							<li key={warning}>• {warning}</li>
+						))}
+					</ul>
+					<p className="mt-2 text-xs text-muted-foreground">
+						You can still publish if you'll travel faster than walking pace.
+					</p>
+				</div>
+			)}
+
 			<div className="bg-secondary/10 border border-orange-600 p-4 rounded-lg">
 				<h4 className="font-semibold text-foreground mb-2">⚠️ Important:</h4>
 				<ul className="text-sm text-muted-foreground space-y-1">
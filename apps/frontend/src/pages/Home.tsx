@@ -1,5 +1,7 @@
-import { performanceKeys } from "@/hooks/usePerformances";
-import { api } from "@/utils/api";
+import {
+	fetchNearbyPerformancesPage,
+	performanceKeys,
+} from "@/hooks/usePerformances";
 import {
 	SignInButton,
 	SignUpButton,
@@ -55,20 +57,16 @@ export function Home() {
 						// Only prefetch if not already in cache
 						if (!queryClient.getQueryData(queryKey)) {
 							try {
-								await queryClient.prefetchQuery({
+								await queryClient.prefetchInfiniteQuery({
 									queryKey,
-									queryFn: async () => {
-										const params = new URLSearchParams({
-											lat: latitude.toString(),
-											lng: longitude.toString(),
-											radius: "25",
-										});
-
-										const response = await api.get(
-											`/performances/nearby?${params}`,
-										);
-										return response.data.data;
-									},
+									queryFn: ({ pageParam }) =>
+										fetchNearbyPerformancesPage(
+											{ lat: latitude, lng: longitude },
+											25,
+											{},
+											pageParam,
+										),
+									initialPageParam: null as string | null,
 									staleTime: 1000 * 60 * 5, // 5 minutes
 								});
 
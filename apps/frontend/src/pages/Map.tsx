@@ -6,7 +6,9 @@ import {
 	PerformanceSkeleton,
 } from "@/components/PerformanceSkeleton";
 import { useDebouncedFilters } from "@/hooks/useDebouncedFilters";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { useNearbyPerformances } from "@/hooks/usePerformances";
+import { useLivePerformanceUpdates } from "@/hooks/usePerformanceEvents";
 import {
 	filterPerformancesClientSide,
 	shouldUseClientSideFiltering,
@@ -45,7 +47,13 @@ export function Map() {
 	>(null);
 
 	// Use debounced filters to prevent excessive API calls
-	const { filters, apiFilters, setFilters, isDebouncing } = useDebouncedFilters(
+	const {
+		filters,
+		debouncedFilters,
+		apiFilters,
+		setFilters,
+		isDebouncing,
+	} = useDebouncedFilters(
 		{
 			genre: "all",
 			timeRange: "all",
@@ -57,30 +65,44 @@ export function Map() {
 	// Determine if we should use client-side filtering
 	const useClientSideFiltering = shouldUseClientSideFiltering({
 		genre: filters.genre,
-		popularity: filters.popularity,
 		distance: filters.distance,
 	});
 
+	// Genre is filtered client-side, so it must not narrow the server query
+	const serverFilters = { ...apiFilters, genre: undefined };
+
 	// Fetch nearby performances using real API
 	const {
 		data: nearbyPerformances = [],
 		isLoading: performancesLoading,
 		error: performancesError,
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
 	} = useNearbyPerformances(
 		userLocation
 			? { lat: userLocation[1], lng: userLocation[0] }
 			: { lat: 40.7831, lng: -73.9712 }, // Default NYC
 		useClientSideFiltering ? 25 : filters.distance, // Use max distance for client-side filtering
-		useClientSideFiltering ? {} : apiFilters, // Only send server-side filters
+		useClientSideFiltering ? serverFilters : apiFilters, // Time and popularity are always server-side
 	);
 
+	// Move markers as performers check in to stops or post their position
+	useLivePerformanceUpdates();
+
+	// Page in further performances as the list is scrolled
+	const loadMoreRef = useInfiniteScroll({
+		hasMore: hasNextPage,
+		isLoading: isFetchingNextPage,
+		onLoadMore: fetchNextPage,
+	});
+
 	// Apply client-side filtering if needed
 	const filteredPerformances = useClientSideFiltering
 		? filterPerformancesClientSide(
 				nearbyPerformances,
 				{
 					genre: filters.genre,
-					popularity: filters.popularity,
 					distance: filters.distance,
 				},
 				userLocation || undefined,
@@ -431,8 +453,7 @@ export function Map() {
 				>
 					<MapComponent
 						userLocation={userLocation}
-						performances={performances}
-						filters={filters}
+						filters={debouncedFilters}
 						onPerformanceClick={handlePerformanceClick}
 						onMapRef={(_, panToPerformance) => {
 							setMapPanToPerformance(() => panToPerformance);
@@ -560,6 +581,10 @@ export function Map() {
 												</div>
 											</div>
 										))}
+
+										{/* Loads the next page when scrolled into view */}
+										<div ref={loadMoreRef} />
+										{isFetchingNextPage && <PerformanceSkeleton />}
 									</div>
 								)}
 							</div>
@@ -1,12 +1,18 @@
 import { api } from "@/utils/api";
+import { EarningsExport } from "@/components/EarningsExport";
+import { MyTips } from "@/components/MyTips";
 import { NotificationCenter } from "@/components/NotificationCenter";
+import { TipQrCode } from "@/components/TipQrCode";
+import { useClerkAuthStore } from "@/stores/clerkAuthStore";
 import { useUser } from "@clerk/clerk-react";
 import { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
+import type { CurrencyEarnings } from "@spm/shared-types";
 
 interface Tip {
 	_id: string;
 	amount: number;
+	currency?: string;
 	performanceId: string;
 	performanceTitle: string;
 	fromUserId?: string;
@@ -18,6 +24,7 @@ interface Tip {
 }
 
 interface Earnings {
+	currency?: string;
 	totalAmount: number;
 	totalNet: number;
 	totalFees: number;
@@ -44,11 +51,19 @@ interface Performance {
 
 export function Profile() {
 	const { user, isSignedIn } = useUser();
+	const { user: backendUser } = useClerkAuthStore();
+	const isPerformer = backendUser?.role === "performer";
 	const [tips, setTips] = useState<Tip[]>([]);
 	const [earnings, setEarnings] = useState<Earnings | null>(null);
+	const [otherCurrencies, setOtherCurrencies] = useState<CurrencyEarnings[]>(
+		[],
+	);
 	const [performances, setPerformances] = useState<Performance[]>([]);
 	const [isLoading, setIsLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
+	const [selectedTipsTab, setTipsTab] = useState<"received" | "given">();
+	// The role loads after the first render, so derive the default until a tab is picked
+	const tipsTab = selectedTipsTab ?? (isPerformer ? "received" : "given");
 
 	useEffect(() => {
 		if (isSignedIn && user) {
@@ -63,7 +78,11 @@ export function Profile() {
 
 			// Fetch user's tips and earnings using the api utility
 			const earningsResponse = await api.get("/payments/earnings");
-			setEarnings(earningsResponse.data.data.earnings);
+			// Summary in the main currency, other currencies listed separately
+			const [primary, ...others]: CurrencyEarnings[] =
+				earningsResponse.data.data.byCurrency || [];
+			setEarnings(primary ?? earningsResponse.data.data.earnings);
+			setOtherCurrencies(others);
 			setTips(earningsResponse.data.data.transactions || []);
 
 			// Fetch user performances
@@ -78,10 +97,10 @@ export function Profile() {
 		}
 	};
 
-	const formatCurrency = (amount: number) => {
+	const formatCurrency = (amount: number, currency = "EUR") => {
 		return new Intl.NumberFormat("en-EU", {
 			style: "currency",
-			currency: "EUR",
+			currency,
 		}).format(amount / 100);
 	};
 
@@ -258,13 +277,13 @@ export function Profile() {
 						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
 							<div className="bg-muted/50 rounded-lg p-4">
 								<div className="text-2xl font-bold text-green-400">
-									{formatCurrency(earnings.totalNet || 0)}
+									{formatCurrency(earnings.totalNet || 0, earnings.currency)}
 								</div>
 								<div className="text-sm text-muted-foreground">Net Earnings</div>
 							</div>
 							<div className="bg-muted/50 rounded-lg p-4">
 								<div className="text-2xl font-bold text-blue-400">
-									{formatCurrency(earnings.totalAmount)}
+									{formatCurrency(earnings.totalAmount, earnings.currency)}
 								</div>
 								<div className="text-sm text-muted-foreground">Total Tips</div>
 							</div>
@@ -278,25 +297,77 @@ export function Profile() {
 						<div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
 							<div className="bg-muted/50 rounded-lg p-4">
 								<div className="text-lg font-semibold text-yellow-400">
-									{formatCurrency(earnings.averageAmount || 0)}
+									{formatCurrency(earnings.averageAmount || 0, earnings.currency)}
 								</div>
 								<div className="text-sm text-muted-foreground">Average Tip</div>
 							</div>
 							<div className="bg-muted/50 rounded-lg p-4">
 								<div className="text-lg font-semibold text-red-400">
-									{formatCurrency(earnings.totalFees || 0)}
+									{formatCurrency(earnings.totalFees || 0, earnings.currency)}
 								</div>
 								<div className="text-sm text-muted-foreground">Processing Fees</div>
 							</div>
 						</div>
+						{otherCurrencies.length > 0 && (
+							<div className="mt-4 bg-muted/50 rounded-lg p-4">
+								<div className="text-sm font-semibold text-foreground mb-2">
+									Other currencies
+								</div>
+								{otherCurrencies.map((other) => (
+									<div
+										key={other.currency}
+										className="flex justify-between text-sm text-muted-foreground"
+									>
+										<span>
+											{other.transactionCount} tips in {other.currency}
+										</span>
+										<span className="text-green-400">
+											{formatCurrency(other.totalNet, other.currency)} net
+										</span>
+									</div>
+								))}
+							</div>
+						)}
 					</div>
 				) : null}
 
+				{/* Earnings Export */}
+				{isPerformer && (
+					<div className="bg-card rounded-lg p-6 mb-8 border border-border">
+						<h2 className="text-xl font-bold text-foreground mb-6">
+							📄 Earnings Export
+						</h2>
+						<EarningsExport />
+					</div>
+				)}
+
 				{/* Tips History */}
 				<div className="bg-card rounded-lg p-6 border border-border">
-					<h2 className="text-xl font-bold text-foreground mb-6">🎭 Recent Tips</h2>
+					<div className="flex flex-wrap gap-2 mb-6">
+						{(
+							[
+								["received", "🎭 Recent Tips"],
+								["given", "🎁 My Tips"],
+							] as const
+						).map(([tab, label]) => (
+							<button
+								key={tab}
+								type="button"
+								onClick={() => setTipsTab(tab)}
+								className={`text-xl font-bold px-3 py-1 rounded-lg transition-colors ${
+									tipsTab === tab
+										? "bg-muted text-foreground"
+										: "text-muted-foreground hover:text-foreground"
+								}`}
+							>
+								{label}
+							</button>
+						))}
+					</div>
 
-					{isLoading ? (
+					{tipsTab === "given" ? (
+						<MyTips />
+					) : isLoading ? (
 						<div className="space-y-4">
 							{Array.from({ length: 3 }).map((_, i) => (
 								<div key={i} className="animate-pulse">
@@ -328,7 +399,7 @@ export function Profile() {
 										<div className="flex-1">
 											<div className="flex items-center space-x-3 mb-2">
 												<span className="text-lg font-bold text-green-400">
-													{formatCurrency(tip.amount)}
+													{formatCurrency(tip.amount, tip.currency)}
 												</span>
 												<span
 													className={`px-2 py-1 rounded-full text-xs font-medium ${
@@ -367,6 +438,20 @@ export function Profile() {
 					)}
 				</div>
 
+				{/* Tip QR Code */}
+				{isPerformer && (
+					<div className="bg-card rounded-lg p-6 mb-8 border border-border">
+						<h2 className="text-xl font-bold text-foreground mb-2">
+							📱 Tip QR Code
+						</h2>
+						<p className="text-sm text-muted-foreground mb-4">
+							Print it or show it on your phone: the crowd scans it and tips
+							your current performance, no app or map needed.
+						</p>
+						<TipQrCode label="Get my tip QR code" />
+					</div>
+				)}
+
 				{/* My Performances */}
 				<div className="bg-card rounded-lg p-6 border border-border">
 					<div className="flex justify-between items-center mb-6">
@@ -447,6 +532,16 @@ export function Profile() {
 											<div className="text-xs text-muted-foreground mt-2">
 												{formatDate(performance.startTime)}
 											</div>
+											{isPerformer &&
+												(performance.status === "scheduled" ||
+													performance.status === "live") && (
+													<div className="mt-3">
+														<TipQrCode
+															performanceId={performance._id}
+															label="QR code for this performance"
+														/>
+													</div>
+												)}
 										</div>
 									</div>
 								</div>
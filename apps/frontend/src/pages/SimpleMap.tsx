@@ -1,6 +1,7 @@
 import { GoogleMap } from "@/components/GoogleMap";
 import { PerformanceDetailModal } from "@/components/PerformanceDetailModal";
 import { useGeolocation } from "@/hooks/useGeolocation";
+import { useLivePerformanceUpdates } from "@/hooks/usePerformanceEvents";
 import {
 	useLikePerformance,
 	useNearbyPerformances,
@@ -42,6 +43,7 @@ export function SimpleMap() {
 		genre: selectedGenre === "all" ? undefined : selectedGenre,
 		search: searchTerm || undefined,
 	});
+	useLivePerformanceUpdates();
 
 	// Debug logging
 	console.log("Filter state:", { selectedGenre, searchTerm });
@@ -0,0 +1,110 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useUser } from "@clerk/clerk-react";
+import { useState } from "react";
+import { api } from "@/utils/api";
+import { TipModal } from "@/components/TipModal";
+import type { TipLinkTarget } from "@spm/shared-types";
+
+/**
+ * Landing page of a scanned tip QR code (/t/:code). Deliberately light: no
+ * map, no navigation, just the performer and a tip button.
+ */
+export function TipPage() {
+	const { code } = useParams<{ code: string }>();
+	const [showTipModal, setShowTipModal] = useState(false);
+	const { isSignedIn } = useUser();
+
+	const { data: target, isLoading, isError } = useQuery<TipLinkTarget>({
+		queryKey: ["tip-link", code],
+		queryFn: async () => {
+			const response = await api.get(`/payments/tip-links/${code}`);
+			return response.data.data;
+		},
+		enabled: !!code,
+		retry: false,
+	});
+
+	if (isLoading) {
+		return (
+			<div className="min-h-screen bg-background flex items-center justify-center">
+				<div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+			</div>
+		);
+	}
+
+	if (isError || !target) {
+		return (
+			<div className="min-h-screen bg-background flex items-center justify-center p-6">
+				<div className="text-center">
+					<div className="text-4xl mb-4">🤷</div>
+					<h1 className="text-xl font-bold text-foreground mb-2">
+						Tip link not found
+					</h1>
+					<p className="text-muted-foreground">
+						This QR code is no longer valid. Ask the performer for a new one.
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	const { performer, performance } = target;
+
+	return (
+		<div className="min-h-screen bg-background flex items-center justify-center p-6">
+			<div className="w-full max-w-sm bg-card border border-border rounded-2xl p-6 text-center shadow-lg">
+				{performer.avatar ? (
+					<img
+						src={performer.avatar}
+						alt={performer.displayName}
+						className="w-24 h-24 rounded-full object-cover mx-auto mb-4"
+					/>
+				) : (
+					<div className="w-24 h-24 rounded-full bg-muted flex items-center justify-center text-4xl mx-auto mb-4">
+						🎵
+					</div>
+				)}
+				<h1 className="text-2xl font-bold text-foreground">
+					{performer.displayName}
+				</h1>
+
+				{performance ? (
+					<>
+						<p className="mt-2 text-foreground">{performance.title}</p>
+						<p className="text-sm text-muted-foreground capitalize">
+							{performance.status === "live" ? "🔴 Live now" : "Coming up"} ·{" "}
+							{performance.genre}
+						</p>
+						<button
+							type="button"
+							onClick={() => setShowTipModal(true)}
+							className="mt-6 w-full py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-xl transition-colors"
+						>
+							💰 Tip {performer.displayName}
+						</button>
+						{!isSignedIn && (
+							<p className="mt-2 text-xs text-muted-foreground">
+								No account needed to tip
+							</p>
+						)}
+					</>
+				) : (
+					<p className="mt-4 text-muted-foreground">
+						No performance is live or scheduled right now. Check back soon!
+					</p>
+				)}
+			</div>
+
+			{performance && (
+				<TipModal
+					isOpen={showTipModal}
+					onClose={() => setShowTipModal(false)}
+					performanceId={performance._id}
+					performerId={performer._id}
+					performerName={performer.displayName}
+				/>
+			)}
+		</div>
+	);
+}
@@ -48,18 +48,26 @@ class NotificationService {
 	private reconnectAttempts = 0;
 	private maxReconnectAttempts = 5;
 	private reconnectDelay = 1000;
+	private joinedPerformances = new Set<string>();
+	private eventHandlers = new Map<string, Set<(payload: unknown) => void>>();
 
 	constructor() {
 		this.loadFromStorage();
 	}
 
-	// Initialize Socket.io connection for real-time notifications
-	connect(userId: string) {
+	// Initialize Socket.io connection for real-time notifications.
+	// The backend authenticates the handshake with the API JWT and joins the
+	// socket to the user's room; without a token only performance rooms work.
+	connect(token?: string) {
 		const serverUrl = import.meta.env.VITE_API_URL?.replace('/api/v1', '') || 'http://localhost:3001';
 
+		if (this.socket) {
+			this.socket.disconnect();
+		}
+
 		try {
 			this.socket = io(serverUrl, {
-				query: { userId },
+				auth: token ? { token } : {},
 				transports: ['websocket', 'polling'],
 				autoConnect: true,
 			});
@@ -67,19 +75,31 @@ class NotificationService {
 			this.socket.on('connect', () => {
 				console.log('🔔 Notifications Socket.io connected');
 				this.reconnectAttempts = 0;
+				// Rejoin rooms after a reconnect
+				this.joinedPerformances.forEach(id => this.socket?.emit('performance:join', id));
 			});
 
 			this.socket.on('notification', (notification: Notification) => {
 				try {
-					this.addNotification(notification);
+					this.addNotification({
+						...notification,
+						timestamp: new Date(notification.timestamp),
+					});
 				} catch (error) {
 					console.error('Failed to process notification:', error);
 				}
 			});
 
-			this.socket.on('disconnect', () => {
+			this.eventHandlers.forEach((handlers, event) => {
+				handlers.forEach(handler => this.socket?.on(event, handler));
+			});
+
+			this.socket.on('disconnect', (reason) => {
 				console.log('🔔 Notifications Socket.io disconnected');
-				this.attemptReconnect(userId);
+				// Client-initiated disconnects should stay disconnected
+				if (reason !== 'io client disconnect') {
+					this.attemptReconnect(token);
+				}
 			});
 
 			this.socket.on('connect_error', (error) => {
@@ -91,14 +111,14 @@ class NotificationService {
 		}
 	}
 
-	private attemptReconnect(userId: string) {
+	private attemptReconnect(token?: string) {
 		if (this.reconnectAttempts < this.maxReconnectAttempts) {
 			this.reconnectAttempts++;
 			const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
 			
 			setTimeout(() => {
 				console.log(`🔔 Attempting to reconnect... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-				this.connect(userId);
+				this.connect(token);
 			}, delay);
 		}
 	}
@@ -110,6 +130,35 @@ class NotificationService {
 		}
 	}
 
+	isConnected(): boolean {
+		return !!this.socket;
+	}
+
+	// Receive live events (tips, likes, status changes) for a single performance
+	joinPerformance(performanceId: string) {
+		this.joinedPerformances.add(performanceId);
+		this.socket?.emit('performance:join', performanceId);
+	}
+
+	leavePerformance(performanceId: string) {
+		this.joinedPerformances.delete(performanceId);
+		this.socket?.emit('performance:leave', performanceId);
+	}
+
+	// Subscribe to a raw socket event such as 'performance-update' or 'tip-received'
+	onEvent<T = unknown>(event: string, handler: (payload: T) => void) {
+		const wrapped = handler as (payload: unknown) => void;
+		const handlers = this.eventHandlers.get(event) || new Set();
+		handlers.add(wrapped);
+		this.eventHandlers.set(event, handlers);
+		this.socket?.on(event, wrapped);
+
+		return () => {
+			handlers.delete(wrapped);
+			this.socket?.off(event, wrapped);
+		};
+	}
+
 	// Add notification and trigger listeners
 	private addNotification(notification: Notification) {
 		this.notifications.unshift(notification);
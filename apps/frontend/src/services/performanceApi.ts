@@ -1,5 +1,5 @@
 import { ApiClient, api } from "@/utils/api";
-import type { Performance } from "@spm/shared-types";
+import type { NearbyPerformance, Performance } from "@spm/shared-types";
 
 export interface GetNearbyPerformancesParams {
 	lat: number;
@@ -7,6 +7,8 @@ export interface GetNearbyPerformancesParams {
 	radius?: number; // in km, default 10
 	genre?: string;
 	status?: "scheduled" | "live" | "completed";
+	cursor?: string; // nextCursor of the previous page
+	limit?: number;
 }
 
 export interface CreatePerformanceData {
@@ -28,20 +30,22 @@ export interface CreatePerformanceData {
 
 export class PerformanceApiService {
 	/**
-	 * Get nearby performances
+	 * Get a page of nearby performances, nearest first
 	 */
 	static async getNearbyPerformances(
 		params: GetNearbyPerformancesParams,
-	): Promise<Performance[]> {
+	): Promise<NearbyPerformance[]> {
 		const queryParams = new URLSearchParams({
 			lat: params.lat.toString(),
 			lng: params.lng.toString(),
 			radius: (params.radius || 10).toString(),
 			...(params.genre && { genre: params.genre }),
 			...(params.status && { status: params.status }),
+			...(params.cursor && { cursor: params.cursor }),
+			...(params.limit && { limit: params.limit.toString() }),
 		});
 
-		return ApiClient.call<Performance[]>(
+		return ApiClient.call<NearbyPerformance[]>(
 			api.get(`/performances/nearby?${queryParams}`),
 		);
 	}
@@ -1,4 +1,8 @@
-import type { ApiResponse } from "@spm/shared-types";
+import {
+	ApiError,
+	type ApiErrorBody,
+	type ApiResponse,
+} from "@spm/shared-types";
 import axios, { type AxiosInstance, type AxiosError } from "axios";
 
 // Create axios instance
@@ -17,26 +21,56 @@ api.interceptors.request.use(
 		if (token) {
 			config.headers.Authorization = `Bearer ${token}`;
 		}
+		// Lets the API bucket views, likes and tips by the audience's timezone
+		config.headers["X-Timezone"] =
+			Intl.DateTimeFormat().resolvedOptions().timeZone;
 		return config;
 	},
 	(error) => Promise.reject(error),
 );
 
+/**
+ * The structured error sent by the API, if the request failed with one
+ */
+export function getApiError(error: unknown): ApiErrorBody | undefined {
+	if (!axios.isAxiosError(error)) return undefined;
+	const body = (error.response?.data as ApiResponse<never> | undefined)?.error;
+	return body && typeof body === "object" && "code" in body ? body : undefined;
+}
+
+/**
+ * Message to show for a failed request
+ */
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+	return getApiError(error)?.message ?? fallback;
+}
+
 // Response interceptor to handle errors
 api.interceptors.response.use(
 	(response) => response,
 	(error: AxiosError) => {
-		// Handle 401 errors by clearing token and redirecting to login
-		if (error.response?.status === 401) {
-			localStorage.removeItem("auth-token");
-			localStorage.removeItem("user");
-			window.location.href = "/login";
-		}
-
 		// Handle network errors
 		if (!error.response) {
 			// Network error - could be logged to external service
 			// console.error('Network error:', error.message);
+			return Promise.reject(error);
+		}
+
+		switch (getApiError(error)?.code) {
+			case "AUTHENTICATION_ERROR":
+				// Session expired or invalid: clear token and redirect to login
+				localStorage.removeItem("auth-token");
+				localStorage.removeItem("user");
+				window.location.href = "/login";
+				break;
+			case "INTERNAL_SERVER_ERROR":
+			case "SERVICE_UNAVAILABLE":
+				// Quote the request id when reporting these
+				console.error(
+					`API error ${error.response.status}`,
+					getApiError(error)?.requestId,
+				);
+				break;
 		}
 
 		return Promise.reject(error);
@@ -52,14 +86,26 @@ export class ApiClient {
 			const data: ApiResponse<T> = response.data;
 
 			if (!data.success) {
-				throw new Error(data.error?.message || "API call failed");
+				throw new ApiError(
+					200,
+					data.error?.message || "API call failed",
+					data.error?.code,
+					data.error?.details,
+					data.error?.requestId,
+				);
 			}
 
 			return data.data!;
 		} catch (error) {
 			if (axios.isAxiosError(error)) {
-				const apiError = error.response?.data as ApiResponse<never>;
-				throw new Error(apiError?.error?.message || error.message);
+				const body = getApiError(error);
+				throw new ApiError(
+					error.response?.status ?? 0,
+					body?.message || error.message,
+					body?.code,
+					body?.details,
+					body?.requestId,
+				);
 			}
 			throw error;
 		}
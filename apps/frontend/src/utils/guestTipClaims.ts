@@ -0,0 +1,32 @@
+// Claim tokens of tips sent while signed out, redeemed after signing in
+const STORAGE_KEY = "guest-tip-claims";
+
+// Matches the backend's per-request limit
+export const MAX_CLAIMS_PER_REQUEST = 50;
+
+export const getGuestTipClaims = (): string[] => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+		return Array.isArray(stored) ? stored : [];
+	} catch {
+		return [];
+	}
+};
+
+export const saveGuestTipClaim = (claimToken: string): void => {
+	const claims = getGuestTipClaims();
+	if (!claims.includes(claimToken)) {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify([...claims, claimToken]));
+	}
+};
+
+export const removeGuestTipClaims = (claimTokens: string[]): void => {
+	const remaining = getGuestTipClaims().filter(
+		(token) => !claimTokens.includes(token),
+	);
+	if (remaining.length > 0) {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+	} else {
+		localStorage.removeItem(STORAGE_KEY);
+	}
+};
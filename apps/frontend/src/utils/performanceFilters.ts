@@ -1,8 +1,8 @@
 import type { Performance } from "@spm/shared-types";
 
+// Popularity is ranked server-side, see the nearby query's popularity param
 export interface ClientSideFilters {
 	genre?: string;
-	popularity?: string;
 	distance?: number;
 }
 
@@ -18,27 +18,6 @@ export function filterPerformancesClientSide(
 		filtered = filtered.filter((perf) => perf.genre === filters.genre);
 	}
 
-	// Filter by popularity (client-side)
-	if (filters.popularity && filters.popularity !== "all") {
-		switch (filters.popularity) {
-			case "trending":
-				filtered = filtered.filter((perf) => perf.engagement.likes >= 10);
-				break;
-			case "popular":
-				filtered = filtered.filter((perf) => perf.engagement.likes >= 5);
-				break;
-			case "new":
-				filtered = filtered.filter((perf) => {
-					const created = new Date(perf.createdAt);
-					const now = new Date();
-					const hoursDiff =
-						(now.getTime() - created.getTime()) / (1000 * 60 * 60);
-					return hoursDiff <= 24; // Created within last 24 hours
-				});
-				break;
-		}
-	}
-
 	// Filter by distance (client-side if user location is available)
 	if (filters.distance && userLocation && filters.distance < 25) {
 		filtered = filtered.filter((perf) => {
@@ -90,7 +69,6 @@ export function shouldUseClientSideFiltering(
 	return Boolean(
 		!hasComplexFilters &&
 			((filters.genre && filters.genre !== "all") ||
-				(filters.popularity && filters.popularity !== "all") ||
 				(filters.distance && filters.distance < 25)),
 	);
 }
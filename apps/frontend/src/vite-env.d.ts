@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
 	readonly VITE_GOOGLE_MAPS_API_KEY: string;
+	readonly VITE_TURNSTILE_SITE_KEY?: string; // Bot check for guest tips
 	// more env variables...
 }
 
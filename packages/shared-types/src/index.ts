@@ -3,13 +3,14 @@ export interface User {
 	_id: string;
 	email: string;
 	username: string;
-	role: "performer" | "audience";
+	role: UserRole;
 	profile: UserProfile;
 	location: UserLocation;
 	preferences: UserPreferences;
 	statistics: UserStatistics;
 	stripe?: UserStripeInfo;
 	onboarding?: UserOnboarding;
+	moderation?: UserModeration;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -41,7 +42,14 @@ export interface UserPreferences {
 export interface UserStatistics {
 	totalLikes: number;
 	totalTips: number;
+	totalEarnings?: number; // Net earnings in cents
 	performanceCount: number;
+	followerCount?: number;
+}
+
+export interface FollowStatus {
+	following: boolean;
+	followerCount: number;
 }
 
 export interface UserStripeInfo {
@@ -62,6 +70,12 @@ export interface UserOnboarding {
 	emailVerified: boolean;
 }
 
+export interface UserModeration {
+	status: "active" | "suspended";
+	reason?: string;
+	updatedAt?: Date;
+}
+
 // Performance Types
 export interface Performance {
 	_id: string;
@@ -74,11 +88,71 @@ export interface Performance {
 	videoThumbnail?: string; // Video thumbnail URL
 	engagement: PerformanceEngagement;
 	status: "scheduled" | "live" | "completed" | "cancelled";
+	moderation?: PerformanceModeration;
 	scheduledFor: Date;
 	createdAt: Date;
-	expiresAt: Date; // Auto-delete after 24 hours
+	expiresAt: Date; // Archived (hidden from the map) after this time
+	archivedAt?: Date; // Set once archived; the record is kept for history
+	livePosition?: LivePosition; // Last GPS position posted by the performer
+	tipGoal?: TipGoal; // What the performer is collecting tips for
+	// Set on occurrences generated from a recurring schedule
+	scheduleId?: string;
+	occurrenceDate?: string; // YYYY-MM-DD in the schedule's timezone
+	detachedFromSchedule?: boolean; // Edited individually; series edits skip it
+}
+
+export interface PerformanceModeration {
+	status: "visible" | "hidden";
+	reason?: string;
+	updatedAt?: Date;
+}
+
+// Recurring schedule Types
+export interface RecurrenceRule {
+	frequency: "daily" | "weekly";
+	interval: number; // Every N days/weeks
+	daysOfWeek?: number[]; // 0 (Sunday) - 6, weekly only
+	startDate: string; // YYYY-MM-DD
+	endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ScheduleStopTemplate {
+	location: Location;
+	startTime: string; // HH:mm local time
+	endTime: string; // HH:mm local time (earlier than startTime = next day)
+}
+
+export interface PerformanceSchedule {
+	_id: string;
+	performerId: string;
+	title: string;
+	description?: string;
+	genre: string;
+	videoUrl?: string;
+	videoThumbnail?: string;
+	stops: ScheduleStopTemplate[];
+	timezone: string; // IANA timezone the stop times are in
+	recurrence: RecurrenceRule;
+	exceptions: string[]; // Skipped occurrence dates (YYYY-MM-DD)
+	status: "active" | "cancelled";
+	createdAt: Date;
+	updatedAt: Date;
 }
 
+export interface CreatePerformanceScheduleDto {
+	title: string;
+	description?: string;
+	genre: string;
+	videoUrl?: string;
+	videoThumbnail?: string;
+	stops: ScheduleStopTemplate[];
+	timezone: string;
+	recurrence: RecurrenceRule;
+}
+
+export type UpdatePerformanceScheduleDto =
+	Partial<CreatePerformanceScheduleDto>;
+
 export interface PerformanceRoute {
 	stops: PerformanceStop[];
 }
@@ -93,6 +167,33 @@ export interface PerformanceStop {
 	endTime: Date;
 	status: "scheduled" | "active" | "completed" | "cancelled";
 	scheduledTime?: string;
+	checkedInAt?: Date; // When the performer actually arrived
+	completedAt?: Date; // When the performer left or skipped it
+}
+
+export interface LivePosition {
+	coordinates: [number, number]; // [lng, lat]
+	accuracy?: number; // metres
+	updatedAt: Date;
+}
+
+// Tip goal in the performer's settlement currency (amount in minor units)
+export interface TipGoal {
+	amount: number;
+	currency: CurrencyCode;
+	description?: string; // e.g. "A new amp"
+	reachedAt?: Date; // Set once when tips first reach the amount
+}
+
+// PUT /performances/:id/goal (amount in major units)
+export interface SetTipGoalDto {
+	amount: number;
+	description?: string;
+}
+
+export interface TipGoalProgress extends TipGoal {
+	raised: number; // Completed tips minus refunds, minor units
+	percent: number; // 0-100, capped
 }
 
 export interface PerformanceEngagement {
@@ -106,23 +207,35 @@ export interface PerformanceEngagement {
 export interface ApiResponse<T> {
 	success: boolean;
 	data?: T;
-	error?: {
-		message: string;
-		code?: string;
-	};
+	error?: ApiErrorBody;
 	meta?: {
 		pagination?: PaginationMeta;
 		timestamp: string;
 	};
 }
 
-export interface PaginationMeta {
+export interface PagePaginationMeta {
 	page: number;
 	limit: number;
 	total: number;
 	pages: number;
 }
 
+// Pass nextCursor back as ?cursor= to get the following page
+export interface CursorPaginationMeta {
+	limit: number;
+	nextCursor: string | null;
+	hasMore: boolean;
+}
+
+export type PaginationMeta = PagePaginationMeta | CursorPaginationMeta;
+
+// One page of a cursor-paginated listing
+export interface CursorPage<T> {
+	items: T[];
+	pagination: CursorPaginationMeta;
+}
+
 // Authentication Types
 export interface AuthResponse {
 	user: User;
@@ -148,19 +261,49 @@ export interface UserWithPassword extends Omit<User, "_id"> {
 }
 
 // Search and Filter Types
+// "custom" takes from/to: ISO datetimes, or "YYYY-MM-DDTHH:mm" in the viewer's timezone
+export type TimeRangeFilter = "now" | "hour" | "today" | "custom";
+
+// Orders by recent activity, all-time likes or newest; "trending" also drops quiet ones
+export type Popularity = "trending" | "popular" | "new";
+
 export interface SearchFilters {
+	query?: string; // Free text matched against titles, descriptions, venues and performers
 	genre?: string;
-	timeRange?: "now" | "hour" | "today" | "custom";
+	timeRange?: TimeRangeFilter;
+	from?: string;
+	to?: string;
 	distance?: number;
-	popularity?: "trending" | "popular" | "new";
+	popularity?: Popularity;
 	location?: {
 		coordinates: [number, number];
 		radius: number;
 	};
 }
 
+export interface NearbyPerformance extends Performance {
+	distance: number; // km from the searched point to the nearest stop
+}
+
+export interface NearbyUser extends User {
+	distance: number; // km from the searched point
+}
+
+export interface PerformanceSearchHit extends Performance {
+	relevance: number; // Combined text and distance score, higher is better
+	distance?: number; // km from the search location to the nearest stop
+}
+
+export interface PerformerSearchHit {
+	_id: string;
+	username: string;
+	profile: Pick<UserProfile, "displayName" | "bio" | "avatar" | "genres">;
+	relevance: number;
+}
+
 export interface SearchResults {
-	performances: Performance[];
+	performances: PerformanceSearchHit[];
+	performers: PerformerSearchHit[];
 	total: number;
 	filters: SearchFilters;
 }
@@ -178,6 +321,150 @@ export interface MapMarker {
 	performance: Performance;
 }
 
+// Visible map area in degrees; west > east when it crosses the antimeridian
+export interface MapBounds {
+	west: number;
+	south: number;
+	east: number;
+	north: number;
+}
+
+// Performances close together at the current zoom, drawn as one marker
+export interface MapCluster {
+	id: string;
+	position: {
+		lat: number;
+		lng: number;
+	};
+	type: "cluster";
+	status: MapMarker["status"]; // Most urgent status of its performances
+	popularity: number; // Sum of its performances' likes
+	count: number;
+	liveCount: number;
+	bounds: MapBounds; // Zoom the map to this to see its performances
+	expansionZoom: number; // First zoom at which it splits up
+}
+
+export type MapFeature = MapMarker | MapCluster;
+
+export interface MapViewport {
+	features: MapFeature[];
+	total: number; // Performances in the area
+	clustered: boolean; // False once zoomed in enough for individual markers
+	truncated: boolean; // More performances than a single query returns
+}
+
+// Payment Types
+// Tip limits and quick-pick amounts in a settlement currency (major units)
+export interface TipCurrencyConfig {
+	currency: CurrencyCode;
+	minAmount: number;
+	maxAmount: number;
+	suggestedAmounts: number[];
+}
+
+// GET /payments/config
+export interface PaymentConfig extends TipCurrencyConfig {
+	// Estimated card and platform fee for the tipper's region, fixed part in major units
+	fee: {
+		percent: number; // e.g. 0.015 = 1.5%
+		fixed: number;
+	};
+	paymentMethods: string[];
+	isConfigured: boolean;
+	displayCurrency: CurrencyCode; // Tipper's local currency, for display only
+	exchangeRate: number; // One unit of `currency` in `displayCurrency`
+}
+
+// Short tip URL for a performer or one of their performances (/t/:code)
+export interface TipLink {
+	code: string;
+	url: string;
+	performanceId?: string; // Unset for the performer's own link
+}
+
+// GET /payments/tip-links/:code - what a scanned QR code opens
+export interface TipLinkTarget {
+	code: string;
+	performer: {
+		_id: string;
+		displayName: string;
+		avatar?: string;
+	};
+	// Performance to tip, null when nothing is live or scheduled
+	performance: Pick<
+		Performance,
+		"_id" | "title" | "genre" | "status" | "scheduledFor"
+	> | null;
+}
+
+// Performer earnings in one currency (amounts in minor units)
+export interface CurrencyEarnings {
+	currency: CurrencyCode;
+	totalAmount: number;
+	totalNet: number;
+	totalFees: number;
+	transactionCount: number;
+	averageAmount: number;
+}
+
+// Gross, refunds, fees and net of a set of tips (minor units)
+export interface EarningsTotals {
+	gross: number;
+	refunded: number;
+	fees: number; // Stripe and platform fees
+	net: number; // What the performer keeps after refunds
+}
+
+// Tax years follow the rules of the performer's country
+export type TaxJurisdiction = "ES" | "GB" | "OTHER";
+
+// GET /payments/earnings/report?year= - yearly summary for tax filing
+export interface EarningsTaxReport {
+	jurisdiction: TaxJurisdiction;
+	period: {
+		label: string; // "2024" or "2024/25" for the UK
+		start: string; // ISO instants, end exclusive
+		end: string;
+		timezone: string;
+	};
+	reportingCurrency: CurrencyCode;
+	byCurrency: (EarningsTotals & { currency: CurrencyCode; tipCount: number })[];
+	// Converted to reportingCurrency; an estimate when tips came in other currencies
+	totals: EarningsTotals & { tipCount: number; converted: boolean };
+	months: (EarningsTotals & { month: string })[]; // "2024-04", reportingCurrency
+	notes: string[];
+}
+
+// Performer as shown next to a tip they received
+export interface TippedPerformer {
+	_id: string;
+	displayName: string;
+	avatar?: string;
+}
+
+// GET /payments/my-tips - one tip the signed-in user gave (minor units)
+export interface TipperTip {
+	_id: string;
+	amount: number;
+	refundedAmount: number;
+	currency: CurrencyCode;
+	status: "pending" | "processing" | "completed" | "failed" | "refunded";
+	isAnonymous: boolean;
+	publicMessage?: string;
+	createdAt: Date;
+	performer: TippedPerformer;
+	performance: Pick<Performance, "_id" | "title"> | null; // Null once deleted
+}
+
+// GET /payments/my-tips/performers - completed tips grouped by performer
+export interface TipperPerformerSummary {
+	performer: TippedPerformer;
+	tipCount: number;
+	totals: { currency: CurrencyCode; amount: number }[]; // Net of refunds
+	lastTippedAt: Date;
+}
+
 // WebSocket Event Types
 export interface WebSocketEvent {
 	type: string;
@@ -192,15 +479,106 @@ export interface PerformanceUpdateEvent extends WebSocketEvent {
 		status: Performance["status"];
 		location?: [number, number];
 		engagement: PerformanceEngagement;
+		currentStopIndex?: number;
+		stopStatuses?: PerformanceStop["status"][];
+		livePosition?: LivePosition;
+	};
+}
+
+export interface TipReceivedEvent extends WebSocketEvent {
+	type: "tip-received";
+	data: {
+		performanceId: string;
+		amount: number; // cents
+		currency: string;
+		isAnonymous: boolean;
+		publicMessage?: string;
+	};
+}
+
+export interface TipGoalProgressEvent extends WebSocketEvent {
+	type: "tip-goal-progress";
+	data: {
+		performanceId: string;
+		goal: TipGoalProgress | null; // null when the goal was removed
+	};
+}
+
+// Sent once per goal, when tips first reach it
+export interface TipGoalReachedEvent extends WebSocketEvent {
+	type: "tip-goal-reached";
+	data: {
+		performanceId: string;
+		goal: TipGoalProgress;
 	};
 }
 
+export type RealtimeNotificationType =
+	| "tip"
+	| "like"
+	| "view"
+	| "performance"
+	| "system";
+
+// Payload of the "notification" socket event sent to a user's room
+export interface RealtimeNotification {
+	id: string;
+	type: RealtimeNotificationType;
+	title: string;
+	message: string;
+	timestamp: string;
+	read: boolean;
+	data?: Record<string, unknown>;
+}
+
 // Error Types
+export const API_ERROR_CODES = [
+	"BAD_REQUEST",
+	"VALIDATION_ERROR",
+	"AUTHENTICATION_ERROR",
+	"AUTHORIZATION_ERROR",
+	"NOT_FOUND_ERROR",
+	"ROUTE_NOT_FOUND",
+	"CONFLICT_ERROR",
+	"PAYLOAD_TOO_LARGE",
+	"RATE_LIMIT_ERROR",
+	"PAYMENT_ERROR", // The tipper's payment was declined
+	"PAYMENT_PROVIDER_ERROR", // Stripe failed or rejected our request
+	"INVALID_IDEMPOTENCY_KEY",
+	"IDEMPOTENCY_KEY_IN_USE",
+	"IDEMPOTENCY_KEY_REUSED",
+	"BOT_DETECTED",
+	"CAPTCHA_REQUIRED",
+	"CAPTCHA_FAILED",
+	"CAPTCHA_UNAVAILABLE",
+	"SERVICE_UNAVAILABLE",
+	"INTERNAL_SERVER_ERROR",
+] as const;
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// What went wrong with one field or part of a request
+export interface ApiErrorDetail {
+	field?: string;
+	message: string;
+	code?: string; // e.g. Stripe's decline code
+}
+
+// `error` of every failed API response
+export interface ApiErrorBody {
+	code: ApiErrorCode;
+	message: string;
+	details?: ApiErrorDetail[];
+	requestId: string; // Also sent as the X-Request-Id header
+	stack?: string; // Development only
+}
+
 export class ApiError extends Error {
 	constructor(
 		public statusCode: number,
 		public message: string,
-		public code?: string,
+		public code?: ApiErrorCode,
+		public details?: ApiErrorDetail[],
+		public requestId?: string,
 	) {
 		super(message);
 		this.name = "ApiError";
@@ -245,12 +623,35 @@ export interface UpdatePerformanceDto extends Partial<CreatePerformanceDto> {
 // Alias for CreatePerformanceDto
 export type CreatePerformanceData = CreatePerformanceDto;
 
+// Route planning: the walk from the end of one stop to the start of the next
+export interface RouteLeg {
+	fromStop: number; // Index into route.stops
+	toStop: number;
+	distanceKm: number; // Straight line
+	walkingDistanceKm: number; // Estimated along streets
+	walkingMinutes: number;
+	gapMinutes: number; // Time between the two stops
+	feasible: boolean;
+}
+
+export interface RoutePlan {
+	legs: RouteLeg[];
+	totalWalkingDistanceKm: number;
+	totalWalkingMinutes: number;
+	warnings: string[]; // One per infeasible leg
+}
+
+export type PlanRouteDto = Pick<CreatePerformanceDto, "route">;
+
 // Filter types
 export interface PerformanceFilters {
 	genre?: string;
 	search?: string;
 	status?: Performance["status"];
-	timeRange?: "now" | "hour" | "today" | "all";
+	timeRange?: TimeRangeFilter | "all";
+	from?: string; // With timeRange "custom"
+	to?: string;
+	popularity?: Popularity;
 	location?: {
 		lat: number;
 		lng: number;
@@ -284,9 +685,22 @@ export const PERFORMANCE_STATUS = [
 
 export type PerformanceStatus = (typeof PERFORMANCE_STATUS)[number];
 
-export const USER_ROLES = ["performer", "audience"] as const;
+export const USER_ROLES = [
+	"performer",
+	"audience",
+	"moderator",
+	"admin",
+] as const;
 export type UserRole = (typeof USER_ROLES)[number];
 
+// Currencies tips can be settled in
+export const CURRENCIES = ["EUR", "USD", "GBP"] as const;
+export type CurrencyCode = (typeof CURRENCIES)[number];
+
+// Roles allowed to use the moderation console
+export const STAFF_ROLES = ["moderator", "admin"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
 // Video Types
 export interface Video {
 	_id: string;